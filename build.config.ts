@@ -6,15 +6,32 @@ export default defineBuildConfig({
       type: "bundle",
       input: [
         "./src/index.ts",
+        "./src/argon2.ts",
+        "./src/bcrypt.ts",
+        "./src/blake.ts",
+        "./src/chacha.ts",
         "./src/compare.ts",
+        "./src/ecdh.ts",
+        "./src/encrypt.ts",
         "./src/entropy.ts",
         "./src/generate.ts",
         "./src/hash.ts",
         "./src/hkdf.ts",
         "./src/hmac.ts",
+        "./src/hpke.ts",
+        "./src/jwks.ts",
+        "./src/jwt.ts",
+        "./src/keyring.ts",
+        "./src/keys.ts",
         "./src/otp.ts",
+        "./src/password.ts",
+        "./src/qr.ts",
         "./src/random.ts",
         "./src/sanitize.ts",
+        "./src/scrypt.ts",
+        "./src/sign.ts",
+        "./src/siv.ts",
+        "./src/stream.ts",
         "./src/uuid.ts",
         "./src/utils/index.ts",
       ],
@@ -0,0 +1,254 @@
+// Portable BLAKE2b / BLAKE2s (RFC 7693). Not available through Web Crypto, so
+// they always run here. BLAKE2b also backs Argon2.
+
+import type { HashState } from "./sha.ts";
+
+export interface Blake2Params {
+  /** Digest length in bytes (1-64 for BLAKE2b, 1-32 for BLAKE2s). */
+  outputLen: number;
+  /** MAC key (up to 64 / 32 bytes). Empty or absent selects unkeyed hashing. */
+  key?: Uint8Array;
+  /** Salt, zero-padded to 16 / 8 bytes. */
+  salt?: Uint8Array;
+  /** Personalization string, zero-padded to 16 / 8 bytes. */
+  personalization?: Uint8Array;
+}
+
+/** Message word schedule, shared by both variants (BLAKE2b repeats rows 0-1). */
+const _SIGMA = /* @__PURE__ */ new Uint8Array([
+  0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11,
+  7, 5, 3, 11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4, 7, 9, 3, 1, 13, 12, 11, 14, 2, 6,
+  5, 10, 4, 0, 15, 8, 9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13, 2, 12, 6, 10, 0, 11, 8,
+  3, 4, 13, 7, 5, 15, 14, 1, 9, 12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11, 13, 11, 7, 14,
+  12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10, 6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5, 10,
+  2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13,
+  14, 15, 14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3,
+]);
+
+/** SHA-256 initial hash values; BLAKE2s IV and the halves of the BLAKE2b IV. */
+const _IV32 = /* @__PURE__ */ new Uint32Array([
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+]);
+
+/** SHA-512 initial hash values as little-endian [lo, hi] pairs. */
+const _IV64 = /* @__PURE__ */ new Uint32Array([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372, 0x5f1d36f1, 0xa54ff53a,
+  0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c, 0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19,
+]);
+
+const _TWO_32 = 0x1_0000_0000;
+
+/** Create a BLAKE2b state (64-bit words, 128-byte blocks, 12 rounds). */
+export function createBlake2bState(params: Blake2Params): HashState {
+  // 64-bit words are stored as little-endian [lo, hi] pairs of 32-bit halves.
+  const h = new Uint32Array(_IV64);
+  const v = new Uint32Array(32);
+  const m = new Uint32Array(32);
+
+  function add(a: number, b: number): void {
+    const lo = v[a]! + v[b]!;
+    v[a + 1] = v[a + 1]! + v[b + 1]! + Math.floor(lo / _TWO_32);
+    v[a] = lo;
+  }
+
+  function g(a: number, b: number, c: number, d: number, x: number, y: number): void {
+    // a += b + m[x]; d = (d ^ a) >>> 32
+    const lo = v[a]! + v[b]! + m[x]!;
+    v[a + 1] = v[a + 1]! + v[b + 1]! + m[x + 1]! + Math.floor(lo / _TWO_32);
+    v[a] = lo;
+    let dl = v[d]! ^ v[a]!;
+    let dh = v[d + 1]! ^ v[a + 1]!;
+    v[d] = dh;
+    v[d + 1] = dl;
+    // c += d; b = (b ^ c) >>> 24
+    add(c, d);
+    let bl = v[b]! ^ v[c]!;
+    let bh = v[b + 1]! ^ v[c + 1]!;
+    v[b] = (bl >>> 24) | (bh << 8);
+    v[b + 1] = (bh >>> 24) | (bl << 8);
+    // a += b + m[y]; d = (d ^ a) >>> 16
+    const lo2 = v[a]! + v[b]! + m[y]!;
+    v[a + 1] = v[a + 1]! + v[b + 1]! + m[y + 1]! + Math.floor(lo2 / _TWO_32);
+    v[a] = lo2;
+    dl = v[d]! ^ v[a]!;
+    dh = v[d + 1]! ^ v[a + 1]!;
+    v[d] = (dl >>> 16) | (dh << 16);
+    v[d + 1] = (dh >>> 16) | (dl << 16);
+    // c += d; b = (b ^ c) >>> 63
+    add(c, d);
+    bl = v[b]! ^ v[c]!;
+    bh = v[b + 1]! ^ v[c + 1]!;
+    v[b] = (bh >>> 31) | (bl << 1);
+    v[b + 1] = (bl >>> 31) | (bh << 1);
+  }
+
+  function compress(block: Uint8Array, offset: number, counter: number, last: boolean): void {
+    for (let i = 0; i < 32; i++) {
+      const j = offset + i * 4;
+      m[i] = block[j]! | (block[j + 1]! << 8) | (block[j + 2]! << 16) | (block[j + 3]! << 24);
+    }
+    v.set(h);
+    v.set(_IV64, 16);
+    v[24] ^= counter >>> 0;
+    v[25] ^= Math.floor(counter / _TWO_32);
+    if (last) {
+      v[28] = ~v[28]!;
+      v[29] = ~v[29]!;
+    }
+    for (let round = 0; round < 12; round++) {
+      const s = round * 16;
+      g(0, 8, 16, 24, _SIGMA[s]! * 2, _SIGMA[s + 1]! * 2);
+      g(2, 10, 18, 26, _SIGMA[s + 2]! * 2, _SIGMA[s + 3]! * 2);
+      g(4, 12, 20, 28, _SIGMA[s + 4]! * 2, _SIGMA[s + 5]! * 2);
+      g(6, 14, 22, 30, _SIGMA[s + 6]! * 2, _SIGMA[s + 7]! * 2);
+      g(0, 10, 20, 30, _SIGMA[s + 8]! * 2, _SIGMA[s + 9]! * 2);
+      g(2, 12, 22, 24, _SIGMA[s + 10]! * 2, _SIGMA[s + 11]! * 2);
+      g(4, 14, 16, 26, _SIGMA[s + 12]! * 2, _SIGMA[s + 13]! * 2);
+      g(6, 8, 18, 28, _SIGMA[s + 14]! * 2, _SIGMA[s + 15]! * 2);
+    }
+    for (let i = 0; i < 16; i++) h[i] ^= v[i]! ^ v[i + 16]!;
+  }
+
+  _initParams(h, params, 128);
+  return _blake2State(128, params, compress, h);
+}
+
+/** Create a BLAKE2s state (32-bit words, 64-byte blocks, 10 rounds). */
+export function createBlake2sState(params: Blake2Params): HashState {
+  const h = new Uint32Array(_IV32);
+  const v = new Uint32Array(16);
+  const m = new Uint32Array(16);
+
+  function g(a: number, b: number, c: number, d: number, x: number, y: number): void {
+    v[a] = v[a]! + v[b]! + x;
+    let t = v[d]! ^ v[a]!;
+    v[d] = (t >>> 16) | (t << 16);
+    v[c] = v[c]! + v[d]!;
+    t = v[b]! ^ v[c]!;
+    v[b] = (t >>> 12) | (t << 20);
+    v[a] = v[a]! + v[b]! + y;
+    t = v[d]! ^ v[a]!;
+    v[d] = (t >>> 8) | (t << 24);
+    v[c] = v[c]! + v[d]!;
+    t = v[b]! ^ v[c]!;
+    v[b] = (t >>> 7) | (t << 25);
+  }
+
+  function compress(block: Uint8Array, offset: number, counter: number, last: boolean): void {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      m[i] = block[j]! | (block[j + 1]! << 8) | (block[j + 2]! << 16) | (block[j + 3]! << 24);
+    }
+    v.set(h);
+    v.set(_IV32, 8);
+    v[12] ^= counter >>> 0;
+    v[13] ^= Math.floor(counter / _TWO_32);
+    if (last) v[14] = ~v[14]!;
+    for (let round = 0; round < 10; round++) {
+      const s = round * 16;
+      g(0, 4, 8, 12, m[_SIGMA[s]!]!, m[_SIGMA[s + 1]!]!);
+      g(1, 5, 9, 13, m[_SIGMA[s + 2]!]!, m[_SIGMA[s + 3]!]!);
+      g(2, 6, 10, 14, m[_SIGMA[s + 4]!]!, m[_SIGMA[s + 5]!]!);
+      g(3, 7, 11, 15, m[_SIGMA[s + 6]!]!, m[_SIGMA[s + 7]!]!);
+      g(0, 5, 10, 15, m[_SIGMA[s + 8]!]!, m[_SIGMA[s + 9]!]!);
+      g(1, 6, 11, 12, m[_SIGMA[s + 10]!]!, m[_SIGMA[s + 11]!]!);
+      g(2, 7, 8, 13, m[_SIGMA[s + 12]!]!, m[_SIGMA[s + 13]!]!);
+      g(3, 4, 9, 14, m[_SIGMA[s + 14]!]!, m[_SIGMA[s + 15]!]!);
+    }
+    for (let i = 0; i < 8; i++) h[i] ^= v[i]! ^ v[i + 8]!;
+  }
+
+  _initParams(h, params, 64);
+  return _blake2State(64, params, compress, h);
+}
+
+/**
+ * XOR the parameter block into the IV. Both variants share the layout: salt
+ * and personalization fill the last two quarters of the block, sized to the
+ * variant's word length.
+ */
+function _initParams(h: Uint32Array, params: Blake2Params, blockLen: number): void {
+  const keyLen = params.key?.length ?? 0;
+  h[0] ^= 0x01010000 ^ (keyLen << 8) ^ params.outputLen;
+
+  const fieldLen = blockLen / 8;
+  _xorField(h, (2 * fieldLen) / 4, params.salt, fieldLen);
+  _xorField(h, (3 * fieldLen) / 4, params.personalization, fieldLen);
+}
+
+function _xorField(
+  h: Uint32Array,
+  word: number,
+  field: Uint8Array | undefined,
+  fieldLen: number,
+): void {
+  if (!field) return;
+  const padded = new Uint8Array(fieldLen);
+  padded.set(field);
+  for (let i = 0; i < fieldLen; i += 4) {
+    h[word + i / 4] ^=
+      padded[i]! | (padded[i + 1]! << 8) | (padded[i + 2]! << 16) | (padded[i + 3]! << 24);
+  }
+}
+
+/**
+ * Buffering shared by both variants. BLAKE2 flags the final block, so a full
+ * buffer is only compressed once more input proves it is not the last one.
+ */
+function _blake2State(
+  blockLen: number,
+  params: Blake2Params,
+  compress: (block: Uint8Array, offset: number, counter: number, last: boolean) => void,
+  h: Uint32Array,
+): HashState {
+  const { outputLen } = params;
+  const buffer = new Uint8Array(blockLen);
+  let pos = 0;
+  let counter = 0;
+  let finished = false;
+
+  function update(data: Uint8Array): void {
+    if (finished) throw new Error("Hash state already finalized.");
+    let offset = 0;
+    while (offset < data.length) {
+      if (pos === blockLen) {
+        counter += blockLen;
+        compress(buffer, 0, counter, false);
+        pos = 0;
+      }
+      // Compress straight from the input while more than a block remains.
+      if (pos === 0) {
+        while (data.length - offset > blockLen) {
+          counter += blockLen;
+          compress(data, offset, counter, false);
+          offset += blockLen;
+        }
+      }
+      const take = Math.min(blockLen - pos, data.length - offset);
+      buffer.set(data.subarray(offset, offset + take), pos);
+      pos += take;
+      offset += take;
+    }
+  }
+
+  function digest(): Uint8Array<ArrayBuffer> {
+    if (finished) throw new Error("Hash state already finalized.");
+    finished = true;
+    counter += pos;
+    buffer.fill(0, pos);
+    compress(buffer, 0, counter, true);
+
+    const out = new Uint8Array(h.length * 4);
+    const view = new DataView(out.buffer);
+    for (let i = 0; i < h.length; i++) view.setUint32(i * 4, h[i]!, true);
+    return out.slice(0, outputLen);
+  }
+
+  if (params.key && params.key.length > 0) {
+    const block = new Uint8Array(blockLen);
+    block.set(params.key);
+    update(block);
+  }
+
+  return { blockLen, outputLen, update, digest };
+}
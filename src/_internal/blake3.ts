@@ -0,0 +1,206 @@
+// Portable BLAKE3: a binary Merkle tree of 1 KiB chunks over a reduced-round
+// BLAKE2s compression function, with an extendable root output.
+
+import type { HashState } from "./sha.ts";
+
+const _CHUNK_LEN = 1024;
+const _BLOCK_LEN = 64;
+
+const _CHUNK_START = 1;
+const _CHUNK_END = 2;
+const _PARENT = 4;
+const _ROOT = 8;
+const _KEYED_HASH = 16;
+const _DERIVE_KEY_CONTEXT = 32;
+const _DERIVE_KEY_MATERIAL = 64;
+
+const _IV = /* @__PURE__ */ new Uint32Array([
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+]);
+
+/** Message word order for each of the 7 rounds (the permutation applied 0-6 times). */
+const _SCHEDULE: Uint8Array = /* @__PURE__ */ (() => {
+  const permutation = [2, 6, 3, 10, 7, 0, 4, 13, 1, 11, 12, 5, 9, 14, 15, 8];
+  const schedule = new Uint8Array(7 * 16);
+  let order = Array.from({ length: 16 }, (_, i) => i);
+  for (let round = 0; round < 7; round++) {
+    schedule.set(order, round * 16);
+    order = permutation.map((i) => order[i]!);
+  }
+  return schedule;
+})();
+
+const _TWO_32 = 0x1_0000_0000;
+
+export interface Blake3Params {
+  /** Bytes to squeeze from the root node. */
+  outputLen: number;
+  /** 32-byte key selecting keyed-hash mode. */
+  key?: Uint8Array;
+  /** Context string selecting derive-key mode; the input is the key material. */
+  context?: Uint8Array;
+}
+
+/** Create a BLAKE3 state for plain, keyed, or derive-key hashing. */
+export function createBlake3State(params: Blake3Params): HashState {
+  if (params.context) {
+    const contextState = _blake3State(_IV, _DERIVE_KEY_CONTEXT, 32);
+    contextState.update(params.context);
+    return _blake3State(_words(contextState.digest(), 8), _DERIVE_KEY_MATERIAL, params.outputLen);
+  }
+  if (params.key) {
+    return _blake3State(_words(params.key, 8), _KEYED_HASH, params.outputLen);
+  }
+  return _blake3State(_IV, 0, params.outputLen);
+}
+
+function _blake3State(key: Uint32Array, flags: number, outputLen: number): HashState {
+  const state = new Uint32Array(16);
+  const m = new Uint32Array(16);
+  const block = new Uint8Array(_BLOCK_LEN);
+  const out = new Uint32Array(16);
+  const cvStack: Uint32Array[] = [];
+
+  let cv = new Uint32Array(key);
+  let chunkCounter = 0;
+  let chunkBytes = 0;
+  let blockLen = 0;
+  let finished = false;
+
+  function g(a: number, b: number, c: number, d: number, x: number, y: number): void {
+    state[a] = state[a]! + state[b]! + x;
+    let t = state[d]! ^ state[a]!;
+    state[d] = (t >>> 16) | (t << 16);
+    state[c] = state[c]! + state[d]!;
+    t = state[b]! ^ state[c]!;
+    state[b] = (t >>> 12) | (t << 20);
+    state[a] = state[a]! + state[b]! + y;
+    t = state[d]! ^ state[a]!;
+    state[d] = (t >>> 8) | (t << 24);
+    state[c] = state[c]! + state[d]!;
+    t = state[b]! ^ state[c]!;
+    state[b] = (t >>> 7) | (t << 25);
+  }
+
+  /** Compress `m` into `out`; the first 8 words are the new chaining value. */
+  function compress(
+    chainingValue: Uint32Array,
+    counter: number,
+    length: number,
+    blockFlags: number,
+  ): void {
+    state.set(chainingValue);
+    state.set(_IV.subarray(0, 4), 8);
+    state[12] = counter;
+    state[13] = Math.floor(counter / _TWO_32);
+    state[14] = length;
+    state[15] = blockFlags;
+    for (let round = 0; round < 7; round++) {
+      const s = round * 16;
+      g(0, 4, 8, 12, m[_SCHEDULE[s]!]!, m[_SCHEDULE[s + 1]!]!);
+      g(1, 5, 9, 13, m[_SCHEDULE[s + 2]!]!, m[_SCHEDULE[s + 3]!]!);
+      g(2, 6, 10, 14, m[_SCHEDULE[s + 4]!]!, m[_SCHEDULE[s + 5]!]!);
+      g(3, 7, 11, 15, m[_SCHEDULE[s + 6]!]!, m[_SCHEDULE[s + 7]!]!);
+      g(0, 5, 10, 15, m[_SCHEDULE[s + 8]!]!, m[_SCHEDULE[s + 9]!]!);
+      g(1, 6, 11, 12, m[_SCHEDULE[s + 10]!]!, m[_SCHEDULE[s + 11]!]!);
+      g(2, 7, 8, 13, m[_SCHEDULE[s + 12]!]!, m[_SCHEDULE[s + 13]!]!);
+      g(3, 4, 9, 14, m[_SCHEDULE[s + 14]!]!, m[_SCHEDULE[s + 15]!]!);
+    }
+    for (let i = 0; i < 8; i++) {
+      out[i] = state[i]! ^ state[i + 8]!;
+      out[i + 8] = state[i + 8]! ^ chainingValue[i]!;
+    }
+  }
+
+  function loadBlock(): void {
+    block.fill(0, blockLen);
+    for (let i = 0; i < 16; i++) {
+      const j = i * 4;
+      m[i] = block[j]! | (block[j + 1]! << 8) | (block[j + 2]! << 16) | (block[j + 3]! << 24);
+    }
+  }
+
+  function chunkStartFlag(): number {
+    return chunkBytes <= _BLOCK_LEN ? _CHUNK_START : 0;
+  }
+
+  /** Merge a finished chunk into the stack, folding completed subtrees. */
+  function pushChunk(chunkCv: Uint32Array, totalChunks: number): void {
+    let node = chunkCv;
+    while ((totalChunks & 1) === 0) {
+      m.set(cvStack.pop()!);
+      m.set(node, 8);
+      compress(key, 0, _BLOCK_LEN, flags | _PARENT);
+      node = out.slice(0, 8);
+      totalChunks /= 2;
+    }
+    cvStack.push(node);
+  }
+
+  function update(data: Uint8Array): void {
+    if (finished) throw new Error("Hash state already finalized.");
+    for (let offset = 0; offset < data.length;) {
+      if (chunkBytes === _CHUNK_LEN) {
+        loadBlock();
+        compress(cv, chunkCounter, blockLen, flags | chunkStartFlag() | _CHUNK_END);
+        chunkCounter++;
+        pushChunk(out.slice(0, 8), chunkCounter);
+        cv = new Uint32Array(key);
+        chunkBytes = 0;
+        blockLen = 0;
+      }
+      if (blockLen === _BLOCK_LEN) {
+        loadBlock();
+        compress(cv, chunkCounter, _BLOCK_LEN, flags | chunkStartFlag());
+        cv = out.slice(0, 8);
+        blockLen = 0;
+      }
+      const take = Math.min(_BLOCK_LEN - blockLen, data.length - offset);
+      block.set(data.subarray(offset, offset + take), blockLen);
+      blockLen += take;
+      chunkBytes += take;
+      offset += take;
+    }
+  }
+
+  function digest(): Uint8Array<ArrayBuffer> {
+    if (finished) throw new Error("Hash state already finalized.");
+    finished = true;
+
+    // The last chunk (or the parent above it) is the root; hold its inputs
+    // back so the root flag and output counter can be applied.
+    loadBlock();
+    let rootCv: Uint32Array = cv;
+    let rootCounter = chunkCounter;
+    let rootLen = blockLen;
+    let rootFlags = flags | chunkStartFlag() | _CHUNK_END;
+    for (let i = cvStack.length - 1; i >= 0; i--) {
+      compress(rootCv, rootCounter, rootLen, rootFlags);
+      m.set(out.subarray(0, 8), 8);
+      m.set(cvStack[i]!);
+      rootCv = key;
+      rootCounter = 0;
+      rootLen = _BLOCK_LEN;
+      rootFlags = flags | _PARENT;
+    }
+
+    const bytes = new Uint8Array(Math.ceil(outputLen / _BLOCK_LEN) * _BLOCK_LEN);
+    const view = new DataView(bytes.buffer);
+    for (let offset = 0, counter = 0; offset < outputLen; offset += _BLOCK_LEN, counter++) {
+      compress(rootCv, counter, rootLen, rootFlags | _ROOT);
+      for (let i = 0; i < 16; i++) view.setUint32(offset + i * 4, out[i]!, true);
+    }
+    return bytes.slice(0, outputLen);
+  }
+
+  return { blockLen: _BLOCK_LEN, outputLen, update, digest };
+}
+
+function _words(bytes: Uint8Array, count: number): Uint32Array {
+  const words = new Uint32Array(count);
+  for (let i = 0; i < count; i++) {
+    const j = i * 4;
+    words[i] = bytes[j]! | (bytes[j + 1]! << 8) | (bytes[j + 2]! << 16) | (bytes[j + 3]! << 24);
+  }
+  return words;
+}
@@ -0,0 +1,269 @@
+// Portable ChaCha20, Poly1305 and their AEAD construction (RFC 8439), plus
+// HChaCha20 for the extended-nonce variant. Not available through Web Crypto.
+
+/** "expand 32-byte k" as little-endian words. */
+const _SIGMA = /* @__PURE__ */ new Uint32Array([0x61707865, 0x3320646e, 0x79622d32, 0x6b206574]);
+
+const _TWO_32 = 0x1_0000_0000;
+const _LIMB = 0x2000;
+const _LIMB_MASK = 0x1fff;
+
+export const CHACHA20_KEY_LENGTH = 32;
+export const CHACHA20_NONCE_LENGTH = 12;
+export const POLY1305_TAG_LENGTH = 16;
+
+function _readWord(bytes: Uint8Array, offset: number): number {
+  return (
+    (bytes[offset]! |
+      (bytes[offset + 1]! << 8) |
+      (bytes[offset + 2]! << 16) |
+      (bytes[offset + 3]! << 24)) >>>
+    0
+  );
+}
+
+function _quarterRound(x: Uint32Array, a: number, b: number, c: number, d: number): void {
+  let t: number;
+  x[a] = x[a]! + x[b]!;
+  t = x[d]! ^ x[a]!;
+  x[d] = (t << 16) | (t >>> 16);
+  x[c] = x[c]! + x[d]!;
+  t = x[b]! ^ x[c]!;
+  x[b] = (t << 12) | (t >>> 20);
+  x[a] = x[a]! + x[b]!;
+  t = x[d]! ^ x[a]!;
+  x[d] = (t << 8) | (t >>> 24);
+  x[c] = x[c]! + x[d]!;
+  t = x[b]! ^ x[c]!;
+  x[b] = (t << 7) | (t >>> 25);
+}
+
+/** Run the 20 ChaCha rounds (10 column / diagonal double rounds) in place. */
+function _rounds(x: Uint32Array): void {
+  for (let i = 0; i < 10; i++) {
+    _quarterRound(x, 0, 4, 8, 12);
+    _quarterRound(x, 1, 5, 9, 13);
+    _quarterRound(x, 2, 6, 10, 14);
+    _quarterRound(x, 3, 7, 11, 15);
+    _quarterRound(x, 0, 5, 10, 15);
+    _quarterRound(x, 1, 6, 11, 12);
+    _quarterRound(x, 2, 7, 8, 13);
+    _quarterRound(x, 3, 4, 9, 14);
+  }
+}
+
+/** Initial state: constants, 8 key words, then the 4 words of counter and nonce. */
+function _state(key: Uint8Array, tail: Uint8Array): Uint32Array {
+  const state = new Uint32Array(16);
+  state.set(_SIGMA);
+  for (let i = 0; i < 8; i++) state[4 + i] = _readWord(key, i * 4);
+  for (let i = 0; i < 4; i++) state[12 + i] = _readWord(tail, i * 4);
+  return state;
+}
+
+/**
+ * XOR `data` with the ChaCha20 keystream (RFC 8439, section 2.4), starting
+ * at block `counter`.
+ */
+export function chacha20(
+  key: Uint8Array,
+  nonce: Uint8Array,
+  counter: number,
+  data: Uint8Array,
+): Uint8Array<ArrayBuffer> {
+  const blocks = Math.ceil(data.length / 64);
+  if (counter + blocks > _TWO_32) {
+    throw new RangeError("ChaCha20 can encrypt at most 256 GiB under one nonce.");
+  }
+  const tail = new Uint8Array(16);
+  tail.set(nonce, 4);
+  const state = _state(key, tail);
+  const x = new Uint32Array(16);
+  const keystream = new Uint8Array(64);
+  const view = new DataView(keystream.buffer);
+  const out = new Uint8Array(data.length);
+
+  for (let block = 0; block < blocks; block++) {
+    state[12] = counter + block;
+    x.set(state);
+    _rounds(x);
+    for (let i = 0; i < 16; i++) view.setUint32(i * 4, x[i]! + state[i]!, true);
+    const offset = block * 64;
+    const end = Math.min(64, data.length - offset);
+    for (let i = 0; i < end; i++) out[offset + i] = data[offset + i]! ^ keystream[i]!;
+  }
+  return out;
+}
+
+/**
+ * HChaCha20 (draft-irtf-cfrg-xchacha, section 2.2): derive a subkey from a
+ * key and the first 16 bytes of an extended nonce.
+ */
+export function hchacha20(key: Uint8Array, nonce: Uint8Array): Uint8Array<ArrayBuffer> {
+  const x = _state(key, nonce);
+  _rounds(x);
+  const out = new Uint8Array(32);
+  const view = new DataView(out.buffer);
+  for (let i = 0; i < 4; i++) {
+    view.setUint32(i * 4, x[i]!, true);
+    view.setUint32(16 + i * 4, x[12 + i]!, true);
+  }
+  return out;
+}
+
+/** Split 17 little-endian bytes into ten 13-bit limbs. */
+function _limbs(bytes: Uint8Array, limbs: Float64Array): void {
+  for (let i = 0; i < 10; i++) {
+    const bit = i * 13;
+    const at = bit >>> 3;
+    const word = bytes[at]! | (bytes[at + 1]! << 8) | ((bytes[at + 2] ?? 0) << 16);
+    limbs[i] = (word >>> (bit & 7)) & _LIMB_MASK;
+  }
+}
+
+/**
+ * Poly1305 one-time authenticator (RFC 8439, section 2.5).
+ *
+ * The 130-bit accumulator is held in ten 13-bit limbs so every product and
+ * column sum stays exact in a double.
+ */
+export function poly1305(key: Uint8Array, message: Uint8Array): Uint8Array<ArrayBuffer> {
+  const clamped = new Uint8Array(18);
+  clamped.set(key.subarray(0, 16));
+  clamped[3]! &= 15;
+  clamped[7]! &= 15;
+  clamped[11]! &= 15;
+  clamped[15]! &= 15;
+  clamped[4]! &= 252;
+  clamped[8]! &= 252;
+  clamped[12]! &= 252;
+  const r = new Float64Array(10);
+  _limbs(clamped, r);
+
+  const h = new Float64Array(10);
+  const m = new Float64Array(10);
+  const d = new Float64Array(10);
+  const block = new Uint8Array(18);
+
+  for (let offset = 0; offset < message.length; offset += 16) {
+    const chunk = message.subarray(offset, offset + 16);
+    block.fill(0);
+    block.set(chunk);
+    // The 2^128 bit for full blocks, or the 0x01 pad byte of a final partial one
+    block[chunk.length] = 1;
+    _limbs(block, m);
+    for (let i = 0; i < 10; i++) h[i] = h[i]! + m[i]!;
+
+    // h *= r mod 2^130 - 5: limbs past 2^130 fold back multiplied by 5
+    for (let i = 0; i < 10; i++) {
+      let sum = 0;
+      for (let j = 0; j < 10; j++) {
+        sum += j <= i ? h[j]! * r[i - j]! : h[j]! * 5 * r[i - j + 10]!;
+      }
+      d[i] = sum;
+    }
+    let carry = 0;
+    for (let i = 0; i < 10; i++) {
+      const value = d[i]! + carry;
+      carry = Math.floor(value / _LIMB);
+      h[i] = value - carry * _LIMB;
+    }
+    h[0] = h[0]! + carry * 5;
+    carry = Math.floor(h[0] / _LIMB);
+    h[0] = h[0] - carry * _LIMB;
+    h[1] = h[1]! + carry;
+  }
+
+  // Fully carry, then subtract p if h >= p
+  for (let pass = 0; pass < 2; pass++) {
+    let carry = 0;
+    for (let i = 0; i < 10; i++) {
+      const value = h[i]! + carry;
+      carry = Math.floor(value / _LIMB);
+      h[i] = value - carry * _LIMB;
+    }
+    h[0] = h[0]! + carry * 5;
+  }
+  const g = new Float64Array(10);
+  let carry = 5;
+  for (let i = 0; i < 10; i++) {
+    const value = h[i]! + carry;
+    carry = Math.floor(value / _LIMB);
+    g[i] = value - carry * _LIMB;
+  }
+  const reduced = carry > 0 ? g : h;
+
+  // (h mod 2^128) + s, little-endian
+  const tag = new Uint8Array(16);
+  let accumulator = 0;
+  let bits = 0;
+  let byte = 0;
+  for (let i = 0; i < 10 && byte < 16; i++) {
+    accumulator += reduced[i]! * 2 ** bits;
+    bits += 13;
+    while (bits >= 8 && byte < 16) {
+      tag[byte++] = accumulator & 0xff;
+      accumulator = Math.floor(accumulator / 256);
+      bits -= 8;
+    }
+  }
+  let sum = 0;
+  for (let i = 0; i < 16; i++) {
+    sum += tag[i]! + key[16 + i]!;
+    tag[i] = sum & 0xff;
+    sum >>>= 8;
+  }
+  return tag;
+}
+
+function _tag(otk: Uint8Array, aad: Uint8Array, ciphertext: Uint8Array): Uint8Array<ArrayBuffer> {
+  const pad = (length: number) => (16 - (length % 16)) % 16;
+  const aadEnd = aad.length + pad(aad.length);
+  const ciphertextEnd = aadEnd + ciphertext.length + pad(ciphertext.length);
+  const data = new Uint8Array(ciphertextEnd + 16);
+  data.set(aad);
+  data.set(ciphertext, aadEnd);
+  const view = new DataView(data.buffer);
+  view.setUint32(ciphertextEnd, aad.length % _TWO_32, true);
+  view.setUint32(ciphertextEnd + 4, Math.floor(aad.length / _TWO_32), true);
+  view.setUint32(ciphertextEnd + 8, ciphertext.length % _TWO_32, true);
+  view.setUint32(ciphertextEnd + 12, Math.floor(ciphertext.length / _TWO_32), true);
+  return poly1305(otk, data);
+}
+
+/** ChaCha20-Poly1305 encryption (RFC 8439, section 2.8): `ciphertext || tag`. */
+export function chacha20Poly1305Seal(
+  key: Uint8Array,
+  nonce: Uint8Array,
+  plaintext: Uint8Array,
+  aad: Uint8Array,
+): Uint8Array<ArrayBuffer> {
+  const otk = chacha20(key, nonce, 0, new Uint8Array(32));
+  const ciphertext = chacha20(key, nonce, 1, plaintext);
+  const sealed = new Uint8Array(ciphertext.length + POLY1305_TAG_LENGTH);
+  sealed.set(ciphertext);
+  sealed.set(_tag(otk, aad, ciphertext), ciphertext.length);
+  return sealed;
+}
+
+/**
+ * ChaCha20-Poly1305 decryption of `ciphertext || tag`. Returns `undefined`
+ * when the tag does not verify; the tag is compared in constant time and
+ * nothing is decrypted before it checks out.
+ */
+export function chacha20Poly1305Open(
+  key: Uint8Array,
+  nonce: Uint8Array,
+  sealed: Uint8Array,
+  aad: Uint8Array,
+): Uint8Array<ArrayBuffer> | undefined {
+  if (sealed.length < POLY1305_TAG_LENGTH) return undefined;
+  const ciphertext = sealed.subarray(0, sealed.length - POLY1305_TAG_LENGTH);
+  const tag = sealed.subarray(ciphertext.length);
+  const otk = chacha20(key, nonce, 0, new Uint8Array(32));
+  const expected = _tag(otk, aad, ciphertext);
+  let diff = 0;
+  for (let i = 0; i < POLY1305_TAG_LENGTH; i++) diff |= expected[i]! ^ tag[i]!;
+  if (diff !== 0) return undefined;
+  return chacha20(key, nonce, 1, ciphertext);
+}
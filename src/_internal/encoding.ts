@@ -1,4 +1,4 @@
-import { Base64, Hex } from "../utils/index.ts";
+import { Base64, Hex, textEncoder } from "../utils/index.ts";
 import type { DigestReturnAs } from "../hash.ts";
 
 /** Encode raw bytes into the format requested by a `returnAs` option. */
@@ -33,3 +33,18 @@ export function encodeBytes(
     }
   }
 }
+
+/**
+ * View a `string | BufferSource` input as bytes without copying. Strings are
+ * UTF-8 encoded; views over a `SharedArrayBuffer` are copied, since Web Crypto
+ * and the `Uint8Array<ArrayBuffer>` results expect an `ArrayBuffer`.
+ */
+export function toBytes(data: string | BufferSource | Uint8Array): Uint8Array<ArrayBuffer> {
+  if (typeof data === "string") return textEncoder.encode(data);
+  const view = ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data);
+  return view.buffer instanceof ArrayBuffer
+    ? (view as Uint8Array<ArrayBuffer>)
+    : new Uint8Array(view);
+}
@@ -0,0 +1,51 @@
+// Shared by the envelope formats of encrypt(), chachaEncrypt(), sivEncrypt(),
+// the stream header and HPKE, so every decryption failure looks the same.
+
+import type { EnvelopeReturnAs } from "../encrypt.ts";
+import { type DecodeReturnAs, Base64, Hex } from "../utils/index.ts";
+import { toBytes } from "./encoding.ts";
+
+/** The one error message for every decryption failure, so callers cannot be used as an oracle. */
+export const DECRYPTION_FAILED = "Decryption failed.";
+
+/** Encodings {@link parseEnvelope} can recognise; `encodeBytes` alone would also allow padded base64. */
+const _ENVELOPE_RETURN_AS: ReadonlySet<string> = /* @__PURE__ */ new Set<EnvelopeReturnAs>([
+  "uint8array",
+  "bytes",
+  "base64url",
+  "b64url",
+  "hex",
+]);
+
+/** Check an encrypt function's `returnAs` option. */
+export function assertEnvelopeReturnAs(returnAs: string, source: string): void {
+  if (!_ENVELOPE_RETURN_AS.has(returnAs)) {
+    throw new Error(`Unsupported ${source} "returnAs" option: ${String(returnAs)}`);
+  }
+}
+
+/** Check a decrypt function's `returnAs` option. */
+export function assertPlaintextReturnAs(
+  returnAs: string,
+  source: string,
+): asserts returnAs is DecodeReturnAs {
+  if (returnAs !== "string" && returnAs !== "uint8array" && returnAs !== "bytes") {
+    throw new Error(`Unsupported ${source} "returnAs" option: ${String(returnAs)}`);
+  }
+}
+
+/**
+ * Decode a versioned envelope to bytes, failing with the uniform decryption
+ * error. Versions stay below 0x10, so a hex envelope starts with "0", which a
+ * base64url one (leading "A" or "B") never does.
+ */
+export function parseEnvelope(envelope: string | BufferSource): Uint8Array<ArrayBuffer> {
+  if (typeof envelope !== "string") return toBytes(envelope);
+  try {
+    return envelope[0] === "0"
+      ? Hex.parse(envelope, { returnAs: "bytes" })
+      : Base64.parse(envelope, { alphabet: "base64url", returnAs: "bytes" });
+  } catch {
+    throw new Error(DECRYPTION_FAILED);
+  }
+}
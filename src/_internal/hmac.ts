@@ -0,0 +1,43 @@
+import type { HMACAlgorithm } from "../hmac.ts";
+import { createSHAState } from "./sha.ts";
+
+/**
+ * HMAC (RFC 2104 / FIPS 198-1) over the portable hash states, for algorithms
+ * `crypto.subtle` cannot key (SHA-3). The block size `B` is the hash's
+ * internal block length (the sponge rate for SHA-3).
+ *
+ * @throws {TypeError} For SHAKE, which has no fixed digest length.
+ */
+export function portableHmac(
+  algorithm: HMACAlgorithm,
+  key: Uint8Array,
+  data: Uint8Array,
+): Uint8Array<ArrayBuffer> {
+  if ((algorithm as string) === "SHAKE128" || (algorithm as string) === "SHAKE256") {
+    throw new TypeError(`HMAC is not defined for the extendable-output function ${algorithm}.`);
+  }
+
+  const inner = createSHAState(algorithm);
+  const blockLen = inner.blockLen;
+
+  let keyBlock = key;
+  if (keyBlock.length > blockLen) {
+    const keyHash = createSHAState(algorithm);
+    keyHash.update(keyBlock);
+    keyBlock = keyHash.digest();
+  }
+
+  const pad = new Uint8Array(blockLen);
+  pad.set(keyBlock);
+  for (let i = 0; i < blockLen; i++) pad[i] ^= 0x36;
+  inner.update(pad);
+  inner.update(data);
+  const innerDigest = inner.digest();
+
+  // 0x36 ^ 0x5c: flip the inner pad into the outer pad in place.
+  for (let i = 0; i < blockLen; i++) pad[i] ^= 0x36 ^ 0x5c;
+  const outer = createSHAState(algorithm);
+  outer.update(pad);
+  outer.update(innerDigest);
+  return outer.digest();
+}
@@ -0,0 +1,146 @@
+// Portable Keccak-f[1600] sponge (FIPS 202) backing SHA-3 and SHAKE. No
+// runtime exposes these through `crypto.subtle`, so they always run here.
+
+import type { HashState } from "./sha.ts";
+
+/** Keccak round constants as interleaved [hi, lo] 32-bit halves. */
+const _RC = /* @__PURE__ */ new Int32Array([
+  0x00000000, 0x00000001, 0x00000000, 0x00008082, 0x80000000, 0x0000808a, 0x80000000, 0x80008000,
+  0x00000000, 0x0000808b, 0x00000000, 0x80000001, 0x80000000, 0x80008081, 0x80000000, 0x00008009,
+  0x00000000, 0x0000008a, 0x00000000, 0x00000088, 0x00000000, 0x80008009, 0x00000000, 0x8000000a,
+  0x00000000, 0x8000808b, 0x80000000, 0x0000008b, 0x80000000, 0x00008089, 0x80000000, 0x00008003,
+  0x80000000, 0x00008002, 0x80000000, 0x00000080, 0x00000000, 0x0000800a, 0x80000000, 0x8000000a,
+  0x80000000, 0x80008081, 0x80000000, 0x00008080, 0x00000000, 0x80000001, 0x80000000, 0x80008008,
+]);
+
+/** Rho rotation offset for lane `x + 5y`. */
+const _RHO = [
+  0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14,
+];
+
+/** Pi step: lane `x + 5y` moves to lane `y + 5 * ((2x + 3y) % 5)`. */
+const _PI: number[] = /* @__PURE__ */ (() => {
+  const pi: number[] = [];
+  for (let y = 0; y < 5; y++) {
+    for (let x = 0; x < 5; x++) pi[x + 5 * y] = y + 5 * ((2 * x + 3 * y) % 5);
+  }
+  return pi;
+})();
+
+/**
+ * Create a Keccak sponge.
+ *
+ * @param rate Bytes absorbed / squeezed per permutation (`200 - 2 * capacity`).
+ * @param suffix Domain-separation bits: `0x06` for SHA-3, `0x1f` for SHAKE.
+ * @param outputLen Bytes to squeeze on `digest()`.
+ */
+export function createKeccakState(rate: number, suffix: number, outputLen: number): HashState {
+  const state = new Uint8Array(200);
+  const view = new DataView(state.buffer);
+  const hi = new Int32Array(25);
+  const lo = new Int32Array(25);
+  const bHi = new Int32Array(25);
+  const bLo = new Int32Array(25);
+  const cHi = new Int32Array(5);
+  const cLo = new Int32Array(5);
+  let pos = 0;
+  let finished = false;
+
+  function permute(): void {
+    for (let i = 0; i < 25; i++) {
+      lo[i] = view.getInt32(i * 8, true);
+      hi[i] = view.getInt32(i * 8 + 4, true);
+    }
+
+    for (let round = 0; round < 24; round++) {
+      // θ
+      for (let x = 0; x < 5; x++) {
+        cHi[x] = hi[x]! ^ hi[x + 5]! ^ hi[x + 10]! ^ hi[x + 15]! ^ hi[x + 20]!;
+        cLo[x] = lo[x]! ^ lo[x + 5]! ^ lo[x + 10]! ^ lo[x + 15]! ^ lo[x + 20]!;
+      }
+      for (let x = 0; x < 5; x++) {
+        const nh = cHi[(x + 1) % 5]!;
+        const nl = cLo[(x + 1) % 5]!;
+        const dh = cHi[(x + 4) % 5]! ^ ((nh << 1) | (nl >>> 31));
+        const dl = cLo[(x + 4) % 5]! ^ ((nl << 1) | (nh >>> 31));
+        for (let y = 0; y < 25; y += 5) {
+          hi[x + y] ^= dh;
+          lo[x + y] ^= dl;
+        }
+      }
+
+      // ρ + π
+      for (let i = 0; i < 25; i++) {
+        const h = hi[i]!;
+        const l = lo[i]!;
+        const r = _RHO[i]!;
+        const j = _PI[i]!;
+        if (r === 0) {
+          bHi[j] = h;
+          bLo[j] = l;
+        } else if (r < 32) {
+          bHi[j] = (h << r) | (l >>> (32 - r));
+          bLo[j] = (l << r) | (h >>> (32 - r));
+        } else if (r === 32) {
+          bHi[j] = l;
+          bLo[j] = h;
+        } else {
+          const m = r - 32;
+          bHi[j] = (l << m) | (h >>> (32 - m));
+          bLo[j] = (h << m) | (l >>> (32 - m));
+        }
+      }
+
+      // χ
+      for (let y = 0; y < 25; y += 5) {
+        for (let x = 0; x < 5; x++) {
+          const x1 = y + ((x + 1) % 5);
+          const x2 = y + ((x + 2) % 5);
+          hi[y + x] = bHi[y + x]! ^ (~bHi[x1]! & bHi[x2]!);
+          lo[y + x] = bLo[y + x]! ^ (~bLo[x1]! & bLo[x2]!);
+        }
+      }
+
+      // ι
+      hi[0] ^= _RC[round * 2]!;
+      lo[0] ^= _RC[round * 2 + 1]!;
+    }
+
+    for (let i = 0; i < 25; i++) {
+      view.setInt32(i * 8, lo[i]!, true);
+      view.setInt32(i * 8 + 4, hi[i]!, true);
+    }
+  }
+
+  function update(data: Uint8Array): void {
+    if (finished) throw new Error("Hash state already finalized.");
+    for (let i = 0; i < data.length; i++) {
+      state[pos++] ^= data[i]!;
+      if (pos === rate) {
+        permute();
+        pos = 0;
+      }
+    }
+  }
+
+  function digest(): Uint8Array<ArrayBuffer> {
+    if (finished) throw new Error("Hash state already finalized.");
+    finished = true;
+
+    state[pos] ^= suffix;
+    state[rate - 1] ^= 0x80;
+    permute();
+
+    const out = new Uint8Array(outputLen);
+    for (let offset = 0; ;) {
+      const take = Math.min(rate, outputLen - offset);
+      out.set(state.subarray(0, take), offset);
+      offset += take;
+      if (offset >= outputLen) break;
+      permute();
+    }
+    return out;
+  }
+
+  return { blockLen: rate, outputLen, update, digest };
+}
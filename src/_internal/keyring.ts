@@ -0,0 +1,30 @@
+// Key id framing shared by the keyring-aware modules (hmac, encrypt).
+
+import { textDecoder, textEncoder } from "../utils/index.ts";
+
+/** Brand set by `createKeyring()` so keyrings can't be confused with raw keys. */
+export const KEYRING_BRAND: unique symbol = Symbol.for("unsecure.keyring");
+
+/** Key ids are URL-safe so they can sit in front of hex / base64url text. */
+export const KEY_ID_RE: RegExp = /^[\w-]{1,64}$/;
+
+/** Prefix `payload` with a length-prefixed key id: `idLength (1 byte) | id | payload`. */
+export function frameKeyId(keyId: string, payload: Uint8Array): Uint8Array<ArrayBuffer> {
+  const id = textEncoder.encode(keyId);
+  const framed = new Uint8Array(1 + id.length + payload.length);
+  framed[0] = id.length;
+  framed.set(id, 1);
+  framed.set(payload, 1 + id.length);
+  return framed;
+}
+
+/** Split a framed payload, or return `undefined` if the frame is malformed. */
+export function unframeKeyId(
+  framed: Uint8Array,
+): { keyId: string; payload: Uint8Array<ArrayBuffer> } | undefined {
+  const idLength = framed[0];
+  if (idLength === undefined || framed.length < 1 + idLength) return undefined;
+  const keyId = textDecoder.decode(framed.subarray(1, 1 + idLength));
+  if (!KEY_ID_RE.test(keyId)) return undefined;
+  return { keyId, payload: framed.slice(1 + idLength) };
+}
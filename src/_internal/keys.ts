@@ -0,0 +1,20 @@
+/** Members only private JWKs carry. */
+export const PRIVATE_JWK_MEMBERS: readonly (keyof JsonWebKey)[] = [
+  "d",
+  "p",
+  "q",
+  "dp",
+  "dq",
+  "qi",
+  "oth",
+];
+
+/** Whether `value` is a Web Crypto `CryptoKey`, in runtimes that have the global. */
+export function isCryptoKey(value: unknown): value is CryptoKey {
+  return typeof CryptoKey !== "undefined" && value instanceof CryptoKey;
+}
+
+/** Whether `value` is an `ArrayBuffer` or a view of one. */
+export function isBufferSource(value: unknown): value is BufferSource {
+  return ArrayBuffer.isView(value) || value instanceof ArrayBuffer;
+}
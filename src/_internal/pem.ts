@@ -0,0 +1,166 @@
+// PEM armor and the algorithm fields of SPKI / PKCS#8 DER, so keys can be
+// imported into Web Crypto without the caller naming their type.
+
+import { Base64, Hex } from "../utils/index.ts";
+
+/** Key type named by a DER AlgorithmIdentifier, in JWK terms. */
+export interface DERKeyType {
+  kty: "RSA" | "EC" | "OKP";
+  /** JWK curve name for EC and OKP keys. */
+  crv?: string;
+  /** Set for RSASSA-PSS keys, which are restricted to RSA-PSS. */
+  name?: "RSA-PSS";
+}
+
+// #region Internals
+
+const _PEM_RE = /^\s*-----BEGIN ([A-Z\d ]+)-----([\s\w+/=]*)-----END \1-----\s*$/;
+
+const _KEY_OIDS: Record<string, DERKeyType> = {
+  "2a864886f70d010101": { kty: "RSA" },
+  "2a864886f70d01010a": { kty: "RSA", name: "RSA-PSS" },
+  "2b6570": { kty: "OKP", crv: "Ed25519" },
+  "2b656e": { kty: "OKP", crv: "X25519" },
+};
+
+const _EC_OID = "2a8648ce3d0201";
+
+const _CURVE_OIDS: Record<string, string> = {
+  "2a8648ce3d030107": "P-256",
+  "2b81040022": "P-384",
+  "2b81040023": "P-521",
+};
+
+/** PKCS#8 encoding of each curve's private key, up to where the raw key bytes go. */
+const _PKCS8_PREFIXES: Record<string, { prefix: string; length: number }> = {
+  "Ed25519": { prefix: "302e020100300506032b657004220420", length: 32 },
+  "X25519": { prefix: "302e020100300506032b656e04220420", length: 32 },
+  "P-256": {
+    prefix: "3041020100301306072a8648ce3d020106082a8648ce3d030107042730250201010420",
+    length: 32,
+  },
+  "P-384": {
+    prefix: "304e020100301006072a8648ce3d020106052b81040022043730350201010430",
+    length: 48,
+  },
+  "P-521": {
+    prefix: "3060020100301006072a8648ce3d020106052b81040023044930470201010442",
+    length: 66,
+  },
+};
+
+function _malformedDER(): SyntaxError {
+  return new SyntaxError("Malformed DER key.");
+}
+
+/** Read the tag-length-value at `offset`; `start` / `end` bound the contents. */
+function _readTLV(der: Uint8Array, offset: number): { tag: number; start: number; end: number } {
+  const tag = der[offset];
+  let length = der[offset + 1];
+  let start = offset + 2;
+  if (tag === undefined || length === undefined) throw _malformedDER();
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count === 0 || count > 4 || start + count > der.length) throw _malformedDER();
+    length = 0;
+    for (let i = 0; i < count; i++) length = length * 256 + der[start++]!;
+  }
+  const end = start + length;
+  if (end > der.length) throw _malformedDER();
+  return { tag, start, end };
+}
+
+function _expectTLV(
+  der: Uint8Array,
+  offset: number,
+  tag: number,
+): { tag: number; start: number; end: number } {
+  const tlv = _readTLV(der, offset);
+  if (tlv.tag !== tag) throw _malformedDER();
+  return tlv;
+}
+
+// #endregion
+
+/** Whether `value` looks PEM-armored rather than like a plain secret. */
+export function isPEM(value: string): boolean {
+  return value.includes("-----BEGIN ");
+}
+
+/**
+ * Strip the PEM armor from a single block.
+ *
+ * @throws {SyntaxError} If `pem` is not exactly one well-formed PEM block.
+ */
+export function parsePEM(pem: string): { label: string; der: Uint8Array<ArrayBuffer> } {
+  const match = _PEM_RE.exec(pem);
+  if (!match) throw new SyntaxError("Malformed PEM.");
+  return { label: match[1]!, der: Base64.parse(match[2]!, { returnAs: "bytes" }) };
+}
+
+/** Wrap DER in PEM armor, 64 base64 characters per line. */
+export function formatPEM(label: string, der: Uint8Array<ArrayBuffer>): string {
+  const body = Base64.stringify(der).replaceAll(/.{1,64}/g, "$&\n");
+  return `-----BEGIN ${label}-----\n${body}-----END ${label}-----\n`;
+}
+
+/**
+ * Tell a SubjectPublicKeyInfo from a PKCS#8 PrivateKeyInfo: the latter starts
+ * with a version INTEGER, the former with the AlgorithmIdentifier SEQUENCE.
+ *
+ * @throws {SyntaxError} If `der` is neither.
+ */
+export function derFormat(der: Uint8Array): "spki" | "pkcs8" {
+  const outer = _expectTLV(der, 0, 0x30);
+  if (outer.end !== der.length) throw _malformedDER();
+  const first = _readTLV(der, outer.start);
+  if (first.tag === 0x02) return "pkcs8";
+  if (first.tag === 0x30) return "spki";
+  throw _malformedDER();
+}
+
+/**
+ * Read the key type from the AlgorithmIdentifier of a SubjectPublicKeyInfo
+ * (`spki`) or PKCS#8 PrivateKeyInfo (`pkcs8`).
+ *
+ * @throws {SyntaxError} If the DER structure is malformed.
+ * @throws {TypeError} If the key algorithm is not supported.
+ */
+export function derKeyType(der: Uint8Array, format: "spki" | "pkcs8"): DERKeyType {
+  const outer = _expectTLV(der, 0, 0x30);
+  let cursor = outer.start;
+  if (format === "pkcs8") cursor = _expectTLV(der, cursor, 0x02).end;
+  const algorithm = _expectTLV(der, cursor, 0x30);
+  const oid = _expectTLV(der, algorithm.start, 0x06);
+  const oidHex = Hex.stringify(der.subarray(oid.start, oid.end));
+
+  if (oidHex === _EC_OID && oid.end < algorithm.end) {
+    const curve = _expectTLV(der, oid.end, 0x06);
+    const crv = _CURVE_OIDS[Hex.stringify(der.subarray(curve.start, curve.end))];
+    if (crv) return { kty: "EC", crv };
+  }
+  const type = Object.hasOwn(_KEY_OIDS, oidHex) ? _KEY_OIDS[oidHex] : undefined;
+  if (!type) throw new TypeError("Unsupported key algorithm.");
+  return type;
+}
+
+/**
+ * Wrap a raw private key (an Ed25519 / X25519 seed or an EC scalar) in
+ * PKCS#8, the only form Web Crypto imports private keys from besides JWK.
+ * EC keys are written without their optional public point.
+ *
+ * @throws {TypeError} If the curve is not supported.
+ * @throws {RangeError} If the key is not the curve's private key length.
+ */
+export function rawPrivateKeyDER(crv: string, key: Uint8Array): Uint8Array<ArrayBuffer> {
+  const encoding = Object.hasOwn(_PKCS8_PREFIXES, crv) ? _PKCS8_PREFIXES[crv] : undefined;
+  if (!encoding) throw new TypeError(`Unsupported curve: ${crv}`);
+  if (key.length !== encoding.length) {
+    throw new RangeError(`${crv} private keys are ${encoding.length} bytes, got ${key.length}.`);
+  }
+  const prefix = Hex.parse(encoding.prefix, { returnAs: "bytes" });
+  const der = new Uint8Array(prefix.length + key.length);
+  der.set(prefix);
+  der.set(key, prefix.length);
+  return der;
+}
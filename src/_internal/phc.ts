@@ -0,0 +1,88 @@
+// PHC string format (https://github.com/P-H-C/phc-string-format):
+//   $<id>[$v=<version>][$<param>=<value>(,<param>=<value>)*]$<salt>$<hash>
+// Salt and hash use standard base64 without padding.
+
+import { Base64 } from "../utils/index.ts";
+
+export interface PHCString {
+  id: string;
+  version?: number;
+  params: Record<string, string>;
+  salt: Uint8Array<ArrayBuffer>;
+  hash: Uint8Array<ArrayBuffer>;
+}
+
+const _ID_RE = /^[a-z0-9-]{1,32}$/;
+const _PARAM_RE = /^([a-z0-9-]{1,32})=([A-Za-z0-9/+.-]+)$/;
+const _B64_RE = /^[A-Za-z0-9+/]+$/;
+
+/** Serialize a PHC string. Params keep their insertion order. */
+export function formatPHC(phc: PHCString): string {
+  let out = `$${phc.id}`;
+  if (phc.version !== undefined) out += `$v=${phc.version}`;
+  const params = Object.entries(phc.params).map(([key, value]) => `${key}=${value}`);
+  if (params.length > 0) out += `$${params.join(",")}`;
+  return `${out}$${_b64(phc.salt)}$${_b64(phc.hash)}`;
+}
+
+/**
+ * Parse a PHC string with both salt and hash present.
+ *
+ * @throws {SyntaxError} If the string is not a well-formed PHC string.
+ */
+export function parsePHC(phc: string): PHCString {
+  const parts = phc.split("$");
+  const id = parts[1];
+  if (parts[0] !== "" || id === undefined || !_ID_RE.test(id)) _malformedPHC();
+
+  let index = 2;
+  let version: number | undefined;
+  if (parts[index]?.startsWith("v=")) {
+    version = _parseVersion(parts[index]!.slice(2));
+    index++;
+  }
+
+  const params: Record<string, string> = {};
+  if (parts[index]?.includes("=")) {
+    for (const pair of parts[index]!.split(",")) {
+      const match = _PARAM_RE.exec(pair);
+      if (!match || match[1]! in params) _malformedPHC();
+      params[match[1]!] = match[2]!;
+    }
+    index++;
+  }
+
+  if (parts.length !== index + 2) _malformedPHC();
+  return { id, version, params, salt: _unb64(parts[index]!), hash: _unb64(parts[index + 1]!) };
+}
+
+/**
+ * Read a required decimal integer parameter.
+ *
+ * @throws {SyntaxError} If the parameter is missing or not a non-negative integer.
+ */
+export function phcInteger(phc: PHCString, name: string): number {
+  const value = phc.params[name];
+  if (value === undefined || !/^\d{1,15}$/.test(value)) {
+    throw new SyntaxError(`Malformed PHC string: missing or invalid "${name}" parameter.`);
+  }
+  return Number(value);
+}
+
+function _parseVersion(value: string): number {
+  if (!/^\d{1,10}$/.test(value)) _malformedPHC();
+  return Number(value);
+}
+
+function _b64(bytes: Uint8Array): string {
+  return Base64.stringify(bytes, { padding: false });
+}
+
+function _unb64(text: string): Uint8Array<ArrayBuffer> {
+  if (!_B64_RE.test(text) || text.length % 4 === 1) _malformedPHC();
+  return Base64.parse(text.padEnd(Math.ceil(text.length / 4) * 4, "="), { returnAs: "bytes" });
+}
+
+function _malformedPHC(): never {
+  throw new SyntaxError("Malformed PHC string.");
+}
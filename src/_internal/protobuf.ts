@@ -0,0 +1,152 @@
+// Minimal protobuf wire format (https://protobuf.dev/programming-guides/encoding/):
+// varint (wire type 0) and length-delimited (wire type 2) fields, enough for
+// fixed schemas such as the Google Authenticator migration payload.
+
+import { textEncoder } from "../utils/index.ts";
+
+/** A decoded field: varints as numbers, length-delimited values as bytes. */
+export interface ProtobufField {
+  field: number;
+  value: number | Uint8Array<ArrayBuffer>;
+}
+
+// #region Internals
+
+const _VARINT = 0;
+const _FIXED64 = 1;
+const _LENGTH_DELIMITED = 2;
+const _FIXED32 = 5;
+
+function _malformedProtobuf(): never {
+  throw new SyntaxError("Malformed protobuf message.");
+}
+
+/**
+ * Write a varint. Negative values take ten bytes, as the 64-bit two's
+ * complement that protobuf uses for negative `int32` and `int64` fields.
+ */
+function _writeVarint(out: number[], value: number): void {
+  if (!Number.isSafeInteger(value)) {
+    throw new RangeError("Protobuf varints must be safe integers.");
+  }
+  let low = value >>> 0;
+  let high = Math.floor(value / 2 ** 32) >>> 0;
+  while (high || low >= 0x80) {
+    out.push((low & 0x7f) | 0x80);
+    low = ((low >>> 7) | (high << 25)) >>> 0;
+    high >>>= 7;
+  }
+  out.push(low);
+}
+
+/**
+ * Read a varint at `offset`. Field values are read as signed 64-bit integers,
+ * so negative `int32` and `int64` values (ten bytes on the wire) come back
+ * negative; keys and lengths are unsigned. Values outside the safe integer
+ * range are rejected.
+ */
+function _readVarint(
+  bytes: Uint8Array,
+  offset: number,
+  signed: boolean,
+): { value: number; end: number } {
+  let low = 0;
+  let high = 0;
+  for (let shift = 0; shift < 70; shift += 7) {
+    const byte = bytes[offset++];
+    if (byte === undefined) _malformedProtobuf();
+    const bits = byte & 0x7f;
+    if (shift < 32) {
+      low |= bits << shift;
+      if (shift > 25) high |= bits >>> (32 - shift);
+    } else {
+      high |= bits << (shift - 32);
+    }
+    if (byte < 0x80) {
+      low >>>= 0;
+      high >>>= 0;
+      const value =
+        signed && high >= 0x80000000
+          ? -((~high >>> 0) * 2 ** 32 + (~low >>> 0) + 1)
+          : high * 2 ** 32 + low;
+      if (!Number.isSafeInteger(value)) _malformedProtobuf();
+      return { value, end: offset };
+    }
+  }
+  return _malformedProtobuf();
+}
+
+// #endregion
+
+/**
+ * Serialize fields in the given order. Numbers become varints; strings
+ * (UTF-8) and bytes become length-delimited fields, which is also how
+ * embedded messages are written.
+ *
+ * @throws {RangeError} If a number is not a safe integer.
+ */
+export function encodeProtobuf(
+  fields: readonly [field: number, value: number | string | Uint8Array][],
+): Uint8Array<ArrayBuffer> {
+  const out: number[] = [];
+  for (const [field, value] of fields) {
+    if (typeof value === "number") {
+      _writeVarint(out, field * 8 + _VARINT);
+      _writeVarint(out, value);
+    } else {
+      const bytes = typeof value === "string" ? textEncoder.encode(value) : value;
+      _writeVarint(out, field * 8 + _LENGTH_DELIMITED);
+      _writeVarint(out, bytes.length);
+      for (const byte of bytes) out.push(byte);
+    }
+  }
+  return new Uint8Array(out);
+}
+
+/**
+ * Parse a message into its varint and length-delimited fields, in wire
+ * order. Varint values are read as signed 64-bit integers; fixed-width fields
+ * are skipped.
+ *
+ * @throws {SyntaxError} If the message is truncated, has a length outside it
+ * or uses an unknown wire type.
+ */
+export function decodeProtobuf(bytes: Uint8Array): ProtobufField[] {
+  const fields: ProtobufField[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const start = offset;
+    const key = _readVarint(bytes, offset, false);
+    const field = Math.floor(key.value / 8);
+    offset = key.end;
+    switch (key.value % 8) {
+      case _VARINT: {
+        const { value, end } = _readVarint(bytes, offset, true);
+        fields.push({ field, value });
+        offset = end;
+        break;
+      }
+      case _LENGTH_DELIMITED: {
+        const { value: length, end } = _readVarint(bytes, offset, false);
+        if (length < 0 || end + length > bytes.length) _malformedProtobuf();
+        fields.push({ field, value: bytes.slice(end, end + length) });
+        offset = end + length;
+        break;
+      }
+      case _FIXED64: {
+        offset += 8;
+        break;
+      }
+      case _FIXED32: {
+        offset += 4;
+        break;
+      }
+      default: {
+        _malformedProtobuf();
+      }
+    }
+    // Every field moves the offset forward, so hostile input cannot loop
+    if (field === 0 || offset <= start || offset > bytes.length) _malformedProtobuf();
+  }
+  return fields;
+}
@@ -0,0 +1,413 @@
+// Portable SHA-1 / SHA-2 cores plus the dispatcher for every digest the library
+// supports. Web Crypto only exposes one-shot SHA-1 / SHA-2 digests, so anything
+// incremental (streaming, chunked uploads) or SHA-3 based runs on these instead.
+
+import type { DigestAlgorithm } from "../hash.ts";
+import { createKeccakState } from "./keccak.ts";
+
+/** Incremental digest state shared by the portable hash implementations. */
+export interface HashState {
+  /** Internal block size in bytes (HMAC's `B`). */
+  readonly blockLen: number;
+  /** Digest size in bytes. */
+  readonly outputLen: number;
+  /** Absorb more input. Throws once {@link HashState.digest} has been called. */
+  update(data: Uint8Array): void;
+  /** Finalize and return the digest. The state cannot be reused afterwards. */
+  digest(): Uint8Array<ArrayBuffer>;
+}
+
+/** Algorithms `crypto.subtle.digest` implements in every runtime. */
+export type WebCryptoDigestAlgorithm = "SHA-1" | "SHA-256" | "SHA-384" | "SHA-512";
+
+/** Whether `algorithm` can be delegated to `crypto.subtle`. */
+export function isWebCryptoDigest(algorithm: string): algorithm is WebCryptoDigestAlgorithm {
+  return (
+    algorithm === "SHA-1" ||
+    algorithm === "SHA-256" ||
+    algorithm === "SHA-384" ||
+    algorithm === "SHA-512"
+  );
+}
+
+/**
+ * Create a fresh incremental state for any supported digest algorithm.
+ *
+ * @param length Output length in bytes for SHAKE. Ignored by fixed-output
+ *               algorithms. Defaults to 32 (SHAKE128) / 64 (SHAKE256).
+ */
+export function createSHAState(algorithm: DigestAlgorithm, length?: number): HashState {
+  switch (algorithm) {
+    case "SHA-1": {
+      return _sha1();
+    }
+    case "SHA-256": {
+      return _sha256();
+    }
+    case "SHA-384": {
+      return _sha512(_SHA384_IV, 48);
+    }
+    case "SHA-512": {
+      return _sha512(_SHA512_IV, 64);
+    }
+    case "SHA3-256": {
+      return createKeccakState(136, 0x06, 32);
+    }
+    case "SHA3-384": {
+      return createKeccakState(104, 0x06, 48);
+    }
+    case "SHA3-512": {
+      return createKeccakState(72, 0x06, 64);
+    }
+    case "SHAKE128": {
+      return createKeccakState(168, 0x1f, length ?? 32);
+    }
+    case "SHAKE256": {
+      return createKeccakState(136, 0x1f, length ?? 64);
+    }
+    default: {
+      throw new Error(`Unsupported digest algorithm: ${String(algorithm)}`);
+    }
+  }
+}
+
+// #region Merkle–Damgård framing
+
+/**
+ * Shared buffering + padding for the MD-style hashes. `compress` consumes one
+ * block at `offset` and updates `H`, whose big-endian words form the digest.
+ */
+function _mdState(
+  blockLen: number,
+  outputLen: number,
+  lengthBytes: number,
+  H: Int32Array,
+  compress: (view: DataView, offset: number) => void,
+): HashState {
+  const buffer = new Uint8Array(blockLen);
+  const view = new DataView(buffer.buffer);
+  let pos = 0;
+  let total = 0;
+  let finished = false;
+
+  function update(data: Uint8Array): void {
+    if (finished) throw new Error("Hash state already finalized.");
+    const len = data.length;
+    let offset = 0;
+    total += len;
+
+    if (pos > 0) {
+      const take = Math.min(blockLen - pos, len);
+      buffer.set(data.subarray(0, take), pos);
+      pos += take;
+      offset = take;
+      if (pos < blockLen) return;
+      compress(view, 0);
+      pos = 0;
+    }
+
+    if (len - offset >= blockLen) {
+      const dataView = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      for (; len - offset >= blockLen; offset += blockLen) compress(dataView, offset);
+    }
+
+    if (offset < len) {
+      buffer.set(data.subarray(offset), 0);
+      pos = len - offset;
+    }
+  }
+
+  function digest(): Uint8Array<ArrayBuffer> {
+    if (finished) throw new Error("Hash state already finalized.");
+    finished = true;
+
+    buffer[pos++] = 0x80;
+    if (pos > blockLen - lengthBytes) {
+      buffer.fill(0, pos);
+      compress(view, 0);
+      pos = 0;
+    }
+    buffer.fill(0, pos);
+    // Message length in bits, big-endian. Inputs never reach 2^53 bytes, so the
+    // upper words of the 128-bit SHA-512 length field stay zero.
+    view.setUint32(blockLen - 8, Math.floor(total / 0x20000000));
+    view.setUint32(blockLen - 4, (total % 0x20000000) * 8);
+    compress(view, 0);
+
+    const out = new Uint8Array(H.length * 4);
+    const outView = new DataView(out.buffer);
+    for (let i = 0; i < H.length; i++) outView.setInt32(i * 4, H[i]!);
+    return out.length === outputLen ? out : out.slice(0, outputLen);
+  }
+
+  return { blockLen, outputLen, update, digest };
+}
+
+// #region SHA-1
+
+function _sha1(): HashState {
+  const H = new Int32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0]);
+  const W = new Int32Array(80);
+
+  function compress(view: DataView, offset: number): void {
+    for (let t = 0; t < 16; t++) W[t] = view.getInt32(offset + t * 4);
+    for (let t = 16; t < 80; t++) {
+      const x = W[t - 3]! ^ W[t - 8]! ^ W[t - 14]! ^ W[t - 16]!;
+      W[t] = (x << 1) | (x >>> 31);
+    }
+
+    let a = H[0]!;
+    let b = H[1]!;
+    let c = H[2]!;
+    let d = H[3]!;
+    let e = H[4]!;
+
+    for (let t = 0; t < 80; t++) {
+      let f: number;
+      let k: number;
+      if (t < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (t < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (t < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+      const temp = (((a << 5) | (a >>> 27)) + f + e + k + W[t]!) | 0;
+      e = d;
+      d = c;
+      c = (b << 30) | (b >>> 2);
+      b = a;
+      a = temp;
+    }
+
+    H[0] = (H[0]! + a) | 0;
+    H[1] = (H[1]! + b) | 0;
+    H[2] = (H[2]! + c) | 0;
+    H[3] = (H[3]! + d) | 0;
+    H[4] = (H[4]! + e) | 0;
+  }
+
+  return _mdState(64, 20, 8, H, compress);
+}
+
+// #region SHA-256
+
+/** First 32 bits of the fractional parts of the cube roots of the first 64 primes. */
+const _SHA256_K = /* @__PURE__ */ new Int32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+function _sha256(): HashState {
+  const H = new Int32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const W = new Int32Array(64);
+
+  function compress(view: DataView, offset: number): void {
+    for (let t = 0; t < 16; t++) W[t] = view.getInt32(offset + t * 4);
+    for (let t = 16; t < 64; t++) {
+      const w15 = W[t - 15]!;
+      const w2 = W[t - 2]!;
+      const s0 = ((w15 >>> 7) | (w15 << 25)) ^ ((w15 >>> 18) | (w15 << 14)) ^ (w15 >>> 3);
+      const s1 = ((w2 >>> 17) | (w2 << 15)) ^ ((w2 >>> 19) | (w2 << 13)) ^ (w2 >>> 10);
+      W[t] = (s1 + W[t - 7]! + s0 + W[t - 16]!) | 0;
+    }
+
+    let a = H[0]!;
+    let b = H[1]!;
+    let c = H[2]!;
+    let d = H[3]!;
+    let e = H[4]!;
+    let f = H[5]!;
+    let g = H[6]!;
+    let h = H[7]!;
+
+    for (let t = 0; t < 64; t++) {
+      const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const ch = (e & f) ^ (~e & g);
+      const T1 = (h + S1 + ch + _SHA256_K[t]! + W[t]!) | 0;
+      const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const T2 = (S0 + maj) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + T1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (T1 + T2) | 0;
+    }
+
+    H[0] = (H[0]! + a) | 0;
+    H[1] = (H[1]! + b) | 0;
+    H[2] = (H[2]! + c) | 0;
+    H[3] = (H[3]! + d) | 0;
+    H[4] = (H[4]! + e) | 0;
+    H[5] = (H[5]! + f) | 0;
+    H[6] = (H[6]! + g) | 0;
+    H[7] = (H[7]! + h) | 0;
+  }
+
+  return _mdState(64, 32, 8, H, compress);
+}
+
+// #region SHA-384 / SHA-512
+
+// 64-bit words are stored as interleaved [hi, lo] 32-bit halves.
+
+/** First 64 bits of the fractional parts of the cube roots of the first 80 primes. */
+const _SHA512_K = /* @__PURE__ */ new Int32Array([
+  0x428a2f98, 0xd728ae22, 0x71374491, 0x23ef65cd, 0xb5c0fbcf, 0xec4d3b2f, 0xe9b5dba5, 0x8189dbbc,
+  0x3956c25b, 0xf348b538, 0x59f111f1, 0xb605d019, 0x923f82a4, 0xaf194f9b, 0xab1c5ed5, 0xda6d8118,
+  0xd807aa98, 0xa3030242, 0x12835b01, 0x45706fbe, 0x243185be, 0x4ee4b28c, 0x550c7dc3, 0xd5ffb4e2,
+  0x72be5d74, 0xf27b896f, 0x80deb1fe, 0x3b1696b1, 0x9bdc06a7, 0x25c71235, 0xc19bf174, 0xcf692694,
+  0xe49b69c1, 0x9ef14ad2, 0xefbe4786, 0x384f25e3, 0x0fc19dc6, 0x8b8cd5b5, 0x240ca1cc, 0x77ac9c65,
+  0x2de92c6f, 0x592b0275, 0x4a7484aa, 0x6ea6e483, 0x5cb0a9dc, 0xbd41fbd4, 0x76f988da, 0x831153b5,
+  0x983e5152, 0xee66dfab, 0xa831c66d, 0x2db43210, 0xb00327c8, 0x98fb213f, 0xbf597fc7, 0xbeef0ee4,
+  0xc6e00bf3, 0x3da88fc2, 0xd5a79147, 0x930aa725, 0x06ca6351, 0xe003826f, 0x14292967, 0x0a0e6e70,
+  0x27b70a85, 0x46d22ffc, 0x2e1b2138, 0x5c26c926, 0x4d2c6dfc, 0x5ac42aed, 0x53380d13, 0x9d95b3df,
+  0x650a7354, 0x8baf63de, 0x766a0abb, 0x3c77b2a8, 0x81c2c92e, 0x47edaee6, 0x92722c85, 0x1482353b,
+  0xa2bfe8a1, 0x4cf10364, 0xa81a664b, 0xbc423001, 0xc24b8b70, 0xd0f89791, 0xc76c51a3, 0x0654be30,
+  0xd192e819, 0xd6ef5218, 0xd6990624, 0x5565a910, 0xf40e3585, 0x5771202a, 0x106aa070, 0x32bbd1b8,
+  0x19a4c116, 0xb8d2d0c8, 0x1e376c08, 0x5141ab53, 0x2748774c, 0xdf8eeb99, 0x34b0bcb5, 0xe19b48a8,
+  0x391c0cb3, 0xc5c95a63, 0x4ed8aa4a, 0xe3418acb, 0x5b9cca4f, 0x7763e373, 0x682e6ff3, 0xd6b2b8a3,
+  0x748f82ee, 0x5defb2fc, 0x78a5636f, 0x43172f60, 0x84c87814, 0xa1f0ab72, 0x8cc70208, 0x1a6439ec,
+  0x90befffa, 0x23631e28, 0xa4506ceb, 0xde82bde9, 0xbef9a3f7, 0xb2c67915, 0xc67178f2, 0xe372532b,
+  0xca273ece, 0xea26619c, 0xd186b8c7, 0x21c0c207, 0xeada7dd6, 0xcde0eb1e, 0xf57d4f7f, 0xee6ed178,
+  0x06f067aa, 0x72176fba, 0x0a637dc5, 0xa2c898a6, 0x113f9804, 0xbef90dae, 0x1b710b35, 0x131c471b,
+  0x28db77f5, 0x23047d84, 0x32caab7b, 0x40c72493, 0x3c9ebe0a, 0x15c9bebc, 0x431d67c4, 0x9c100d4c,
+  0x4cc5d4be, 0xcb3e42b6, 0x597f299c, 0xfc657e2a, 0x5fcb6fab, 0x3ad6faec, 0x6c44198c, 0x4a475817,
+]);
+
+const _SHA512_IV = [
+  0x6a09e667, 0xf3bcc908, 0xbb67ae85, 0x84caa73b, 0x3c6ef372, 0xfe94f82b, 0xa54ff53a, 0x5f1d36f1,
+  0x510e527f, 0xade682d1, 0x9b05688c, 0x2b3e6c1f, 0x1f83d9ab, 0xfb41bd6b, 0x5be0cd19, 0x137e2179,
+];
+
+const _SHA384_IV = [
+  0xcbbb9d5d, 0xc1059ed8, 0x629a292a, 0x367cd507, 0x9159015a, 0x3070dd17, 0x152fecd8, 0xf70e5939,
+  0x67332667, 0xffc00b31, 0x8eb44a87, 0x68581511, 0xdb0c2e0d, 0x64f98fa7, 0x47b5481d, 0xbefa4fa4,
+];
+
+const _TWO_32 = 0x100000000;
+
+function _sha512(iv: number[], outputLen: number): HashState {
+  const H = new Int32Array(iv);
+  const Wh = new Int32Array(80);
+  const Wl = new Int32Array(80);
+
+  function compress(view: DataView, offset: number): void {
+    for (let t = 0; t < 16; t++) {
+      Wh[t] = view.getInt32(offset + t * 8);
+      Wl[t] = view.getInt32(offset + t * 8 + 4);
+    }
+    for (let t = 16; t < 80; t++) {
+      // σ0 = rotr1 ^ rotr8 ^ shr7
+      let xh = Wh[t - 15]!;
+      let xl = Wl[t - 15]!;
+      const s0h = ((xh >>> 1) | (xl << 31)) ^ ((xh >>> 8) | (xl << 24)) ^ (xh >>> 7);
+      const s0l = ((xl >>> 1) | (xh << 31)) ^ ((xl >>> 8) | (xh << 24)) ^ ((xl >>> 7) | (xh << 25));
+      // σ1 = rotr19 ^ rotr61 ^ shr6
+      xh = Wh[t - 2]!;
+      xl = Wl[t - 2]!;
+      const s1h = ((xh >>> 19) | (xl << 13)) ^ ((xl >>> 29) | (xh << 3)) ^ (xh >>> 6);
+      const s1l =
+        ((xl >>> 19) | (xh << 13)) ^ ((xh >>> 29) | (xl << 3)) ^ ((xl >>> 6) | (xh << 26));
+
+      const lo = (s1l >>> 0) + (Wl[t - 7]! >>> 0) + (s0l >>> 0) + (Wl[t - 16]! >>> 0);
+      Wh[t] = (s1h + Wh[t - 7]! + s0h + Wh[t - 16]! + Math.floor(lo / _TWO_32)) | 0;
+      Wl[t] = lo | 0;
+    }
+
+    let ah = H[0]!;
+    let al = H[1]!;
+    let bh = H[2]!;
+    let bl = H[3]!;
+    let ch = H[4]!;
+    let cl = H[5]!;
+    let dh = H[6]!;
+    let dl = H[7]!;
+    let eh = H[8]!;
+    let el = H[9]!;
+    let fh = H[10]!;
+    let fl = H[11]!;
+    let gh = H[12]!;
+    let gl = H[13]!;
+    let hh = H[14]!;
+    let hl = H[15]!;
+
+    for (let t = 0; t < 80; t++) {
+      // Σ1(e) = rotr14 ^ rotr18 ^ rotr41
+      const S1h =
+        ((eh >>> 14) | (el << 18)) ^ ((eh >>> 18) | (el << 14)) ^ ((el >>> 9) | (eh << 23));
+      const S1l =
+        ((el >>> 14) | (eh << 18)) ^ ((el >>> 18) | (eh << 14)) ^ ((eh >>> 9) | (el << 23));
+      const chh = (eh & fh) ^ (~eh & gh);
+      const chl = (el & fl) ^ (~el & gl);
+
+      const t1l =
+        (hl >>> 0) + (S1l >>> 0) + (chl >>> 0) + (_SHA512_K[t * 2 + 1]! >>> 0) + (Wl[t]! >>> 0);
+      const t1h = hh + S1h + chh + _SHA512_K[t * 2]! + Wh[t]! + Math.floor(t1l / _TWO_32);
+
+      // Σ0(a) = rotr28 ^ rotr34 ^ rotr39
+      const S0h = ((ah >>> 28) | (al << 4)) ^ ((al >>> 2) | (ah << 30)) ^ ((al >>> 7) | (ah << 25));
+      const S0l = ((al >>> 28) | (ah << 4)) ^ ((ah >>> 2) | (al << 30)) ^ ((ah >>> 7) | (al << 25));
+      const majh = (ah & bh) ^ (ah & ch) ^ (bh & ch);
+      const majl = (al & bl) ^ (al & cl) ^ (bl & cl);
+
+      const t2l = (S0l >>> 0) + (majl >>> 0);
+      const t2h = S0h + majh + Math.floor(t2l / _TWO_32);
+
+      hh = gh;
+      hl = gl;
+      gh = fh;
+      gl = fl;
+      fh = eh;
+      fl = el;
+      const el2 = (dl >>> 0) + (t1l % _TWO_32);
+      eh = (dh + t1h + Math.floor(el2 / _TWO_32)) | 0;
+      el = el2 | 0;
+      dh = ch;
+      dl = cl;
+      ch = bh;
+      cl = bl;
+      bh = ah;
+      bl = al;
+      const al2 = (t1l % _TWO_32) + (t2l % _TWO_32);
+      ah = (t1h + t2h + Math.floor(al2 / _TWO_32)) | 0;
+      al = al2 | 0;
+    }
+
+    _add64(H, 0, ah, al);
+    _add64(H, 2, bh, bl);
+    _add64(H, 4, ch, cl);
+    _add64(H, 6, dh, dl);
+    _add64(H, 8, eh, el);
+    _add64(H, 10, fh, fl);
+    _add64(H, 12, gh, gl);
+    _add64(H, 14, hh, hl);
+  }
+
+  return _mdState(128, outputLen, 16, H, compress);
+}
+
+/** `state[i..i+1] += (hi, lo)` modulo 2^64. */
+function _add64(state: Int32Array, i: number, hi: number, lo: number): void {
+  const l = (state[i + 1]! >>> 0) + (lo >>> 0);
+  state[i] = (state[i]! + hi + Math.floor(l / _TWO_32)) | 0;
+  state[i + 1] = l | 0;
+}
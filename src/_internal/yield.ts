@@ -0,0 +1,9 @@
+// Cooperative scheduling for the long pure-JS loops (scrypt, argon2).
+
+/** Longest stretch, in milliseconds, a loop should run before yielding. */
+export const TICK_MS = 10;
+
+/** Resolves on a later macrotask, letting timers and I/O run. */
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
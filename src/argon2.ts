@@ -0,0 +1,615 @@
+import type { DigestReturnAs } from "./hash.ts";
+import type { PasswordVerifyResult } from "./password.ts";
+import { createBlake2bState } from "./_internal/blake2.ts";
+import { encodeBytes, toBytes } from "./_internal/encoding.ts";
+import { formatPHC, parsePHC, phcInteger } from "./_internal/phc.ts";
+import { TICK_MS, yieldToEventLoop } from "./_internal/yield.ts";
+import { secureCompare } from "./compare.ts";
+import { secureRandomBytes } from "./random.ts";
+
+export interface Argon2Params {
+  /**
+   * Memory size in KiB. At least `8 * parallelism`.
+   *
+   * @default 19456 (19 MiB, OWASP guidance)
+   */
+  memoryCost?: number;
+  /**
+   * Number of passes over memory.
+   *
+   * @default 2
+   */
+  timeCost?: number;
+  /**
+   * Number of lanes. Lanes are computed one after another here; the
+   * parameter only changes the output, not the wall-clock time.
+   *
+   * @default 1
+   */
+  parallelism?: number;
+  /**
+   * Upper bound in bytes for the working memory. Parameters above it throw a
+   * {@link RangeError} before anything is allocated, so untrusted hashes
+   * can't exhaust memory.
+   *
+   * @default 268435456 (256 MiB)
+   */
+  maxmem?: number;
+  /**
+   * Upper bound for `timeCost`. Like `maxmem`, it applies to the parameters of
+   * stored hashes, so untrusted hashes can't tie up the CPU.
+   *
+   * @default 10
+   */
+  maxTimeCost?: number;
+}
+
+export interface Argon2idOptions extends Argon2Params {
+  /** Salt, at least 8 bytes. 16 random bytes are recommended. */
+  salt: string | BufferSource;
+  /**
+   * Tag length in bytes, at least 4.
+   *
+   * @default 32
+   */
+  length?: number;
+  /** Optional secret value (RFC 9106 `K`), e.g. a server-side pepper. */
+  secret?: string | BufferSource;
+  /** Optional associated data (RFC 9106 `X`). */
+  associatedData?: string | BufferSource;
+  /**
+   * Output format.
+   *
+   * When not specified, mirrors the `password` input type:
+   * - `string` password defaults to `'hex'`
+   * - `BufferSource` password defaults to `'uint8array'`
+   */
+  returnAs?: DigestReturnAs;
+}
+
+export interface Argon2idHashOptions extends Argon2Params {
+  /**
+   * Random salt length in bytes, at least 16.
+   *
+   * @default 16
+   */
+  saltLength?: number;
+  /**
+   * Hash length in bytes, at least 16.
+   *
+   * @default 32
+   */
+  hashLength?: number;
+}
+
+// #region Internals
+
+const _VERSION = 0x13;
+const _TYPE_ID = 2;
+const _SYNC_POINTS = 4;
+/** A 1 KiB block as 32-bit words; 64-bit words are little-endian [lo, hi] pairs. */
+const _BLOCK_WORDS = 256;
+const _ADDRESSES_PER_BLOCK = 128;
+const _DEFAULT_MAXMEM = 2 ** 28;
+const _DEFAULT_MAX_TIME_COST = 10;
+const _MIN_LENGTH = 16;
+const _TWO_32 = 0x1_0000_0000;
+
+/**
+ * Word offsets fed to the permutation P: eight rows of 16 consecutive 64-bit
+ * words, then eight columns of 2-word registers strided by 16 words.
+ */
+const _P_OFFSETS = /* @__PURE__ */ (() => {
+  const offsets = new Uint16Array(256);
+  for (let i = 0; i < 8; i++) {
+    for (let k = 0; k < 16; k++) {
+      offsets[i * 16 + k] = 2 * (16 * i + k);
+      offsets[128 + i * 16 + k] = 2 * (2 * i + (k >> 1) * 16 + (k & 1));
+    }
+  }
+  return offsets;
+})();
+
+interface _Argon2Config {
+  memoryCost: number;
+  timeCost: number;
+  parallelism: number;
+  maxmem: number;
+  maxTimeCost: number;
+}
+
+function _resolveParams(params: Argon2Params | undefined): _Argon2Config {
+  const {
+    memoryCost = 19_456,
+    timeCost = 2,
+    parallelism = 1,
+    maxmem = _DEFAULT_MAXMEM,
+    maxTimeCost = _DEFAULT_MAX_TIME_COST,
+  } = params ?? {};
+  if (!Number.isInteger(parallelism) || parallelism < 1 || parallelism > 0xff_ffff) {
+    throw new RangeError("argon2 parallelism must be an integer between 1 and 16777215.");
+  }
+  if (!Number.isInteger(timeCost) || timeCost < 1 || timeCost > 0xffff_ffff) {
+    throw new RangeError("argon2 timeCost must be a positive integer.");
+  }
+  if (timeCost > maxTimeCost) {
+    throw new RangeError(
+      `argon2 timeCost ${timeCost} is above the maxTimeCost limit of ${maxTimeCost}.`,
+    );
+  }
+  if (!Number.isInteger(memoryCost) || memoryCost < 8 * parallelism || memoryCost > 0xffff_ffff) {
+    throw new RangeError("argon2 memoryCost must be an integer of at least 8 * parallelism KiB.");
+  }
+  const memory = _blockCount(memoryCost, parallelism) * 1024;
+  if (memory > maxmem) {
+    throw new RangeError(
+      `argon2 parameters need ${memory} bytes of memory, above the maxmem limit of ${maxmem}.`,
+    );
+  }
+  return { memoryCost, timeCost, parallelism, maxmem, maxTimeCost };
+}
+
+/** m' in RFC 9106: memory rounded down to a multiple of 4 * p blocks. */
+function _blockCount(memoryCost: number, parallelism: number): number {
+  return Math.floor(memoryCost / (_SYNC_POINTS * parallelism)) * _SYNC_POINTS * parallelism;
+}
+
+function _le32(value: number): Uint8Array {
+  return new Uint8Array([value, value >>> 8, value >>> 16, value >>> 24]);
+}
+
+/** Variable-length hash H' (RFC 9106, section 3.3). */
+function _blake2bLong(parts: Uint8Array[], length: number): Uint8Array<ArrayBuffer> {
+  const first = createBlake2bState({ outputLen: Math.min(length, 64) });
+  first.update(_le32(length));
+  for (const part of parts) first.update(part);
+  if (length <= 64) return first.digest();
+
+  const out = new Uint8Array(length);
+  let v = first.digest();
+  out.set(v.subarray(0, 32));
+  let offset = 32;
+  while (length - offset > 64) {
+    const state = createBlake2bState({ outputLen: 64 });
+    state.update(v);
+    v = state.digest();
+    out.set(v.subarray(0, 32), offset);
+    offset += 32;
+  }
+  const last = createBlake2bState({ outputLen: length - offset });
+  last.update(v);
+  out.set(last.digest(), offset);
+  return out;
+}
+
+/** Exact `floor(a * b / 2^32)` for 32-bit `a` and `b`, which doubles can't hold. */
+function _mulHi(a: number, b: number): number {
+  const aHi = a >>> 16;
+  const aLo = a & 0xffff;
+  const bHi = b >>> 16;
+  const bLo = b & 0xffff;
+  const cross = aHi * bLo + aLo * bHi;
+  const low = aLo * bLo + (cross % 0x1_0000) * 0x1_0000;
+  return aHi * bHi + Math.floor(cross / 0x1_0000) + Math.floor(low / _TWO_32);
+}
+
+/** `x = x + y + 2 * lo32(x) * lo32(y)` over 64-bit words at offsets `x` and `y`. */
+function _blaMka(v: Uint32Array, x: number, y: number): void {
+  const xl = v[x]!;
+  const yl = v[y]!;
+  const productHi = _mulHi(xl, yl);
+  const productLo = Math.imul(xl, yl) >>> 0;
+  const lo = xl + yl + 2 * productLo;
+  v[x + 1] = v[x + 1]! + v[y + 1]! + 2 * productHi + Math.floor(lo / _TWO_32);
+  v[x] = lo;
+}
+
+/** `d = rotr64(d ^ a, n)`. */
+function _xorRotr(v: Uint32Array, d: number, a: number, n: number): void {
+  let lo = v[d]! ^ v[a]!;
+  let hi = v[d + 1]! ^ v[a + 1]!;
+  if (n >= 32) {
+    [lo, hi] = [hi, lo];
+    n -= 32;
+  }
+  if (n > 0) {
+    v[d] = (lo >>> n) | (hi << (32 - n));
+    v[d + 1] = (hi >>> n) | (lo << (32 - n));
+  } else {
+    v[d] = lo;
+    v[d + 1] = hi;
+  }
+}
+
+function _gb(v: Uint32Array, a: number, b: number, c: number, d: number): void {
+  _blaMka(v, a, b);
+  _xorRotr(v, d, a, 32);
+  _blaMka(v, c, d);
+  _xorRotr(v, b, c, 24);
+  _blaMka(v, a, b);
+  _xorRotr(v, d, a, 16);
+  _blaMka(v, c, d);
+  _xorRotr(v, b, c, 63);
+}
+
+/** Permutation P over the 16 words listed at `_P_OFFSETS[base..base+16]`. */
+function _permute(v: Uint32Array, base: number): void {
+  const o = _P_OFFSETS;
+  _gb(v, o[base]!, o[base + 4]!, o[base + 8]!, o[base + 12]!);
+  _gb(v, o[base + 1]!, o[base + 5]!, o[base + 9]!, o[base + 13]!);
+  _gb(v, o[base + 2]!, o[base + 6]!, o[base + 10]!, o[base + 14]!);
+  _gb(v, o[base + 3]!, o[base + 7]!, o[base + 11]!, o[base + 15]!);
+  _gb(v, o[base]!, o[base + 5]!, o[base + 10]!, o[base + 15]!);
+  _gb(v, o[base + 1]!, o[base + 6]!, o[base + 11]!, o[base + 12]!);
+  _gb(v, o[base + 2]!, o[base + 7]!, o[base + 8]!, o[base + 13]!);
+  _gb(v, o[base + 3]!, o[base + 4]!, o[base + 9]!, o[base + 14]!);
+}
+
+/**
+ * Compression G(X, Y) into `out[outOffset..]`. With `xor`, the result is
+ * XORed into the existing block (passes after the first, Argon2 v1.3).
+ * `r` and `z` are 256-word scratch blocks.
+ */
+function _compress(
+  x: Uint32Array,
+  xOffset: number,
+  y: Uint32Array,
+  yOffset: number,
+  out: Uint32Array,
+  outOffset: number,
+  xor: boolean,
+  r: Uint32Array,
+  z: Uint32Array,
+): void {
+  for (let k = 0; k < _BLOCK_WORDS; k++) r[k] = x[xOffset + k]! ^ y[yOffset + k]!;
+  z.set(r);
+  for (let base = 0; base < 256; base += 16) _permute(z, base);
+  if (xor) {
+    for (let k = 0; k < _BLOCK_WORDS; k++) out[outOffset + k] ^= z[k]! ^ r[k]!;
+  } else {
+    for (let k = 0; k < _BLOCK_WORDS; k++) out[outOffset + k] = z[k]! ^ r[k]!;
+  }
+}
+
+function _bytesToWords(bytes: Uint8Array, out: Uint32Array, offset: number): void {
+  for (let i = 0; i < _BLOCK_WORDS; i++) {
+    out[offset + i] =
+      bytes[i * 4]! |
+      (bytes[i * 4 + 1]! << 8) |
+      (bytes[i * 4 + 2]! << 16) |
+      (bytes[i * 4 + 3]! << 24);
+  }
+}
+
+async function _argon2id(
+  password: Uint8Array,
+  salt: Uint8Array,
+  config: _Argon2Config,
+  length: number,
+  secret: Uint8Array,
+  associatedData: Uint8Array,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const { memoryCost, timeCost, parallelism: lanes } = config;
+  const blockCount = _blockCount(memoryCost, lanes);
+  const laneLength = blockCount / lanes;
+  const segmentLength = laneLength / _SYNC_POINTS;
+
+  // H0 is a plain 64-byte BLAKE2b digest of the parameters and inputs
+  const h0 = createBlake2bState({ outputLen: 64 });
+  for (const part of [
+    _le32(lanes),
+    _le32(length),
+    _le32(memoryCost),
+    _le32(timeCost),
+    _le32(_VERSION),
+    _le32(_TYPE_ID),
+    _le32(password.length),
+    password,
+    _le32(salt.length),
+    salt,
+    _le32(secret.length),
+    secret,
+    _le32(associatedData.length),
+    associatedData,
+  ]) {
+    h0.update(part);
+  }
+  const seed = h0.digest();
+
+  const memory = new Uint32Array(blockCount * _BLOCK_WORDS);
+  for (let lane = 0; lane < lanes; lane++) {
+    for (let column = 0; column < 2; column++) {
+      const block = _blake2bLong([seed, _le32(column), _le32(lane)], 1024);
+      _bytesToWords(block, memory, (lane * laneLength + column) * _BLOCK_WORDS);
+    }
+  }
+
+  const r = new Uint32Array(_BLOCK_WORDS);
+  const z = new Uint32Array(_BLOCK_WORDS);
+  const zero = new Uint32Array(_BLOCK_WORDS);
+  const input = new Uint32Array(_BLOCK_WORDS);
+  const scratch = new Uint32Array(_BLOCK_WORDS);
+  const addresses = new Uint32Array(_BLOCK_WORDS);
+  let deadline = Date.now() + TICK_MS;
+
+  for (let pass = 0; pass < timeCost; pass++) {
+    for (let slice = 0; slice < _SYNC_POINTS; slice++) {
+      // Argon2id: data-independent addressing for the first half of the first pass
+      const dataIndependent = pass === 0 && slice < 2;
+      for (let lane = 0; lane < lanes; lane++) {
+        if (dataIndependent) {
+          input.fill(0);
+          input[0] = pass;
+          input[2] = lane;
+          input[4] = slice;
+          input[6] = blockCount;
+          input[8] = timeCost;
+          input[10] = _TYPE_ID;
+        }
+        const nextAddresses = (): void => {
+          input[12]!++;
+          _compress(zero, 0, input, 0, scratch, 0, false, r, z);
+          _compress(zero, 0, scratch, 0, addresses, 0, false, r, z);
+        };
+
+        let index = 0;
+        if (pass === 0 && slice === 0) {
+          index = 2;
+          if (dataIndependent) nextAddresses();
+        }
+        let current = lane * laneLength + slice * segmentLength + index;
+        let previous = current % laneLength === 0 ? current + laneLength - 1 : current - 1;
+
+        for (; index < segmentLength; index++, current++, previous++) {
+          if (current % laneLength === 1) previous = current - 1;
+
+          let j1: number;
+          let j2: number;
+          if (dataIndependent) {
+            if (index % _ADDRESSES_PER_BLOCK === 0) nextAddresses();
+            j1 = addresses[2 * (index % _ADDRESSES_PER_BLOCK)]!;
+            j2 = addresses[2 * (index % _ADDRESSES_PER_BLOCK) + 1]!;
+          } else {
+            j1 = memory[previous * _BLOCK_WORDS]!;
+            j2 = memory[previous * _BLOCK_WORDS + 1]!;
+          }
+
+          const refLane = pass === 0 && slice === 0 ? lane : j2 % lanes;
+          const sameLane = refLane === lane;
+          // Reference area (RFC 9106, section 3.4.1.2)
+          let areaSize: number;
+          if (pass === 0) {
+            areaSize =
+              slice === 0 || sameLane
+                ? slice * segmentLength + index - 1
+                : slice * segmentLength - (index === 0 ? 1 : 0);
+          } else {
+            areaSize = sameLane
+              ? laneLength - segmentLength + index - 1
+              : laneLength - segmentLength - (index === 0 ? 1 : 0);
+          }
+          const relative = areaSize - 1 - _mulHi(areaSize, _mulHi(j1, j1));
+          const start = pass === 0 || slice === _SYNC_POINTS - 1 ? 0 : (slice + 1) * segmentLength;
+          const refIndex = refLane * laneLength + ((start + relative) % laneLength);
+
+          _compress(
+            memory,
+            previous * _BLOCK_WORDS,
+            memory,
+            refIndex * _BLOCK_WORDS,
+            memory,
+            current * _BLOCK_WORDS,
+            pass > 0,
+            r,
+            z,
+          );
+          if ((index & 0xf) === 0 && Date.now() > deadline) {
+            await yieldToEventLoop();
+            deadline = Date.now() + TICK_MS;
+          }
+        }
+      }
+    }
+  }
+
+  // Final block: XOR of the last block of every lane
+  const final = memory.slice((laneLength - 1) * _BLOCK_WORDS, laneLength * _BLOCK_WORDS);
+  for (let lane = 1; lane < lanes; lane++) {
+    const offset = (lane * laneLength + laneLength - 1) * _BLOCK_WORDS;
+    for (let k = 0; k < _BLOCK_WORDS; k++) final[k] ^= memory[offset + k]!;
+  }
+  const finalBytes = new Uint8Array(1024);
+  for (let i = 0; i < _BLOCK_WORDS; i++) {
+    const word = final[i]!;
+    finalBytes[i * 4] = word;
+    finalBytes[i * 4 + 1] = word >>> 8;
+    finalBytes[i * 4 + 2] = word >>> 16;
+    finalBytes[i * 4 + 3] = word >>> 24;
+  }
+  return _blake2bLong([finalBytes], length);
+}
+
+function _resolveHashOptions(options: Argon2idHashOptions | undefined): {
+  config: _Argon2Config;
+  saltLength: number;
+  hashLength: number;
+} {
+  const { saltLength = _MIN_LENGTH, hashLength = 32 } = options ?? {};
+  if (!Number.isInteger(saltLength) || saltLength < _MIN_LENGTH) {
+    throw new RangeError(`saltLength must be an integer of at least ${_MIN_LENGTH}.`);
+  }
+  if (!Number.isInteger(hashLength) || hashLength < _MIN_LENGTH) {
+    throw new RangeError(`hashLength must be an integer of at least ${_MIN_LENGTH}.`);
+  }
+  return { config: _resolveParams(options), saltLength, hashLength };
+}
+
+// #endregion
+
+/**
+ * Derive a tag with Argon2id (RFC 9106, version 0x13).
+ *
+ * Runs in portable TypeScript on the library's BLAKE2b, with no native
+ * addons. The memory-hard fill yields to the event loop every few
+ * milliseconds, so long derivations don't block timers or I/O.
+ *
+ * When `returnAs` is not specified, the return type mirrors the `password` input:
+ * - `string` password returns a hex `string`
+ * - `BufferSource` password returns a `Uint8Array<ArrayBuffer>`
+ *
+ * @param password The password, as a string (UTF-8) or raw bytes.
+ * @param options Salt, cost parameters, tag length, optional secret and
+ *                associated data, and output format.
+ * @returns A Promise that resolves to the tag.
+ * @throws {RangeError} If a parameter is out of range, needs more than `maxmem` bytes or exceeds `maxTimeCost`.
+ *
+ * @example
+ * const key = await argon2id(password, { salt, memoryCost: 65536, timeCost: 3, returnAs: "bytes" });
+ */
+export async function argon2id<T extends DigestReturnAs>(
+  password: string | BufferSource,
+  options: Argon2idOptions & { returnAs: T },
+): Promise<T extends "uint8array" | "bytes" ? Uint8Array<ArrayBuffer> : string>;
+export async function argon2id(
+  password: string,
+  options: Omit<Argon2idOptions, "returnAs">,
+): Promise<string>;
+export async function argon2id(
+  password: BufferSource,
+  options: Omit<Argon2idOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer>>;
+export async function argon2id(
+  password: string | BufferSource,
+  options: Omit<Argon2idOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer> | string>;
+export async function argon2id(
+  password: string | BufferSource,
+  options: Argon2idOptions,
+): Promise<Uint8Array<ArrayBuffer> | string> {
+  const { salt, length = 32, secret, associatedData, returnAs } = options;
+  if (!Number.isInteger(length) || length < 4 || length > 0xffff_ffff) {
+    throw new RangeError("argon2 length must be an integer of at least 4.");
+  }
+  const saltBytes = toBytes(salt);
+  if (saltBytes.length < 8) {
+    throw new RangeError("argon2 salt must be at least 8 bytes.");
+  }
+  const config = _resolveParams(options);
+  const bytes = await _argon2id(
+    toBytes(password),
+    saltBytes,
+    config,
+    length,
+    secret === undefined ? new Uint8Array(0) : toBytes(secret),
+    associatedData === undefined ? new Uint8Array(0) : toBytes(associatedData),
+  );
+  const effectiveReturnAs = returnAs ?? (typeof password === "string" ? "hex" : "uint8array");
+  return encodeBytes(bytes, effectiveReturnAs, "argon2id");
+}
+
+/**
+ * Hash a password with Argon2id for storage.
+ *
+ * Returns a PHC string: `$argon2id$v=19$m=19456,t=2,p=1$<salt>$<hash>`, with
+ * salt and hash in unpadded standard base64, compatible with the reference
+ * implementation and libraries built on it. A fresh random salt is generated
+ * on every call.
+ *
+ * @param password The password, as a string (UTF-8) or raw bytes.
+ * @param options Cost parameters, memory limit, salt and hash lengths.
+ * @returns A Promise that resolves to the PHC string.
+ * @throws {RangeError} If a parameter is out of range, needs more than `maxmem` bytes or exceeds `maxTimeCost`.
+ *
+ * @example
+ * const stored = await argon2idHash("correct horse battery staple");
+ */
+export async function argon2idHash(
+  password: string | BufferSource,
+  options?: Argon2idHashOptions,
+): Promise<string> {
+  const { config, saltLength, hashLength } = _resolveHashOptions(options);
+  const salt = secureRandomBytes(saltLength);
+  const hash = await _argon2id(
+    toBytes(password),
+    salt,
+    config,
+    hashLength,
+    new Uint8Array(0),
+    new Uint8Array(0),
+  );
+  return formatPHC({
+    id: "argon2id",
+    version: _VERSION,
+    params: {
+      m: String(config.memoryCost),
+      t: String(config.timeCost),
+      p: String(config.parallelism),
+    },
+    salt,
+    hash,
+  });
+}
+
+/**
+ * Verify a password against an `$argon2id$` PHC string.
+ *
+ * The stored parameters are checked against `policy.maxmem` and
+ * `policy.maxTimeCost` before any work is done, and the tag is compared in
+ * constant time with {@link secureCompare}. `needsRehash` is set when the
+ * password matched but the memory, time or parallelism cost, the salt or the
+ * hash fall below `policy` (the {@link argon2idHash} defaults when omitted).
+ *
+ * @param password The candidate password.
+ * @param phc The stored PHC string.
+ * @param policy The current hashing policy.
+ * @returns A Promise that resolves to `{ valid, needsRehash, algorithm }`.
+ * @throws {SyntaxError} If `phc` is not a well-formed `$argon2id$` PHC string.
+ * @throws {TypeError} If `phc` uses an Argon2 version other than 19.
+ * @throws {RangeError} If the stored parameters are invalid or exceed `maxmem` or `maxTimeCost`.
+ *
+ * @example
+ * const { valid, needsRehash } = await argon2idVerify(input, user.passwordHash);
+ * if (valid && needsRehash) user.passwordHash = await argon2idHash(input);
+ */
+export async function argon2idVerify(
+  password: string | BufferSource,
+  phc: string,
+  policy?: Argon2idHashOptions,
+): Promise<PasswordVerifyResult> {
+  const target = _resolveHashOptions(policy);
+  const parsed = parsePHC(phc);
+  if (parsed.id !== "argon2id" || Object.keys(parsed.params).length !== 3) {
+    throw new SyntaxError("Malformed PHC string.");
+  }
+  const config = _resolveParams({
+    memoryCost: phcInteger(parsed, "m"),
+    timeCost: phcInteger(parsed, "t"),
+    parallelism: phcInteger(parsed, "p"),
+    maxmem: target.config.maxmem,
+    maxTimeCost: target.config.maxTimeCost,
+  });
+  if (parsed.version !== _VERSION) {
+    throw new TypeError(`Unsupported Argon2 version: ${parsed.version ?? 16}`);
+  }
+  if (parsed.salt.length < 8 || parsed.hash.length < 4) {
+    throw new SyntaxError("Malformed PHC string.");
+  }
+
+  const derived = await _argon2id(
+    toBytes(password),
+    parsed.salt,
+    config,
+    parsed.hash.length,
+    new Uint8Array(0),
+    new Uint8Array(0),
+  );
+  const valid = secureCompare(parsed.hash, derived);
+  const needsRehash =
+    valid &&
+    (config.memoryCost < target.config.memoryCost ||
+      config.timeCost < target.config.timeCost ||
+      config.parallelism < target.config.parallelism ||
+      parsed.salt.length < target.saltLength ||
+      parsed.hash.length < target.hashLength);
+  return { valid, needsRehash, algorithm: "argon2id" };
+}
@@ -0,0 +1,259 @@
+import type { DigestReturnAs } from "./hash.ts";
+import { type Blake2Params, createBlake2bState, createBlake2sState } from "./_internal/blake2.ts";
+import { createBlake3State } from "./_internal/blake3.ts";
+import { encodeBytes, toBytes } from "./_internal/encoding.ts";
+import type { HashState } from "./_internal/sha.ts";
+import { textEncoder } from "./utils/index.ts";
+
+export interface Blake2Options {
+  /**
+   * Digest length in bytes: 1-64 for BLAKE2b, 1-32 for BLAKE2s. The length is
+   * part of the parameter block, so a shorter digest is not a prefix of a
+   * longer one.
+   *
+   * @default 64 for BLAKE2b, 32 for BLAKE2s
+   */
+  length?: number;
+  /**
+   * Secret key for keyed hashing (MAC mode), up to 64 bytes for BLAKE2b and
+   * 32 bytes for BLAKE2s. Strings are UTF-8 encoded.
+   */
+  key?: string | BufferSource;
+  /**
+   * Salt, up to 16 bytes for BLAKE2b and 8 bytes for BLAKE2s. Shorter values
+   * are zero-padded.
+   */
+  salt?: string | BufferSource;
+  /**
+   * Personalization string for domain separation, up to 16 bytes for BLAKE2b
+   * and 8 bytes for BLAKE2s. Shorter values are zero-padded.
+   */
+  personalization?: string | BufferSource;
+  /**
+   * Whether to output to HEX, Base64, Base64URL or Uint8Array.
+   *
+   * When not specified, mirrors the input type:
+   * - `string` input defaults to `'hex'`
+   * - `BufferSource` input defaults to `'uint8array'`
+   */
+  returnAs?: DigestReturnAs;
+}
+
+export interface Blake3Options {
+  /**
+   * Output length in bytes. BLAKE3 is extendable-output, so any positive
+   * length works and shorter outputs are prefixes of longer ones.
+   *
+   * @default 32
+   */
+  length?: number;
+  /** 32-byte secret key selecting keyed-hash (MAC) mode. Strings are UTF-8 encoded. */
+  key?: string | BufferSource;
+  /**
+   * Context string selecting derive-key mode: the input is treated as key
+   * material. The context should be hardcoded, globally unique and
+   * application-specific, e.g. `"example.com 2025-01-01 session tokens v1"`.
+   * Cannot be combined with `key`.
+   */
+  context?: string;
+  /**
+   * Whether to output to HEX, Base64, Base64URL or Uint8Array.
+   *
+   * When not specified, mirrors the input type:
+   * - `string` input defaults to `'hex'`
+   * - `BufferSource` input defaults to `'uint8array'`
+   */
+  returnAs?: DigestReturnAs;
+}
+
+// #region BLAKE2
+
+/**
+ * Hash data with BLAKE2b (RFC 7693), optimized for 64-bit platforms.
+ *
+ * Runs on a portable TypeScript implementation, so unlike {@link hash} it is
+ * synchronous. Supports keyed hashing, salt and personalization.
+ *
+ * When `returnAs` is not specified, the return type mirrors the input:
+ * - `string` input returns a hex `string`
+ * - `BufferSource` input returns a `Uint8Array<ArrayBuffer>`
+ *
+ * @param data The input data to hash. Can be a string or any BufferSource.
+ * @param options Output length, key, salt, personalization and `returnAs`.
+ * @returns The digest as a string (HEX, Base64, Base64URL) or Uint8Array<ArrayBuffer>.
+ * @throws {RangeError} If the length, key, salt or personalization is out of range.
+ *
+ * @example
+ * // Content address with a 256-bit digest
+ * const id = blake2b(fileBytes, { length: 32, returnAs: "base64url" });
+ *
+ * // Keyed hashing (MAC)
+ * const tag = blake2b("message", { key: secretKey });
+ */
+export function blake2b<T extends DigestReturnAs>(
+  data: string | BufferSource,
+  options: Blake2Options & { returnAs: T },
+): T extends "uint8array" | "bytes" ? Uint8Array<ArrayBuffer> : string;
+export function blake2b(data: string, options?: Omit<Blake2Options, "returnAs">): string;
+export function blake2b(
+  data: BufferSource,
+  options?: Omit<Blake2Options, "returnAs">,
+): Uint8Array<ArrayBuffer>;
+export function blake2b(
+  data: string | BufferSource,
+  options?: Omit<Blake2Options, "returnAs">,
+): Uint8Array<ArrayBuffer> | string;
+export function blake2b(
+  data: string | BufferSource,
+  options: Blake2Options = {},
+): Uint8Array<ArrayBuffer> | string {
+  const state = createBlake2bState(_blake2Params("blake2b", 64, options));
+  return _digest(state, data, options.returnAs, "blake2b");
+}
+
+/**
+ * Hash data with BLAKE2s (RFC 7693), optimized for 8- to 32-bit platforms.
+ *
+ * Same options and return rules as {@link blake2b}, with half-size limits:
+ * up to 32-byte digests and keys, 8-byte salt and personalization.
+ *
+ * @param data The input data to hash. Can be a string or any BufferSource.
+ * @param options Output length, key, salt, personalization and `returnAs`.
+ * @returns The digest as a string (HEX, Base64, Base64URL) or Uint8Array<ArrayBuffer>.
+ * @throws {RangeError} If the length, key, salt or personalization is out of range.
+ *
+ * @example
+ * const digest = blake2s("hello world");
+ * // '9aec6806794561107e594b1f6a8a6b0c92a0cba9acf5e5e93cca06f781813b0b'
+ */
+export function blake2s<T extends DigestReturnAs>(
+  data: string | BufferSource,
+  options: Blake2Options & { returnAs: T },
+): T extends "uint8array" | "bytes" ? Uint8Array<ArrayBuffer> : string;
+export function blake2s(data: string, options?: Omit<Blake2Options, "returnAs">): string;
+export function blake2s(
+  data: BufferSource,
+  options?: Omit<Blake2Options, "returnAs">,
+): Uint8Array<ArrayBuffer>;
+export function blake2s(
+  data: string | BufferSource,
+  options?: Omit<Blake2Options, "returnAs">,
+): Uint8Array<ArrayBuffer> | string;
+export function blake2s(
+  data: string | BufferSource,
+  options: Blake2Options = {},
+): Uint8Array<ArrayBuffer> | string {
+  const state = createBlake2sState(_blake2Params("blake2s", 32, options));
+  return _digest(state, data, options.returnAs, "blake2s");
+}
+
+function _blake2Params(source: string, maxLen: number, options: Blake2Options): Blake2Params {
+  const { length = maxLen } = options;
+  if (!Number.isInteger(length) || length < 1 || length > maxLen) {
+    throw new RangeError(`${source} length must be an integer between 1 and ${maxLen}.`);
+  }
+  const fieldLen = maxLen / 4;
+  return {
+    outputLen: length,
+    key: _optionBytes(source, "key", options.key, maxLen),
+    salt: _optionBytes(source, "salt", options.salt, fieldLen),
+    personalization: _optionBytes(source, "personalization", options.personalization, fieldLen),
+  };
+}
+
+function _optionBytes(
+  source: string,
+  name: string,
+  value: string | BufferSource | undefined,
+  maxLen: number,
+): Uint8Array | undefined {
+  if (value === undefined) return undefined;
+  const bytes = toBytes(value);
+  if (bytes.length > maxLen) {
+    throw new RangeError(`${source} ${name} must be at most ${maxLen} bytes.`);
+  }
+  return bytes;
+}
+
+// #endregion
+
+// #region BLAKE3
+
+/**
+ * Hash data with BLAKE3.
+ *
+ * Three modes, selected by the options:
+ * - plain hashing (default)
+ * - keyed hashing when `key` (exactly 32 bytes) is set
+ * - key derivation when `context` is set; `data` is then the key material
+ *
+ * Output is extendable: `length` may be any positive number of bytes.
+ * Runs on a portable TypeScript implementation, so it is synchronous.
+ *
+ * When `returnAs` is not specified, the return type mirrors the input:
+ * - `string` input returns a hex `string`
+ * - `BufferSource` input returns a `Uint8Array<ArrayBuffer>`
+ *
+ * @param data The input data (or key material) to hash. Can be a string or any BufferSource.
+ * @param options Output length, key or context, and `returnAs`.
+ * @returns The digest as a string (HEX, Base64, Base64URL) or Uint8Array<ArrayBuffer>.
+ * @throws {RangeError} If the length or key size is invalid.
+ * @throws {TypeError} If both `key` and `context` are set.
+ *
+ * @example
+ * // Fingerprint a file for dedup
+ * const id = blake3(fileBytes, { returnAs: "hex" });
+ *
+ * // Derive a subkey from a master secret
+ * const subkey = blake3(masterKey, { context: "my-app 2025-06-01 session encryption" });
+ */
+export function blake3<T extends DigestReturnAs>(
+  data: string | BufferSource,
+  options: Blake3Options & { returnAs: T },
+): T extends "uint8array" | "bytes" ? Uint8Array<ArrayBuffer> : string;
+export function blake3(data: string, options?: Omit<Blake3Options, "returnAs">): string;
+export function blake3(
+  data: BufferSource,
+  options?: Omit<Blake3Options, "returnAs">,
+): Uint8Array<ArrayBuffer>;
+export function blake3(
+  data: string | BufferSource,
+  options?: Omit<Blake3Options, "returnAs">,
+): Uint8Array<ArrayBuffer> | string;
+export function blake3(
+  data: string | BufferSource,
+  options: Blake3Options = {},
+): Uint8Array<ArrayBuffer> | string {
+  const { length = 32, key, context } = options;
+  if (!Number.isInteger(length) || length < 1) {
+    throw new RangeError("blake3 length must be a positive integer.");
+  }
+  if (key !== undefined && context !== undefined) {
+    throw new TypeError("blake3 key and context are mutually exclusive.");
+  }
+
+  const keyBytes = key === undefined ? undefined : toBytes(key);
+  if (keyBytes && keyBytes.length !== 32) {
+    throw new RangeError("blake3 key must be exactly 32 bytes.");
+  }
+
+  const state = createBlake3State({
+    outputLen: length,
+    key: keyBytes,
+    context: context === undefined ? undefined : textEncoder.encode(context),
+  });
+  return _digest(state, data, options.returnAs, "blake3");
+}
+
+// #endregion
+
+function _digest(
+  state: HashState,
+  data: string | BufferSource,
+  returnAs: DigestReturnAs | undefined,
+  source: string,
+): Uint8Array<ArrayBuffer> | string {
+  const isBufferInput = typeof data !== "string";
+  state.update(toBytes(data));
+  return encodeBytes(state.digest(), returnAs ?? (isBufferInput ? "uint8array" : "hex"), source);
+}
@@ -0,0 +1,231 @@
+import {
+  CHACHA20_KEY_LENGTH,
+  CHACHA20_NONCE_LENGTH,
+  POLY1305_TAG_LENGTH,
+  chacha20Poly1305Open,
+  chacha20Poly1305Seal,
+  hchacha20,
+} from "./_internal/chacha20.ts";
+import {
+  assertEnvelopeReturnAs,
+  assertPlaintextReturnAs,
+  DECRYPTION_FAILED,
+  parseEnvelope,
+} from "./_internal/envelope.ts";
+import { encodeBytes, toBytes } from "./_internal/encoding.ts";
+import { isCryptoKey } from "./_internal/keys.ts";
+import type { DecryptOptions, EncryptOptions, EnvelopeReturnAs } from "./encrypt.ts";
+import { secureRandomBytes } from "./random.ts";
+import { type DecodeReturnAs, textDecoder } from "./utils/index.ts";
+
+/**
+ * ChaCha20-Poly1305 AEADs: the RFC 8439 construction with a 96-bit nonce, or
+ * XChaCha20-Poly1305 (draft-irtf-cfrg-xchacha) with a 192-bit nonce.
+ */
+export type ChaChaAlgorithm = "XChaCha20-Poly1305" | "ChaCha20-Poly1305";
+
+export interface ChaChaEncryptOptions extends EncryptOptions {
+  /**
+   * The AEAD to seal with. {@link chachaDecrypt} reads it back from the envelope.
+   *
+   * @default 'XChaCha20-Poly1305'
+   */
+  algorithm?: ChaChaAlgorithm;
+}
+
+export type ChaChaDecryptOptions = DecryptOptions;
+
+// #region Internals
+
+/** Envelope versions, continuing after `encrypt()`'s 0x01-0x02 so the two never collide. */
+const _VERSIONS: Record<ChaChaAlgorithm, number> = {
+  "XChaCha20-Poly1305": 0x03,
+  "ChaCha20-Poly1305": 0x04,
+};
+
+const _NONCE_LENGTHS: Record<ChaChaAlgorithm, number> = {
+  "XChaCha20-Poly1305": 24,
+  "ChaCha20-Poly1305": CHACHA20_NONCE_LENGTH,
+};
+
+function _algorithmOf(version: number | undefined): ChaChaAlgorithm | undefined {
+  return (Object.keys(_VERSIONS) as ChaChaAlgorithm[]).find(
+    (algorithm) => _VERSIONS[algorithm] === version,
+  );
+}
+
+function _keyBytes(key: BufferSource): Uint8Array {
+  if (typeof key === "string") {
+    throw new TypeError(
+      "Encryption keys must be bytes. Derive a key from a password with deriveKeyFromPassword().",
+    );
+  }
+  if (isCryptoKey(key)) {
+    throw new TypeError("Web Crypto has no ChaCha20; pass the raw key bytes.");
+  }
+  const bytes = toBytes(key);
+  if (bytes.length !== CHACHA20_KEY_LENGTH) {
+    throw new RangeError(
+      `ChaCha20 keys must be ${CHACHA20_KEY_LENGTH} bytes, got ${bytes.length}.`,
+    );
+  }
+  return bytes;
+}
+
+/** The ChaCha20-Poly1305 key and nonce for either algorithm. */
+function _aeadParams(key: Uint8Array, nonce: Uint8Array): { key: Uint8Array; nonce: Uint8Array } {
+  if (nonce.length === CHACHA20_NONCE_LENGTH) return { key, nonce };
+  // XChaCha20: HChaCha20 subkey from the first 16 nonce bytes, then 0x00000000 || the last 8
+  const subNonce = new Uint8Array(CHACHA20_NONCE_LENGTH);
+  subNonce.set(nonce.subarray(16), 4);
+  return { key: hchacha20(key, nonce.subarray(0, 16)), nonce: subNonce };
+}
+
+// #endregion
+
+/**
+ * Encrypt data with XChaCha20-Poly1305 (default) or ChaCha20-Poly1305 into a
+ * self-describing envelope.
+ *
+ * A portable implementation for runtimes and protocols where AES-GCM does not
+ * fit. XChaCha20-Poly1305's 192-bit nonce is drawn from
+ * {@link secureRandomBytes} for every call and is large enough that random
+ * nonces never realistically collide, however many messages one key seals.
+ * ChaCha20-Poly1305's 96-bit nonce has the same limits as AES-GCM.
+ *
+ * Envelope layout:
+ *
+ * ```
+ * version (1 byte, 0x03 XChaCha / 0x04 ChaCha) | nonce (24 / 12 bytes) | ciphertext | tag (16 bytes)
+ * ```
+ *
+ * When `returnAs` is not specified, the return type mirrors the plaintext:
+ * - `string` plaintext returns a base64url `string`
+ * - `BufferSource` plaintext returns a `Uint8Array<ArrayBuffer>`
+ *
+ * @param key 32 raw key bytes.
+ * @param plaintext The data to encrypt. Strings are UTF-8 encoded.
+ * @param options Algorithm, additional authenticated data and envelope encoding.
+ * @returns A Promise that resolves to the envelope.
+ * @throws {TypeError} If `key` is a string or a `CryptoKey`.
+ * @throws {RangeError} If `key` is not 32 bytes long.
+ *
+ * @example
+ * const key = secureRandomBytes(32);
+ * const token = await chachaEncrypt(key, "secret message"); // base64url string
+ * const message = await chachaDecrypt(key, token); // "secret message"
+ */
+export async function chachaEncrypt<T extends EnvelopeReturnAs>(
+  key: BufferSource,
+  plaintext: string | BufferSource,
+  options: ChaChaEncryptOptions & { returnAs: T },
+): Promise<T extends "uint8array" | "bytes" ? Uint8Array<ArrayBuffer> : string>;
+export async function chachaEncrypt(
+  key: BufferSource,
+  plaintext: string,
+  options?: Omit<ChaChaEncryptOptions, "returnAs">,
+): Promise<string>;
+export async function chachaEncrypt(
+  key: BufferSource,
+  plaintext: BufferSource,
+  options?: Omit<ChaChaEncryptOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer>>;
+export async function chachaEncrypt(
+  key: BufferSource,
+  plaintext: string | BufferSource,
+  options?: Omit<ChaChaEncryptOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer> | string>;
+export async function chachaEncrypt(
+  key: BufferSource,
+  plaintext: string | BufferSource,
+  options: ChaChaEncryptOptions = {},
+): Promise<Uint8Array<ArrayBuffer> | string> {
+  const { algorithm = "XChaCha20-Poly1305", aad = "" } = options;
+  const returnAs = options.returnAs ?? (typeof plaintext === "string" ? "base64url" : "uint8array");
+  assertEnvelopeReturnAs(returnAs, "chachaEncrypt");
+  if (!Object.hasOwn(_VERSIONS, algorithm)) {
+    throw new TypeError(`Unsupported ChaCha algorithm: ${String(algorithm)}`);
+  }
+
+  const keyBytes = _keyBytes(key);
+  const nonce = secureRandomBytes(_NONCE_LENGTHS[algorithm]);
+  const params = _aeadParams(keyBytes, nonce);
+  const sealed = chacha20Poly1305Seal(params.key, params.nonce, toBytes(plaintext), toBytes(aad));
+
+  const envelope = new Uint8Array(1 + nonce.length + sealed.length);
+  envelope[0] = _VERSIONS[algorithm];
+  envelope.set(nonce, 1);
+  envelope.set(sealed, 1 + nonce.length);
+  return encodeBytes(envelope, returnAs, "chachaEncrypt");
+}
+
+/**
+ * Decrypt an envelope produced by {@link chachaEncrypt}.
+ *
+ * The algorithm is read from the envelope's version byte, and string
+ * envelopes may be base64url or hex. Every envelope problem — malformed
+ * encoding, truncation, unknown version, wrong key, wrong `aad` or a tampered
+ * tag — fails with the same `Error("Decryption failed.")`.
+ *
+ * When `returnAs` is not specified, the plaintext type mirrors the envelope:
+ * - `string` envelope returns the plaintext as a UTF-8 `string`
+ * - `BufferSource` envelope returns a `Uint8Array<ArrayBuffer>`
+ *
+ * @param key The 32 key bytes the envelope was encrypted with.
+ * @param envelope The envelope, as bytes or a base64url / hex string.
+ * @param options Additional authenticated data and plaintext shape.
+ * @returns A Promise that resolves to the plaintext.
+ * @throws {Error} `"Decryption failed."` if the envelope cannot be authenticated.
+ * @throws {TypeError} If `key` is a string or a `CryptoKey`.
+ * @throws {RangeError} If `key` is not 32 bytes long.
+ *
+ * @example
+ * const message = await chachaDecrypt(key, token);
+ * const bytes = await chachaDecrypt(key, token, { returnAs: "bytes" });
+ */
+export async function chachaDecrypt<T extends DecodeReturnAs>(
+  key: BufferSource,
+  envelope: string | BufferSource,
+  options: ChaChaDecryptOptions & { returnAs: T },
+): Promise<T extends "string" ? string : Uint8Array<ArrayBuffer>>;
+export async function chachaDecrypt(
+  key: BufferSource,
+  envelope: string,
+  options?: Omit<ChaChaDecryptOptions, "returnAs">,
+): Promise<string>;
+export async function chachaDecrypt(
+  key: BufferSource,
+  envelope: BufferSource,
+  options?: Omit<ChaChaDecryptOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer>>;
+export async function chachaDecrypt(
+  key: BufferSource,
+  envelope: string | BufferSource,
+  options?: Omit<ChaChaDecryptOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer> | string>;
+export async function chachaDecrypt(
+  key: BufferSource,
+  envelope: string | BufferSource,
+  options: ChaChaDecryptOptions = {},
+): Promise<Uint8Array<ArrayBuffer> | string> {
+  const { aad = "" } = options;
+  const returnAs = options.returnAs ?? (typeof envelope === "string" ? "string" : "uint8array");
+  assertPlaintextReturnAs(returnAs, "chachaDecrypt");
+  const keyBytes = _keyBytes(key);
+
+  const bytes = parseEnvelope(envelope);
+  const algorithm = _algorithmOf(bytes[0]);
+  if (!algorithm) throw new Error(DECRYPTION_FAILED);
+  const nonceLength = _NONCE_LENGTHS[algorithm];
+  if (bytes.length < 1 + nonceLength + POLY1305_TAG_LENGTH) throw new Error(DECRYPTION_FAILED);
+
+  const params = _aeadParams(keyBytes, bytes.subarray(1, 1 + nonceLength));
+  const plaintext = chacha20Poly1305Open(
+    params.key,
+    params.nonce,
+    bytes.subarray(1 + nonceLength),
+    toBytes(aad),
+  );
+  if (!plaintext) throw new Error(DECRYPTION_FAILED);
+  return returnAs === "string" ? textDecoder.decode(plaintext) : plaintext;
+}
@@ -0,0 +1,240 @@
+import type { DigestReturnAs } from "./hash.ts";
+import { encodeBytes, toBytes } from "./_internal/encoding.ts";
+import { isBufferSource, isCryptoKey, PRIVATE_JWK_MEMBERS } from "./_internal/keys.ts";
+import { rawPrivateKeyDER } from "./_internal/pem.ts";
+import { type HKDFOptions, hkdf } from "./hkdf.ts";
+import { importKey } from "./keys.ts";
+
+/** Curves for key agreement: X25519 (RFC 7748), or ECDH on the NIST curves. */
+export type ECDHCurve = "X25519" | "P-256" | "P-384" | "P-521";
+
+/**
+ * A key agreement key: a `CryptoKey`, a JWK, or raw bytes (an X25519 private
+ * or public key, an EC private scalar or uncompressed point).
+ */
+export type ECDHKey = CryptoKey | JsonWebKey | BufferSource;
+
+export interface SharedSecretOptions {
+  /**
+   * The curve both keys must be on. Read from the peer's public key when not
+   * specified.
+   */
+  curve?: ECDHCurve;
+  /**
+   * Whether to output to HEX, Base64, Base64URL or Uint8Array.
+   *
+   * @default 'uint8array'
+   */
+  returnAs?: DigestReturnAs;
+}
+
+export interface SharedKeyOptions
+  extends
+    Omit<SharedSecretOptions, "returnAs">,
+    Pick<HKDFOptions, "algorithm" | "length" | "salt" | "info"> {
+  /**
+   * Whether to output to HEX, Base64, Base64URL or Uint8Array.
+   *
+   * @default 'uint8array'
+   */
+  returnAs?: DigestReturnAs;
+}
+
+// #region Internals
+
+/** Shared secret length in bytes: the x-coordinate, or the X25519 u-coordinate. */
+const _SECRET_LENGTHS: Record<ECDHCurve, number> = {
+  "X25519": 32,
+  "P-256": 32,
+  "P-384": 48,
+  "P-521": 66,
+};
+
+/** Raw public key lengths: X25519 u-coordinates and uncompressed EC points. */
+const _PUBLIC_LENGTHS: Record<ECDHCurve, number> = {
+  "X25519": 32,
+  "P-256": 65,
+  "P-384": 97,
+  "P-521": 133,
+};
+
+function _params(curve: ECDHCurve): Algorithm | EcKeyImportParams {
+  return curve === "X25519" ? { name: "X25519" } : { name: "ECDH", namedCurve: curve };
+}
+
+/** The curve of a `CryptoKey` or JWK, or `undefined` if it is not a key agreement key. */
+function _keyCurve(key: CryptoKey | JsonWebKey): ECDHCurve | undefined {
+  let curve: string | undefined;
+  if (isCryptoKey(key)) {
+    const { name, namedCurve } = key.algorithm as EcKeyAlgorithm;
+    curve = name === "X25519" ? name : name === "ECDH" ? namedCurve : undefined;
+  } else if (key.kty === "OKP") {
+    curve = key.crv === "X25519" ? key.crv : undefined;
+  } else if (key.kty === "EC") {
+    curve = key.crv;
+  }
+  return curve !== undefined && Object.hasOwn(_SECRET_LENGTHS, curve)
+    ? (curve as ECDHCurve)
+    : undefined;
+}
+
+/** Infer the curve of a raw public key from its length. */
+function _rawCurve(length: number): ECDHCurve | undefined {
+  return (Object.keys(_PUBLIC_LENGTHS) as ECDHCurve[]).find(
+    (curve) => _PUBLIC_LENGTHS[curve] === length,
+  );
+}
+
+async function _importKey(
+  key: ECDHKey,
+  half: "public" | "private",
+  requested: ECDHCurve | undefined,
+): Promise<{ key: CryptoKey; curve: ECDHCurve }> {
+  const usages: KeyUsage[] = half === "private" ? ["deriveBits"] : [];
+
+  if (isBufferSource(key)) {
+    const bytes = toBytes(key);
+    const curve = requested ?? _rawCurve(bytes.length);
+    if (!curve) throw new RangeError(`Unexpected raw ${half} key length: ${bytes.length}.`);
+    if (half === "private") {
+      const der = rawPrivateKeyDER(curve, bytes);
+      return {
+        key: await crypto.subtle.importKey("pkcs8", der, _params(curve), false, usages),
+        curve,
+      };
+    }
+    if (bytes.length !== _PUBLIC_LENGTHS[curve]) {
+      throw new RangeError(
+        `${curve} public keys are ${_PUBLIC_LENGTHS[curve]} bytes, got ${bytes.length}.`,
+      );
+    }
+    return {
+      key: await crypto.subtle.importKey("raw", bytes, _params(curve), true, usages),
+      curve,
+    };
+  }
+
+  if (typeof key !== "object" || key === null) {
+    throw new TypeError("Key agreement keys must be a CryptoKey, a JWK or raw bytes.");
+  }
+  const curve = _keyCurve(key);
+  if (!curve) {
+    throw new TypeError(
+      'Key agreement keys must be X25519 or ECDH keys; generate EC pairs with { name: "ECDH" }.',
+    );
+  }
+  if (requested !== undefined && requested !== curve) {
+    throw new TypeError(`Curve ${requested} does not fit this ${curve} key.`);
+  }
+
+  if (isCryptoKey(key)) {
+    if (key.type !== half) throw new TypeError(`Expected a ${half} key, got a ${key.type} key.`);
+    return { key, curve };
+  }
+  if (half === "private" && key.d === undefined) throw new TypeError("Expected a private JWK.");
+  const jwk: JsonWebKey = { ...key };
+  delete jwk.key_ops;
+  if (half === "public") {
+    for (const member of PRIVATE_JWK_MEMBERS) delete jwk[member];
+  }
+  const name = curve === "X25519" ? undefined : "ECDH";
+  return { key: await importKey(jwk, { name, usages }), curve };
+}
+
+// #endregion
+
+/**
+ * Compute the raw shared secret of an X25519 or ECDH key agreement.
+ *
+ * Both parties get the same bytes from their own private key and the other
+ * party's public key: 32 bytes for X25519 and P-256, 48 for P-384, 66 for
+ * P-521 (the x-coordinate of the shared point). The secret is not uniformly
+ * random; run it through a KDF before using it as a key, or use
+ * {@link deriveSharedKey}.
+ *
+ * Keys are `CryptoKey`s (`X25519`, or `ECDH` on a NIST curve), JWKs, or raw
+ * bytes: 32-byte X25519 keys, EC private scalars and uncompressed EC points.
+ * The curve is read from the peer's public key, and the private key must be
+ * on the same one.
+ *
+ * @param privateKey Your private key.
+ * @param peerPublicKey The other party's public key.
+ * @param options Curve and output format.
+ * @returns A Promise that resolves to the shared secret.
+ * @throws {TypeError} If a key is not an X25519 or ECDH key of the right half, or the curves differ.
+ * @throws {RangeError} If raw key bytes have the wrong length.
+ *
+ * @example
+ * const alice = await generateKeyPair("X25519");
+ * const bob = await generateKeyPair("X25519");
+ * const secret = await deriveSharedSecret(alice.privateKey, bob.publicKey);
+ * // equals deriveSharedSecret(bob.privateKey, alice.publicKey)
+ */
+export async function deriveSharedSecret<T extends DigestReturnAs>(
+  privateKey: ECDHKey,
+  peerPublicKey: ECDHKey,
+  options: SharedSecretOptions & { returnAs: T },
+): Promise<T extends "uint8array" | "bytes" ? Uint8Array<ArrayBuffer> : string>;
+export async function deriveSharedSecret(
+  privateKey: ECDHKey,
+  peerPublicKey: ECDHKey,
+  options?: Omit<SharedSecretOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer>>;
+export async function deriveSharedSecret(
+  privateKey: ECDHKey,
+  peerPublicKey: ECDHKey,
+  options: SharedSecretOptions = {},
+): Promise<Uint8Array<ArrayBuffer> | string> {
+  const { returnAs = "uint8array" } = options;
+  // Raw public keys have a distinct length per curve, so the peer's key names it
+  const peer = await _importKey(peerPublicKey, "public", options.curve);
+  const own = await _importKey(privateKey, "private", peer.curve);
+  const bits = await crypto.subtle.deriveBits(
+    { name: own.key.algorithm.name, public: peer.key } as EcdhKeyDeriveParams,
+    own.key,
+    _SECRET_LENGTHS[own.curve] * 8,
+  );
+  return encodeBytes(new Uint8Array(bits), returnAs, "deriveSharedSecret");
+}
+
+/**
+ * Agree on a shared secret with {@link deriveSharedSecret} and expand it with
+ * {@link hkdf} into a key, in one call.
+ *
+ * Use `info` to bind the key to its purpose (and, for ephemeral keys, to both
+ * public keys), and `salt` for a per-session or per-deployment value. Both
+ * parties must pass the same options.
+ *
+ * @param privateKey Your private key.
+ * @param peerPublicKey The other party's public key.
+ * @param options Curve, HKDF parameters (algorithm, length, salt, info) and output format.
+ * @returns A Promise that resolves to the derived key.
+ * @throws {TypeError} If a key does not fit (see {@link deriveSharedSecret}) or `algorithm` is not HMAC-capable.
+ * @throws {RangeError} If raw key bytes have the wrong length or `length` is out of range.
+ *
+ * @example
+ * const sessionKey = await deriveSharedKey(ephemeral.privateKey, serverPublicKey, {
+ *   salt: handshakeNonce,
+ *   info: "my-app/session/v1",
+ * });
+ * const envelope = await encrypt(sessionKey, message);
+ */
+export async function deriveSharedKey<T extends DigestReturnAs>(
+  privateKey: ECDHKey,
+  peerPublicKey: ECDHKey,
+  options: SharedKeyOptions & { returnAs: T },
+): Promise<T extends "uint8array" | "bytes" ? Uint8Array<ArrayBuffer> : string>;
+export async function deriveSharedKey(
+  privateKey: ECDHKey,
+  peerPublicKey: ECDHKey,
+  options?: Omit<SharedKeyOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer>>;
+export async function deriveSharedKey(
+  privateKey: ECDHKey,
+  peerPublicKey: ECDHKey,
+  options: SharedKeyOptions = {},
+): Promise<Uint8Array<ArrayBuffer> | string> {
+  const { curve, returnAs = "uint8array", ...hkdfOptions } = options;
+  const secret = await deriveSharedSecret(privateKey, peerPublicKey, { curve });
+  return hkdf(secret, { ...hkdfOptions, returnAs });
+}
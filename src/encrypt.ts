@@ -0,0 +1,377 @@
+import {
+  assertEnvelopeReturnAs,
+  assertPlaintextReturnAs,
+  DECRYPTION_FAILED,
+  parseEnvelope,
+} from "./_internal/envelope.ts";
+import { encodeBytes, toBytes } from "./_internal/encoding.ts";
+import { frameKeyId, unframeKeyId } from "./_internal/keyring.ts";
+import { isCryptoKey } from "./_internal/keys.ts";
+import { type Keyring, isKeyring } from "./keyring.ts";
+import { secureRandomBytes } from "./random.ts";
+import { type DecodeReturnAs, textDecoder, textEncoder } from "./utils/index.ts";
+
+/**
+ * Raw AES key bytes (16, 24 or 32 bytes) or an AES-GCM `CryptoKey`. Strings
+ * are rejected: derive a key from a password with {@link deriveKeyFromPassword}.
+ */
+export type EncryptionKey = CryptoKey | BufferSource;
+
+/** Plaintext plus key metadata returned when decrypting with a {@link Keyring}. */
+export interface KeyringDecryptResult<T> {
+  /** The decrypted plaintext. */
+  plaintext: T;
+  /** Id of the key that decrypted the envelope. */
+  keyId: string;
+  /** `true` when the envelope was sealed with a key other than the active one. */
+  needsRotation: boolean;
+}
+
+/** Envelope encodings produced by {@link encrypt}. */
+export type EnvelopeReturnAs = "uint8array" | "bytes" | "base64url" | "b64url" | "hex";
+
+export interface EncryptOptions {
+  /**
+   * Additional authenticated data: bound to the ciphertext but not encrypted
+   * or stored in the envelope. The same value must be passed to {@link decrypt}.
+   */
+  aad?: string | BufferSource;
+  /**
+   * Envelope encoding.
+   *
+   * When not specified, mirrors the plaintext type:
+   * - `string` plaintext defaults to `'base64url'`
+   * - `BufferSource` plaintext defaults to `'uint8array'`
+   */
+  returnAs?: EnvelopeReturnAs;
+}
+
+export interface DecryptOptions {
+  /** Additional authenticated data given to {@link encrypt}. */
+  aad?: string | BufferSource;
+  /**
+   * Plaintext shape: `'string'` decodes the plaintext as UTF-8.
+   *
+   * When not specified, mirrors the envelope type:
+   * - `string` envelope defaults to `'string'`
+   * - `BufferSource` envelope defaults to `'uint8array'`
+   */
+  returnAs?: DecodeReturnAs;
+}
+
+export interface DeriveKeyFromPasswordOptions {
+  /** Random salt of at least 16 bytes, stored alongside the envelope. */
+  salt: string | BufferSource;
+  /**
+   * PBKDF2-SHA-256 iteration count.
+   *
+   * @default 600000 (OWASP 2023 recommendation)
+   */
+  iterations?: number;
+}
+
+/** Envelope format versions. Bumped if the layout or cipher ever changes. */
+const _VERSION = 0x01;
+const _VERSION_KEYRING = 0x02;
+const _NONCE_LENGTH = 12;
+const _TAG_LENGTH = 16;
+const _MIN_SALT_LENGTH = 16;
+
+// #region encrypt / decrypt
+
+/**
+ * Encrypt data with AES-GCM into a self-describing envelope.
+ *
+ * A fresh 96-bit nonce is drawn from {@link secureRandomBytes} for every call,
+ * so the same key can safely encrypt many messages (stay well below 2^32 per key).
+ *
+ * Envelope layout:
+ *
+ * ```
+ * version (1 byte, 0x01) | nonce (12 bytes) | ciphertext | tag (16 bytes)
+ * ```
+ *
+ * With a {@link Keyring}, the active key encrypts and its id is embedded:
+ *
+ * ```
+ * version (1 byte, 0x02) | id length (1 byte) | key id | nonce | ciphertext | tag
+ * ```
+ *
+ * When `returnAs` is not specified, the return type mirrors the plaintext:
+ * - `string` plaintext returns a base64url `string`
+ * - `BufferSource` plaintext returns a `Uint8Array<ArrayBuffer>`
+ *
+ * @param key Raw AES key bytes (16, 24 or 32), an AES-GCM `CryptoKey`, or a {@link Keyring} of them.
+ * @param plaintext The data to encrypt. Strings are UTF-8 encoded.
+ * @param options Additional authenticated data and envelope encoding.
+ * @returns A Promise that resolves to the envelope.
+ * @throws {TypeError} If `key` is a string or a `CryptoKey` for another algorithm.
+ * @throws {RangeError} If raw key bytes are not 16, 24 or 32 bytes long.
+ *
+ * @example
+ * const key = secureRandomBytes(32);
+ * const token = await encrypt(key, "secret message"); // base64url string
+ * const message = await decrypt(key, token); // "secret message"
+ *
+ * @example
+ * // Bind the ciphertext to its context
+ * const sealed = await encrypt(key, fileBytes, { aad: `user:${userId}` });
+ * const opened = await decrypt(key, sealed, { aad: `user:${userId}` });
+ *
+ * @example
+ * // Seal with the active key of a keyring
+ * const token = await encrypt(keyring, "secret message");
+ */
+export async function encrypt<T extends EnvelopeReturnAs>(
+  key: EncryptionKey | Keyring<EncryptionKey>,
+  plaintext: string | BufferSource,
+  options: EncryptOptions & { returnAs: T },
+): Promise<T extends "uint8array" | "bytes" ? Uint8Array<ArrayBuffer> : string>;
+export async function encrypt(
+  key: EncryptionKey | Keyring<EncryptionKey>,
+  plaintext: string,
+  options?: Omit<EncryptOptions, "returnAs">,
+): Promise<string>;
+export async function encrypt(
+  key: EncryptionKey | Keyring<EncryptionKey>,
+  plaintext: BufferSource,
+  options?: Omit<EncryptOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer>>;
+export async function encrypt(
+  key: EncryptionKey | Keyring<EncryptionKey>,
+  plaintext: string | BufferSource,
+  options?: Omit<EncryptOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer> | string>;
+export async function encrypt(
+  key: EncryptionKey | Keyring<EncryptionKey>,
+  plaintext: string | BufferSource,
+  options: EncryptOptions = {},
+): Promise<Uint8Array<ArrayBuffer> | string> {
+  const { aad } = options;
+  const isBufferInput = typeof plaintext !== "string";
+  const returnAs = options.returnAs ?? (isBufferInput ? "uint8array" : "base64url");
+  assertEnvelopeReturnAs(returnAs, "encrypt");
+  const keyId = isKeyring(key) ? key.activeKeyId : undefined;
+  const cryptoKey = await _importKey(isKeyring(key) ? key.get(key.activeKeyId)! : key, "encrypt");
+
+  const nonce = secureRandomBytes(_NONCE_LENGTH);
+  const ciphertext = await crypto.subtle.encrypt(
+    _gcmParams(nonce, aad),
+    cryptoKey,
+    isBufferInput ? plaintext : textEncoder.encode(plaintext),
+  );
+
+  const body = new Uint8Array(_NONCE_LENGTH + ciphertext.byteLength);
+  body.set(nonce);
+  body.set(new Uint8Array(ciphertext), _NONCE_LENGTH);
+  const framed = keyId === undefined ? body : frameKeyId(keyId, body);
+
+  const envelope = new Uint8Array(1 + framed.length);
+  envelope[0] = keyId === undefined ? _VERSION : _VERSION_KEYRING;
+  envelope.set(framed, 1);
+
+  return encodeBytes(envelope, returnAs, "encrypt");
+}
+
+/**
+ * Decrypt an envelope produced by {@link encrypt}.
+ *
+ * String envelopes may be base64url or hex; the encoding is recognised from
+ * the leading version byte. Every envelope problem — malformed encoding,
+ * truncation, unknown version, wrong key, wrong `aad` or a tampered tag —
+ * fails with the same `Error("Decryption failed.")`, so the failure reveals
+ * nothing about which check tripped.
+ *
+ * With a {@link Keyring}, the key id is read from the envelope and only that
+ * key is tried; an unknown id fails like any other envelope problem. The
+ * plaintext is then returned as a {@link KeyringDecryptResult} that also
+ * reports whether the envelope should be re-encrypted with the active key.
+ *
+ * When `returnAs` is not specified, the plaintext type mirrors the envelope:
+ * - `string` envelope returns the plaintext as a UTF-8 `string`
+ * - `BufferSource` envelope returns a `Uint8Array<ArrayBuffer>`
+ *
+ * @param key The key the envelope was encrypted with, or a {@link Keyring}.
+ * @param envelope The envelope, as bytes or a base64url / hex string.
+ * @param options Additional authenticated data and plaintext shape.
+ * @returns A Promise that resolves to the plaintext (or a {@link KeyringDecryptResult}).
+ * @throws {Error} `"Decryption failed."` if the envelope cannot be authenticated.
+ * @throws {TypeError} If `key` is a string or a `CryptoKey` for another algorithm.
+ * @throws {RangeError} If raw key bytes are not 16, 24 or 32 bytes long.
+ *
+ * @example
+ * const message = await decrypt(key, token);
+ * const bytes = await decrypt(key, token, { returnAs: "bytes" });
+ *
+ * @example
+ * const { plaintext, needsRotation } = await decrypt(keyring, token);
+ * if (needsRotation) token = await encrypt(keyring, plaintext);
+ */
+export async function decrypt<T extends DecodeReturnAs>(
+  key: Keyring<EncryptionKey>,
+  envelope: string | BufferSource,
+  options: DecryptOptions & { returnAs: T },
+): Promise<KeyringDecryptResult<T extends "string" ? string : Uint8Array<ArrayBuffer>>>;
+export async function decrypt(
+  key: Keyring<EncryptionKey>,
+  envelope: string,
+  options?: Omit<DecryptOptions, "returnAs">,
+): Promise<KeyringDecryptResult<string>>;
+export async function decrypt(
+  key: Keyring<EncryptionKey>,
+  envelope: BufferSource,
+  options?: Omit<DecryptOptions, "returnAs">,
+): Promise<KeyringDecryptResult<Uint8Array<ArrayBuffer>>>;
+export async function decrypt<T extends DecodeReturnAs>(
+  key: EncryptionKey,
+  envelope: string | BufferSource,
+  options: DecryptOptions & { returnAs: T },
+): Promise<T extends "string" ? string : Uint8Array<ArrayBuffer>>;
+export async function decrypt(
+  key: EncryptionKey,
+  envelope: string,
+  options?: Omit<DecryptOptions, "returnAs">,
+): Promise<string>;
+export async function decrypt(
+  key: EncryptionKey,
+  envelope: BufferSource,
+  options?: Omit<DecryptOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer>>;
+export async function decrypt(
+  key: EncryptionKey | Keyring<EncryptionKey>,
+  envelope: string | BufferSource,
+  options?: Omit<DecryptOptions, "returnAs">,
+): Promise<
+  Uint8Array<ArrayBuffer> | string | KeyringDecryptResult<Uint8Array<ArrayBuffer> | string>
+>;
+export async function decrypt(
+  key: EncryptionKey | Keyring<EncryptionKey>,
+  envelope: string | BufferSource,
+  options: DecryptOptions = {},
+): Promise<
+  Uint8Array<ArrayBuffer> | string | KeyringDecryptResult<Uint8Array<ArrayBuffer> | string>
+> {
+  const { aad } = options;
+  const returnAs = options.returnAs ?? (typeof envelope === "string" ? "string" : "uint8array");
+  assertPlaintextReturnAs(returnAs, "decrypt");
+
+  const bytes = parseEnvelope(envelope);
+  let body: Uint8Array<ArrayBuffer>;
+  let keyId: string | undefined;
+  let cryptoKey: CryptoKey;
+  if (isKeyring(key)) {
+    const frame = bytes[0] === _VERSION_KEYRING ? unframeKeyId(bytes.subarray(1)) : undefined;
+    const entry = frame && key.get(frame.keyId);
+    if (!frame || entry === undefined) throw new Error(DECRYPTION_FAILED);
+    body = frame.payload;
+    keyId = frame.keyId;
+    cryptoKey = await _importKey(entry, "decrypt");
+  } else {
+    if (bytes[0] !== _VERSION) throw new Error(DECRYPTION_FAILED);
+    body = bytes.subarray(1);
+    cryptoKey = await _importKey(key, "decrypt");
+  }
+  if (body.length < _NONCE_LENGTH + _TAG_LENGTH) throw new Error(DECRYPTION_FAILED);
+
+  let decrypted: ArrayBuffer;
+  try {
+    decrypted = await crypto.subtle.decrypt(
+      _gcmParams(body.subarray(0, _NONCE_LENGTH), aad),
+      cryptoKey,
+      body.subarray(_NONCE_LENGTH),
+    );
+  } catch {
+    throw new Error(DECRYPTION_FAILED);
+  }
+
+  const plaintext =
+    returnAs === "string" ? textDecoder.decode(decrypted) : new Uint8Array(decrypted);
+  if (keyId === undefined || !isKeyring(key)) return plaintext;
+  return { plaintext, keyId, needsRotation: keyId !== key.activeKeyId };
+}
+
+// #endregion
+
+// #region Password keys
+
+/**
+ * Derive a 256-bit AES key from a password with PBKDF2-SHA-256.
+ *
+ * {@link encrypt} and {@link decrypt} never accept passwords directly; this
+ * is the explicit slow-KDF step. Store the salt next to the envelope and pass
+ * the same salt and iteration count to derive the key again for decryption.
+ *
+ * @param password The password. Strings are UTF-8 encoded.
+ * @param options Salt (at least 16 bytes) and iteration count.
+ * @returns A Promise that resolves to 32 raw key bytes.
+ * @throws {RangeError} If the salt is shorter than 16 bytes or `iterations` is not a positive integer.
+ *
+ * @example
+ * const salt = secureRandomBytes(16);
+ * const key = await deriveKeyFromPassword(password, { salt });
+ * const envelope = await encrypt(key, "notes");
+ */
+export async function deriveKeyFromPassword(
+  password: string | BufferSource,
+  options: DeriveKeyFromPasswordOptions,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const { salt, iterations = 600_000 } = options;
+  const saltBytes = toBytes(salt);
+  if (saltBytes.length < _MIN_SALT_LENGTH) {
+    throw new RangeError(`salt must be at least ${_MIN_SALT_LENGTH} bytes.`);
+  }
+  if (!Number.isInteger(iterations) || iterations < 1) {
+    throw new RangeError("iterations must be a positive integer.");
+  }
+
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    typeof password === "string" ? textEncoder.encode(password) : password,
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: saltBytes, iterations },
+    baseKey,
+    256,
+  );
+  return new Uint8Array(bits);
+}
+
+// #endregion
+
+async function _importKey(key: EncryptionKey, usage: KeyUsage): Promise<CryptoKey> {
+  if (typeof key === "string") {
+    throw new TypeError(
+      "Encryption keys must be bytes or a CryptoKey. Derive a key from a password with deriveKeyFromPassword().",
+    );
+  }
+  if (isCryptoKey(key)) {
+    if (key.algorithm.name !== "AES-GCM") {
+      throw new TypeError(`Expected an AES-GCM CryptoKey, got ${key.algorithm.name}.`);
+    }
+    if (!key.usages.includes(usage)) {
+      throw new TypeError(`CryptoKey is not usable for ${usage}.`);
+    }
+    return key;
+  }
+
+  const bytes = toBytes(key as BufferSource);
+  if (bytes.length !== 16 && bytes.length !== 24 && bytes.length !== 32) {
+    throw new RangeError(`AES keys must be 16, 24 or 32 bytes, got ${bytes.length}.`);
+  }
+  return crypto.subtle.importKey("raw", bytes, "AES-GCM", false, [usage]);
+}
+
+function _gcmParams(nonce: Uint8Array, aad: string | BufferSource | undefined): AesGcmParams {
+  const params: AesGcmParams = {
+    name: "AES-GCM",
+    iv: nonce as Uint8Array<ArrayBuffer>,
+    tagLength: _TAG_LENGTH * 8,
+  };
+  if (aad !== undefined) {
+    params.additionalData = typeof aad === "string" ? textEncoder.encode(aad) : aad;
+  }
+  return params;
+}
@@ -1,7 +1,18 @@
-import { encodeBytes } from "./_internal/encoding.ts";
+import { encodeBytes, toBytes } from "./_internal/encoding.ts";
+import { type HashState, createSHAState, isWebCryptoDigest } from "./_internal/sha.ts";
 import { textEncoder } from "./utils/index.ts";
 
-export type DigestAlgorithm = "SHA-1" | "SHA-256" | "SHA-384" | "SHA-512";
+/** Extendable-output functions (FIPS 202): the caller picks the digest length. */
+export type ShakeAlgorithm = "SHAKE128" | "SHAKE256";
+export type DigestAlgorithm =
+  | "SHA-1"
+  | "SHA-256"
+  | "SHA-384"
+  | "SHA-512"
+  | "SHA3-256"
+  | "SHA3-384"
+  | "SHA3-512"
+  | ShakeAlgorithm;
 export type DigestReturnAs =
   | "hex"
   | "base64"
@@ -18,6 +29,13 @@ export interface DigestOptions {
    * @default 'SHA-256'
    */
   algorithm?: DigestAlgorithm;
+  /**
+   * Output length in bytes. Only valid for `SHAKE128` / `SHAKE256`; setting
+   * it for a fixed-output algorithm throws a {@link TypeError}.
+   *
+   * @default 32 for SHAKE128, 64 for SHAKE256
+   */
+  length?: number;
   /**
    * Whether to output to HEX, Base64, Base64URL or Uint8Array.
    *
@@ -33,6 +51,9 @@ export interface DigestOptions {
  * designed to work in any modern JavaScript runtime (browsers, Node, Bun, Deno, etc.)
  * that supports the Web Crypto API.
  *
+ * SHA-1 / SHA-2 run on `crypto.subtle.digest`. SHA-3 and SHAKE are not exposed
+ * by any runtime's Web Crypto, so they run on a portable Keccak implementation.
+ *
  * When `returnAs` is not specified, the return type mirrors the input:
  * - `string` input returns a hex `string`
  * - `BufferSource` input returns a `Uint8Array<ArrayBuffer>`
@@ -55,6 +76,10 @@ export interface DigestOptions {
  * // Explicit returnAs overrides the default
  * const hashBytes512 = await hash('hello', { algorithm: 'SHA-512', returnAs: 'uint8array' });
  * const hashHexFromBuffer = await hash(buffer, { returnAs: 'hex' });
+ *
+ * // SHA-3, and SHAKE with a caller-chosen output length
+ * const sha3 = await hash('hello', { algorithm: 'SHA3-256' });
+ * const shake = await hash('hello', { algorithm: 'SHAKE256', length: 128 });
  */
 export async function hash<T extends DigestReturnAs>(
   data: string | BufferSource,
@@ -76,14 +101,172 @@ export async function hash(
   data: string | BufferSource,
   options: DigestOptions = {},
 ): Promise<Uint8Array<ArrayBuffer> | string> {
-  const { algorithm = "SHA-256", returnAs } = options;
+  const { algorithm = "SHA-256", length, returnAs } = options;
+  _assertLength(algorithm, length);
 
   const isBufferInput = typeof data !== "string";
   const dataBuffer = isBufferInput ? data : textEncoder.encode(data);
 
-  const hashBytes = new Uint8Array(await crypto.subtle.digest(algorithm, dataBuffer));
+  let hashBytes: Uint8Array<ArrayBuffer>;
+  if (isWebCryptoDigest(algorithm)) {
+    hashBytes = new Uint8Array(await crypto.subtle.digest(algorithm, dataBuffer));
+  } else {
+    const state = createSHAState(algorithm, length);
+    state.update(toBytes(dataBuffer));
+    hashBytes = state.digest();
+  }
 
   const effectiveReturnAs = returnAs ?? (isBufferInput ? "uint8array" : "hex");
 
   return encodeBytes(hashBytes, effectiveReturnAs, "hash");
 }
+
+/**
+ * Incremental hasher returned by {@link createHash}. Feed data with
+ * {@link Hasher.update} and finalize once with {@link Hasher.digest}.
+ */
+export interface Hasher {
+  /** The digest algorithm this hasher was created with. */
+  readonly algorithm: DigestAlgorithm;
+  /**
+   * Absorb more data. Strings are UTF-8 encoded. Returns the same hasher so
+   * calls can be chained.
+   *
+   * @throws {Error} If the hasher has already been finalized.
+   */
+  update(data: string | BufferSource | Uint8Array): Hasher;
+  /**
+   * Finalize and return the digest. A hasher can only be digested once.
+   *
+   * @throws {Error} If the hasher has already been finalized.
+   */
+  digest<T extends DigestReturnAs>(options: {
+    returnAs: T;
+  }): T extends "uint8array" | "bytes" ? Uint8Array<ArrayBuffer> : string;
+  /** Finalize and return the raw digest bytes. */
+  digest(options?: { returnAs?: undefined }): Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * Create an incremental hasher for data that arrives in pieces (uploads,
+ * streams, chunked files).
+ *
+ * Web Crypto has no incremental digest, so this runs on a portable
+ * TypeScript implementation of SHA-1 / SHA-2 / SHA-3. The result is byte-for-byte
+ * identical to {@link hash} over the concatenated input. For data already in
+ * memory prefer {@link hash}, which uses the native implementation.
+ *
+ * `digest()` returns a `Uint8Array<ArrayBuffer>` unless `returnAs` says otherwise.
+ *
+ * @param algorithm The hashing algorithm to use. @default "SHA-256"
+ * @param options `length` sets the output size for SHAKE (see {@link DigestOptions.length}).
+ * @returns A {@link Hasher} with `update()` / `digest()`.
+ *
+ * @example
+ * const hasher = createHash("SHA-256");
+ * hasher.update("hello ").update("world");
+ * hasher.digest({ returnAs: "hex" });
+ * // "b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9"
+ */
+export function createHash(
+  algorithm: DigestAlgorithm = "SHA-256",
+  options: Pick<DigestOptions, "length"> = {},
+): Hasher {
+  _assertLength(algorithm, options.length);
+  const state: HashState = createSHAState(algorithm, options.length);
+  let finalized = false;
+
+  function _assertActive(): void {
+    if (finalized) throw new Error("Hasher already finalized.");
+  }
+
+  function update(data: string | BufferSource | Uint8Array): Hasher {
+    _assertActive();
+    state.update(toBytes(data));
+    return hasher;
+  }
+
+  function digest<T extends DigestReturnAs>(options: {
+    returnAs: T;
+  }): T extends "uint8array" | "bytes" ? Uint8Array<ArrayBuffer> : string;
+  function digest(options?: { returnAs?: undefined }): Uint8Array<ArrayBuffer>;
+  function digest(options?: { returnAs?: DigestReturnAs }): Uint8Array<ArrayBuffer> | string {
+    _assertActive();
+    finalized = true;
+    return encodeBytes(state.digest(), options?.returnAs ?? "uint8array", "hash");
+  }
+
+  const hasher: Hasher = { algorithm, update, digest };
+  return hasher;
+}
+
+/** Chunked input accepted by {@link hashStream}. */
+export type HashStreamSource =
+  | ReadableStream<string | BufferSource | Uint8Array>
+  | AsyncIterable<string | BufferSource | Uint8Array>
+  | Iterable<string | BufferSource | Uint8Array>;
+
+/**
+ * Hash a `ReadableStream` or (async) iterable of chunks without buffering
+ * the whole input in memory. Produces exactly the same digest as
+ * {@link hash} over the concatenated chunks.
+ *
+ * Returns a `Uint8Array<ArrayBuffer>` unless `returnAs` says otherwise.
+ *
+ * @param source A `ReadableStream`, async iterable, or iterable of string /
+ *               `BufferSource` chunks. Strings are UTF-8 encoded.
+ * @param options Configuration options for the hashing operation.
+ * @returns A Promise that resolves to the digest.
+ *
+ * @example
+ * // Fingerprint an upload as it arrives
+ * const digest = await hashStream(request.body, { returnAs: "hex" });
+ *
+ * @example
+ * // Node.js file stream (async iterable of Buffers)
+ * const digest = await hashStream(createReadStream("backup.tar"), { algorithm: "SHA-512" });
+ */
+export async function hashStream<T extends DigestReturnAs>(
+  source: HashStreamSource,
+  options: DigestOptions & { returnAs: T },
+): Promise<T extends "uint8array" | "bytes" ? Uint8Array<ArrayBuffer> : string>;
+export async function hashStream(
+  source: HashStreamSource,
+  options?: Omit<DigestOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer>>;
+export async function hashStream(
+  source: HashStreamSource,
+  options: DigestOptions = {},
+): Promise<Uint8Array<ArrayBuffer> | string> {
+  const { algorithm = "SHA-256", length, returnAs = "uint8array" } = options;
+  const hasher = createHash(algorithm, { length });
+
+  if (typeof (source as ReadableStream).getReader === "function") {
+    const reader = (source as ReadableStream<string | BufferSource | Uint8Array>).getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        hasher.update(value);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  } else {
+    for await (const chunk of source as AsyncIterable<string | BufferSource | Uint8Array>) {
+      hasher.update(chunk);
+    }
+  }
+
+  return hasher.digest({ returnAs });
+}
+
+function _assertLength(algorithm: DigestAlgorithm, length: number | undefined): void {
+  if (length === undefined) return;
+  if (algorithm !== "SHAKE128" && algorithm !== "SHAKE256") {
+    throw new TypeError(`length is only supported by SHAKE128 and SHAKE256, not ${algorithm}.`);
+  }
+  if (!Number.isInteger(length) || length < 1) {
+    throw new RangeError("length must be a positive integer.");
+  }
+}
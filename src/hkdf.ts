@@ -1,22 +1,30 @@
-import type { DigestAlgorithm, DigestReturnAs } from "./hash.ts";
-import { encodeBytes } from "./_internal/encoding.ts";
+import type { DigestReturnAs } from "./hash.ts";
+import type { HMACAlgorithm } from "./hmac.ts";
+import { encodeBytes, toBytes } from "./_internal/encoding.ts";
+import { portableHmac } from "./_internal/hmac.ts";
+import { isWebCryptoDigest } from "./_internal/sha.ts";
 import { textEncoder } from "./utils/index.ts";
 
 /** Output byte length per hash algorithm (RFC 5869 HashLen). */
-const _HASH_LEN: Record<DigestAlgorithm, number> = {
+const _HASH_LEN: Record<HMACAlgorithm, number> = {
   "SHA-1": 20,
   "SHA-256": 32,
   "SHA-384": 48,
   "SHA-512": 64,
+  "SHA3-256": 32,
+  "SHA3-384": 48,
+  "SHA3-512": 64,
 };
 
 export interface HKDFOptions {
   /**
-   * Hash algorithm used by the underlying HMAC.
+   * Hash algorithm used by the underlying HMAC. SHA-3 variants run on the
+   * portable Keccak implementation; SHAKE is not supported (see
+   * {@link HMACAlgorithm}).
    *
    * @default "SHA-256"
    */
-  algorithm?: DigestAlgorithm;
+  algorithm?: HMACAlgorithm;
   /**
    * Desired output length in bytes.
    *
@@ -76,6 +84,7 @@ export interface HKDFOptions {
  *
  * @throws {RangeError} If `length` is not a positive integer or exceeds
  *                      `255 * HashLen` for the chosen algorithm.
+ * @throws {TypeError} If `algorithm` is not an HMAC-capable hash (e.g. SHAKE).
  *
  * @example
  * // BufferSource ikm -> Uint8Array output (default)
@@ -117,7 +126,11 @@ export async function hkdf(
   if (!Number.isInteger(length) || length < 1) {
     throw new RangeError("length must be a positive integer.");
   }
-  const maxLen = 255 * _HASH_LEN[algorithm];
+  const hashLen = _HASH_LEN[algorithm];
+  if (hashLen === undefined) {
+    throw new TypeError(`HKDF is not defined for ${String(algorithm)}.`);
+  }
+  const maxLen = 255 * hashLen;
   if (length > maxLen) {
     throw new RangeError(
       `HKDF with ${algorithm} can derive at most ${maxLen} bytes, requested ${length}.`,
@@ -129,20 +142,29 @@ export async function hkdf(
   const saltBytes = _coerceOptionalBytes(salt);
   const infoBytes = _coerceOptionalBytes(info);
 
-  const cryptoKey = await crypto.subtle.importKey("raw", ikmBytes, "HKDF", false, ["deriveBits"]);
-
-  const derivedBits = await crypto.subtle.deriveBits(
-    {
-      name: "HKDF",
-      hash: algorithm,
-      salt: saltBytes,
-      info: infoBytes,
-    },
-    cryptoKey,
-    length * 8,
-  );
-
-  const bytes = new Uint8Array(derivedBits);
+  let bytes: Uint8Array<ArrayBuffer>;
+  if (isWebCryptoDigest(algorithm)) {
+    const cryptoKey = await crypto.subtle.importKey("raw", ikmBytes, "HKDF", false, ["deriveBits"]);
+    const derivedBits = await crypto.subtle.deriveBits(
+      {
+        name: "HKDF",
+        hash: algorithm,
+        salt: saltBytes,
+        info: infoBytes,
+      },
+      cryptoKey,
+      length * 8,
+    );
+    bytes = new Uint8Array(derivedBits);
+  } else {
+    bytes = _hkdfPortable(
+      algorithm,
+      toBytes(ikmBytes),
+      toBytes(saltBytes),
+      toBytes(infoBytes),
+      length,
+    );
+  }
   const effectiveReturnAs = returnAs ?? (isBufferInput ? "uint8array" : "hex");
   return encodeBytes(bytes, effectiveReturnAs, "hkdf");
 }
@@ -152,3 +174,26 @@ function _coerceOptionalBytes(value: string | BufferSource | undefined): BufferS
   if (typeof value === "string") return textEncoder.encode(value);
   return value;
 }
+
+/** RFC 5869 extract-then-expand over the portable HMAC, for SHA-3. */
+function _hkdfPortable(
+  algorithm: HMACAlgorithm,
+  ikm: Uint8Array,
+  salt: Uint8Array,
+  info: Uint8Array,
+  length: number,
+): Uint8Array<ArrayBuffer> {
+  const prk = portableHmac(algorithm, salt, ikm);
+  const okm = new Uint8Array(length);
+  let previous = new Uint8Array(0);
+  for (let offset = 0, counter = 1; offset < length; counter++) {
+    const block = new Uint8Array(previous.length + info.length + 1);
+    block.set(previous);
+    block.set(info, previous.length);
+    block[block.length - 1] = counter;
+    previous = portableHmac(algorithm, prk, block);
+    okm.set(previous.subarray(0, length - offset), offset);
+    offset += previous.length;
+  }
+  return okm;
+}
@@ -1,9 +1,37 @@
-import type { DigestOptions, DigestReturnAs } from "./hash.ts";
-import { encodeBytes } from "./_internal/encoding.ts";
+import type { DigestAlgorithm, DigestReturnAs, ShakeAlgorithm } from "./hash.ts";
+import { encodeBytes, toBytes } from "./_internal/encoding.ts";
+import { portableHmac } from "./_internal/hmac.ts";
+import { frameKeyId, unframeKeyId } from "./_internal/keyring.ts";
+import { isWebCryptoDigest } from "./_internal/sha.ts";
 import { textEncoder } from "./utils/index.ts";
 import { secureCompare } from "./compare.ts";
+import { type Keyring, type KeyringVerifyResult, isKeyring } from "./keyring.ts";
 
-export type HMACOptions = DigestOptions;
+/**
+ * Hash algorithms HMAC is defined for. SHAKE is excluded: an extendable-output
+ * function has no fixed digest length, so RFC 2104 does not apply.
+ */
+export type HMACAlgorithm = Exclude<DigestAlgorithm, ShakeAlgorithm>;
+
+/** A single HMAC secret, or a {@link Keyring} of them for rotation. */
+export type HMACSecret = string | BufferSource | Keyring<string | BufferSource>;
+
+export interface HMACOptions {
+  /**
+   * The hash algorithm to use.
+   *
+   * @default 'SHA-256'
+   */
+  algorithm?: HMACAlgorithm;
+  /**
+   * Whether to output to HEX, Base64, Base64URL or Uint8Array.
+   *
+   * When not specified, mirrors the `data` input type:
+   * - `string` data defaults to `'hex'`
+   * - `BufferSource` data defaults to `'uint8array'`
+   */
+  returnAs?: DigestReturnAs;
+}
 
 /**
  * Compute an HMAC signature for the given data using a secret key.
@@ -14,7 +42,14 @@ export type HMACOptions = DigestOptions;
  *
  * Use the `returnAs` option to explicitly override the output format.
  *
- * @param secret The HMAC secret key. Can be a string or any BufferSource.
+ * SHA-1 / SHA-2 are keyed through `crypto.subtle`; SHA-3 runs on the portable
+ * Keccak implementation. SHAKE algorithms are rejected.
+ *
+ * With a {@link Keyring}, the active key signs and its id is embedded in the
+ * signature: `"<keyId>.<signature>"` for string output, or
+ * `idLength (1 byte) | id | signature` for byte output.
+ *
+ * @param secret The HMAC secret key (a string or any BufferSource), or a {@link Keyring}.
  * @param data The data to sign. Can be a string or any BufferSource.
  * @param options Configuration options (algorithm, returnAs).
  * @returns A Promise that resolves to the HMAC signature.
@@ -30,51 +65,50 @@ export type HMACOptions = DigestOptions;
  * // Webhook verification
  * const expected = request.headers['x-hub-signature-256'].replace('sha256=', '');
  * const valid = await hmacVerify(webhookSecret, requestBody, expected);
+ *
+ * @example
+ * // Sign with the active key of a keyring
+ * const sig = await hmac(keyring, 'hello world'); // '2025-01.b94d27b9…'
  */
 export async function hmac<T extends DigestReturnAs>(
-  secret: string | BufferSource,
+  secret: HMACSecret,
   data: string | BufferSource,
   options: HMACOptions & { returnAs: T },
 ): Promise<T extends "uint8array" | "bytes" ? Uint8Array<ArrayBuffer> : string>;
 export async function hmac(
-  secret: string | BufferSource,
+  secret: HMACSecret,
   data: string,
   options?: Omit<HMACOptions, "returnAs">,
 ): Promise<string>;
 export async function hmac(
-  secret: string | BufferSource,
+  secret: HMACSecret,
   data: BufferSource,
   options?: Omit<HMACOptions, "returnAs">,
 ): Promise<Uint8Array<ArrayBuffer>>;
 export async function hmac(
-  secret: string | BufferSource,
+  secret: HMACSecret,
   data: string | BufferSource,
   options?: Omit<HMACOptions, "returnAs">,
 ): Promise<Uint8Array<ArrayBuffer> | string>;
 export async function hmac(
-  secret: string | BufferSource,
+  secret: HMACSecret,
   data: string | BufferSource,
   options: HMACOptions = {},
 ): Promise<Uint8Array<ArrayBuffer> | string> {
   const { algorithm = "SHA-256", returnAs } = options;
-
-  const keyBuffer = typeof secret === "string" ? textEncoder.encode(secret) : secret;
   const isBufferInput = typeof data !== "string";
-  const dataBuffer = isBufferInput ? data : textEncoder.encode(data);
-
-  const cryptoKey = await crypto.subtle.importKey(
-    "raw",
-    keyBuffer,
-    { name: "HMAC", hash: algorithm },
-    false,
-    ["sign"],
-  );
-
-  const signature = new Uint8Array(await crypto.subtle.sign("HMAC", cryptoKey, dataBuffer));
-
   const effectiveReturnAs = returnAs ?? (isBufferInput ? "uint8array" : "hex");
 
-  return encodeBytes(signature, effectiveReturnAs, "hmac");
+  if (isKeyring(secret)) {
+    const keyId = secret.activeKeyId;
+    const signature = await _sign(secret.get(keyId)!, data, algorithm);
+    if (effectiveReturnAs === "uint8array" || effectiveReturnAs === "bytes") {
+      return frameKeyId(keyId, signature);
+    }
+    return `${keyId}.${encodeBytes(signature, effectiveReturnAs, "hmac")}`;
+  }
+
+  return encodeBytes(await _sign(secret, data, algorithm), effectiveReturnAs, "hmac");
 }
 
 /**
@@ -84,11 +118,16 @@ export async function hmac(
  * to prevent timing attacks. The `signature` must be in the same format that
  * {@link hmac} would produce for the given options.
  *
- * @param secret The HMAC secret key.
+ * With a {@link Keyring}, the key id is read from the signature and only that
+ * key is tried. The result reports which key matched and whether the
+ * signature should be re-issued with the active key.
+ *
+ * @param secret The HMAC secret key, or a {@link Keyring}.
  * @param data The data that was signed.
  * @param signature The signature to verify against.
  * @param options Configuration options (algorithm, returnAs). Must match those used to produce the signature.
- * @returns A Promise that resolves to `true` if the signature is valid.
+ * @returns A Promise that resolves to `true` if the signature is valid, or a
+ *          {@link KeyringVerifyResult} when verifying against a keyring.
  *
  * @example
  * // Verify a webhook signature (hex format, the default)
@@ -97,13 +136,85 @@ export async function hmac(
  * @example
  * // Verify a base64-encoded signature
  * const valid = await hmacVerify(secret, body, expectedBase64Sig, { returnAs: 'base64' });
+ *
+ * @example
+ * // Keyring: old signatures keep verifying during the grace period
+ * const { valid, needsRotation } = await hmacVerify(keyring, body, signature);
+ * if (valid && needsRotation) signature = await hmac(keyring, body);
  */
+export async function hmacVerify(
+  secret: Keyring<string | BufferSource>,
+  data: string | BufferSource,
+  signature: string | Uint8Array,
+  options?: HMACOptions,
+): Promise<KeyringVerifyResult>;
 export async function hmacVerify(
   secret: string | BufferSource,
   data: string | BufferSource,
   signature: string | Uint8Array,
   options?: HMACOptions,
-): Promise<boolean> {
-  const computed = await hmac(secret, data, options);
-  return secureCompare(computed, signature);
+): Promise<boolean>;
+export async function hmacVerify(
+  secret: HMACSecret,
+  data: string | BufferSource,
+  signature: string | Uint8Array,
+  options?: HMACOptions,
+): Promise<boolean | KeyringVerifyResult>;
+export async function hmacVerify(
+  secret: HMACSecret,
+  data: string | BufferSource,
+  signature: string | Uint8Array,
+  options?: HMACOptions,
+): Promise<boolean | KeyringVerifyResult> {
+  if (!isKeyring(secret)) {
+    const computed = await hmac(secret, data, options);
+    return secureCompare(computed, signature);
+  }
+
+  const parsed = _splitKeyId(signature);
+  const key = parsed && secret.get(parsed.keyId);
+  if (!parsed || key === undefined) {
+    return { valid: false, keyId: parsed?.keyId, needsRotation: false };
+  }
+  const computed = await hmac(key, data, options);
+  const valid = secureCompare(computed, parsed.signature);
+  return {
+    valid,
+    keyId: parsed.keyId,
+    needsRotation: valid && parsed.keyId !== secret.activeKeyId,
+  };
+}
+
+async function _sign(
+  secret: string | BufferSource,
+  data: string | BufferSource,
+  algorithm: HMACAlgorithm,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const keyBuffer = typeof secret === "string" ? textEncoder.encode(secret) : secret;
+  const dataBuffer = typeof data === "string" ? textEncoder.encode(data) : data;
+
+  if (!isWebCryptoDigest(algorithm)) {
+    return portableHmac(algorithm, toBytes(keyBuffer), toBytes(dataBuffer));
+  }
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    keyBuffer,
+    { name: "HMAC", hash: algorithm },
+    false,
+    ["sign"],
+  );
+  return new Uint8Array(await crypto.subtle.sign("HMAC", cryptoKey, dataBuffer));
+}
+
+/** Read the key id off a keyring signature (`"<keyId>.<sig>"` or a framed byte array). */
+function _splitKeyId(
+  signature: string | Uint8Array,
+): { keyId: string; signature: string | Uint8Array } | undefined {
+  if (typeof signature !== "string") {
+    const frame = unframeKeyId(signature);
+    return frame && { keyId: frame.keyId, signature: frame.payload };
+  }
+  const dot = signature.indexOf(".");
+  if (dot < 1) return undefined;
+  return { keyId: signature.slice(0, dot), signature: signature.slice(dot + 1) };
 }
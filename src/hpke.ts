@@ -0,0 +1,637 @@
+import { chacha20Poly1305Open, chacha20Poly1305Seal } from "./_internal/chacha20.ts";
+import { assertPlaintextReturnAs, DECRYPTION_FAILED } from "./_internal/envelope.ts";
+import { encodeBytes, toBytes } from "./_internal/encoding.ts";
+import { isBufferSource, isCryptoKey } from "./_internal/keys.ts";
+import { rawPrivateKeyDER } from "./_internal/pem.ts";
+import { deriveSharedSecret } from "./ecdh.ts";
+import { hkdf } from "./hkdf.ts";
+import { hmac } from "./hmac.ts";
+import { generateKeyPair } from "./keys.ts";
+import { type DecodeReturnAs, Base64, textDecoder, textEncoder } from "./utils/index.ts";
+
+/**
+ * AEADs for HPKE (RFC 9180, section 7.3): AES-GCM over Web Crypto, or the
+ * portable ChaCha20-Poly1305.
+ */
+export type HPKEAEAD = "AES-128-GCM" | "AES-256-GCM" | "ChaCha20-Poly1305";
+
+/** A recipient's X25519 public key: a `CryptoKey`, a JWK, or its 32 raw bytes. */
+export type HPKEPublicKey = CryptoKey | JsonWebKey | BufferSource;
+
+/**
+ * A recipient's X25519 private key: a `CryptoKeyPair`, an extractable private
+ * `CryptoKey`, a private JWK, or its 32 raw bytes. The public half is part of
+ * the key derivation, so it must be available or derivable.
+ */
+export type HPKEPrivateKey = CryptoKey | CryptoKeyPair | JsonWebKey | BufferSource;
+
+/** Envelope encodings produced by {@link hpkeSeal}. */
+export type HPKEEnvelopeReturnAs = "uint8array" | "bytes" | "base64url" | "b64url";
+
+export interface HPKEOptions {
+  /**
+   * The AEAD protecting each message. Both sides must use the same one.
+   *
+   * @default 'AES-128-GCM'
+   */
+  aead?: HPKEAEAD;
+  /**
+   * Application context bound into the key schedule, e.g. a protocol name and
+   * version. Both sides must pass the same value.
+   *
+   * @default "" (empty)
+   */
+  info?: string | BufferSource;
+}
+
+export interface HPKESealOptions extends HPKEOptions {
+  /** Additional authenticated data, required again by {@link hpkeOpen}. */
+  aad?: string | BufferSource;
+  /**
+   * Envelope encoding.
+   *
+   * When not specified, mirrors the plaintext type:
+   * - `string` plaintext defaults to `'base64url'`
+   * - `BufferSource` plaintext defaults to `'uint8array'`
+   */
+  returnAs?: HPKEEnvelopeReturnAs;
+}
+
+export interface HPKEOpenOptions extends HPKEOptions {
+  /** Additional authenticated data given to {@link hpkeSeal}. */
+  aad?: string | BufferSource;
+  /**
+   * Plaintext shape: `'string'` decodes the plaintext as UTF-8.
+   *
+   * When not specified, mirrors the envelope type:
+   * - `string` envelope defaults to `'string'`
+   * - `BufferSource` envelope defaults to `'uint8array'`
+   */
+  returnAs?: DecodeReturnAs;
+}
+
+/** The sender's side of an HPKE context, from {@link createHPKESender}. */
+export interface HPKESenderContext {
+  /** The encapsulated key: send it to the recipient along with the ciphertexts. */
+  readonly enc: Uint8Array<ArrayBuffer>;
+  /** Encrypt the next message; each call uses the next nonce of the sequence. */
+  seal(
+    plaintext: string | BufferSource,
+    aad?: string | BufferSource,
+  ): Promise<Uint8Array<ArrayBuffer>>;
+  /** Derive a secret both sides share from the context (RFC 9180, section 5.3). */
+  export(exporterContext: string | BufferSource, length: number): Promise<Uint8Array<ArrayBuffer>>;
+}
+
+/** The recipient's side of an HPKE context, from {@link createHPKERecipient}. */
+export interface HPKERecipientContext {
+  /**
+   * Decrypt the next message. Messages must be opened in the order they were
+   * sealed; a failed open does not advance the sequence.
+   *
+   * @throws {Error} `"Decryption failed."` if the ciphertext, `aad` or order is wrong.
+   */
+  open(ciphertext: BufferSource, aad?: string | BufferSource): Promise<Uint8Array<ArrayBuffer>>;
+  /** Derive a secret both sides share from the context (RFC 9180, section 5.3). */
+  export(exporterContext: string | BufferSource, length: number): Promise<Uint8Array<ArrayBuffer>>;
+}
+
+// #region Internals
+
+/** DHKEM(X25519, HKDF-SHA256). */
+const _KEM_ID = 0x0020;
+/** HKDF-SHA256. */
+const _KDF_ID = 0x0001;
+const _N_ENC = 32;
+const _N_H = 32;
+const _N_N = 12;
+const _MODE_BASE = 0x00;
+
+const _AEADS: Record<HPKEAEAD, { id: number; keyLength: number }> = {
+  "AES-128-GCM": { id: 0x0001, keyLength: 16 },
+  "AES-256-GCM": { id: 0x0002, keyLength: 32 },
+  "ChaCha20-Poly1305": { id: 0x0003, keyLength: 32 },
+};
+
+const _ENVELOPE_RETURN_AS: ReadonlySet<string> = /* @__PURE__ */ new Set<HPKEEnvelopeReturnAs>([
+  "uint8array",
+  "bytes",
+  "base64url",
+  "b64url",
+]);
+
+/**
+ * HMAC pads its key with zeros to the block size, so a HashLen run of zeros
+ * is the empty salt RFC 5869 describes, in a form Web Crypto will import.
+ */
+const _EMPTY_SALT = /* @__PURE__ */ new Uint8Array(_N_H);
+
+interface _Schedule {
+  aead: HPKEAEAD;
+  /** An AES-GCM `CryptoKey`, or raw ChaCha20-Poly1305 key bytes. */
+  key: CryptoKey | Uint8Array;
+  baseNonce: Uint8Array;
+  exporterSecret: Uint8Array<ArrayBuffer>;
+}
+
+function _concat(...parts: (string | Uint8Array)[]): Uint8Array<ArrayBuffer> {
+  const bytes = parts.map((part) => (typeof part === "string" ? textEncoder.encode(part) : part));
+  const out = new Uint8Array(bytes.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of bytes) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function _i2osp(value: number, length: number): Uint8Array {
+  const out = new Uint8Array(length);
+  for (let i = length - 1; i >= 0 && value > 0; i--) {
+    out[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  return out;
+}
+
+function _labeledIkm(suiteId: Uint8Array, label: string, ikm: Uint8Array): Uint8Array<ArrayBuffer> {
+  return _concat("HPKE-v1", suiteId, label, ikm);
+}
+
+function _labeledInfo(
+  suiteId: Uint8Array,
+  label: string,
+  info: Uint8Array,
+  length: number,
+): Uint8Array<ArrayBuffer> {
+  return _concat(_i2osp(length, 2), "HPKE-v1", suiteId, label, info);
+}
+
+/** LabeledExtract (RFC 9180, section 4) with an empty salt. */
+function _labeledExtract(
+  suiteId: Uint8Array,
+  label: string,
+  ikm: Uint8Array,
+): Promise<Uint8Array<ArrayBuffer>> {
+  return hmac(_EMPTY_SALT, _labeledIkm(suiteId, label, ikm));
+}
+
+/** LabeledExtract followed by LabeledExpand of its output: one {@link hkdf} call. */
+function _labeledHkdf(
+  suiteId: Uint8Array,
+  salt: Uint8Array<ArrayBuffer>,
+  extractLabel: string,
+  ikm: Uint8Array,
+  expandLabel: string,
+  info: Uint8Array,
+  length: number,
+): Promise<Uint8Array<ArrayBuffer>> {
+  return hkdf(_labeledIkm(suiteId, extractLabel, ikm), {
+    salt: salt.length === 0 ? _EMPTY_SALT : salt,
+    info: _labeledInfo(suiteId, expandLabel, info, length),
+    length,
+    returnAs: "bytes",
+  });
+}
+
+/** LabeledExpand (RFC 9180, section 4): HKDF-Expand alone, over an existing secret. */
+async function _labeledExpand(
+  suiteId: Uint8Array,
+  prk: Uint8Array<ArrayBuffer>,
+  label: string,
+  info: Uint8Array,
+  length: number,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const labeledInfo = _labeledInfo(suiteId, label, info, length);
+  const okm = new Uint8Array(length);
+  let previous = new Uint8Array(0);
+  for (let offset = 0, counter = 1; offset < length; counter++) {
+    previous = await hmac(prk, _concat(previous, labeledInfo, new Uint8Array([counter])));
+    okm.set(previous.subarray(0, length - offset), offset);
+    offset += previous.length;
+  }
+  return okm;
+}
+
+function _kemSuiteId(): Uint8Array<ArrayBuffer> {
+  return _concat("KEM", _i2osp(_KEM_ID, 2));
+}
+
+function _suiteId(aead: HPKEAEAD): Uint8Array<ArrayBuffer> {
+  return _concat("HPKE", _i2osp(_KEM_ID, 2), _i2osp(_KDF_ID, 2), _i2osp(_AEADS[aead].id, 2));
+}
+
+function _isKeyPair(key: unknown): key is CryptoKeyPair {
+  return (
+    typeof key === "object" &&
+    key !== null &&
+    isCryptoKey((key as CryptoKeyPair).privateKey) &&
+    isCryptoKey((key as CryptoKeyPair).publicKey)
+  );
+}
+
+function _assertX25519(key: CryptoKey | JsonWebKey): void {
+  const x25519 = isCryptoKey(key)
+    ? key.algorithm.name === "X25519"
+    : key.kty === "OKP" && key.crv === "X25519";
+  if (!x25519) throw new TypeError("HPKE keys must be X25519 keys.");
+}
+
+/** SerializePublicKey: the 32-byte u-coordinate. */
+async function _serializePublicKey(key: HPKEPublicKey): Promise<Uint8Array<ArrayBuffer>> {
+  if (isBufferSource(key)) {
+    const bytes = toBytes(key);
+    if (bytes.length !== _N_ENC) {
+      throw new RangeError(`X25519 public keys are ${_N_ENC} bytes, got ${bytes.length}.`);
+    }
+    return bytes;
+  }
+  if (typeof key !== "object" || key === null) {
+    throw new TypeError("HPKE keys must be a CryptoKey, a JWK or raw bytes.");
+  }
+  _assertX25519(key);
+  if (isCryptoKey(key)) {
+    if (key.type !== "public") throw new TypeError(`Expected a public key, got a ${key.type} key.`);
+    return new Uint8Array(await crypto.subtle.exportKey("raw", key));
+  }
+  if (typeof key.x !== "string") throw new TypeError('X25519 JWKs need an "x" member.');
+  return _serializePublicKey(Base64.parse(key.x, { alphabet: "base64url", returnAs: "bytes" }));
+}
+
+/** The recipient's private key in a form {@link deriveSharedSecret} takes, and its public half. */
+async function _recipientKeys(
+  key: HPKEPrivateKey,
+): Promise<{ privateKey: CryptoKey | JsonWebKey; publicKey: Uint8Array<ArrayBuffer> }> {
+  if (_isKeyPair(key)) {
+    _assertX25519(key.privateKey);
+    return { privateKey: key.privateKey, publicKey: await _serializePublicKey(key.publicKey) };
+  }
+  let privateKey: CryptoKey | JsonWebKey;
+  if (isBufferSource(key)) {
+    const der = rawPrivateKeyDER("X25519", toBytes(key));
+    privateKey = await crypto.subtle.importKey("pkcs8", der, { name: "X25519" }, true, [
+      "deriveBits",
+    ]);
+  } else if (typeof key === "object" && key !== null) {
+    privateKey = key;
+  } else {
+    throw new TypeError("HPKE keys must be a CryptoKey, a JWK or raw bytes.");
+  }
+  _assertX25519(privateKey);
+
+  let jwk: JsonWebKey;
+  if (isCryptoKey(privateKey)) {
+    if (privateKey.type !== "private") {
+      throw new TypeError(`Expected a private key, got a ${privateKey.type} key.`);
+    }
+    if (!privateKey.extractable) {
+      throw new TypeError(
+        "Pass the CryptoKeyPair: a non-extractable private key hides its public half.",
+      );
+    }
+    jwk = await crypto.subtle.exportKey("jwk", privateKey);
+  } else {
+    jwk = privateKey;
+    if (jwk.d === undefined) throw new TypeError("Expected a private JWK.");
+  }
+  return { privateKey, publicKey: await _serializePublicKey(jwk) };
+}
+
+/** ExtractAndExpand (RFC 9180, section 4.1). */
+function _kemSharedSecret(
+  dh: Uint8Array,
+  enc: Uint8Array,
+  recipientPublicKey: Uint8Array,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const kemContext = _concat(enc, recipientPublicKey);
+  return _labeledHkdf(
+    _kemSuiteId(),
+    new Uint8Array(0),
+    "eae_prk",
+    dh,
+    "shared_secret",
+    kemContext,
+    _N_H,
+  );
+}
+
+/** KeySchedule in base mode (RFC 9180, section 5.1): no PSK, no sender authentication. */
+async function _keySchedule(
+  sharedSecret: Uint8Array<ArrayBuffer>,
+  options: HPKEOptions,
+): Promise<_Schedule> {
+  const { aead = "AES-128-GCM", info = "" } = options;
+  if (!Object.hasOwn(_AEADS, aead)) throw new TypeError(`Unsupported HPKE AEAD: ${String(aead)}`);
+  const { keyLength } = _AEADS[aead];
+  const suiteId = _suiteId(aead);
+  const empty = new Uint8Array(0);
+
+  const pskIdHash = await _labeledExtract(suiteId, "psk_id_hash", empty);
+  const infoHash = await _labeledExtract(suiteId, "info_hash", toBytes(info));
+  const context = _concat(new Uint8Array([_MODE_BASE]), pskIdHash, infoHash);
+  const derive = (label: string, length: number) =>
+    _labeledHkdf(suiteId, sharedSecret, "secret", empty, label, context, length);
+
+  const rawKey = await derive("key", keyLength);
+  return {
+    aead,
+    key:
+      aead === "ChaCha20-Poly1305"
+        ? rawKey
+        : await crypto.subtle.importKey("raw", rawKey, "AES-GCM", false, ["encrypt", "decrypt"]),
+    baseNonce: await derive("base_nonce", _N_N),
+    exporterSecret: await derive("exp", _N_H),
+  };
+}
+
+/** ComputeNonce: the base nonce XOR the big-endian sequence number. */
+function _nonce(baseNonce: Uint8Array, sequence: number): Uint8Array<ArrayBuffer> {
+  const nonce = _i2osp(sequence, _N_N) as Uint8Array<ArrayBuffer>;
+  for (let i = 0; i < _N_N; i++) nonce[i]! ^= baseNonce[i]!;
+  return nonce;
+}
+
+async function _seal(
+  schedule: _Schedule,
+  nonce: Uint8Array<ArrayBuffer>,
+  plaintext: Uint8Array<ArrayBuffer>,
+  aad: Uint8Array<ArrayBuffer>,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const { key } = schedule;
+  if (!isCryptoKey(key)) return chacha20Poly1305Seal(key, nonce, plaintext, aad);
+  const params: AesGcmParams = {
+    name: "AES-GCM",
+    iv: nonce,
+    additionalData: aad,
+  };
+  return new Uint8Array(await crypto.subtle.encrypt(params, key, plaintext));
+}
+
+/** Decrypt and authenticate, or `undefined` if the ciphertext does not verify. */
+async function _open(
+  schedule: _Schedule,
+  nonce: Uint8Array<ArrayBuffer>,
+  ciphertext: Uint8Array<ArrayBuffer>,
+  aad: Uint8Array<ArrayBuffer>,
+): Promise<Uint8Array<ArrayBuffer> | undefined> {
+  const { key } = schedule;
+  if (!isCryptoKey(key)) return chacha20Poly1305Open(key, nonce, ciphertext, aad);
+  const params: AesGcmParams = {
+    name: "AES-GCM",
+    iv: nonce,
+    additionalData: aad,
+  };
+  try {
+    return new Uint8Array(await crypto.subtle.decrypt(params, key, ciphertext));
+  } catch {
+    return undefined;
+  }
+}
+
+function _nextSequence(sequence: number): number {
+  if (sequence >= Number.MAX_SAFE_INTEGER)
+    throw new RangeError("HPKE context message limit reached.");
+  return sequence + 1;
+}
+
+function _exporter(
+  schedule: _Schedule,
+): (exporterContext: string | BufferSource, length: number) => Promise<Uint8Array<ArrayBuffer>> {
+  return (exporterContext, length) => {
+    if (!Number.isInteger(length) || length < 1 || length > 255 * _N_H) {
+      return Promise.reject(
+        new RangeError(`Export length must be between 1 and ${255 * _N_H} bytes.`),
+      );
+    }
+    return _labeledExpand(
+      _suiteId(schedule.aead),
+      schedule.exporterSecret,
+      "sec",
+      toBytes(exporterContext),
+      length,
+    );
+  };
+}
+
+// #endregion
+
+// #region Contexts
+
+/**
+ * Set up an HPKE base-mode sender context (RFC 9180, section 5.1.1) for
+ * encrypting several messages to one recipient.
+ *
+ * The suite is DHKEM(X25519, HKDF-SHA256) with HKDF-SHA256 and AES-GCM or
+ * ChaCha20-Poly1305. A fresh ephemeral key pair is generated for every
+ * context; send {@link HPKESenderContext.enc} with the ciphertexts so the
+ * recipient can set up the matching context. Messages are encrypted with successive nonces,
+ * so the recipient must open them in the same order.
+ *
+ * @param recipientPublicKey The recipient's X25519 public key.
+ * @param options AEAD and `info`.
+ * @returns A Promise that resolves to the sender context.
+ * @throws {TypeError} If the key is not an X25519 public key or the AEAD is not supported.
+ * @throws {RangeError} If raw key bytes are not 32 bytes long.
+ *
+ * @example
+ * const sender = await createHPKESender(recipientPublicKey, { info: "backup/v1" });
+ * const chunks = [await sender.seal(part1), await sender.seal(part2)];
+ * send({ enc: sender.enc, chunks });
+ */
+export async function createHPKESender(
+  recipientPublicKey: HPKEPublicKey,
+  options: HPKEOptions = {},
+): Promise<HPKESenderContext> {
+  const publicKey = await _serializePublicKey(recipientPublicKey);
+  const ephemeral = await generateKeyPair("X25519");
+  const enc = await _serializePublicKey(ephemeral.publicKey);
+  const dh = await deriveSharedSecret(ephemeral.privateKey, publicKey);
+  const schedule = await _keySchedule(await _kemSharedSecret(dh, enc, publicKey), options);
+
+  let sequence = 0;
+  return Object.freeze({
+    enc,
+    async seal(plaintext: string | BufferSource, aad?: string | BufferSource) {
+      const nonce = _nonce(schedule.baseNonce, sequence);
+      sequence = _nextSequence(sequence);
+      return _seal(schedule, nonce, toBytes(plaintext), toBytes(aad ?? ""));
+    },
+    export: _exporter(schedule),
+  });
+}
+
+/**
+ * Set up the HPKE base-mode recipient context (RFC 9180, section 5.1.1) that
+ * matches a sender's `enc`.
+ *
+ * @param recipientPrivateKey The recipient's X25519 private key, or key pair.
+ * @param enc The sender's encapsulated key (32 bytes).
+ * @param options AEAD and `info`, as given to the sender.
+ * @returns A Promise that resolves to the recipient context.
+ * @throws {TypeError} If the key is not an X25519 private key whose public half is available, or the AEAD is not supported.
+ * @throws {Error} `"Decryption failed."` if `enc` is malformed.
+ *
+ * @example
+ * const recipient = await createHPKERecipient(keyPair, message.enc, { info: "backup/v1" });
+ * const parts = [];
+ * for (const chunk of message.chunks) parts.push(await recipient.open(chunk));
+ */
+export async function createHPKERecipient(
+  recipientPrivateKey: HPKEPrivateKey,
+  enc: BufferSource,
+  options: HPKEOptions = {},
+): Promise<HPKERecipientContext> {
+  const { privateKey, publicKey } = await _recipientKeys(recipientPrivateKey);
+  const encBytes = toBytes(enc);
+  let dh: Uint8Array;
+  try {
+    if (encBytes.length !== _N_ENC) throw new RangeError("Malformed enc.");
+    dh = await deriveSharedSecret(privateKey, encBytes, { curve: "X25519" });
+  } catch {
+    throw new Error(DECRYPTION_FAILED);
+  }
+  const schedule = await _keySchedule(await _kemSharedSecret(dh, encBytes, publicKey), options);
+
+  let sequence = 0;
+  let queue: Promise<unknown> = Promise.resolve();
+  return Object.freeze({
+    open(ciphertext: BufferSource, aad?: string | BufferSource) {
+      // Serialized so a failed open leaves the sequence where it was
+      const result = queue.then(async () => {
+        const nonce = _nonce(schedule.baseNonce, sequence);
+        const plaintext = await _open(schedule, nonce, toBytes(ciphertext), toBytes(aad ?? ""));
+        if (!plaintext) throw new Error(DECRYPTION_FAILED);
+        sequence = _nextSequence(sequence);
+        return plaintext;
+      });
+      queue = result.catch(() => undefined);
+      return result;
+    },
+    export: _exporter(schedule),
+  });
+}
+
+// #endregion
+
+// #region hpkeSeal / hpkeOpen
+
+/**
+ * Encrypt one message to a recipient's public key with HPKE base mode
+ * (RFC 9180, section 6.1): DHKEM(X25519, HKDF-SHA256), HKDF-SHA256 and
+ * AES-GCM or ChaCha20-Poly1305.
+ *
+ * The envelope is `enc (32 bytes) | ciphertext | tag (16 bytes)`, the
+ * single-shot output of the RFC, so any HPKE implementation using the same
+ * suite, `info` and `aad` can open it.
+ *
+ * When `returnAs` is not specified, the return type mirrors the plaintext:
+ * - `string` plaintext returns a base64url `string`
+ * - `BufferSource` plaintext returns a `Uint8Array<ArrayBuffer>`
+ *
+ * @param recipientPublicKey The recipient's X25519 public key.
+ * @param plaintext The data to encrypt. Strings are UTF-8 encoded.
+ * @param options AEAD, `info`, `aad` and envelope encoding.
+ * @returns A Promise that resolves to the envelope.
+ * @throws {TypeError} If the key is not an X25519 public key or the AEAD is not supported.
+ * @throws {RangeError} If raw key bytes are not 32 bytes long.
+ *
+ * @example
+ * const { publicKey, privateKey } = await generateKeyPair("X25519");
+ * const sealed = await hpkeSeal(publicKey, webhookSecret, { info: "webhooks/v1" });
+ * const secret = await hpkeOpen({ publicKey, privateKey }, sealed, { info: "webhooks/v1" });
+ */
+export async function hpkeSeal<T extends HPKEEnvelopeReturnAs>(
+  recipientPublicKey: HPKEPublicKey,
+  plaintext: string | BufferSource,
+  options: HPKESealOptions & { returnAs: T },
+): Promise<T extends "uint8array" | "bytes" ? Uint8Array<ArrayBuffer> : string>;
+export async function hpkeSeal(
+  recipientPublicKey: HPKEPublicKey,
+  plaintext: string,
+  options?: Omit<HPKESealOptions, "returnAs">,
+): Promise<string>;
+export async function hpkeSeal(
+  recipientPublicKey: HPKEPublicKey,
+  plaintext: BufferSource,
+  options?: Omit<HPKESealOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer>>;
+export async function hpkeSeal(
+  recipientPublicKey: HPKEPublicKey,
+  plaintext: string | BufferSource,
+  options?: Omit<HPKESealOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer> | string>;
+export async function hpkeSeal(
+  recipientPublicKey: HPKEPublicKey,
+  plaintext: string | BufferSource,
+  options: HPKESealOptions = {},
+): Promise<Uint8Array<ArrayBuffer> | string> {
+  const { aad } = options;
+  const returnAs = options.returnAs ?? (typeof plaintext === "string" ? "base64url" : "uint8array");
+  if (!_ENVELOPE_RETURN_AS.has(returnAs)) {
+    throw new Error(`Unsupported hpkeSeal "returnAs" option: ${String(returnAs)}`);
+  }
+  const sender = await createHPKESender(recipientPublicKey, options);
+  return encodeBytes(_concat(sender.enc, await sender.seal(plaintext, aad)), returnAs, "hpkeSeal");
+}
+
+/**
+ * Decrypt an envelope from {@link hpkeSeal} with the recipient's private key.
+ *
+ * Every failure to decrypt (malformed envelope, wrong key, `info` or `aad`,
+ * tampering) throws the same error, so callers cannot be used as an oracle.
+ *
+ * @param recipientPrivateKey The recipient's X25519 private key, or key pair.
+ * @param envelope The envelope, as bytes or a base64url string.
+ * @param options AEAD, `info` and `aad` as given to {@link hpkeSeal}, and the plaintext shape.
+ * @returns A Promise that resolves to the plaintext.
+ * @throws {Error} `"Decryption failed."` if the envelope cannot be decrypted.
+ * @throws {TypeError} If the key is not an X25519 private key whose public half is available, or the AEAD is not supported.
+ */
+export async function hpkeOpen<T extends DecodeReturnAs>(
+  recipientPrivateKey: HPKEPrivateKey,
+  envelope: string | BufferSource,
+  options: HPKEOpenOptions & { returnAs: T },
+): Promise<T extends "string" ? string : Uint8Array<ArrayBuffer>>;
+export async function hpkeOpen(
+  recipientPrivateKey: HPKEPrivateKey,
+  envelope: string,
+  options?: Omit<HPKEOpenOptions, "returnAs">,
+): Promise<string>;
+export async function hpkeOpen(
+  recipientPrivateKey: HPKEPrivateKey,
+  envelope: BufferSource,
+  options?: Omit<HPKEOpenOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer>>;
+export async function hpkeOpen(
+  recipientPrivateKey: HPKEPrivateKey,
+  envelope: string | BufferSource,
+  options?: Omit<HPKEOpenOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer> | string>;
+export async function hpkeOpen(
+  recipientPrivateKey: HPKEPrivateKey,
+  envelope: string | BufferSource,
+  options: HPKEOpenOptions = {},
+): Promise<Uint8Array<ArrayBuffer> | string> {
+  const returnAs = options.returnAs ?? (typeof envelope === "string" ? "string" : "uint8array");
+  assertPlaintextReturnAs(returnAs, "hpkeOpen");
+  let bytes: Uint8Array<ArrayBuffer>;
+  try {
+    bytes =
+      typeof envelope === "string"
+        ? Base64.parse(envelope, { alphabet: "base64url", returnAs: "bytes" })
+        : toBytes(envelope);
+  } catch {
+    throw new Error(DECRYPTION_FAILED);
+  }
+  if (bytes.length < _N_ENC) throw new Error(DECRYPTION_FAILED);
+
+  const recipient = await createHPKERecipient(
+    recipientPrivateKey,
+    bytes.subarray(0, _N_ENC),
+    options,
+  );
+  const plaintext = await recipient.open(bytes.subarray(_N_ENC), options.aad);
+  return returnAs === "string" ? textDecoder.decode(plaintext) : plaintext;
+}
+
+// #endregion
@@ -1,29 +1,175 @@
+export {
+  type Argon2Params,
+  type Argon2idHashOptions,
+  type Argon2idOptions,
+  argon2id,
+  argon2idHash,
+  argon2idVerify,
+} from "./argon2.ts";
+
+export {
+  type BcryptHashOptions,
+  type BcryptOptions,
+  type BcryptVersion,
+  bcryptHash,
+  bcryptVerify,
+} from "./bcrypt.ts";
+
+export { type Blake2Options, type Blake3Options, blake2b, blake2s, blake3 } from "./blake.ts";
+
+export {
+  type ChaChaAlgorithm,
+  type ChaChaDecryptOptions,
+  type ChaChaEncryptOptions,
+  chachaDecrypt,
+  chachaEncrypt,
+} from "./chacha.ts";
+
 export { type SecureCompareOptions, secureCompare } from "./compare.ts";
 
+export {
+  type ECDHCurve,
+  type ECDHKey,
+  type SharedKeyOptions,
+  type SharedSecretOptions,
+  deriveSharedKey,
+  deriveSharedSecret,
+} from "./ecdh.ts";
+
+export {
+  type DecryptOptions,
+  type DeriveKeyFromPasswordOptions,
+  type EncryptOptions,
+  type EncryptionKey,
+  type EnvelopeReturnAs,
+  type KeyringDecryptResult,
+  decrypt,
+  deriveKeyFromPassword,
+  encrypt,
+} from "./encrypt.ts";
+
 export { type EntropyResult, entropy } from "./entropy.ts";
 
 export { type SecureGenerateOptions, secureGenerate } from "./generate.ts";
 
-export { type DigestAlgorithm, type DigestOptions, type DigestReturnAs, hash } from "./hash.ts";
+export {
+  type DigestAlgorithm,
+  type DigestOptions,
+  type DigestReturnAs,
+  type HashStreamSource,
+  type Hasher,
+  type ShakeAlgorithm,
+  createHash,
+  hash,
+  hashStream,
+} from "./hash.ts";
 
 export { type HKDFOptions, hkdf } from "./hkdf.ts";
 
-export { type HMACOptions, hmac, hmacVerify } from "./hmac.ts";
+export { type HMACAlgorithm, type HMACOptions, type HMACSecret, hmac, hmacVerify } from "./hmac.ts";
+
+export {
+  type HPKEAEAD,
+  type HPKEEnvelopeReturnAs,
+  type HPKEOpenOptions,
+  type HPKEOptions,
+  type HPKEPrivateKey,
+  type HPKEPublicKey,
+  type HPKERecipientContext,
+  type HPKESealOptions,
+  type HPKESenderContext,
+  createHPKERecipient,
+  createHPKESender,
+  hpkeOpen,
+  hpkeSeal,
+} from "./hpke.ts";
+
+export {
+  type JWK,
+  type JWKS,
+  type JWKSLoader,
+  type KeySet,
+  type KeySetEntry,
+  type KeySetOptions,
+  type KeySetQuery,
+  createKeySet,
+} from "./jwks.ts";
+
+export {
+  type JWTAlgorithm,
+  type JWTErrorCode,
+  type JWTHeader,
+  type JWTKey,
+  type JWTKeyMaterial,
+  type JWTKeyResolver,
+  type JWTPayload,
+  type JWTVerifyResult,
+  type SignJWTOptions,
+  type VerifyJWTOptions,
+  JWTError,
+  signJWT,
+  verifyJWT,
+} from "./jwt.ts";
+
+export {
+  type Keyring,
+  type KeyringOptions,
+  type KeyringVerifyResult,
+  createKeyring,
+  isKeyring,
+} from "./keyring.ts";
+
+export {
+  type GenerateKeyPairOptions,
+  type JWKThumbprintOptions,
+  type KeyAlgorithmName,
+  type KeyExportOptions,
+  type KeyFormat,
+  type KeyImportOptions,
+  type KeyPairType,
+  type RSAHashAlgorithm,
+  convertKey,
+  exportKey,
+  generateKeyPair,
+  importKey,
+  jwkThumbprint,
+} from "./keys.ts";
 
 export {
   type HOTPOptions,
+  type HOTPResyncOptions,
   type HOTPVerifyOptions,
+  type HOTPVerifyResult,
+  type OTPAuthMigrationBatch,
+  type OTPAuthMigrationOptions,
   type OTPAuthURIOptions,
   type TOTPOptions,
   type TOTPVerifyOptions,
+  type TOTPVerifyResult,
   generateOTPSecret,
   hotp,
+  hotpResync,
   hotpVerify,
+  otpauthMigrationURIs,
   otpauthURI,
+  parseOTPAuthMigrationURI,
+  parseOTPAuthURI,
   totp,
   totpVerify,
 } from "./otp.ts";
 
+export {
+  type PasswordAlgorithm,
+  type PasswordHashAlgorithm,
+  type PasswordHashOptions,
+  type PasswordPolicy,
+  type PasswordVerifyResult,
+  hashPassword,
+  verifyPassword,
+} from "./password.ts";
+
+export { type QRCodeOptions, type QRCodeReturnAs, type QRErrorCorrection, qrCode } from "./qr.ts";
+
 export {
   type SecureRandomGenerator,
   createSecureRandomGenerator,
@@ -35,6 +181,40 @@ export {
 
 export { safeJsonParse, sanitizeObject, sanitizeObjectCopy } from "./sanitize.ts";
 
+export {
+  type ScryptHashOptions,
+  type ScryptOptions,
+  type ScryptParams,
+  scrypt,
+  scryptHash,
+  scryptVerify,
+} from "./scrypt.ts";
+
+export {
+  type SignOptions,
+  type SignatureAlgorithm,
+  type SignatureKey,
+  sign,
+  verify,
+} from "./sign.ts";
+
+export {
+  type SIVAssociatedData,
+  type SIVDecryptOptions,
+  type SIVEncryptOptions,
+  type SIVKey,
+  sivDecrypt,
+  sivEncrypt,
+} from "./siv.ts";
+
+export {
+  type DecryptStreamOptions,
+  type EncryptStreamOptions,
+  type StreamKey,
+  createDecryptStream,
+  createEncryptStream,
+} from "./stream.ts";
+
 export {
   type UUIDv7Generator,
   createUUIDv7Generator,
@@ -0,0 +1,319 @@
+import type { JWTHeader } from "./jwt.ts";
+import { PRIVATE_JWK_MEMBERS } from "./_internal/keys.ts";
+
+/** A JWK as found in a JWK Set (RFC 7517, section 4). */
+export interface JWK extends JsonWebKey {
+  /** Key id, unique within the set. */
+  kid?: string;
+  /** Intended use: `sig` or `enc`. */
+  use?: string;
+  [member: string]: unknown;
+}
+
+/** A JWK Set document (RFC 7517, section 5). */
+export interface JWKS {
+  keys: JWK[];
+}
+
+/** Supplies a JWK Set, e.g. by fetching an issuer's `jwks_uri`. */
+export type JWKSLoader = () => JWKS | Promise<JWKS>;
+
+export interface KeySetOptions {
+  /**
+   * Called by {@link KeySet.reload}, and by {@link KeySet.resolve} when a
+   * token names a `kid` the set does not have.
+   */
+  loader?: JWKSLoader;
+  /**
+   * Minimum seconds between loader calls triggered by unknown `kid`s, so
+   * forged tokens cannot make every verification refetch.
+   *
+   * @default 60
+   */
+  cooldown?: number;
+  /**
+   * Clock for `addedAt`, `updatedAt` and the cooldown, in Unix seconds.
+   * Defaults to the current time.
+   */
+  now?: () => number;
+}
+
+/** A validated key in a {@link KeySet}. */
+export interface KeySetEntry {
+  /** The JWK as given. */
+  readonly jwk: Readonly<JWK>;
+  readonly kid: string | undefined;
+  readonly alg: string | undefined;
+  readonly use: string | undefined;
+  /** When the key entered the set, in Unix seconds. */
+  readonly addedAt: number;
+}
+
+/** Criteria for {@link KeySet.find}; every given field must match. */
+export interface KeySetQuery {
+  kid?: string;
+  alg?: string;
+  use?: string;
+  kty?: string;
+}
+
+/**
+ * JWKs indexed by `kid`, `alg` and `use`. Pass {@link KeySet.resolve} to
+ * {@link verifyJWT} to pick the key named by each token's header.
+ */
+export interface KeySet {
+  /** All keys, in insertion order. */
+  readonly keys: readonly KeySetEntry[];
+  /** When the set last changed, in Unix seconds. */
+  readonly updatedAt: number;
+  /** Look up a key by id. */
+  get(kid: string): KeySetEntry | undefined;
+  /** All keys matching `query`. Keys without `alg` / `use` match any value. */
+  find(query: KeySetQuery): KeySetEntry[];
+  /**
+   * Validate and add a key.
+   *
+   * @throws {TypeError} If the JWK is invalid or its `kid` is already in the set.
+   */
+  add(jwk: JWK): KeySetEntry;
+  /** Remove a key by id; returns whether it was present. */
+  remove(kid: string): boolean;
+  /**
+   * Replace the keys with the loader's document. Keys whose `kid` stays keep
+   * their `addedAt`.
+   *
+   * @throws {TypeError} If there is no loader or the document is invalid.
+   */
+  reload(): Promise<void>;
+  /**
+   * Key resolver for {@link verifyJWT}: the key named by `header.kid` (calling
+   * the loader once if it is unknown), or without a `kid` the only signing key
+   * that fits `header.alg`. Encryption keys (`use: "enc"`) never resolve.
+   */
+  resolve(this: void, header: JWTHeader): Promise<JWK | undefined>;
+  /** The public JWK Set: private key members removed, symmetric (`oct`) keys left out. */
+  toJSON(): JWKS;
+}
+
+// #region Internals
+
+const _DEFAULT_COOLDOWN = 60;
+
+/** Members each key type needs (RFC 7518, section 6). */
+const _REQUIRED_MEMBERS: Record<string, readonly string[]> = {
+  EC: ["crv", "x", "y"],
+  OKP: ["crv", "x"],
+  RSA: ["n", "e"],
+  oct: ["k"],
+};
+
+const _CURVES: Record<string, ReadonlySet<string>> = {
+  EC: /* @__PURE__ */ new Set(["P-256", "P-384", "P-521"]),
+  OKP: /* @__PURE__ */ new Set(["Ed25519", "X25519"]),
+};
+
+const _USES: ReadonlySet<string> = /* @__PURE__ */ new Set(["sig", "enc"]);
+
+/** Key type each JWS algorithm family needs, by `alg` prefix. */
+const _ALG_KEY_TYPES: Record<string, string> = {
+  HS: "oct",
+  RS: "RSA",
+  PS: "RSA",
+  ES: "EC",
+  Ed: "OKP",
+};
+
+function _invalid(jwk: JWK, reason: string): TypeError {
+  const kid = typeof jwk.kid === "string" ? ` "${jwk.kid}"` : "";
+  return new TypeError(`Invalid JWK${kid}: ${reason}`);
+}
+
+function _validate(jwk: unknown): asserts jwk is JWK {
+  if (typeof jwk !== "object" || jwk === null || Array.isArray(jwk)) {
+    throw new TypeError("Invalid JWK: expected an object.");
+  }
+  const key = jwk as JWK;
+  const members =
+    typeof key.kty === "string" && Object.hasOwn(_REQUIRED_MEMBERS, key.kty)
+      ? _REQUIRED_MEMBERS[key.kty]!
+      : undefined;
+  if (!members) throw _invalid(key, `unsupported kty ${String(key.kty)}.`);
+  for (const member of members) {
+    if (typeof key[member] !== "string" || key[member] === "") {
+      throw _invalid(key, `missing "${member}".`);
+    }
+  }
+  const curves = _CURVES[key.kty!];
+  if (curves && !curves.has(key.crv!)) throw _invalid(key, `unsupported crv ${key.crv}.`);
+  for (const member of ["kid", "alg", "use"] as const) {
+    if (key[member] !== undefined && typeof key[member] !== "string") {
+      throw _invalid(key, `"${member}" must be a string.`);
+    }
+  }
+  if (key.use !== undefined && !_USES.has(key.use)) {
+    throw _invalid(key, `unsupported use ${key.use}.`);
+  }
+  if (key.key_ops !== undefined && !Array.isArray(key.key_ops)) {
+    throw _invalid(key, '"key_ops" must be an array.');
+  }
+}
+
+function _entries(document: unknown): JWK[] {
+  const keys = (document as JWKS | null)?.keys;
+  if (!Array.isArray(keys)) throw new TypeError('Invalid JWK Set: expected a "keys" array.');
+  const seen = new Set<string>();
+  for (const jwk of keys) {
+    _validate(jwk);
+    if (jwk.kid !== undefined) {
+      if (seen.has(jwk.kid)) throw _invalid(jwk, "duplicate kid.");
+      seen.add(jwk.kid);
+    }
+  }
+  return keys;
+}
+
+function _matches(entry: KeySetEntry, query: KeySetQuery): boolean {
+  return (
+    (query.kid === undefined || entry.kid === query.kid) &&
+    (query.kty === undefined || entry.jwk.kty === query.kty) &&
+    (query.alg === undefined || entry.alg === undefined || entry.alg === query.alg) &&
+    (query.use === undefined || entry.use === undefined || entry.use === query.use)
+  );
+}
+
+function _publicJWK(jwk: Readonly<JWK>): JWK {
+  const copy: JWK = { ...jwk };
+  for (const member of PRIVATE_JWK_MEMBERS) delete copy[member];
+  return copy;
+}
+
+// #endregion
+
+/**
+ * Create a key set from a JWK Set document, for picking verification keys by
+ * `kid` and for rotating your own published keys.
+ *
+ * Every JWK is validated: a supported `kty` with its required members, a
+ * supported curve, string `kid` / `alg` / `use` (`sig` or `enc`), and unique
+ * `kid`s. Keys can then be added and removed locally, each stamped with the
+ * time it was added.
+ *
+ * With a `loader`, {@link KeySet.reload} replaces the keys with a fresh
+ * document, and tokens naming an unknown `kid` trigger one reload at most
+ * every `cooldown` seconds, which picks up an issuer's key rotation without
+ * letting forged `kid`s hammer the endpoint. Fetching is left to the loader.
+ *
+ * @param jwks The initial JWK Set. Defaults to an empty set.
+ * @param options Loader, cooldown and clock.
+ * @returns A {@link KeySet}.
+ * @throws {TypeError} If the document or one of its keys is invalid.
+ * @throws {RangeError} If `cooldown` is negative.
+ *
+ * @example
+ * const keySet = createKeySet(undefined, {
+ *   loader: () => fetch("https://idp.example.com/.well-known/jwks.json").then((r) => r.json()),
+ * });
+ * const { payload } = await verifyJWT(token, keySet.resolve, { issuer: "https://idp.example.com" });
+ */
+export function createKeySet(jwks: JWKS = { keys: [] }, options: KeySetOptions = {}): KeySet {
+  const { loader, cooldown = _DEFAULT_COOLDOWN } = options;
+  const now = options.now ?? (() => Math.floor(Date.now() / 1000));
+  if (!Number.isFinite(cooldown) || cooldown < 0) {
+    throw new RangeError("cooldown must be a non-negative number of seconds.");
+  }
+
+  let entries: readonly KeySetEntry[] = [];
+  let updatedAt = now();
+  let lastLoad = Number.NEGATIVE_INFINITY;
+  let pending: Promise<void> | undefined;
+
+  function _entry(jwk: JWK, addedAt: number): KeySetEntry {
+    return Object.freeze({
+      jwk: Object.freeze({ ...jwk }),
+      kid: jwk.kid,
+      alg: jwk.alg,
+      use: jwk.use,
+      addedAt,
+    });
+  }
+
+  function _replace(keys: JWK[]): void {
+    const time = now();
+    const previous = new Map(entries.map((entry) => [entry.kid, entry.addedAt]));
+    entries = Object.freeze(
+      keys.map((jwk) => _entry(jwk, (jwk.kid !== undefined && previous.get(jwk.kid)) || time)),
+    );
+    updatedAt = time;
+  }
+
+  function get(kid: string): KeySetEntry | undefined {
+    return entries.find((entry) => entry.kid === kid);
+  }
+
+  function find(query: KeySetQuery): KeySetEntry[] {
+    return entries.filter((entry) => _matches(entry, query));
+  }
+
+  function add(jwk: JWK): KeySetEntry {
+    _validate(jwk);
+    if (jwk.kid !== undefined && get(jwk.kid)) throw _invalid(jwk, "duplicate kid.");
+    updatedAt = now();
+    const entry = _entry(jwk, updatedAt);
+    entries = Object.freeze([...entries, entry]);
+    return entry;
+  }
+
+  function remove(kid: string): boolean {
+    const remaining = entries.filter((entry) => entry.kid !== kid);
+    if (remaining.length === entries.length) return false;
+    entries = Object.freeze(remaining);
+    updatedAt = now();
+    return true;
+  }
+
+  function reload(): Promise<void> {
+    if (!loader) return Promise.reject(new TypeError("This key set has no loader."));
+    pending ??= (async () => {
+      try {
+        lastLoad = now();
+        _replace(_entries(await loader()));
+      } finally {
+        pending = undefined;
+      }
+    })();
+    return pending;
+  }
+
+  async function resolve(header: JWTHeader): Promise<JWK | undefined> {
+    const { kid, alg } = header;
+    if (typeof kid === "string") {
+      if (!get(kid) && loader && (pending || now() - lastLoad >= cooldown)) await reload();
+      const entry = get(kid);
+      return entry && entry.use !== "enc" ? entry.jwk : undefined;
+    }
+    const kty = typeof alg === "string" ? _ALG_KEY_TYPES[alg.slice(0, 2)] : undefined;
+    const candidates = find({ alg, use: "sig", kty });
+    return candidates.length === 1 ? candidates[0]!.jwk : undefined;
+  }
+
+  _replace(_entries(jwks));
+  return Object.freeze({
+    get keys() {
+      return entries;
+    },
+    get updatedAt() {
+      return updatedAt;
+    },
+    get,
+    find,
+    add,
+    remove,
+    reload,
+    resolve,
+    toJSON: () => ({
+      keys: entries
+        .filter((entry) => entry.jwk.kty !== "oct")
+        .map((entry) => _publicJWK(entry.jwk)),
+    }),
+  });
+}
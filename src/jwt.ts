@@ -0,0 +1,632 @@
+import type { HMACAlgorithm } from "./hmac.ts";
+import { isBufferSource, isCryptoKey, PRIVATE_JWK_MEMBERS } from "./_internal/keys.ts";
+import { toBytes } from "./_internal/encoding.ts";
+import { derFormat, derKeyType, isPEM, parsePEM } from "./_internal/pem.ts";
+import { Base64, textDecoder, textEncoder } from "./utils/index.ts";
+import { secureCompare } from "./compare.ts";
+import { hmac } from "./hmac.ts";
+import { type Keyring, isKeyring } from "./keyring.ts";
+import { safeJsonParse } from "./sanitize.ts";
+
+/**
+ * JWS algorithms for signing and verifying JWTs: HMAC (`HS*`),
+ * RSASSA-PKCS1-v1_5 (`RS*`), RSASSA-PSS (`PS*`), ECDSA (`ES*`) and Ed25519
+ * (`EdDSA`). `none` is never accepted.
+ */
+export type JWTAlgorithm =
+  | "HS256"
+  | "HS384"
+  | "HS512"
+  | "RS256"
+  | "RS384"
+  | "RS512"
+  | "PS256"
+  | "PS384"
+  | "PS512"
+  | "ES256"
+  | "ES384"
+  | "ES512"
+  | "EdDSA";
+
+/**
+ * A single JWT key:
+ * - an HMAC secret, as a string or bytes (bytes holding a PEM or DER key are refused)
+ * - a `CryptoKey` for HMAC, RSASSA-PKCS1-v1_5, RSA-PSS, ECDSA or Ed25519
+ * - a JWK object (`oct`, `RSA`, `EC` or `OKP`)
+ * - a PEM string: SPKI (`PUBLIC KEY`) to verify, PKCS#8 (`PRIVATE KEY`) to sign or verify
+ */
+export type JWTKeyMaterial = string | BufferSource | CryptoKey | JsonWebKey;
+
+/**
+ * A JWT key, or a {@link Keyring} of them. With a keyring, the active key
+ * signs and its id travels in the `kid` header.
+ */
+export type JWTKey = JWTKeyMaterial | Keyring<JWTKeyMaterial>;
+
+/**
+ * Picks the verification key for a token from its header, e.g.
+ * {@link KeySet.resolve}. Returning `undefined` fails signature verification.
+ */
+export type JWTKeyResolver = (
+  header: JWTHeader,
+) => JWTKeyMaterial | undefined | Promise<JWTKeyMaterial | undefined>;
+
+/** Registered claims (RFC 7519, section 4.1), plus any private claims. */
+export interface JWTPayload {
+  /** Issuer. */
+  iss?: string;
+  /** Subject. */
+  sub?: string;
+  /** Audience: one recipient or several. */
+  aud?: string | string[];
+  /** Expiration time, in Unix seconds. */
+  exp?: number;
+  /** Not-before time, in Unix seconds. */
+  nbf?: number;
+  /** Issued-at time, in Unix seconds. */
+  iat?: number;
+  /** Unique token id. */
+  jti?: string;
+  [claim: string]: unknown;
+}
+
+/** JOSE header of a signed JWT. */
+export interface JWTHeader {
+  alg: JWTAlgorithm;
+  typ?: string;
+  /** Id of the signing key, set when signing with a {@link Keyring} or a JWK with a `kid`. */
+  kid?: string;
+  [parameter: string]: unknown;
+}
+
+export interface SignJWTOptions {
+  /**
+   * Signature algorithm; must match the key.
+   *
+   * @default the first algorithm the key fits: 'HS256' for secrets, 'RS256'
+   * for RSA, 'PS256' for RSA-PSS, 'ES256' / 'ES384' / 'ES512' by curve,
+   * 'EdDSA' for Ed25519
+   */
+  alg?: JWTAlgorithm;
+  /** Lifetime in seconds: sets `exp` to `iat + expiresIn`. */
+  expiresIn?: number;
+  /** Sets the `iss` claim. */
+  issuer?: string;
+  /** Sets the `aud` claim. */
+  audience?: string | string[];
+  /**
+   * Unix timestamp in seconds used for `iat` when the payload has none.
+   * Defaults to the current time.
+   */
+  time?: number;
+}
+
+export interface VerifyJWTOptions {
+  /**
+   * Algorithms the `alg` header may name. Whatever the list, the algorithm
+   * must also match the key.
+   *
+   * @default every algorithm the key fits
+   */
+  algorithms?: JWTAlgorithm[];
+  /** Required `iss`: the claim must equal this value, or one of these values. */
+  issuer?: string | string[];
+  /** Expected audience: the `aud` claim must contain this value, or one of these values. */
+  audience?: string | string[];
+  /**
+   * Leeway in seconds for clock skew when checking `exp`, `nbf` and `iat`.
+   *
+   * @default 0
+   */
+  clockTolerance?: number;
+  /**
+   * Unix timestamp in seconds to validate against. Defaults to the current time.
+   * Useful for testing with deterministic values.
+   */
+  time?: number;
+}
+
+/** Result of {@link verifyJWT}. */
+export interface JWTVerifyResult<T extends JWTPayload = JWTPayload> {
+  /** The verified claims. */
+  payload: T;
+  /** The protected header. */
+  header: JWTHeader;
+  /**
+   * `true` when the token was verified with a {@link Keyring} key other than
+   * the active one; issue a fresh token to complete the rotation.
+   */
+  needsRotation: boolean;
+}
+
+/** Reasons {@link verifyJWT} rejects a token, as {@link JWTError.code}. */
+export type JWTErrorCode =
+  | "ERR_JWT_MALFORMED"
+  | "ERR_JWT_ALG_NOT_ALLOWED"
+  | "ERR_JWT_INVALID_SIGNATURE"
+  | "ERR_JWT_INVALID_CLAIM"
+  | "ERR_JWT_EXPIRED"
+  | "ERR_JWT_NOT_YET_VALID"
+  | "ERR_JWT_ISSUED_IN_FUTURE"
+  | "ERR_JWT_INVALID_ISSUER"
+  | "ERR_JWT_INVALID_AUDIENCE";
+
+/** A token rejected by {@link verifyJWT}; branch on `code` rather than the message. */
+export class JWTError extends Error {
+  /** Machine-readable reason. */
+  readonly code: JWTErrorCode;
+
+  constructor(code: JWTErrorCode, message: string) {
+    super(message);
+    this.name = "JWTError";
+    this.code = code;
+  }
+}
+
+// #region Internals
+
+interface _AlgorithmSpec {
+  kty: "oct" | "RSA" | "EC" | "OKP";
+  /** Web Crypto algorithm name. */
+  name: "HMAC" | "RSASSA-PKCS1-v1_5" | "RSA-PSS" | "ECDSA" | "Ed25519";
+  hash?: HMACAlgorithm;
+  crv?: string;
+}
+
+const _ALGORITHMS: Record<JWTAlgorithm, _AlgorithmSpec> = {
+  HS256: { kty: "oct", name: "HMAC", hash: "SHA-256" },
+  HS384: { kty: "oct", name: "HMAC", hash: "SHA-384" },
+  HS512: { kty: "oct", name: "HMAC", hash: "SHA-512" },
+  RS256: { kty: "RSA", name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+  RS384: { kty: "RSA", name: "RSASSA-PKCS1-v1_5", hash: "SHA-384" },
+  RS512: { kty: "RSA", name: "RSASSA-PKCS1-v1_5", hash: "SHA-512" },
+  PS256: { kty: "RSA", name: "RSA-PSS", hash: "SHA-256" },
+  PS384: { kty: "RSA", name: "RSA-PSS", hash: "SHA-384" },
+  PS512: { kty: "RSA", name: "RSA-PSS", hash: "SHA-512" },
+  ES256: { kty: "EC", name: "ECDSA", hash: "SHA-256", crv: "P-256" },
+  ES384: { kty: "EC", name: "ECDSA", hash: "SHA-384", crv: "P-384" },
+  ES512: { kty: "EC", name: "ECDSA", hash: "SHA-512", crv: "P-521" },
+  EdDSA: { kty: "OKP", name: "Ed25519", crv: "Ed25519" },
+};
+
+const _ALGORITHM_NAMES = Object.keys(_ALGORITHMS) as JWTAlgorithm[];
+
+/** PS* salts are as long as the hash (RFC 7518, section 3.5). */
+const _HASH_LENGTHS: Record<string, number> = { "SHA-256": 32, "SHA-384": 48, "SHA-512": 64 };
+
+/** ES* signatures are R || S, each as long as the curve order (RFC 7518, section 3.4). */
+const _EC_SIGNATURE_LENGTHS: Record<string, number> = { "P-256": 64, "P-384": 96, "P-521": 132 };
+
+const _CRYPTO_KEY_TYPES: Record<string, _AlgorithmSpec["kty"]> = {
+  "HMAC": "oct",
+  "RSASSA-PKCS1-v1_5": "RSA",
+  "RSA-PSS": "RSA",
+  "ECDSA": "EC",
+  "Ed25519": "OKP",
+};
+
+const _JWK_TYPES: ReadonlySet<string> = /* @__PURE__ */ new Set(["oct", "RSA", "EC", "OKP"]);
+
+/**
+ * What a key can be used for, read from the key itself. The token's `alg`
+ * header only ever selects among algorithms that fit, so an RSA public key
+ * can never be used as an HMAC secret.
+ */
+interface _KeyKind {
+  kty: string;
+  crv?: string;
+  name?: string;
+  hash?: string;
+  /** `alg` pinned by a JWK. */
+  alg?: string;
+}
+
+const _SEGMENT_RE = /^[\w-]*$/;
+
+function _isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function _isSecret(material: JWTKeyMaterial): material is string | BufferSource {
+  return (typeof material === "string" && !isPEM(material)) || isBufferSource(material);
+}
+
+/**
+ * Whether secret bytes are really a public or private key: PEM armor (e.g. a
+ * `readFileSync()` Buffer) or SPKI / PKCS#8 DER. Using those as an HMAC secret
+ * is the algorithm confusion attack, so they are refused.
+ */
+function _isKeyBytes(material: BufferSource): boolean {
+  const bytes = toBytes(material);
+  if (isPEM(textDecoder.decode(bytes))) return true;
+  try {
+    derKeyType(bytes, derFormat(bytes));
+    return true;
+  } catch (error) {
+    // An unsupported key algorithm is still a key
+    return error instanceof TypeError;
+  }
+}
+
+function _pemFormat(label: string): "spki" | "pkcs8" {
+  if (label === "PUBLIC KEY") return "spki";
+  if (label === "PRIVATE KEY") return "pkcs8";
+  throw new TypeError(
+    `Unsupported PEM block "${label}": use SPKI ("PUBLIC KEY") or PKCS#8 ("PRIVATE KEY").`,
+  );
+}
+
+function _keyKind(material: JWTKeyMaterial): _KeyKind {
+  if (typeof material !== "string" && isBufferSource(material) && _isKeyBytes(material)) {
+    throw new TypeError(
+      "Bytes holding a PEM or DER key are not an HMAC secret; pass the PEM string or use importKey().",
+    );
+  }
+  if (_isSecret(material)) return { kty: "oct" };
+  if (typeof material === "string") {
+    const { label, der } = parsePEM(material);
+    return derKeyType(der, _pemFormat(label));
+  }
+  if (isCryptoKey(material)) {
+    const algorithm = material.algorithm as KeyAlgorithm & {
+      hash?: KeyAlgorithm;
+      namedCurve?: string;
+    };
+    const kty = Object.hasOwn(_CRYPTO_KEY_TYPES, algorithm.name)
+      ? _CRYPTO_KEY_TYPES[algorithm.name]!
+      : undefined;
+    if (!kty) throw new TypeError(`Unsupported JWT key algorithm: ${algorithm.name}`);
+    const crv = algorithm.namedCurve ?? (kty === "OKP" ? algorithm.name : undefined);
+    return { kty, crv, name: algorithm.name, hash: algorithm.hash?.name };
+  }
+  const { kty, crv, alg } = material as JsonWebKey;
+  if (typeof kty !== "string" || !_JWK_TYPES.has(kty)) {
+    throw new TypeError(`Unsupported JWK key type: ${String(kty)}`);
+  }
+  // Web Crypto exports Ed25519 JWKs with the fully-specified name (RFC 9864)
+  return { kty, crv, alg: alg === "Ed25519" ? "EdDSA" : alg };
+}
+
+function _fits(kind: _KeyKind, alg: JWTAlgorithm): boolean {
+  const spec = _ALGORITHMS[alg];
+  return (
+    spec.kty === kind.kty &&
+    (spec.crv === undefined || spec.crv === kind.crv) &&
+    (kind.name === undefined || kind.name === spec.name) &&
+    (kind.hash === undefined || kind.hash === spec.hash) &&
+    (kind.alg === undefined || kind.alg === alg)
+  );
+}
+
+function _kid(material: JWTKeyMaterial): string | undefined {
+  if (_isSecret(material) || typeof material === "string" || isCryptoKey(material)) return;
+  const { kid } = material as JsonWebKey & { kid?: unknown };
+  return typeof kid === "string" ? kid : undefined;
+}
+
+function _secret(material: JWTKeyMaterial): string | BufferSource {
+  if (_isSecret(material)) return material;
+  const { k } = material as JsonWebKey;
+  if (typeof k !== "string") throw new TypeError('JWK of type "oct" needs a "k" member.');
+  return Base64.parse(k, { alphabet: "base64url", returnAs: "bytes" });
+}
+
+function _importParams(
+  spec: _AlgorithmSpec,
+): RsaHashedImportParams | EcKeyImportParams | HmacImportParams | Algorithm {
+  if (spec.kty === "EC") return { name: spec.name, namedCurve: spec.crv! };
+  if (spec.kty === "OKP") return { name: spec.name };
+  return { name: spec.name, hash: spec.hash! };
+}
+
+function _signParams(spec: _AlgorithmSpec): Algorithm | RsaPssParams | EcdsaParams {
+  if (spec.name === "RSA-PSS") return { name: spec.name, saltLength: _HASH_LENGTHS[spec.hash!]! };
+  if (spec.name === "ECDSA") return { name: spec.name, hash: spec.hash! };
+  return { name: spec.name };
+}
+
+function _publicJWK(jwk: JsonWebKey): JsonWebKey {
+  const copy: Record<string, unknown> = { ...jwk };
+  // The private key's `key_ops` ("sign") do not apply to its public half
+  for (const member of [...PRIVATE_JWK_MEMBERS, "key_ops"]) delete copy[member];
+  return copy as JsonWebKey;
+}
+
+/** Import a CryptoKey, JWK or PEM key for `usage`; verifying accepts private keys too. */
+async function _cryptoKey(
+  material: JWTKeyMaterial,
+  spec: _AlgorithmSpec,
+  usage: "sign" | "verify",
+): Promise<CryptoKey> {
+  if (isCryptoKey(material)) {
+    if (usage === "sign" && material.type === "public") {
+      throw new TypeError("Signing a JWT needs a private key.");
+    }
+    if (usage === "verify" && material.type === "private") {
+      throw new TypeError(
+        "Verifying a JWT with a private CryptoKey is not supported; pass the public key.",
+      );
+    }
+    return material;
+  }
+  const params = _importParams(spec);
+  let jwk = material as JsonWebKey;
+  if (typeof material === "string") {
+    const { label, der } = parsePEM(material);
+    if (label === "PUBLIC KEY") {
+      if (usage === "sign") throw new TypeError("Signing a JWT needs a private key.");
+      return crypto.subtle.importKey("spki", der, params, false, ["verify"]);
+    }
+    if (usage === "sign") return crypto.subtle.importKey("pkcs8", der, params, false, ["sign"]);
+    // Web Crypto cannot derive a public key directly; go through the JWK,
+    // whose public members are a subset of the private ones.
+    const privateKey = await crypto.subtle.importKey("pkcs8", der, params, true, ["sign"]);
+    jwk = await crypto.subtle.exportKey("jwk", privateKey);
+  }
+  if (usage === "sign") {
+    if (jwk.d === undefined) throw new TypeError("Signing a JWT needs a private key.");
+    return crypto.subtle.importKey("jwk", jwk, params, false, ["sign"]);
+  }
+  return crypto.subtle.importKey("jwk", _publicJWK(jwk), params, false, ["verify"]);
+}
+
+async function _sign(
+  material: JWTKeyMaterial,
+  spec: _AlgorithmSpec,
+  input: string,
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (spec.kty === "oct" && !isCryptoKey(material)) {
+    return hmac(_secret(material), input, { algorithm: spec.hash, returnAs: "bytes" });
+  }
+  const key = await _cryptoKey(material, spec, "sign");
+  return new Uint8Array(
+    await crypto.subtle.sign(_signParams(spec), key, textEncoder.encode(input)),
+  );
+}
+
+async function _verify(
+  material: JWTKeyMaterial,
+  spec: _AlgorithmSpec,
+  input: string,
+  signature: Uint8Array<ArrayBuffer>,
+): Promise<boolean> {
+  if (spec.kty === "oct" && !isCryptoKey(material)) {
+    const expected = await hmac(_secret(material), input, {
+      algorithm: spec.hash,
+      returnAs: "bytes",
+    });
+    return secureCompare(expected, signature);
+  }
+  // Web Crypto signs and verifies ECDSA in the same fixed-size R || S form
+  // JOSE uses, so no conversion is needed; DER-encoded signatures have a
+  // different length and are rejected here.
+  if (spec.kty === "EC" && signature.length !== _EC_SIGNATURE_LENGTHS[spec.crv!]) return false;
+  const key = await _cryptoKey(material, spec, "verify");
+  return crypto.subtle.verify(_signParams(spec), key, signature, textEncoder.encode(input));
+}
+
+function _encodeSegment(value: object): string {
+  return Base64.stringify(textEncoder.encode(JSON.stringify(value)), { alphabet: "base64url" });
+}
+
+/** Strict unpadded base64url; anything else is malformed. */
+function _decodeSegment(segment: string, name: string): Uint8Array<ArrayBuffer> {
+  try {
+    if (_SEGMENT_RE.test(segment)) {
+      return Base64.parse(segment, { alphabet: "base64url", returnAs: "bytes" });
+    }
+  } catch {
+    // Reported below
+  }
+  throw new JWTError("ERR_JWT_MALFORMED", `JWT ${name} is not valid base64url.`);
+}
+
+function _decodeJSON(segment: string, name: string): Record<string, unknown> {
+  let value: unknown;
+  try {
+    value = safeJsonParse(textDecoder.decode(_decodeSegment(segment, name)));
+  } catch {
+    throw new JWTError("ERR_JWT_MALFORMED", `JWT ${name} is not valid JSON.`);
+  }
+  if (!_isObject(value)) {
+    throw new JWTError("ERR_JWT_MALFORMED", `JWT ${name} must be a JSON object.`);
+  }
+  return value;
+}
+
+async function _resolveKey(
+  key: JWTKey | JWTKeyResolver,
+  header: JWTHeader,
+): Promise<{ material: JWTKeyMaterial | undefined; needsRotation: boolean }> {
+  if (typeof key === "function") return { material: await key(header), needsRotation: false };
+  if (!isKeyring(key)) return { material: key, needsRotation: false };
+  const { kid } = header;
+  const material = typeof kid === "string" ? key.get(kid) : undefined;
+  return { material, needsRotation: material !== undefined && kid !== key.activeKeyId };
+}
+
+function _validateClaims(payload: JWTPayload, options: VerifyJWTOptions): void {
+  const { issuer, audience, clockTolerance = 0, time } = options;
+  if (!Number.isFinite(clockTolerance) || clockTolerance < 0) {
+    throw new RangeError("clockTolerance must be a non-negative number of seconds.");
+  }
+  const now = time ?? Math.floor(Date.now() / 1000);
+
+  for (const claim of ["exp", "nbf", "iat"] as const) {
+    const value = payload[claim];
+    if (value !== undefined && (typeof value !== "number" || !Number.isFinite(value))) {
+      throw new JWTError("ERR_JWT_INVALID_CLAIM", `JWT "${claim}" claim must be a number.`);
+    }
+  }
+  if (payload.exp !== undefined && now - clockTolerance >= payload.exp) {
+    throw new JWTError("ERR_JWT_EXPIRED", "JWT has expired.");
+  }
+  if (payload.nbf !== undefined && now + clockTolerance < payload.nbf) {
+    throw new JWTError("ERR_JWT_NOT_YET_VALID", "JWT is not valid yet.");
+  }
+  if (payload.iat !== undefined && now + clockTolerance < payload.iat) {
+    throw new JWTError("ERR_JWT_ISSUED_IN_FUTURE", "JWT was issued in the future.");
+  }
+
+  if (issuer !== undefined) {
+    const accepted: readonly string[] = typeof issuer === "string" ? [issuer] : issuer;
+    if (typeof payload.iss !== "string" || !accepted.includes(payload.iss)) {
+      throw new JWTError("ERR_JWT_INVALID_ISSUER", "JWT issuer is not accepted.");
+    }
+  }
+  if (audience !== undefined) {
+    const expected: readonly string[] = typeof audience === "string" ? [audience] : audience;
+    const aud: unknown = payload.aud;
+    const actual: unknown[] = typeof aud === "string" ? [aud] : Array.isArray(aud) ? aud : [];
+    if (!actual.some((value) => typeof value === "string" && expected.includes(value))) {
+      throw new JWTError("ERR_JWT_INVALID_AUDIENCE", "JWT audience is not accepted.");
+    }
+  }
+}
+
+// #endregion
+
+/**
+ * Sign a JWT (RFC 7519) as a compact JWS.
+ *
+ * The payload is copied, `iat` is set unless present, and the options fill in
+ * `exp`, `iss` and `aud`. Header and claims are serialized as JSON and
+ * base64url-encoded without padding.
+ *
+ * HMAC secrets sign with {@link hmac}; private keys (a `CryptoKey`, a JWK or
+ * a PKCS#8 PEM string) sign with Web Crypto. `alg` defaults to the first
+ * algorithm the key fits and must otherwise match it. ECDSA signatures are
+ * the fixed-size R || S form JOSE requires, not DER.
+ *
+ * With a {@link Keyring}, the active key signs and its id is written to the
+ * `kid` header, so {@link verifyJWT} can pick the right key after rotation.
+ * A JWK's own `kid` is written too.
+ *
+ * @param payload The claims to sign.
+ * @param key The HMAC secret or private key, or a {@link Keyring}.
+ * @param options Algorithm, lifetime, issuer, audience and clock.
+ * @returns A Promise that resolves to the compact token `header.payload.signature`.
+ * @throws {TypeError} If the algorithm is not supported (including `none`) or
+ *   does not match the key, the key is public or of an unsupported type, or the
+ *   payload is not an object.
+ * @throws {RangeError} If `expiresIn` is not a finite number.
+ * @throws {SyntaxError} If a PEM key is malformed.
+ *
+ * @example
+ * const token = await signJWT({ sub: user.id }, secret, { expiresIn: 3600, issuer: "api" });
+ * const idToken = await signJWT({ sub: user.id }, privateKeyPem, { alg: "ES256" });
+ */
+export async function signJWT(
+  payload: JWTPayload,
+  key: JWTKey,
+  options: SignJWTOptions = {},
+): Promise<string> {
+  const { expiresIn, issuer, audience, time } = options;
+  if (options.alg !== undefined && !Object.hasOwn(_ALGORITHMS, options.alg)) {
+    throw new TypeError(`Unsupported JWT algorithm: ${options.alg}`);
+  }
+  if (!_isObject(payload)) {
+    throw new TypeError("JWT payload must be a plain object.");
+  }
+  if (expiresIn !== undefined && !Number.isFinite(expiresIn)) {
+    throw new RangeError("expiresIn must be a finite number of seconds.");
+  }
+
+  const material = isKeyring(key) ? key.get(key.activeKeyId)! : key;
+  const kind = _keyKind(material);
+  const alg = options.alg ?? _ALGORITHM_NAMES.find((name) => _fits(kind, name));
+  if (alg === undefined || !_fits(kind, alg)) {
+    throw new TypeError(`JWT algorithm ${alg ?? "for this key"} does not match the key.`);
+  }
+
+  const claims: JWTPayload = { ...payload };
+  claims.iat ??= time ?? Math.floor(Date.now() / 1000);
+  if (expiresIn !== undefined) claims.exp = claims.iat + expiresIn;
+  if (issuer !== undefined) claims.iss = issuer;
+  if (audience !== undefined) claims.aud = audience;
+
+  const header: JWTHeader = { alg, typ: "JWT" };
+  const kid = isKeyring(key) ? key.activeKeyId : _kid(material);
+  if (kid !== undefined) header.kid = kid;
+  const input = `${_encodeSegment(header)}.${_encodeSegment(claims)}`;
+  const signature = await _sign(material, _ALGORITHMS[alg], input);
+  return `${input}.${Base64.stringify(signature, { alphabet: "base64url" })}`;
+}
+
+/**
+ * Verify a compact JWT and validate its claims.
+ *
+ * The header is parsed with {@link safeJsonParse}, its `alg` must be listed
+ * in `options.algorithms` (`none` never is) and must match the key: the key's
+ * own type decides which algorithms are possible, so a public key can never be
+ * misused as an HMAC secret. HMAC signatures are compared in constant time
+ * with {@link secureCompare}, others are checked with Web Crypto, all before
+ * the payload is parsed. `exp`, `nbf` and `iat` are then checked against the
+ * clock (with `clockTolerance`), and `iss` / `aud` against `options.issuer` /
+ * `options.audience` when given.
+ *
+ * Asymmetric keys may be a public `CryptoKey`, a JWK (private members are
+ * ignored), or a PEM string (SPKI, or PKCS#8 whose public half is used).
+ * ECDSA signatures must be the fixed-size R || S form; DER fails verification.
+ *
+ * With a {@link Keyring}, the `kid` header selects the key; tokens without a
+ * known `kid` fail signature verification. A {@link JWTKeyResolver}, such as
+ * {@link KeySet.resolve}, picks the key from the header instead; its errors
+ * propagate.
+ *
+ * @param token The compact token.
+ * @param key The HMAC secret or public key, a {@link Keyring}, or a key resolver.
+ * @param options Accepted algorithms, expected issuer and audience, clock settings.
+ * @returns A Promise that resolves to `{ payload, header, needsRotation }`.
+ * @throws {JWTError} If the token is malformed, its algorithm is not allowed
+ *   or does not match the key, its signature does not match or a claim fails
+ *   validation; see {@link JWTErrorCode}.
+ * @throws {RangeError} If `clockTolerance` is negative.
+ * @throws {TypeError} If the key is of an unsupported type.
+ * @throws {SyntaxError} If a PEM key is malformed.
+ *
+ * @example
+ * try {
+ *   const { payload } = await verifyJWT(token, secret, { issuer: "api", audience: "web" });
+ * } catch (error) {
+ *   if (error instanceof JWTError && error.code === "ERR_JWT_EXPIRED") return refresh();
+ *   throw error;
+ * }
+ */
+export async function verifyJWT<T extends JWTPayload = JWTPayload>(
+  token: string,
+  key: JWTKey | JWTKeyResolver,
+  options: VerifyJWTOptions = {},
+): Promise<JWTVerifyResult<T>> {
+  const { algorithms = _ALGORITHM_NAMES } = options;
+  const segments = typeof token === "string" ? token.split(".") : [];
+  if (segments.length !== 3) {
+    throw new JWTError("ERR_JWT_MALFORMED", "JWT must have three dot-separated segments.");
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = segments as [string, string, string];
+
+  const header = _decodeJSON(encodedHeader, "header");
+  const alg = header.alg as JWTAlgorithm;
+  if (typeof alg !== "string" || !Object.hasOwn(_ALGORITHMS, alg) || !algorithms.includes(alg)) {
+    throw new JWTError("ERR_JWT_ALG_NOT_ALLOWED", `JWT algorithm ${String(alg)} is not allowed.`);
+  }
+  if (header.crit !== undefined) {
+    throw new JWTError("ERR_JWT_MALFORMED", "JWT critical header parameters are not supported.");
+  }
+
+  const signature = _decodeSegment(encodedSignature, "signature");
+  const { material, needsRotation } = await _resolveKey(key, header as JWTHeader);
+  if (material !== undefined && !_fits(_keyKind(material), alg)) {
+    throw new JWTError("ERR_JWT_ALG_NOT_ALLOWED", `JWT algorithm ${alg} does not match the key.`);
+  }
+  const valid =
+    material !== undefined &&
+    (await _verify(material, _ALGORITHMS[alg], `${encodedHeader}.${encodedPayload}`, signature));
+  if (!valid) {
+    throw new JWTError("ERR_JWT_INVALID_SIGNATURE", "JWT signature verification failed.");
+  }
+
+  const payload = _decodeJSON(encodedPayload, "payload") as T;
+  _validateClaims(payload, options);
+  return { payload, header: header as JWTHeader, needsRotation };
+}
@@ -0,0 +1,87 @@
+import { KEYRING_BRAND, KEY_ID_RE } from "./_internal/keyring.ts";
+
+export interface KeyringOptions<K> {
+  /** Key id → secret. Ids may contain letters, digits, `_` and `-` (up to 64 chars). */
+  keys: Record<string, K>;
+  /** Id of the key used for new signatures and envelopes. */
+  activeKeyId: string;
+}
+
+/**
+ * A set of secrets addressed by key id, with one active key. Accepted in
+ * place of a single secret by {@link hmac}, {@link hmacVerify},
+ * {@link encrypt}, {@link decrypt}, {@link signJWT} and {@link verifyJWT}.
+ */
+export interface Keyring<K> {
+  /** Id of the key used for new signatures and envelopes. */
+  readonly activeKeyId: string;
+  /** All key ids, active key included. */
+  readonly keyIds: readonly string[];
+  /** Look up a key by id. */
+  get(keyId: string): K | undefined;
+}
+
+/** Result of verifying against a {@link Keyring}. */
+export interface KeyringVerifyResult {
+  /** Whether the signature or envelope was authenticated. */
+  valid: boolean;
+  /** Key id embedded in the input, if one could be read. */
+  keyId: string | undefined;
+  /**
+   * `true` when the input was valid but produced with a key other than the
+   * active one; re-sign or re-encrypt it to complete the rotation.
+   */
+  needsRotation: boolean;
+}
+
+/**
+ * Create a keyring for secret rotation.
+ *
+ * Signing and encryption use the active key and embed its id in the output.
+ * Verification and decryption read the id back and try only that key, so
+ * retired keys keep working for a grace period until they are removed.
+ *
+ * @param options The keys and the id of the active key.
+ * @returns A frozen {@link Keyring}.
+ * @throws {TypeError} If a key id is malformed or `activeKeyId` is not in `keys`.
+ *
+ * @example
+ * const keyring = createKeyring({
+ *   keys: { "2024-06": oldSecret, "2025-01": newSecret },
+ *   activeKeyId: "2025-01",
+ * });
+ *
+ * const signature = await hmac(keyring, payload); // "2025-01.3f2a…"
+ * const { valid, needsRotation } = await hmacVerify(keyring, payload, signature);
+ */
+export function createKeyring<K>(options: KeyringOptions<K>): Keyring<K> {
+  const { keys, activeKeyId } = options;
+  const entries = new Map<string, K>();
+  for (const [keyId, key] of Object.entries(keys)) {
+    if (!KEY_ID_RE.test(keyId)) {
+      throw new TypeError(`Invalid key id "${keyId}": use 1-64 letters, digits, "_" or "-".`);
+    }
+    entries.set(keyId, key);
+  }
+  if (!entries.has(activeKeyId)) {
+    throw new TypeError(`activeKeyId "${activeKeyId}" is not in the keyring.`);
+  }
+
+  const keyIds = Object.freeze([...entries.keys()]);
+  return Object.freeze({
+    [KEYRING_BRAND]: true,
+    activeKeyId,
+    keyIds,
+    get: (keyId: string) => entries.get(keyId),
+  });
+}
+
+/**
+ * Check whether a value is a {@link Keyring} created by {@link createKeyring}.
+ *
+ * @param value The value to check.
+ * @returns `true` for keyrings, `false` for raw keys and anything else.
+ */
+export function isKeyring(value: unknown): value is Keyring<unknown> {
+  return typeof value === "object" && value !== null && KEYRING_BRAND in value;
+}
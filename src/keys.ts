@@ -0,0 +1,508 @@
+import type { DigestAlgorithm, DigestReturnAs } from "./hash.ts";
+import { encodeBytes, toBytes } from "./_internal/encoding.ts";
+import { isBufferSource, isCryptoKey } from "./_internal/keys.ts";
+import { derFormat, derKeyType, formatPEM, parsePEM } from "./_internal/pem.ts";
+import { hash } from "./hash.ts";
+
+/** Key pair types {@link generateKeyPair} can create. */
+export type KeyPairType = "Ed25519" | "X25519" | "P-256" | "P-384" | "P-521" | "RSA";
+
+/** Serialized key formats: PEM (SPKI / PKCS#8), the DER inside it, or a JWK object. */
+export type KeyFormat = "pem" | "der" | "jwk";
+
+/**
+ * Web Crypto algorithm for EC and RSA keys, whose encoding does not say what
+ * the key is for. Ed25519 and X25519 keys only have one.
+ */
+export type KeyAlgorithmName = "ECDSA" | "ECDH" | "RSASSA-PKCS1-v1_5" | "RSA-PSS" | "RSA-OAEP";
+
+/** Hash bound to RSA keys. */
+export type RSAHashAlgorithm = "SHA-256" | "SHA-384" | "SHA-512";
+
+export interface KeyImportOptions {
+  /**
+   * Algorithm for EC and RSA keys.
+   *
+   * @default from the JWK `alg` when present, otherwise 'ECDSA' for EC keys and
+   * 'RSASSA-PKCS1-v1_5' for RSA keys ('RSA-PSS' for keys restricted to it)
+   */
+  name?: KeyAlgorithmName;
+  /**
+   * Hash for RSA keys.
+   *
+   * @default from the JWK `alg` when present, otherwise 'SHA-256'
+   */
+  hash?: RSAHashAlgorithm;
+  /**
+   * Whether the imported private key can be exported again. Public keys are
+   * always extractable.
+   *
+   * @default false
+   */
+  extractable?: boolean;
+  /**
+   * Key usages.
+   *
+   * @default what the algorithm allows for this half of the pair:
+   * `sign` / `verify`, `deriveBits` (ECDH, X25519) or `decrypt` / `encrypt` (RSA-OAEP)
+   */
+  usages?: KeyUsage[];
+}
+
+export interface GenerateKeyPairOptions {
+  /**
+   * Algorithm for `P-*` and `RSA` key pairs.
+   *
+   * @default 'ECDSA' for `P-*`, 'RSASSA-PKCS1-v1_5' for `RSA`
+   */
+  name?: KeyAlgorithmName;
+  /**
+   * Hash for RSA key pairs.
+   *
+   * @default 'SHA-256'
+   */
+  hash?: RSAHashAlgorithm;
+  /**
+   * RSA modulus size in bits; at least 2048.
+   *
+   * @default 2048
+   */
+  modulusLength?: number;
+  /**
+   * Whether the private key can be exported, e.g. to store it as PEM.
+   *
+   * @default true
+   */
+  extractable?: boolean;
+}
+
+export interface KeyExportOptions {
+  /**
+   * Output format for `der`.
+   *
+   * @default 'bytes'
+   */
+  returnAs?: DigestReturnAs;
+}
+
+export interface JWKThumbprintOptions {
+  /**
+   * Hash over the canonical JWK.
+   *
+   * @default 'SHA-256'
+   */
+  algorithm?: DigestAlgorithm;
+  /**
+   * Output format.
+   *
+   * @default 'base64url'
+   */
+  returnAs?: DigestReturnAs;
+}
+
+// #region Internals
+
+type _KeyUsages = { public: KeyUsage[]; private: KeyUsage[] };
+
+const _SIGNING: _KeyUsages = { public: ["verify"], private: ["sign"] };
+const _DERIVING: _KeyUsages = { public: [], private: ["deriveBits"] };
+const _ENCRYPTING: _KeyUsages = { public: ["encrypt"], private: ["decrypt"] };
+
+const _USAGES: Record<string, _KeyUsages> = {
+  "Ed25519": _SIGNING,
+  "X25519": _DERIVING,
+  "ECDSA": _SIGNING,
+  "ECDH": _DERIVING,
+  "RSASSA-PKCS1-v1_5": _SIGNING,
+  "RSA-PSS": _SIGNING,
+  "RSA-OAEP": _ENCRYPTING,
+};
+
+const _EC_NAMES: ReadonlySet<string> = /* @__PURE__ */ new Set<KeyAlgorithmName>(["ECDSA", "ECDH"]);
+const _RSA_NAMES: ReadonlySet<string> = /* @__PURE__ */ new Set<KeyAlgorithmName>([
+  "RSASSA-PKCS1-v1_5",
+  "RSA-PSS",
+  "RSA-OAEP",
+]);
+const _NO_NAMES: ReadonlySet<string> = /* @__PURE__ */ new Set<string>();
+const _RSA_HASHES: ReadonlySet<string> = /* @__PURE__ */ new Set<RSAHashAlgorithm>([
+  "SHA-256",
+  "SHA-384",
+  "SHA-512",
+]);
+
+/** RSA JWK `alg` values (RFC 7518) and the Web Crypto parameters they imply. */
+const _RSA_JWK_ALGORITHMS: Record<string, { name: KeyAlgorithmName; hash: string }> = {
+  "RS256": { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+  "RS384": { name: "RSASSA-PKCS1-v1_5", hash: "SHA-384" },
+  "RS512": { name: "RSASSA-PKCS1-v1_5", hash: "SHA-512" },
+  "PS256": { name: "RSA-PSS", hash: "SHA-256" },
+  "PS384": { name: "RSA-PSS", hash: "SHA-384" },
+  "PS512": { name: "RSA-PSS", hash: "SHA-512" },
+  "RSA-OAEP": { name: "RSA-OAEP", hash: "SHA-1" },
+  "RSA-OAEP-256": { name: "RSA-OAEP", hash: "SHA-256" },
+  "RSA-OAEP-384": { name: "RSA-OAEP", hash: "SHA-384" },
+  "RSA-OAEP-512": { name: "RSA-OAEP", hash: "SHA-512" },
+};
+
+/** Required members per key type, already in lexicographic order (RFC 7638, section 3.2). */
+const _THUMBPRINT_MEMBERS: Record<string, readonly string[]> = {
+  EC: ["crv", "kty", "x", "y"],
+  OKP: ["crv", "kty", "x"],
+  RSA: ["e", "kty", "n"],
+  oct: ["k", "kty"],
+};
+
+const _PEM_LABELS = { spki: "PUBLIC KEY", pkcs8: "PRIVATE KEY" } as const;
+
+const _MIN_MODULUS_LENGTH = 2048;
+
+function _assertName(name: string | undefined, allowed: ReadonlySet<string>, type: string): void {
+  if (name !== undefined && !allowed.has(name)) {
+    throw new TypeError(`Algorithm ${name} does not apply to ${type} keys.`);
+  }
+}
+
+function _assertHash(hash: string | undefined): void {
+  if (hash !== undefined && !_RSA_HASHES.has(hash)) {
+    throw new TypeError(`Unsupported RSA hash: ${hash}`);
+  }
+}
+
+/** Web Crypto import parameters for a key, from what its encoding says plus the options. */
+function _importAlgorithm(
+  kty: string,
+  crv: string | undefined,
+  hint: { name?: string; alg?: string },
+  options: KeyImportOptions,
+): RsaHashedImportParams | EcKeyImportParams | Algorithm {
+  switch (kty) {
+    case "OKP": {
+      if (crv !== "Ed25519" && crv !== "X25519") throw new TypeError(`Unsupported curve: ${crv}`);
+      _assertName(options.name, _NO_NAMES, crv);
+      return { name: crv };
+    }
+    case "EC": {
+      _assertName(options.name, _EC_NAMES, "EC");
+      const name = options.name ?? (hint.alg?.startsWith("ECDH-ES") ? "ECDH" : "ECDSA");
+      return { name, namedCurve: crv! };
+    }
+    case "RSA": {
+      _assertName(options.name, _RSA_NAMES, "RSA");
+      _assertHash(options.hash);
+      const implied =
+        hint.alg !== undefined && Object.hasOwn(_RSA_JWK_ALGORITHMS, hint.alg)
+          ? _RSA_JWK_ALGORITHMS[hint.alg]
+          : undefined;
+      const name = options.name ?? implied?.name ?? hint.name ?? "RSASSA-PKCS1-v1_5";
+      return { name, hash: options.hash ?? implied?.hash ?? "SHA-256" };
+    }
+    default: {
+      throw new TypeError(`Unsupported key type: ${String(kty)}`);
+    }
+  }
+}
+
+function _defaultUsages(name: string, type: "public" | "private"): KeyUsage[] {
+  return _USAGES[name]![type];
+}
+
+function _pemFormat(label: string): "spki" | "pkcs8" {
+  if (label === _PEM_LABELS.spki) return "spki";
+  if (label === _PEM_LABELS.pkcs8) return "pkcs8";
+  if (label === "RSA PRIVATE KEY" || label === "EC PRIVATE KEY") {
+    throw new TypeError(
+      `PEM "${label}" is not PKCS#8; convert it with \`openssl pkcs8 -topk8 -nocrypt\`.`,
+    );
+  }
+  throw new TypeError(`Unsupported PEM block "${label}": expected PUBLIC KEY or PRIVATE KEY.`);
+}
+
+function _assertAsymmetric(
+  key: CryptoKey,
+): asserts key is CryptoKey & { type: "public" | "private" } {
+  if (key.type === "secret") {
+    throw new TypeError("PEM and DER hold public or private keys; export secret keys as JWK.");
+  }
+}
+
+// #endregion
+
+/**
+ * Generate a key pair with Web Crypto.
+ *
+ * - `Ed25519`: signatures (EdDSA)
+ * - `X25519`: key agreement (`deriveBits`)
+ * - `P-256` / `P-384` / `P-521`: ECDSA signatures, or ECDH with `name: "ECDH"`
+ * - `RSA`: RSASSA-PKCS1-v1_5 by default, or RSA-PSS / RSA-OAEP, with a
+ *   2048-bit modulus, exponent 65537 and SHA-256 unless overridden
+ *
+ * Usages follow from the algorithm. The private key is extractable unless
+ * `extractable: false`, so it can be stored with {@link exportKey}.
+ *
+ * @param type The key pair type.
+ * @param options Algorithm, hash and modulus size for `P-*` / `RSA`, extractability.
+ * @returns A Promise that resolves to the `CryptoKeyPair`.
+ * @throws {TypeError} If the type, algorithm or hash is not supported or does not fit the type.
+ * @throws {RangeError} If `modulusLength` is below 2048 or not a multiple of 8.
+ *
+ * @example
+ * const { publicKey, privateKey } = await generateKeyPair("Ed25519");
+ * const rsa = await generateKeyPair("RSA", { name: "RSA-PSS", modulusLength: 3072 });
+ */
+export async function generateKeyPair(
+  type: KeyPairType,
+  options: GenerateKeyPairOptions = {},
+): Promise<CryptoKeyPair> {
+  const {
+    name,
+    hash = "SHA-256",
+    modulusLength = _MIN_MODULUS_LENGTH,
+    extractable = true,
+  } = options;
+  let algorithm: RsaHashedKeyGenParams | EcKeyGenParams | Algorithm;
+  switch (type) {
+    case "Ed25519":
+    case "X25519": {
+      _assertName(name, _NO_NAMES, type);
+      algorithm = { name: type };
+      break;
+    }
+    case "P-256":
+    case "P-384":
+    case "P-521": {
+      _assertName(name, _EC_NAMES, "EC");
+      algorithm = { name: name ?? "ECDSA", namedCurve: type };
+      break;
+    }
+    case "RSA": {
+      _assertName(name, _RSA_NAMES, "RSA");
+      _assertHash(hash);
+      if (
+        !Number.isInteger(modulusLength) ||
+        modulusLength < _MIN_MODULUS_LENGTH ||
+        modulusLength % 8
+      ) {
+        throw new RangeError("RSA modulusLength must be a multiple of 8 of at least 2048 bits.");
+      }
+      algorithm = {
+        name: name ?? "RSASSA-PKCS1-v1_5",
+        modulusLength,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash,
+      };
+      break;
+    }
+    default: {
+      throw new TypeError(`Unsupported key pair type: ${String(type)}`);
+    }
+  }
+  const usages = _USAGES[algorithm.name]!;
+  return crypto.subtle.generateKey(algorithm, extractable, [
+    ...usages.public,
+    ...usages.private,
+  ]) as Promise<CryptoKeyPair>;
+}
+
+/**
+ * Import a public or private key from PEM, DER or a JWK object.
+ *
+ * The key type is read from the input: the PEM label and the DER
+ * AlgorithmIdentifier (SPKI for public keys, PKCS#8 for private keys), or the
+ * JWK `kty` / `crv` / `alg`. EC and RSA keys fit several algorithms; pick one
+ * with `options.name` when the default does not apply.
+ *
+ * @param key A PEM string, SPKI / PKCS#8 DER bytes, or a JWK.
+ * @param options Algorithm, RSA hash, extractability and usages.
+ * @returns A Promise that resolves to the `CryptoKey`.
+ * @throws {SyntaxError} If the PEM or DER structure is malformed.
+ * @throws {TypeError} If the key type, PEM label, curve or algorithm is not supported.
+ *
+ * @example
+ * const publicKey = await importKey(readFileSync("public.pem", "utf8"));
+ * const ecdh = await importKey(jwk, { name: "ECDH" });
+ */
+export async function importKey(
+  key: string | BufferSource | JsonWebKey,
+  options: KeyImportOptions = {},
+): Promise<CryptoKey> {
+  const { extractable = false } = options;
+  if (typeof key === "string" || isBufferSource(key)) {
+    let der: BufferSource;
+    let format: "spki" | "pkcs8";
+    if (typeof key === "string") {
+      const pem = parsePEM(key);
+      format = _pemFormat(pem.label);
+      der = pem.der;
+    } else {
+      der = key;
+      format = derFormat(toBytes(key));
+    }
+    const type = derKeyType(toBytes(der), format);
+    const algorithm = _importAlgorithm(type.kty, type.crv, { name: type.name }, options);
+    const half = format === "spki" ? "public" : "private";
+    const usages = options.usages ?? _defaultUsages(algorithm.name, half);
+    return crypto.subtle.importKey(
+      format,
+      der,
+      algorithm,
+      extractable || half === "public",
+      usages,
+    );
+  }
+
+  const algorithm = _importAlgorithm(String(key.kty), key.crv, { alg: key.alg }, options);
+  const half = key.d === undefined ? "public" : "private";
+  const usages = options.usages ?? _defaultUsages(algorithm.name, half);
+  return crypto.subtle.importKey("jwk", key, algorithm, extractable || half === "public", usages);
+}
+
+/**
+ * Export a public or private `CryptoKey` as PEM, DER or a JWK object.
+ *
+ * Public keys are written as SubjectPublicKeyInfo (`PUBLIC KEY`), private keys
+ * as PKCS#8 (`PRIVATE KEY`). DER comes back as bytes unless `returnAs` says
+ * otherwise.
+ *
+ * @param key An extractable `CryptoKey`.
+ * @param format `pem`, `der` or `jwk`.
+ * @param options `returnAs` for DER.
+ * @returns A Promise that resolves to the PEM string, the DER bytes (or their encoding) or the JWK.
+ * @throws {TypeError} If a secret key is exported as PEM or DER, or the format is not supported.
+ *
+ * @example
+ * const pem = await exportKey(publicKey, "pem");
+ * const der = await exportKey(privateKey, "der", { returnAs: "base64" });
+ * const jwk = await exportKey(publicKey, "jwk");
+ */
+export async function exportKey(key: CryptoKey, format: "jwk"): Promise<JsonWebKey>;
+export async function exportKey(key: CryptoKey, format: "pem"): Promise<string>;
+export async function exportKey<T extends DigestReturnAs>(
+  key: CryptoKey,
+  format: "der",
+  options: { returnAs: T },
+): Promise<T extends "uint8array" | "bytes" ? Uint8Array<ArrayBuffer> : string>;
+export async function exportKey(
+  key: CryptoKey,
+  format: "der",
+  options?: KeyExportOptions,
+): Promise<Uint8Array<ArrayBuffer>>;
+export async function exportKey(
+  key: CryptoKey,
+  format: KeyFormat,
+  options?: KeyExportOptions,
+): Promise<JsonWebKey | Uint8Array<ArrayBuffer> | string>;
+export async function exportKey(
+  key: CryptoKey,
+  format: KeyFormat,
+  options: KeyExportOptions = {},
+): Promise<JsonWebKey | Uint8Array<ArrayBuffer> | string> {
+  if (format === "jwk") return crypto.subtle.exportKey("jwk", key);
+  if (format !== "pem" && format !== "der") {
+    throw new TypeError(`Unsupported key format: ${String(format)}`);
+  }
+  _assertAsymmetric(key);
+  const derFormatName = key.type === "public" ? "spki" : "pkcs8";
+  const der = new Uint8Array(await crypto.subtle.exportKey(derFormatName, key));
+  if (format === "pem") return formatPEM(_PEM_LABELS[derFormatName], der);
+  return encodeBytes(der, options.returnAs ?? "bytes", "exportKey");
+}
+
+/**
+ * Convert a key between PEM, DER and JWK: {@link importKey} followed by
+ * {@link exportKey}, with the intermediate `CryptoKey` extractable.
+ *
+ * @param key A PEM string, SPKI / PKCS#8 DER bytes, or a JWK.
+ * @param format The target format.
+ * @param options Import options for EC / RSA keys, and `returnAs` for DER.
+ * @returns A Promise that resolves to the key in the target format.
+ * @throws {SyntaxError} If the input is malformed.
+ * @throws {TypeError} If the key type is not supported.
+ *
+ * @example
+ * const jwk = await convertKey(pem, "jwk");
+ * const pem = await convertKey(jwk, "pem");
+ */
+export async function convertKey(
+  key: string | BufferSource | JsonWebKey,
+  format: "jwk",
+  options?: Omit<KeyImportOptions, "extractable" | "usages">,
+): Promise<JsonWebKey>;
+export async function convertKey(
+  key: string | BufferSource | JsonWebKey,
+  format: "pem",
+  options?: Omit<KeyImportOptions, "extractable" | "usages">,
+): Promise<string>;
+export async function convertKey<T extends DigestReturnAs>(
+  key: string | BufferSource | JsonWebKey,
+  format: "der",
+  options: Omit<KeyImportOptions, "extractable" | "usages"> & { returnAs: T },
+): Promise<T extends "uint8array" | "bytes" ? Uint8Array<ArrayBuffer> : string>;
+export async function convertKey(
+  key: string | BufferSource | JsonWebKey,
+  format: "der",
+  options?: Omit<KeyImportOptions, "extractable" | "usages"> & KeyExportOptions,
+): Promise<Uint8Array<ArrayBuffer>>;
+export async function convertKey(
+  key: string | BufferSource | JsonWebKey,
+  format: KeyFormat,
+  options: Omit<KeyImportOptions, "extractable" | "usages"> & KeyExportOptions = {},
+): Promise<JsonWebKey | Uint8Array<ArrayBuffer> | string> {
+  const { returnAs, ...importOptions } = options;
+  const cryptoKey = await importKey(key, { ...importOptions, extractable: true });
+  return exportKey(cryptoKey, format, { returnAs });
+}
+
+/**
+ * Compute the JWK thumbprint of a key (RFC 7638): a hash of its required
+ * public members, serialized in lexicographic order without whitespace.
+ *
+ * Private and public JWKs of the same key share a thumbprint; other members
+ * (`kid`, `alg`, `use`, …) do not affect it. The default SHA-256 in base64url
+ * is the form used for `kid` values and `jkt` confirmation claims.
+ *
+ * @param key A JWK or an extractable `CryptoKey`.
+ * @param options Hash algorithm and output format.
+ * @returns A Promise that resolves to the thumbprint.
+ * @throws {TypeError} If the key type is not supported or a required member is missing.
+ *
+ * @example
+ * const kid = await jwkThumbprint(publicJwk);
+ * // "NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs"
+ */
+export async function jwkThumbprint<T extends DigestReturnAs>(
+  key: JsonWebKey | CryptoKey,
+  options: JWKThumbprintOptions & { returnAs: T },
+): Promise<T extends "uint8array" | "bytes" ? Uint8Array<ArrayBuffer> : string>;
+export async function jwkThumbprint(
+  key: JsonWebKey | CryptoKey,
+  options?: Omit<JWKThumbprintOptions, "returnAs">,
+): Promise<string>;
+export async function jwkThumbprint(
+  key: JsonWebKey | CryptoKey,
+  options?: JWKThumbprintOptions,
+): Promise<Uint8Array<ArrayBuffer> | string>;
+export async function jwkThumbprint(
+  key: JsonWebKey | CryptoKey,
+  options: JWKThumbprintOptions = {},
+): Promise<Uint8Array<ArrayBuffer> | string> {
+  const { algorithm = "SHA-256", returnAs = "base64url" } = options;
+  const jwk: Record<string, unknown> = isCryptoKey(key)
+    ? ((await crypto.subtle.exportKey("jwk", key)) as Record<string, unknown>)
+    : (key as Record<string, unknown>);
+  const members =
+    typeof jwk.kty === "string" && Object.hasOwn(_THUMBPRINT_MEMBERS, jwk.kty)
+      ? _THUMBPRINT_MEMBERS[jwk.kty]!
+      : undefined;
+  if (!members) throw new TypeError(`Unsupported key type: ${String(jwk.kty)}`);
+
+  const canonical: Record<string, string> = {};
+  for (const member of members) {
+    const value = jwk[member];
+    if (typeof value !== "string") {
+      throw new TypeError(`JWK is missing the "${member}" member.`);
+    }
+    canonical[member] = value;
+  }
+  return hash(JSON.stringify(canonical), { algorithm, returnAs });
+}
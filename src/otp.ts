@@ -1,6 +1,6 @@
-import type { DigestAlgorithm } from "./hash.ts";
-import { hmac } from "./hmac.ts";
-import { Base32 } from "./utils/index.ts";
+import { type HMACAlgorithm, hmac } from "./hmac.ts";
+import { Base32, Base64, textDecoder } from "./utils/index.ts";
+import { decodeProtobuf, encodeProtobuf } from "./_internal/protobuf.ts";
 import { secureRandomBytes } from "./random.ts";
 import { secureCompare } from "./compare.ts";
 
@@ -12,7 +12,7 @@ export interface HOTPOptions {
    *
    * @default "SHA-1"
    */
-  algorithm?: DigestAlgorithm;
+  algorithm?: HMACAlgorithm;
   /**
    * Number of digits in the OTP code.
    *
@@ -30,6 +30,25 @@ export interface HOTPVerifyOptions extends HOTPOptions {
   window?: number;
 }
 
+export interface HOTPVerifyResult {
+  valid: boolean;
+  /** Counter offset that matched. */
+  delta: number;
+  /** The counter to persist for the next verification (matched counter + 1), present when `valid`. */
+  nextCounter?: number;
+}
+
+export interface HOTPResyncOptions extends HOTPOptions {
+  /**
+   * Number of counter values to search ahead of the stored counter for the
+   * first code. Larger than a verification window, since resync asks for two
+   * codes and guessing both is far harder.
+   *
+   * @default 100
+   */
+  lookAhead?: number;
+}
+
 export interface TOTPOptions extends HOTPOptions {
   /**
    * Time step duration in seconds.
@@ -51,6 +70,20 @@ export interface TOTPVerifyOptions extends TOTPOptions {
    * @default 1
    */
   window?: number;
+  /**
+   * The last accepted time step for this secret: the `step` returned by the
+   * previous successful verification. Codes for this step or any earlier one
+   * are rejected, so a code cannot be replayed within the window.
+   */
+  lastStep?: number;
+}
+
+export interface TOTPVerifyResult {
+  valid: boolean;
+  /** Time step offset that matched: 0 = current, -1 = previous, +1 = next. */
+  delta: number;
+  /** Absolute time step that matched, present when `valid`. Persist it as the next `lastStep`. */
+  step?: number;
 }
 
 export interface OTPAuthURIOptions {
@@ -63,7 +96,7 @@ export interface OTPAuthURIOptions {
   /** Issuer name (e.g. service name). */
   issuer?: string;
   /** Hash algorithm. @default "SHA-1" */
-  algorithm?: DigestAlgorithm;
+  algorithm?: HMACAlgorithm;
   /** Number of digits. @default 6 */
   digits?: number;
   /** HOTP counter value (required when type is "hotp"). */
@@ -72,6 +105,36 @@ export interface OTPAuthURIOptions {
   period?: number;
 }
 
+export interface OTPAuthMigrationOptions {
+  /**
+   * Accounts per URI. Each URI is meant for one QR code, so larger batches
+   * mean denser codes.
+   *
+   * @default 10
+   */
+  accountsPerBatch?: number;
+  /**
+   * Identifier shared by every URI of the export. Defaults to a random value.
+   */
+  batchId?: number;
+}
+
+export interface OTPAuthMigrationBatch {
+  /** The accounts in this URI, ready for `otpauthURI()`, `hotp()` or `totp()`. */
+  accounts: OTPAuthURIOptions[];
+  /** Payload format version. */
+  version: number;
+  /** Number of URIs in the export. */
+  batchSize: number;
+  /** Position of this URI in the export, from 0. */
+  batchIndex: number;
+  /**
+   * Identifier shared by every URI of the export. A signed 32-bit value:
+   * Google Authenticator exports often use negative ones.
+   */
+  batchId: number;
+}
+
 // #region Internal helpers
 
 /** Convert a counter to an 8-byte big-endian buffer. */
@@ -109,13 +172,145 @@ function _resolveSecret(secret: Uint8Array | string): Uint8Array<ArrayBuffer> {
 }
 
 /** Algorithm name mapping for otpauth URIs (no hyphens). */
-const _URI_ALGORITHM_MAP: Record<DigestAlgorithm, string> = {
+const _URI_ALGORITHM_MAP: Record<HMACAlgorithm, string> = {
   "SHA-1": "SHA1",
   "SHA-256": "SHA256",
   "SHA-384": "SHA384",
   "SHA-512": "SHA512",
+  "SHA3-256": "SHA3-256",
+  "SHA3-384": "SHA3-384",
+  "SHA3-512": "SHA3-512",
 };
 
+/** Inverse of {@link _URI_ALGORITHM_MAP}; matches case-insensitively. */
+function _parseURIAlgorithm(name: string): HMACAlgorithm | undefined {
+  const upper = name.toUpperCase();
+  for (const [algorithm, uriName] of Object.entries(_URI_ALGORITHM_MAP)) {
+    if (uriName === upper) return algorithm as HMACAlgorithm;
+  }
+  return undefined;
+}
+
+/** Parse a decimal integer URI parameter, or throw naming the parameter. */
+function _parseURIInteger(name: string, value: string, min: number, max: number): number {
+  const n = /^\d+$/.test(value) ? Number(value) : Number.NaN;
+  if (!(n >= min && n <= max)) {
+    throw new RangeError(`Invalid otpauth URI: ${name} must be an integer from ${min} to ${max}.`);
+  }
+  return n;
+}
+
+function _decodeURIPart(part: string, name: string): string {
+  try {
+    return decodeURIComponent(part);
+  } catch {
+    throw new Error(`Invalid otpauth URI: ${name} is not valid percent-encoding.`);
+  }
+}
+
+/**
+ * Enum values of Google Authenticator's `MigrationPayload` protobuf:
+ * `secret = 1, name = 2, issuer = 3, algorithm = 4, digits = 5, type = 6,
+ * counter = 7` per account, `otp_parameters = 1, version = 2, batch_size = 3,
+ * batch_index = 4, batch_id = 5` per payload.
+ */
+const _MIGRATION_ALGORITHMS: readonly (HMACAlgorithm | undefined)[] = [
+  "SHA-1", // unspecified
+  "SHA-1",
+  "SHA-256",
+  "SHA-512",
+];
+const _MIGRATION_DIGITS: readonly (number | undefined)[] = [6, 6, 8];
+const _MIGRATION_TYPES: readonly ("hotp" | "totp" | undefined)[] = [undefined, "hotp", "totp"];
+const _MIGRATION_VERSION = 1;
+/** The payload has no period field: every migrated TOTP account uses 30 seconds. */
+const _MIGRATION_PERIOD = 30;
+
+function _malformedMigration(reason: string): never {
+  throw new Error(`Invalid otpauth-migration URI: ${reason}`);
+}
+
+function _encodeMigrationAccount(account: OTPAuthURIOptions): Uint8Array<ArrayBuffer> {
+  const { type, secret, issuer, algorithm = "SHA-1", digits = 6, counter, period = 30 } = account;
+  const algorithmId = _MIGRATION_ALGORITHMS.indexOf(algorithm, 1);
+  if (algorithmId === -1) {
+    throw new TypeError(`otpauth-migration does not support the ${algorithm} algorithm.`);
+  }
+  const digitsId = _MIGRATION_DIGITS.indexOf(digits, 1);
+  if (digitsId === -1) {
+    throw new RangeError("otpauth-migration only supports 6 or 8 digits.");
+  }
+  if (type === "totp" && period !== _MIGRATION_PERIOD) {
+    throw new RangeError("otpauth-migration only supports a 30-second TOTP period.");
+  }
+  if (type === "hotp" && counter === undefined) {
+    throw new Error("counter is required for HOTP URIs.");
+  }
+  return encodeProtobuf([
+    [1, _resolveSecret(secret)],
+    [2, account.account],
+    ...(issuer ? [[3, issuer] as [number, string]] : []),
+    [4, algorithmId],
+    [5, digitsId],
+    [6, _MIGRATION_TYPES.indexOf(type)],
+    ...(type === "hotp" ? [[7, counter!] as [number, number]] : []),
+  ]);
+}
+
+function _decodeMigrationAccount(bytes: Uint8Array): OTPAuthURIOptions {
+  let secret: Uint8Array | undefined;
+  let name = "";
+  let issuer = "";
+  let algorithmId = 0;
+  let digitsId = 0;
+  let typeId = 0;
+  let counter = 0;
+  for (const { field, value } of decodeProtobuf(bytes)) {
+    if (typeof value === "number") {
+      if (field === 4) algorithmId = value;
+      else if (field === 5) digitsId = value;
+      else if (field === 6) typeId = value;
+      else if (field === 7) counter = value;
+    } else if (field === 1) {
+      secret = value;
+    } else if (field === 2) {
+      name = textDecoder.decode(value);
+    } else if (field === 3) {
+      issuer = textDecoder.decode(value);
+    }
+  }
+
+  const type = _MIGRATION_TYPES[typeId];
+  if (!type) _malformedMigration(`unsupported OTP type ${typeId}.`);
+  const algorithm = _MIGRATION_ALGORITHMS[algorithmId];
+  if (!algorithm) {
+    throw new TypeError(`Unsupported otpauth-migration algorithm: ${algorithmId}`);
+  }
+  const digits = _MIGRATION_DIGITS[digitsId];
+  if (!digits) throw new RangeError(`Unsupported otpauth-migration digit count: ${digitsId}`);
+  if (!secret?.length) _malformedMigration("an account has no secret.");
+
+  // Exporters often store the whole "Issuer:account" label as the name.
+  const colon = name.indexOf(":");
+  const prefix = colon === -1 ? undefined : name.slice(0, colon);
+  if (prefix !== undefined && (!issuer || prefix === issuer)) {
+    issuer = prefix;
+    name = name.slice(colon + 1).replace(/^ +/, "");
+  }
+
+  const result: OTPAuthURIOptions = {
+    type,
+    secret: Base32.stringify(secret, { padding: false }),
+    account: name,
+    algorithm,
+    digits,
+  };
+  if (issuer) result.issuer = issuer;
+  if (type === "hotp") result.counter = counter;
+  else result.period = _MIGRATION_PERIOD;
+  return result;
+}
+
 // #region HOTP
 
 /**
@@ -151,28 +346,69 @@ export async function hotp(
  * @param otp The OTP code to verify.
  * @param counter The expected counter value.
  * @param options Algorithm, digit, and window options.
- * @returns An object with `valid` and `delta` (counter offset that matched).
+ * @returns An object with `valid`, `delta` (counter offset that matched) and,
+ *   when valid, `nextCounter` (the counter to store for the next verification).
  *
  * @example
- * const { valid, delta } = await hotpVerify(secret, "287082", 0, { window: 5 });
- * // valid: true, delta: 1 (matched at counter 0 + 1)
+ * const { valid, delta, nextCounter } = await hotpVerify(secret, "287082", 0, { window: 5 });
+ * // valid: true, delta: 1 (matched at counter 0 + 1), nextCounter: 2
  */
 export async function hotpVerify(
   secret: Uint8Array | string,
   otp: string,
   counter: number,
   options: HOTPVerifyOptions = {},
-): Promise<{ valid: boolean; delta: number }> {
+): Promise<HOTPVerifyResult> {
   const { window = 0, ...hotpOpts } = options;
   for (let delta = 0; delta <= window; delta++) {
     const expected = await hotp(secret, counter + delta, hotpOpts);
     if (secureCompare(expected, otp)) {
-      return { valid: true, delta };
+      return { valid: true, delta, nextCounter: counter + delta + 1 };
     }
   }
   return { valid: false, delta: 0 };
 }
 
+/**
+ * Resynchronize an HOTP counter that fell too far behind the token
+ * (RFC 4226 §7.4), using two consecutive codes from the user.
+ *
+ * Searches `lookAhead` counter values past `counter` for one where `otp1`
+ * matches and `otp2` matches the counter right after it. Run this only as an
+ * explicit recovery step after `hotpVerify()` failed, and rate-limit it like
+ * any other verification.
+ *
+ * @param secret The shared secret key.
+ * @param otp1 The first code shown by the token.
+ * @param otp2 The code shown right after `otp1`.
+ * @param counter The stored counter value.
+ * @param options Algorithm, digit, and look-ahead options.
+ * @returns An object with `valid`, `delta` (counter offset where `otp1`
+ *   matched) and, when valid, `nextCounter` (the counter to persist, past `otp2`).
+ *
+ * @example
+ * const { valid, nextCounter } = await hotpResync(secret, code1, code2, user.counter);
+ * if (valid) user.counter = nextCounter;
+ */
+export async function hotpResync(
+  secret: Uint8Array | string,
+  otp1: string,
+  otp2: string,
+  counter: number,
+  options: HOTPResyncOptions = {},
+): Promise<HOTPVerifyResult> {
+  const { lookAhead = 100, ...hotpOpts } = options;
+  let current = await hotp(secret, counter, hotpOpts);
+  for (let delta = 0; delta <= lookAhead; delta++) {
+    const next = await hotp(secret, counter + delta + 1, hotpOpts);
+    if (secureCompare(current, otp1) && secureCompare(next, otp2)) {
+      return { valid: true, delta, nextCounter: counter + delta + 2 };
+    }
+    current = next;
+  }
+  return { valid: false, delta: 0 };
+}
+
 // #region TOTP
 
 /**
@@ -198,28 +434,37 @@ export async function totp(
 /**
  * Verify a TOTP code, checking a window of time steps in both directions.
  *
+ * Pass the `step` of the last successful verification as `lastStep` to reject
+ * replays: only codes for later time steps are accepted.
+ *
  * @param secret The shared secret key.
  * @param otp The OTP code to verify.
- * @param options Algorithm, digit, period, time, and window options.
- * @returns An object with `valid` and `delta` (time step offset that matched).
+ * @param options Algorithm, digit, period, time, window, and lastStep options.
+ * @returns An object with `valid`, `delta` (time step offset that matched) and,
+ *   when valid, `step` (absolute time step that matched).
  *
  * @example
- * const { valid, delta } = await totpVerify(secret, userCode);
+ * const { valid, delta, step } = await totpVerify(secret, userCode, {
+ *   lastStep: user.totpLastStep,
+ * });
  * // delta: 0 = current step, -1 = previous, +1 = next
+ * if (valid) user.totpLastStep = step;
  */
 export async function totpVerify(
   secret: Uint8Array | string,
   otp: string,
   options: TOTPVerifyOptions = {},
-): Promise<{ valid: boolean; delta: number }> {
-  const { period = 30, time, window = 1, ...hotpOpts } = options;
+): Promise<TOTPVerifyResult> {
+  const { period = 30, time, window = 1, lastStep, ...hotpOpts } = options;
   const t = time ?? Math.floor(Date.now() / 1000);
   const counter = Math.floor(t / period);
 
   for (let delta = -window; delta <= window; delta++) {
-    const expected = await hotp(secret, counter + delta, hotpOpts);
+    const step = counter + delta;
+    if (lastStep !== undefined && step <= lastStep) continue;
+    const expected = await hotp(secret, step, hotpOpts);
     if (secureCompare(expected, otp)) {
-      return { valid: true, delta };
+      return { valid: true, delta, step };
     }
   }
   return { valid: false, delta: 0 };
@@ -294,3 +539,230 @@ export function otpauthURI(options: OTPAuthURIOptions): string {
 
   return `otpauth://${type}/${label}?${params.toString()}`;
 }
+
+/**
+ * Parse an `otpauth://` URI (Key URI Format) back into {@link otpauthURI}
+ * options, e.g. to import a token from another authenticator or to check what
+ * a user pasted.
+ *
+ * The secret is validated as base32 and returned normalized (uppercase, no
+ * padding). Defaults are filled in, so the result is complete: `algorithm`,
+ * `digits`, and `period` (TOTP) or `counter` (HOTP). The issuer comes from the
+ * `issuer` parameter or the `Issuer:` label prefix; when both are present
+ * they must match.
+ *
+ * @param uri The `otpauth://` URI.
+ * @returns The parsed options.
+ * @throws {Error} If the URI is malformed, the type is not `hotp` / `totp`,
+ *   the label or secret is missing or invalid, an HOTP URI has no counter, or
+ *   the label and `issuer` parameter name different issuers.
+ * @throws {TypeError} If the algorithm is not supported.
+ * @throws {RangeError} If `digits`, `period` or `counter` is out of range.
+ *
+ * @example
+ * const { secret, issuer, account, ...options } = parseOTPAuthURI(pastedUri);
+ * const code = await totp(secret, options);
+ */
+export function parseOTPAuthURI(uri: string): OTPAuthURIOptions {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new Error("Invalid otpauth URI: not a URI.");
+  }
+  if (url.protocol !== "otpauth:") {
+    throw new Error(`Invalid otpauth URI: expected the otpauth: scheme, got ${url.protocol}`);
+  }
+  const type = url.hostname.toLowerCase();
+  if (type !== "hotp" && type !== "totp") {
+    throw new Error(`Invalid otpauth URI: unsupported type "${url.hostname}".`);
+  }
+
+  const params = url.searchParams;
+  const issuerParam = params.get("issuer") ?? undefined;
+
+  // Label: "accountname" or "issuer:accountname", optionally followed by
+  // spaces. The label is split before decoding, at a literal colon, so either
+  // part may contain an encoded one (as otpauthURI() writes it). Without a
+  // literal colon, an encoded one separates only a prefix equal to the issuer
+  // parameter.
+  const label = url.pathname.slice(1);
+  let colon = label.indexOf(":");
+  let separator = 1;
+  if (colon === -1 && issuerParam !== undefined) {
+    const encoded = label.search(/%3a/i);
+    if (encoded !== -1 && _decodeURIPart(label.slice(0, encoded), "label") === issuerParam) {
+      colon = encoded;
+      separator = 3;
+    }
+  }
+  const labelIssuer = colon === -1 ? undefined : _decodeURIPart(label.slice(0, colon), "label");
+  const account = _decodeURIPart(
+    colon === -1 ? label : label.slice(colon + separator),
+    "label",
+  ).replace(/^ +/, "");
+  if (!account) {
+    throw new Error("Invalid otpauth URI: the label has no account name.");
+  }
+
+  if (labelIssuer !== undefined && issuerParam !== undefined && labelIssuer !== issuerParam) {
+    throw new Error(
+      `Invalid otpauth URI: label issuer "${labelIssuer}" does not match issuer parameter "${issuerParam}".`,
+    );
+  }
+  const issuer = issuerParam ?? labelIssuer;
+
+  const secret = (params.get("secret") ?? "").toUpperCase().replace(/=+$/, "");
+  if (!secret) {
+    throw new Error("Invalid otpauth URI: secret is required.");
+  }
+  try {
+    Base32.parse(secret, { returnAs: "bytes" });
+  } catch {
+    throw new Error("Invalid otpauth URI: secret is not valid base32.");
+  }
+
+  const algorithmParam = params.get("algorithm");
+  const algorithm = algorithmParam === null ? "SHA-1" : _parseURIAlgorithm(algorithmParam);
+  if (!algorithm) {
+    throw new TypeError(`Unsupported otpauth algorithm: ${algorithmParam}`);
+  }
+  const digitsParam = params.get("digits");
+  const digits = digitsParam === null ? 6 : _parseURIInteger("digits", digitsParam, 1, 10);
+
+  const result: OTPAuthURIOptions = { type, secret, account, algorithm, digits };
+  if (issuer !== undefined) result.issuer = issuer;
+
+  if (type === "hotp") {
+    const counter = params.get("counter");
+    if (counter === null) {
+      throw new Error("Invalid otpauth URI: counter is required for HOTP URIs.");
+    }
+    result.counter = _parseURIInteger("counter", counter, 0, Number.MAX_SAFE_INTEGER);
+  } else {
+    const period = params.get("period");
+    result.period = period === null ? 30 : _parseURIInteger("period", period, 1, 86_400);
+  }
+  return result;
+}
+
+/**
+ * Build Google Authenticator migration URIs
+ * (`otpauth-migration://offline?data=...`) to export many accounts at once,
+ * e.g. as QR codes for "Transfer accounts".
+ *
+ * Accounts are split into batches of `accountsPerBatch`, one URI each; every
+ * URI carries the batch count, its index and a shared batch id. The format
+ * only supports SHA-1 / SHA-256 / SHA-512, 6 or 8 digits, and a 30-second
+ * period.
+ *
+ * @param accounts The accounts to export, as for {@link otpauthURI}.
+ * @param options Batch size and id.
+ * @returns One URI per batch (a single URI when there are no accounts).
+ * @throws {TypeError} If an account uses an algorithm the format cannot express.
+ * @throws {RangeError} If an account has other than 6 or 8 digits or a TOTP
+ *   period other than 30, or `accountsPerBatch` is not a positive integer.
+ * @throws {Error} If an HOTP account has no counter.
+ *
+ * @example
+ * const uris = otpauthMigrationURIs(accounts);
+ * // ["otpauth-migration://offline?data=Cj...", ...]
+ */
+export function otpauthMigrationURIs(
+  accounts: readonly OTPAuthURIOptions[],
+  options: OTPAuthMigrationOptions = {},
+): string[] {
+  const { accountsPerBatch = 10 } = options;
+  if (!Number.isInteger(accountsPerBatch) || accountsPerBatch < 1) {
+    throw new RangeError("accountsPerBatch must be a positive integer.");
+  }
+  const batchId = options.batchId ?? new DataView(secureRandomBytes(4).buffer).getUint32(0) >>> 1;
+  const encoded = accounts.map((account) => _encodeMigrationAccount(account));
+  const batchSize = Math.max(1, Math.ceil(encoded.length / accountsPerBatch));
+
+  const uris: string[] = [];
+  for (let batchIndex = 0; batchIndex < batchSize; batchIndex++) {
+    const batch = encoded.slice(batchIndex * accountsPerBatch, (batchIndex + 1) * accountsPerBatch);
+    const payload = encodeProtobuf([
+      ...batch.map((account) => [1, account] as [number, Uint8Array]),
+      [2, _MIGRATION_VERSION],
+      [3, batchSize],
+      [4, batchIndex],
+      [5, batchId],
+    ]);
+    uris.push(`otpauth-migration://offline?data=${encodeURIComponent(Base64.stringify(payload))}`);
+  }
+  return uris;
+}
+
+/**
+ * Parse a Google Authenticator migration URI
+ * (`otpauth-migration://offline?data=...`) into its accounts and batch
+ * metadata. An export spread over several QR codes yields one URI each:
+ * collect them until every `batchIndex` below `batchSize` has been seen for
+ * the same `batchId`.
+ *
+ * Secrets are returned as unpadded base32 strings. A `name` of the form
+ * `Issuer:account` is split as in an `otpauth://` label.
+ *
+ * @param uri The `otpauth-migration://` URI.
+ * @returns The accounts and batch metadata.
+ * @throws {Error} If the URI or its payload is malformed, or an account has
+ *   an unknown type or no secret.
+ * @throws {TypeError} If an account uses an unsupported algorithm (e.g. MD5).
+ * @throws {RangeError} If an account has an unknown digit count.
+ *
+ * @example
+ * const { accounts, batchIndex, batchSize } = parseOTPAuthMigrationURI(scanned);
+ * for (const { secret, ...options } of accounts) {
+ *   if (options.type === "totp") console.log(await totp(secret, options));
+ * }
+ */
+export function parseOTPAuthMigrationURI(uri: string): OTPAuthMigrationBatch {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    _malformedMigration("not a URI.");
+  }
+  if (url.protocol !== "otpauth-migration:" || url.hostname !== "offline") {
+    _malformedMigration("expected otpauth-migration://offline.");
+  }
+  const data = url.searchParams.get("data");
+  if (!data) _malformedMigration("data is required.");
+
+  let fields: ReturnType<typeof decodeProtobuf>;
+  try {
+    // A "+" that was not percent-encoded arrives as a space.
+    const payload = Base64.parse(data.replaceAll(" ", "+"), { returnAs: "bytes" });
+    fields = decodeProtobuf(payload);
+  } catch {
+    _malformedMigration("data is not a valid base64 protobuf payload.");
+  }
+
+  const batch: OTPAuthMigrationBatch = {
+    accounts: [],
+    version: 0,
+    batchSize: 1,
+    batchIndex: 0,
+    batchId: 0,
+  };
+  for (const { field, value } of fields) {
+    if (field === 1 && typeof value !== "number") {
+      let account: OTPAuthURIOptions;
+      try {
+        account = _decodeMigrationAccount(value);
+      } catch (error) {
+        if (error instanceof SyntaxError) _malformedMigration("an account is not valid protobuf.");
+        throw error;
+      }
+      batch.accounts.push(account);
+    } else if (typeof value === "number") {
+      if (field === 2) batch.version = value;
+      else if (field === 3) batch.batchSize = value;
+      else if (field === 4) batch.batchIndex = value;
+      else if (field === 5) batch.batchId = value;
+    }
+  }
+  return batch;
+}
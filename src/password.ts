@@ -0,0 +1,307 @@
+import { formatPHC, parsePHC, phcInteger } from "./_internal/phc.ts";
+import { textEncoder } from "./utils/index.ts";
+import { type Argon2idHashOptions, argon2idVerify } from "./argon2.ts";
+import { type BcryptOptions, bcryptVerify } from "./bcrypt.ts";
+import { secureCompare } from "./compare.ts";
+import { secureRandomBytes } from "./random.ts";
+import { type ScryptHashOptions, scryptVerify } from "./scrypt.ts";
+
+/** Hash algorithms PBKDF2 password hashing runs on. */
+export type PasswordHashAlgorithm = "SHA-256" | "SHA-512";
+
+export interface PasswordHashOptions {
+  /**
+   * The PBKDF2 hash algorithm.
+   *
+   * @default 'SHA-256'
+   */
+  algorithm?: PasswordHashAlgorithm;
+  /**
+   * PBKDF2 iteration count.
+   *
+   * @default 600000 for SHA-256, 210000 for SHA-512 (OWASP guidance)
+   */
+  iterations?: number;
+  /**
+   * Random salt length in bytes, at least 16.
+   *
+   * @default 16
+   */
+  saltLength?: number;
+  /**
+   * Derived hash length in bytes, at least 16.
+   *
+   * @default 32 for SHA-256, 64 for SHA-512
+   */
+  hashLength?: number;
+  /**
+   * Upper bound for the iteration count. Stored hashes above it throw a
+   * {@link RangeError} before any work is done, so untrusted hashes can't
+   * tie up the CPU.
+   *
+   * @default 5000000
+   */
+  maxIterations?: number;
+}
+
+/**
+ * Password hash formats {@link verifyPassword} understands, by PHC identifier
+ * (`bcrypt` covers the `$2a$`, `$2b$` and `$2y$` prefixes).
+ */
+export type PasswordAlgorithm =
+  | "pbkdf2-sha256"
+  | "pbkdf2-sha512"
+  | "scrypt"
+  | "argon2id"
+  | "bcrypt";
+
+/**
+ * Hashing policy for {@link verifyPassword}: the algorithm new hashes should
+ * use, plus the minimum parameters per algorithm. Omitted entries fall back
+ * to the defaults of {@link hashPassword}, {@link scryptHash},
+ * {@link argon2idHash} and {@link bcryptHash}.
+ */
+export interface PasswordPolicy {
+  /**
+   * Algorithm current hashes are created with. Valid hashes of any other
+   * algorithm report `needsRehash`.
+   *
+   * @default 'pbkdf2-sha256'
+   */
+  algorithm?: PasswordAlgorithm;
+  /** Minimum PBKDF2 parameters and iteration limit; the hash function comes from the stored hash. */
+  pbkdf2?: Omit<PasswordHashOptions, "algorithm">;
+  /** Minimum scrypt parameters and memory limit. */
+  scrypt?: ScryptHashOptions;
+  /** Minimum Argon2id parameters and memory limit. */
+  argon2id?: Argon2idHashOptions;
+  /** Minimum bcrypt cost, and whether stored bcrypt hashes were pre-hashed. */
+  bcrypt?: BcryptOptions;
+}
+
+/**
+ * Result of {@link verifyPassword}, {@link scryptVerify}, {@link argon2idVerify}
+ * and {@link bcryptVerify}.
+ */
+export interface PasswordVerifyResult {
+  /** Whether the password matches the stored hash. */
+  valid: boolean;
+  /**
+   * `true` when the password matched but the stored hash was produced with a
+   * different algorithm or weaker parameters than the current policy; hash
+   * the password again and replace the stored value.
+   */
+  needsRehash: boolean;
+  /** Algorithm of the stored hash, by PHC identifier. */
+  algorithm: PasswordAlgorithm;
+}
+
+// #region Internals
+
+const _PHC_IDS: Record<PasswordHashAlgorithm, PasswordAlgorithm> = {
+  "SHA-256": "pbkdf2-sha256",
+  "SHA-512": "pbkdf2-sha512",
+};
+
+const _ALGORITHMS: Record<string, PasswordHashAlgorithm> = {
+  "pbkdf2-sha256": "SHA-256",
+  "pbkdf2-sha512": "SHA-512",
+};
+
+const _PASSWORD_ALGORITHMS: ReadonlySet<string> = new Set<PasswordAlgorithm>([
+  "pbkdf2-sha256",
+  "pbkdf2-sha512",
+  "scrypt",
+  "argon2id",
+  "bcrypt",
+]);
+
+const _DEFAULTS: Record<PasswordHashAlgorithm, { iterations: number; hashLength: number }> = {
+  "SHA-256": { iterations: 600_000, hashLength: 32 },
+  "SHA-512": { iterations: 210_000, hashLength: 64 },
+};
+
+const _MIN_LENGTH = 16;
+const _DEFAULT_MAX_ITERATIONS = 5_000_000;
+
+function _assertIterations(iterations: number, maxIterations: number): void {
+  if (iterations > maxIterations) {
+    throw new RangeError(
+      `PBKDF2 iteration count ${iterations} is above the maxIterations limit of ${maxIterations}.`,
+    );
+  }
+}
+
+function _resolvePolicy(options: PasswordHashOptions | undefined): Required<PasswordHashOptions> {
+  const algorithm = options?.algorithm ?? "SHA-256";
+  const defaults = _DEFAULTS[algorithm];
+  if (!defaults) {
+    throw new TypeError(`Unsupported password hash algorithm: ${algorithm}`);
+  }
+  const {
+    iterations = defaults.iterations,
+    saltLength = _MIN_LENGTH,
+    hashLength = defaults.hashLength,
+    maxIterations = _DEFAULT_MAX_ITERATIONS,
+  } = options ?? {};
+  if (!Number.isInteger(iterations) || iterations < 1) {
+    throw new RangeError("iterations must be a positive integer.");
+  }
+  _assertIterations(iterations, maxIterations);
+  if (!Number.isInteger(saltLength) || saltLength < _MIN_LENGTH) {
+    throw new RangeError(`saltLength must be an integer of at least ${_MIN_LENGTH}.`);
+  }
+  if (!Number.isInteger(hashLength) || hashLength < _MIN_LENGTH) {
+    throw new RangeError(`hashLength must be an integer of at least ${_MIN_LENGTH}.`);
+  }
+  return { algorithm, iterations, saltLength, hashLength, maxIterations };
+}
+
+async function _pbkdf2(
+  password: string | BufferSource,
+  salt: Uint8Array<ArrayBuffer>,
+  algorithm: PasswordHashAlgorithm,
+  iterations: number,
+  length: number,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    typeof password === "string" ? textEncoder.encode(password) : password,
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: algorithm, salt, iterations },
+    baseKey,
+    length * 8,
+  );
+  return new Uint8Array(bits);
+}
+
+async function _pbkdf2Verify(
+  password: string | BufferSource,
+  phc: string,
+  options: Omit<PasswordHashOptions, "algorithm"> | undefined,
+): Promise<PasswordVerifyResult> {
+  const parsed = parsePHC(phc);
+  const algorithm = _ALGORITHMS[parsed.id]!;
+  const target = _resolvePolicy({ ...options, algorithm });
+  const iterations = phcInteger(parsed, "i");
+  if (iterations < 1 || parsed.version !== undefined || Object.keys(parsed.params).length !== 1) {
+    throw new SyntaxError("Malformed PHC string.");
+  }
+  _assertIterations(iterations, target.maxIterations);
+
+  const derived = await _pbkdf2(password, parsed.salt, algorithm, iterations, parsed.hash.length);
+  const valid = secureCompare(parsed.hash, derived);
+  const needsRehash =
+    valid &&
+    (iterations < target.iterations ||
+      parsed.salt.length < target.saltLength ||
+      parsed.hash.length < target.hashLength);
+  return { valid, needsRehash, algorithm: _PHC_IDS[algorithm] };
+}
+
+// #endregion
+
+/**
+ * Hash a password with PBKDF2 for storage.
+ *
+ * Returns a PHC string carrying everything needed to verify it later:
+ * `$pbkdf2-sha256$i=600000$<salt>$<hash>`, with salt and hash in unpadded
+ * standard base64. A fresh random salt is generated on every call.
+ *
+ * @param password The password, as a string (UTF-8) or raw bytes.
+ * @param options Algorithm, iteration count, salt and hash lengths.
+ * @returns A Promise that resolves to the PHC string.
+ * @throws {TypeError} If the algorithm is not supported.
+ * @throws {RangeError} If a parameter is out of range or above `maxIterations`.
+ *
+ * @example
+ * const stored = await hashPassword("correct horse battery staple");
+ * // "$pbkdf2-sha256$i=600000$…$…"
+ */
+export async function hashPassword(
+  password: string | BufferSource,
+  options?: PasswordHashOptions,
+): Promise<string> {
+  const { algorithm, iterations, saltLength, hashLength } = _resolvePolicy(options);
+  const salt = secureRandomBytes(saltLength);
+  const hash = await _pbkdf2(password, salt, algorithm, iterations, hashLength);
+  return formatPHC({ id: _PHC_IDS[algorithm], params: { i: String(iterations) }, salt, hash });
+}
+
+/**
+ * Verify a password against a stored hash of any supported algorithm.
+ *
+ * The algorithm is read from the PHC identifier (`$pbkdf2-sha256$`,
+ * `$pbkdf2-sha512$`, `$scrypt$`, `$argon2id$`, or bcrypt's `$2a$` / `$2b$` /
+ * `$2y$`) and verification is dispatched to {@link hashPassword}'s PBKDF2,
+ * {@link scryptVerify}, {@link argon2idVerify} or {@link bcryptVerify}; every
+ * path compares in constant time with {@link secureCompare}.
+ *
+ * `needsRehash` is set when the password matched but the hash was produced
+ * with an algorithm other than `policy.algorithm`, or with parameters below
+ * that algorithm's entry in `policy`, so stored hashes from older eras can be
+ * upgraded transparently on the next successful login.
+ *
+ * @param password The candidate password.
+ * @param stored The stored PHC string.
+ * @param policy The current hashing policy.
+ * @returns A Promise that resolves to `{ valid, needsRehash, algorithm }`.
+ * @throws {SyntaxError} If `stored` is not a well-formed PHC string or bcrypt hash.
+ * @throws {TypeError} If `stored` or `policy.algorithm` names an unsupported algorithm.
+ * @throws {RangeError} If stored PBKDF2 iterations exceed the policy's `maxIterations`, or scrypt / Argon2 parameters its `maxmem`.
+ *
+ * @example
+ * const policy = { algorithm: "argon2id", argon2id: { memoryCost: 65536 } } as const;
+ *
+ * const { valid, needsRehash } = await verifyPassword(input, user.passwordHash, policy);
+ * if (valid && needsRehash) user.passwordHash = await argon2idHash(input, policy.argon2id);
+ */
+export async function verifyPassword(
+  password: string | BufferSource,
+  stored: string,
+  policy: PasswordPolicy = {},
+): Promise<PasswordVerifyResult> {
+  const { algorithm: preferred = "pbkdf2-sha256" } = policy;
+  if (!_PASSWORD_ALGORITHMS.has(preferred)) {
+    throw new TypeError(`Unsupported password hash algorithm: ${preferred}`);
+  }
+
+  const id = /^\$([\w-]+)\$/.exec(stored)?.[1];
+  let result: PasswordVerifyResult;
+  switch (id) {
+    case "pbkdf2-sha256":
+    case "pbkdf2-sha512": {
+      result = await _pbkdf2Verify(password, stored, policy.pbkdf2);
+      break;
+    }
+    case "scrypt": {
+      result = await scryptVerify(password, stored, policy.scrypt);
+      break;
+    }
+    case "argon2id": {
+      result = await argon2idVerify(password, stored, policy.argon2id);
+      break;
+    }
+    case "2a":
+    case "2b":
+    case "2y": {
+      result = await bcryptVerify(password, stored, policy.bcrypt);
+      break;
+    }
+    case undefined: {
+      throw new SyntaxError("Malformed PHC string.");
+    }
+    default: {
+      throw new TypeError(`Unsupported password hash algorithm: ${id}`);
+    }
+  }
+
+  return {
+    ...result,
+    needsRehash: result.valid && (result.needsRehash || result.algorithm !== preferred),
+  };
+}
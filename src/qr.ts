@@ -0,0 +1,481 @@
+import { toBytes } from "./_internal/encoding.ts";
+import { Base64 } from "./utils/index.ts";
+
+/** Error correction level: recovers about 7% (L), 15% (M), 25% (Q) or 30% (H) of the symbol. */
+export type QRErrorCorrection = "L" | "M" | "Q" | "H";
+
+/**
+ * Output format:
+ * - `"svg"`: an SVG document string
+ * - `"dataurl"`: the SVG as a `data:image/svg+xml;base64,…` URL, for `<img src>`
+ * - `"matrix"`: rows of modules, `true` for dark, without the quiet zone
+ */
+export type QRCodeReturnAs = "svg" | "dataurl" | "matrix";
+
+export interface QRCodeOptions {
+  /**
+   * Error correction level.
+   *
+   * @default "M"
+   */
+  errorCorrection?: QRErrorCorrection;
+  /**
+   * Light border around the symbol, in modules. The spec asks for at least 4.
+   * Ignored for `"matrix"`.
+   *
+   * @default 4
+   */
+  margin?: number;
+  /**
+   * Output format.
+   *
+   * @default "svg"
+   */
+  returnAs?: QRCodeReturnAs;
+}
+
+// #region Internals
+
+// Per version 1..40: error correction codewords per block, and number of blocks
+// (ISO/IEC 18004, table 9).
+const _ECC_PER_BLOCK: Record<QRErrorCorrection, readonly number[]> = {
+  L: [
+    7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30,
+    26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+  ],
+  M: [
+    10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28,
+    28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+  ],
+  Q: [
+    13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30,
+    30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+  ],
+  H: [
+    17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30,
+    30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+  ],
+};
+
+const _BLOCKS: Record<QRErrorCorrection, readonly number[]> = {
+  L: [
+    1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15,
+    16, 17, 18, 19, 19, 20, 21, 22, 24, 25,
+  ],
+  M: [
+    1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25,
+    26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+  ],
+  Q: [
+    1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34,
+    35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68,
+  ],
+  H: [
+    1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37,
+    40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81,
+  ],
+};
+
+/** Format information bits for each level (table 25). */
+const _FORMAT_BITS: Record<QRErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+const _MASKS: readonly ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+/** Finder-like 1:1:3:1:1 run with four light modules on one side, as in the N3 penalty rule. */
+const _FINDER_LIKE = [
+  [1, 0, 1, 1, 1, 0, 1, 0, 0, 0, 0],
+  [0, 0, 0, 0, 1, 0, 1, 1, 1, 0, 1],
+];
+
+/** Modules available for data and error correction codewords in a version (all of it, in bits). */
+function _rawDataModules(version: number): number {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    modules -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) modules -= 36;
+  }
+  return modules;
+}
+
+function _dataCodewords(version: number, level: QRErrorCorrection): number {
+  const i = version - 1;
+  return Math.floor(_rawDataModules(version) / 8) - _ECC_PER_BLOCK[level][i]! * _BLOCKS[level][i]!;
+}
+
+/** Centre coordinates of the alignment patterns (annex E). */
+function _alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let pos = version * 4 + 10; positions.length < count; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+  return positions;
+}
+
+// GF(2^8) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1.
+function _gfMultiply(a: number, b: number): number {
+  let product = 0;
+  for (let i = 7; i >= 0; i--) {
+    product = (product << 1) ^ ((product >>> 7) * 0x11d);
+    product ^= ((b >>> i) & 1) * a;
+  }
+  return product;
+}
+
+/** Reed-Solomon generator polynomial of `degree`, highest coefficient (always 1) dropped. */
+function _rsDivisor(degree: number): Uint8Array {
+  const divisor = new Uint8Array(degree);
+  divisor[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      divisor[j] = _gfMultiply(divisor[j]!, root) ^ (divisor[j + 1] ?? 0);
+    }
+    root = _gfMultiply(root, 0x02);
+  }
+  return divisor;
+}
+
+function _rsRemainder(data: Uint8Array, divisor: Uint8Array): Uint8Array {
+  const remainder = new Uint8Array(divisor.length);
+  for (const byte of data) {
+    const factor = byte ^ remainder[0]!;
+    remainder.copyWithin(0, 1);
+    remainder[remainder.length - 1] = 0;
+    for (let i = 0; i < divisor.length; i++) remainder[i]! ^= _gfMultiply(divisor[i]!, factor);
+  }
+  return remainder;
+}
+
+/** Byte-mode segment, terminator and pad codewords (sections 7.4.5, 7.4.9, 7.4.10). */
+function _dataCodewordsFor(data: Uint8Array, version: number, capacity: number): Uint8Array {
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(data.length, version <= 9 ? 8 : 16);
+  for (const byte of data) push(byte, 8);
+  push(0, Math.min(4, capacity * 8 - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords = new Uint8Array(capacity);
+  for (let i = 0; i < bits.length; i++) codewords[i >>> 3]! |= bits[i]! << (7 - (i & 7));
+  for (let i = bits.length / 8, pad = 0xec; i < capacity; i++, pad ^= 0xec ^ 0x11) {
+    codewords[i] = pad;
+  }
+  return codewords;
+}
+
+/** Split data codewords into blocks, add error correction, and interleave (section 7.6). */
+function _interleave(data: Uint8Array, version: number, level: QRErrorCorrection): Uint8Array {
+  const blockCount = _BLOCKS[level][version - 1]!;
+  const eccLength = _ECC_PER_BLOCK[level][version - 1]!;
+  const total = Math.floor(_rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (total % blockCount);
+  const shortLength = Math.floor(total / blockCount) - eccLength;
+  const divisor = _rsDivisor(eccLength);
+
+  const blocks: { data: Uint8Array; ecc: Uint8Array }[] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const length = shortLength + (i < shortBlocks ? 0 : 1);
+    const block = data.subarray(offset, offset + length);
+    blocks.push({ data: block, ecc: _rsRemainder(block, divisor) });
+    offset += length;
+  }
+
+  const out = new Uint8Array(total);
+  let index = 0;
+  for (let i = 0; i <= shortLength; i++) {
+    for (const block of blocks) if (i < block.data.length) out[index++] = block.data[i]!;
+  }
+  for (let i = 0; i < eccLength; i++) {
+    for (const block of blocks) out[index++] = block.ecc[i]!;
+  }
+  return out;
+}
+
+interface _Symbol {
+  size: number;
+  modules: boolean[][];
+  reserved: boolean[][];
+}
+
+function _set(symbol: _Symbol, x: number, y: number, dark: boolean): void {
+  symbol.modules[y]![x] = dark;
+  symbol.reserved[y]![x] = true;
+}
+
+/** Finder, separator, timing and alignment patterns, plus reserved format and version areas. */
+function _drawFunctionPatterns(symbol: _Symbol, version: number): void {
+  const { size } = symbol;
+  for (let i = 0; i < size; i++) {
+    _set(symbol, 6, i, i % 2 === 0);
+    _set(symbol, i, 6, i % 2 === 0);
+  }
+  for (const [cx, cy] of [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ] as const) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || x >= size || y < 0 || y >= size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        _set(symbol, x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+  const positions = _alignmentPositions(version);
+  const last = positions.length - 1;
+  for (const [i, cx] of positions.entries()) {
+    for (const [j, cy] of positions.entries()) {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) continue;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          _set(symbol, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    }
+  }
+  _drawFormatBits(symbol, "L", 0);
+  _drawVersionBits(symbol, version);
+}
+
+/** 15-bit BCH-coded format information, in both copies (section 7.9). */
+function _drawFormatBits(symbol: _Symbol, level: QRErrorCorrection, mask: number): void {
+  const { size } = symbol;
+  const data = (_FORMAT_BITS[level] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+  for (let i = 0; i <= 5; i++) _set(symbol, 8, i, bit(i));
+  _set(symbol, 8, 7, bit(6));
+  _set(symbol, 8, 8, bit(7));
+  _set(symbol, 7, 8, bit(8));
+  for (let i = 9; i < 15; i++) _set(symbol, 14 - i, 8, bit(i));
+  for (let i = 0; i < 8; i++) _set(symbol, size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i++) _set(symbol, 8, size - 15 + i, bit(i));
+  _set(symbol, 8, size - 8, true);
+}
+
+/** 18-bit BCH-coded version information for versions 7 and up (section 7.10). */
+function _drawVersionBits(symbol: _Symbol, version: number): void {
+  if (version < 7) return;
+  let remainder = version;
+  for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  const bits = (version << 12) | remainder;
+  for (let i = 0; i < 18; i++) {
+    const dark = ((bits >>> i) & 1) === 1;
+    const a = symbol.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    _set(symbol, a, b, dark);
+    _set(symbol, b, a, dark);
+  }
+}
+
+/** Place codeword bits in the two-column zigzag from the bottom-right corner (section 7.7.3). */
+function _drawCodewords(symbol: _Symbol, codewords: Uint8Array): void {
+  const { size } = symbol;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < size; vertical++) {
+      const y = upward ? size - 1 - vertical : vertical;
+      for (let x = right; x >= right - 1; x--) {
+        if (symbol.reserved[y]![x]) continue;
+        // Remainder bits past the last codeword stay light.
+        symbol.modules[y]![x] =
+          i < codewords.length * 8 && ((codewords[i >>> 3]! >>> (7 - (i & 7))) & 1) === 1;
+        i++;
+      }
+    }
+  }
+}
+
+function _applyMask(symbol: _Symbol, mask: number): void {
+  const test = _MASKS[mask]!;
+  for (let y = 0; y < symbol.size; y++) {
+    for (let x = 0; x < symbol.size; x++) {
+      if (!symbol.reserved[y]![x] && test(x, y)) symbol.modules[y]![x] = !symbol.modules[y]![x];
+    }
+  }
+}
+
+/** Mask penalty score (section 7.8.3): runs, 2x2 blocks, finder-like patterns, dark balance. */
+function _penalty(modules: boolean[][]): number {
+  const size = modules.length;
+  const at = (x: number, y: number, transpose: boolean) =>
+    transpose ? modules[x]![y]! : modules[y]![x]!;
+  let penalty = 0;
+  let dark = 0;
+
+  for (const transpose of [false, true]) {
+    for (let y = 0; y < size; y++) {
+      let run = 1;
+      for (let x = 1; x <= size; x++) {
+        if (x < size && at(x, y, transpose) === at(x - 1, y, transpose)) {
+          run++;
+          continue;
+        }
+        if (run >= 5) penalty += run - 2;
+        run = 1;
+      }
+      for (let x = 0; x + 11 <= size; x++) {
+        for (const pattern of _FINDER_LIKE) {
+          if (pattern.every((bit, k) => at(x + k, y, transpose) === (bit === 1))) penalty += 40;
+        }
+      }
+    }
+  }
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const color = modules[y]![x]!;
+      if (color) dark++;
+      if (
+        x + 1 < size &&
+        y + 1 < size &&
+        color === modules[y]![x + 1] &&
+        color === modules[y + 1]![x] &&
+        color === modules[y + 1]![x + 1]
+      ) {
+        penalty += 3;
+      }
+    }
+  }
+
+  const total = size * size;
+  return penalty + (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+}
+
+/** Encode bytes into a module matrix at the smallest version that fits. */
+function _encode(data: Uint8Array, level: QRErrorCorrection): boolean[][] {
+  let version = 1;
+  for (; version <= 40; version++) {
+    const headerBits = 4 + (version <= 9 ? 8 : 16);
+    if (headerBits + data.length * 8 <= _dataCodewords(version, level) * 8) break;
+  }
+  if (version > 40) {
+    throw new RangeError(
+      `Data is too long for a QR code at error correction level ${level}: ${data.length} bytes.`,
+    );
+  }
+
+  const codewords = _interleave(
+    _dataCodewordsFor(data, version, _dataCodewords(version, level)),
+    version,
+    level,
+  );
+  const size = version * 4 + 17;
+  const base: _Symbol = {
+    size,
+    modules: Array.from({ length: size }, () => Array.from({ length: size }, () => false)),
+    reserved: Array.from({ length: size }, () => Array.from({ length: size }, () => false)),
+  };
+  _drawFunctionPatterns(base, version);
+  _drawCodewords(base, codewords);
+
+  let best: boolean[][] | undefined;
+  let bestPenalty = Number.POSITIVE_INFINITY;
+  for (let mask = 0; mask < _MASKS.length; mask++) {
+    const symbol: _Symbol = {
+      size,
+      modules: base.modules.map((row) => [...row]),
+      reserved: base.reserved,
+    };
+    _applyMask(symbol, mask);
+    _drawFormatBits(symbol, level, mask);
+    const penalty = _penalty(symbol.modules);
+    if (penalty < bestPenalty) {
+      best = symbol.modules;
+      bestPenalty = penalty;
+    }
+  }
+  return best!;
+}
+
+/** One path of horizontal runs of dark modules, offset by the margin. */
+function _toSVG(modules: boolean[][], margin: number): string {
+  const dimension = modules.length + margin * 2;
+  let path = "";
+  for (const [y, row] of modules.entries()) {
+    for (let x = 0; x < row.length; x++) {
+      if (!row[x]) continue;
+      const start = x;
+      while (row[x + 1]) x++;
+      path += `M${start + margin} ${y + margin}h${x - start + 1}v1H${start + margin}z`;
+    }
+  }
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">` +
+    `<path fill="#fff" d="M0 0h${dimension}v${dimension}H0z"/><path fill="#000" d="${path}"/></svg>`
+  );
+}
+
+// #endregion
+
+/**
+ * Encode data as a QR code (ISO/IEC 18004), e.g. an `otpauthURI()` for
+ * authenticator enrollment, without a QR library.
+ *
+ * Data is encoded in byte mode (strings as UTF-8) at the smallest version
+ * (1 to 40) that fits the chosen error correction level, and the mask with
+ * the lowest penalty score is applied.
+ *
+ * @param data The content. Strings are UTF-8 encoded.
+ * @param options Error correction level, quiet zone and output format.
+ * @returns An SVG string, an SVG data URL, or the module matrix.
+ * @throws {RangeError} If the data does not fit in a version 40 symbol, or
+ *   `margin` is not a non-negative integer.
+ *
+ * @example
+ * const uri = otpauthURI({ type: "totp", secret, account: "user@example.com", issuer: "MyApp" });
+ * const img = `<img src="${qrCode(uri, { returnAs: "dataurl" })}" alt="Scan to enroll">`;
+ */
+export function qrCode(
+  data: string | BufferSource,
+  options: QRCodeOptions & { returnAs: "matrix" },
+): boolean[][];
+export function qrCode(
+  data: string | BufferSource,
+  options?: QRCodeOptions & { returnAs?: "svg" | "dataurl" },
+): string;
+export function qrCode(data: string | BufferSource, options?: QRCodeOptions): string | boolean[][];
+export function qrCode(
+  data: string | BufferSource,
+  options: QRCodeOptions = {},
+): string | boolean[][] {
+  const { errorCorrection = "M", margin = 4, returnAs = "svg" } = options;
+  if (!Object.hasOwn(_FORMAT_BITS, errorCorrection)) {
+    throw new TypeError(`Unsupported QR error correction level: ${String(errorCorrection)}`);
+  }
+  if (!Number.isInteger(margin) || margin < 0) {
+    throw new RangeError("margin must be a non-negative integer.");
+  }
+  if (returnAs !== "svg" && returnAs !== "dataurl" && returnAs !== "matrix") {
+    throw new Error(`Unsupported qrCode "returnAs" option: ${String(returnAs)}`);
+  }
+
+  const modules = _encode(toBytes(data), errorCorrection);
+  if (returnAs === "matrix") return modules;
+  const svg = _toSVG(modules, margin);
+  return returnAs === "svg" ? svg : `data:image/svg+xml;base64,${Base64.stringify(svg)}`;
+}
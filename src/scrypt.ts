@@ -0,0 +1,437 @@
+import type { DigestReturnAs } from "./hash.ts";
+import type { PasswordVerifyResult } from "./password.ts";
+import { encodeBytes, toBytes } from "./_internal/encoding.ts";
+import { formatPHC, parsePHC, phcInteger } from "./_internal/phc.ts";
+import { TICK_MS, yieldToEventLoop } from "./_internal/yield.ts";
+import { secureCompare } from "./compare.ts";
+import { secureRandomBytes } from "./random.ts";
+
+export interface ScryptParams {
+  /**
+   * CPU/memory cost. A power of two greater than 1.
+   *
+   * @default 131072 (2^17)
+   */
+  N?: number;
+  /**
+   * Block size factor.
+   *
+   * @default 8
+   */
+  r?: number;
+  /**
+   * Parallelization factor.
+   *
+   * @default 1
+   */
+  p?: number;
+  /**
+   * Upper bound in bytes for the working memory (`128 * r * (N + p)`).
+   * Parameters above it throw a {@link RangeError} before anything is
+   * allocated, so untrusted hashes can't exhaust memory.
+   *
+   * @default 268435456 (256 MiB)
+   */
+  maxmem?: number;
+}
+
+export interface ScryptOptions extends ScryptParams {
+  /**
+   * Derived key length in bytes.
+   *
+   * @default 32
+   */
+  dkLen?: number;
+  /**
+   * Output format.
+   *
+   * When not specified, mirrors the `password` input type:
+   * - `string` password defaults to `'hex'`
+   * - `BufferSource` password defaults to `'uint8array'`
+   */
+  returnAs?: DigestReturnAs;
+}
+
+export interface ScryptHashOptions extends ScryptParams {
+  /**
+   * Random salt length in bytes, at least 16.
+   *
+   * @default 16
+   */
+  saltLength?: number;
+  /**
+   * Hash length in bytes, at least 16.
+   *
+   * @default 32
+   */
+  hashLength?: number;
+}
+
+// #region Internals
+
+const _DEFAULT_N = 2 ** 17;
+const _DEFAULT_MAXMEM = 2 ** 28;
+const _MIN_LENGTH = 16;
+
+function _resolveParams(params: ScryptParams | undefined): Required<ScryptParams> {
+  const { N = _DEFAULT_N, r = 8, p = 1, maxmem = _DEFAULT_MAXMEM } = params ?? {};
+  if (!Number.isSafeInteger(N) || N < 2 || (N & (N - 1)) !== 0) {
+    throw new RangeError("scrypt N must be a power of two greater than 1.");
+  }
+  if (!Number.isSafeInteger(r) || r < 1 || !Number.isSafeInteger(p) || p < 1) {
+    throw new RangeError("scrypt r and p must be positive integers.");
+  }
+  // RFC 7914: p <= (2^32 - 1) * 32 / (128 * r), and N < 2^(128 * r / 8)
+  if (r * p >= 2 ** 30 || (r < 4 && N >= 2 ** (16 * r))) {
+    throw new RangeError("scrypt parameters are out of range.");
+  }
+  const memory = 128 * r * (N + p);
+  if (memory > maxmem) {
+    throw new RangeError(
+      `scrypt parameters need ${memory} bytes of memory, above the maxmem limit of ${maxmem}.`,
+    );
+  }
+  return { N, r, p, maxmem };
+}
+
+async function _pbkdf2(
+  password: BufferSource,
+  salt: BufferSource,
+  length: number,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const baseKey = await crypto.subtle.importKey("raw", password, "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations: 1 },
+    baseKey,
+    length * 8,
+  );
+  return new Uint8Array(bits);
+}
+
+function _rotl(value: number, shift: number): number {
+  return (value << shift) | (value >>> (32 - shift));
+}
+
+/**
+ * Salsa20/8 core over `x ^ input[inOffset..+16]`. The result is kept in `x`
+ * (it feeds the next block) and copied to `out[outOffset..+16]`.
+ */
+function _salsa8Xor(
+  x: Uint32Array,
+  input: Uint32Array,
+  inOffset: number,
+  out: Uint32Array,
+  outOffset: number,
+): void {
+  for (let i = 0; i < 16; i++) x[i] ^= input[inOffset + i]!;
+
+  let x0 = x[0]!;
+  let x1 = x[1]!;
+  let x2 = x[2]!;
+  let x3 = x[3]!;
+  let x4 = x[4]!;
+  let x5 = x[5]!;
+  let x6 = x[6]!;
+  let x7 = x[7]!;
+  let x8 = x[8]!;
+  let x9 = x[9]!;
+  let x10 = x[10]!;
+  let x11 = x[11]!;
+  let x12 = x[12]!;
+  let x13 = x[13]!;
+  let x14 = x[14]!;
+  let x15 = x[15]!;
+  for (let round = 0; round < 8; round += 2) {
+    // Columns
+    x4 ^= _rotl(x0 + x12, 7);
+    x8 ^= _rotl(x4 + x0, 9);
+    x12 ^= _rotl(x8 + x4, 13);
+    x0 ^= _rotl(x12 + x8, 18);
+    x9 ^= _rotl(x5 + x1, 7);
+    x13 ^= _rotl(x9 + x5, 9);
+    x1 ^= _rotl(x13 + x9, 13);
+    x5 ^= _rotl(x1 + x13, 18);
+    x14 ^= _rotl(x10 + x6, 7);
+    x2 ^= _rotl(x14 + x10, 9);
+    x6 ^= _rotl(x2 + x14, 13);
+    x10 ^= _rotl(x6 + x2, 18);
+    x3 ^= _rotl(x15 + x11, 7);
+    x7 ^= _rotl(x3 + x15, 9);
+    x11 ^= _rotl(x7 + x3, 13);
+    x15 ^= _rotl(x11 + x7, 18);
+    // Rows
+    x1 ^= _rotl(x0 + x3, 7);
+    x2 ^= _rotl(x1 + x0, 9);
+    x3 ^= _rotl(x2 + x1, 13);
+    x0 ^= _rotl(x3 + x2, 18);
+    x6 ^= _rotl(x5 + x4, 7);
+    x7 ^= _rotl(x6 + x5, 9);
+    x4 ^= _rotl(x7 + x6, 13);
+    x5 ^= _rotl(x4 + x7, 18);
+    x11 ^= _rotl(x10 + x9, 7);
+    x8 ^= _rotl(x11 + x10, 9);
+    x9 ^= _rotl(x8 + x11, 13);
+    x10 ^= _rotl(x9 + x8, 18);
+    x12 ^= _rotl(x15 + x14, 7);
+    x13 ^= _rotl(x12 + x15, 9);
+    x14 ^= _rotl(x13 + x12, 13);
+    x15 ^= _rotl(x14 + x13, 18);
+  }
+  x[0] += x0;
+  x[1] += x1;
+  x[2] += x2;
+  x[3] += x3;
+  x[4] += x4;
+  x[5] += x5;
+  x[6] += x6;
+  x[7] += x7;
+  x[8] += x8;
+  x[9] += x9;
+  x[10] += x10;
+  x[11] += x11;
+  x[12] += x12;
+  x[13] += x13;
+  x[14] += x14;
+  x[15] += x15;
+  out.set(x, outOffset);
+}
+
+/** scryptBlockMix: even output blocks go to the first half, odd to the second. */
+function _blockMix(
+  input: Uint32Array,
+  inOffset: number,
+  out: Uint32Array,
+  outOffset: number,
+  r: number,
+  x: Uint32Array,
+): void {
+  x.set(input.subarray(inOffset + (2 * r - 1) * 16, inOffset + 2 * r * 16));
+  for (let i = 0; i < 2 * r; i++) {
+    _salsa8Xor(x, input, inOffset + i * 16, out, outOffset + ((i >> 1) + (i & 1) * r) * 16);
+  }
+}
+
+/** scryptROMix over `b[offset..+32r]`, in place, yielding every `TICK_MS`. */
+async function _roMix(
+  b: Uint32Array,
+  offset: number,
+  N: number,
+  r: number,
+  v: Uint32Array,
+): Promise<void> {
+  const blockWords = 32 * r;
+  const x = new Uint32Array(16);
+  let a = new Uint32Array(blockWords);
+  let c = new Uint32Array(blockWords);
+  let deadline = Date.now() + TICK_MS;
+
+  v.set(b.subarray(offset, offset + blockWords));
+  for (let i = 0; i < N - 1; i++) {
+    _blockMix(v, i * blockWords, v, (i + 1) * blockWords, r, x);
+    if ((i & 0xff) === 0 && Date.now() > deadline) {
+      await yieldToEventLoop();
+      deadline = Date.now() + TICK_MS;
+    }
+  }
+  _blockMix(v, (N - 1) * blockWords, a, 0, r, x);
+
+  for (let i = 0; i < N; i++) {
+    const j = a[blockWords - 16]! & (N - 1);
+    for (let k = 0; k < blockWords; k++) a[k] ^= v[j * blockWords + k]!;
+    _blockMix(a, 0, c, 0, r, x);
+    [a, c] = [c, a];
+    if ((i & 0xff) === 0 && Date.now() > deadline) {
+      await yieldToEventLoop();
+      deadline = Date.now() + TICK_MS;
+    }
+  }
+  b.set(a, offset);
+}
+
+async function _scrypt(
+  password: Uint8Array,
+  salt: Uint8Array,
+  params: Required<ScryptParams>,
+  dkLen: number,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const { N, r, p } = params;
+  const blockWords = 32 * r;
+  const bytes = await _pbkdf2(password as BufferSource, salt as BufferSource, p * 128 * r);
+
+  // Salsa20 works on little-endian 32-bit words
+  const b = new Uint32Array(p * blockWords);
+  for (let i = 0; i < b.length; i++) {
+    b[i] =
+      bytes[i * 4]! |
+      (bytes[i * 4 + 1]! << 8) |
+      (bytes[i * 4 + 2]! << 16) |
+      (bytes[i * 4 + 3]! << 24);
+  }
+  const v = new Uint32Array(N * blockWords);
+  for (let i = 0; i < p; i++) await _roMix(b, i * blockWords, N, r, v);
+  for (let i = 0; i < b.length; i++) {
+    const word = b[i]!;
+    bytes[i * 4] = word;
+    bytes[i * 4 + 1] = word >>> 8;
+    bytes[i * 4 + 2] = word >>> 16;
+    bytes[i * 4 + 3] = word >>> 24;
+  }
+
+  return _pbkdf2(password as BufferSource, bytes, dkLen);
+}
+
+function _resolveHashOptions(options: ScryptHashOptions | undefined): {
+  params: Required<ScryptParams>;
+  saltLength: number;
+  hashLength: number;
+} {
+  const { saltLength = _MIN_LENGTH, hashLength = 32 } = options ?? {};
+  if (!Number.isInteger(saltLength) || saltLength < _MIN_LENGTH) {
+    throw new RangeError(`saltLength must be an integer of at least ${_MIN_LENGTH}.`);
+  }
+  if (!Number.isInteger(hashLength) || hashLength < _MIN_LENGTH) {
+    throw new RangeError(`hashLength must be an integer of at least ${_MIN_LENGTH}.`);
+  }
+  return { params: _resolveParams(options), saltLength, hashLength };
+}
+
+// #endregion
+
+/**
+ * Derive a key with scrypt (RFC 7914).
+ *
+ * Runs in pure TypeScript, since Web Crypto has no scrypt; only the PBKDF2
+ * steps go through `crypto.subtle`. The memory-hard loop yields to the event
+ * loop every few milliseconds, so long derivations don't block timers or I/O.
+ *
+ * When `returnAs` is not specified, the return type mirrors the `password` input:
+ * - `string` password returns a hex `string`
+ * - `BufferSource` password returns a `Uint8Array<ArrayBuffer>`
+ *
+ * @param password The password, as a string (UTF-8) or raw bytes.
+ * @param salt The salt, as a string (UTF-8) or raw bytes.
+ * @param options Cost parameters, memory limit, key length and output format.
+ * @returns A Promise that resolves to the derived key.
+ * @throws {RangeError} If a parameter is invalid or needs more than `maxmem` bytes.
+ *
+ * @example
+ * const key = await scrypt(password, salt, { N: 2 ** 15, r: 8, p: 1, returnAs: "bytes" });
+ */
+export async function scrypt<T extends DigestReturnAs>(
+  password: string | BufferSource,
+  salt: string | BufferSource,
+  options: ScryptOptions & { returnAs: T },
+): Promise<T extends "uint8array" | "bytes" ? Uint8Array<ArrayBuffer> : string>;
+export async function scrypt(
+  password: string,
+  salt: string | BufferSource,
+  options?: Omit<ScryptOptions, "returnAs">,
+): Promise<string>;
+export async function scrypt(
+  password: BufferSource,
+  salt: string | BufferSource,
+  options?: Omit<ScryptOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer>>;
+export async function scrypt(
+  password: string | BufferSource,
+  salt: string | BufferSource,
+  options?: Omit<ScryptOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer> | string>;
+export async function scrypt(
+  password: string | BufferSource,
+  salt: string | BufferSource,
+  options: ScryptOptions = {},
+): Promise<Uint8Array<ArrayBuffer> | string> {
+  const { dkLen = 32, returnAs } = options;
+  if (!Number.isSafeInteger(dkLen) || dkLen < 1 || dkLen > (2 ** 32 - 1) * 32) {
+    throw new RangeError("scrypt dkLen must be a positive integer.");
+  }
+  const params = _resolveParams(options);
+  const bytes = await _scrypt(toBytes(password), toBytes(salt), params, dkLen);
+  const effectiveReturnAs = returnAs ?? (typeof password === "string" ? "hex" : "uint8array");
+  return encodeBytes(bytes, effectiveReturnAs, "scrypt");
+}
+
+/**
+ * Hash a password with scrypt for storage.
+ *
+ * Returns a PHC string: `$scrypt$ln=17,r=8,p=1$<salt>$<hash>`, where `ln` is
+ * log2(N) and salt and hash are unpadded standard base64. A fresh random salt
+ * is generated on every call.
+ *
+ * @param password The password, as a string (UTF-8) or raw bytes.
+ * @param options Cost parameters, memory limit, salt and hash lengths.
+ * @returns A Promise that resolves to the PHC string.
+ * @throws {RangeError} If a parameter is invalid or needs more than `maxmem` bytes.
+ *
+ * @example
+ * const stored = await scryptHash("correct horse battery staple");
+ */
+export async function scryptHash(
+  password: string | BufferSource,
+  options?: ScryptHashOptions,
+): Promise<string> {
+  const { params, saltLength, hashLength } = _resolveHashOptions(options);
+  const salt = secureRandomBytes(saltLength);
+  const hash = await _scrypt(toBytes(password), salt, params, hashLength);
+  return formatPHC({
+    id: "scrypt",
+    params: { ln: String(Math.log2(params.N)), r: String(params.r), p: String(params.p) },
+    salt,
+    hash,
+  });
+}
+
+/**
+ * Verify a password against a `$scrypt$` PHC string produced by {@link scryptHash}.
+ *
+ * The stored parameters are checked against `policy.maxmem` before any work
+ * is done. `needsRehash` is set when the password matched but `N`, `r`, `p`,
+ * the salt or the hash fall below `policy` (the {@link scryptHash} defaults
+ * when omitted).
+ *
+ * @param password The candidate password.
+ * @param phc The stored PHC string.
+ * @param policy The current hashing policy.
+ * @returns A Promise that resolves to `{ valid, needsRehash, algorithm }`.
+ * @throws {SyntaxError} If `phc` is not a well-formed `$scrypt$` PHC string.
+ * @throws {RangeError} If the stored parameters are invalid or exceed `maxmem`.
+ *
+ * @example
+ * const { valid, needsRehash } = await scryptVerify(input, user.passwordHash);
+ * if (valid && needsRehash) user.passwordHash = await scryptHash(input);
+ */
+export async function scryptVerify(
+  password: string | BufferSource,
+  phc: string,
+  policy?: ScryptHashOptions,
+): Promise<PasswordVerifyResult> {
+  const target = _resolveHashOptions(policy);
+  const parsed = parsePHC(phc);
+  if (
+    parsed.id !== "scrypt" ||
+    parsed.version !== undefined ||
+    Object.keys(parsed.params).length !== 3
+  ) {
+    throw new SyntaxError("Malformed PHC string.");
+  }
+  const ln = phcInteger(parsed, "ln");
+  if (ln < 1 || ln > 52) throw new RangeError("scrypt N must be a power of two greater than 1.");
+  const params = _resolveParams({
+    N: 2 ** ln,
+    r: phcInteger(parsed, "r"),
+    p: phcInteger(parsed, "p"),
+    maxmem: target.params.maxmem,
+  });
+
+  const derived = await _scrypt(toBytes(password), parsed.salt, params, parsed.hash.length);
+  const valid = secureCompare(parsed.hash, derived);
+  const needsRehash =
+    valid &&
+    (params.N < target.params.N ||
+      params.r < target.params.r ||
+      params.p < target.params.p ||
+      parsed.salt.length < target.saltLength ||
+      parsed.hash.length < target.hashLength);
+  return { valid, needsRehash, algorithm: "scrypt" };
+}
@@ -0,0 +1,260 @@
+import type { DigestReturnAs } from "./hash.ts";
+import { encodeBytes, toBytes } from "./_internal/encoding.ts";
+import { isBufferSource, isCryptoKey, PRIVATE_JWK_MEMBERS } from "./_internal/keys.ts";
+import { rawPrivateKeyDER } from "./_internal/pem.ts";
+import { Base64, Hex, textEncoder } from "./utils/index.ts";
+import { importKey } from "./keys.ts";
+
+/**
+ * Signature algorithms: Ed25519, or ECDSA with the curve and hash pairs JOSE
+ * uses (P-256 / SHA-256, P-384 / SHA-384, P-521 / SHA-512).
+ */
+export type SignatureAlgorithm = "Ed25519" | "ES256" | "ES384" | "ES512";
+
+/**
+ * A signing or verification key: a `CryptoKey`, a JWK, or raw bytes (an
+ * Ed25519 seed or public key, an EC private scalar or uncompressed point).
+ */
+export type SignatureKey = CryptoKey | JsonWebKey | BufferSource;
+
+export interface SignOptions {
+  /**
+   * The signature algorithm. Read from the key when not specified; only
+   * needed for raw 32-byte private keys, which default to Ed25519.
+   */
+  algorithm?: SignatureAlgorithm;
+  /**
+   * Whether to output to HEX, Base64, Base64URL or Uint8Array.
+   *
+   * When not specified, mirrors the `data` input type:
+   * - `string` data defaults to `'hex'`
+   * - `BufferSource` data defaults to `'uint8array'`
+   */
+  returnAs?: DigestReturnAs;
+}
+
+// #region Internals
+
+const _CURVES: Record<string, SignatureAlgorithm> = {
+  "P-256": "ES256",
+  "P-384": "ES384",
+  "P-521": "ES512",
+};
+
+const _PARAMS: Record<SignatureAlgorithm, { crv: string; hash?: string; pointLength?: number }> = {
+  Ed25519: { crv: "Ed25519" },
+  ES256: { crv: "P-256", hash: "SHA-256", pointLength: 65 },
+  ES384: { crv: "P-384", hash: "SHA-384", pointLength: 97 },
+  ES512: { crv: "P-521", hash: "SHA-512", pointLength: 133 },
+};
+
+/** The algorithm a `CryptoKey` or JWK is for, or `undefined` if it is neither Ed25519 nor ECDSA. */
+function _keyAlgorithm(key: CryptoKey | JsonWebKey): SignatureAlgorithm | undefined {
+  if (isCryptoKey(key)) {
+    const { name, namedCurve } = key.algorithm as EcKeyAlgorithm;
+    if (name === "Ed25519") return "Ed25519";
+    return name === "ECDSA" && Object.hasOwn(_CURVES, namedCurve) ? _CURVES[namedCurve] : undefined;
+  }
+  if (key.kty === "OKP" && key.crv === "Ed25519") return "Ed25519";
+  return key.kty === "EC" && key.crv !== undefined && Object.hasOwn(_CURVES, key.crv)
+    ? _CURVES[key.crv]
+    : undefined;
+}
+
+/** Infer the algorithm of raw key bytes from their length. */
+function _rawAlgorithm(length: number, usage: KeyUsage): SignatureAlgorithm | undefined {
+  if (length === 32) return "Ed25519";
+  const algorithms = Object.keys(_PARAMS) as SignatureAlgorithm[];
+  return usage === "sign"
+    ? algorithms.find((alg) => (_PARAMS[alg].pointLength! - 1) / 2 === length)
+    : algorithms.find((alg) => _PARAMS[alg].pointLength === length);
+}
+
+async function _importKey(
+  key: SignatureKey,
+  usage: "sign" | "verify",
+  requested: SignatureAlgorithm | undefined,
+): Promise<{ key: CryptoKey; algorithm: SignatureAlgorithm }> {
+  if (requested !== undefined && !Object.hasOwn(_PARAMS, requested)) {
+    throw new TypeError(`Unsupported signature algorithm: ${String(requested)}`);
+  }
+  const half = usage === "sign" ? "private" : "public";
+
+  if (isBufferSource(key)) {
+    const bytes = toBytes(key);
+    const algorithm = requested ?? _rawAlgorithm(bytes.length, usage);
+    if (!algorithm) throw new RangeError(`Unexpected raw ${half} key length: ${bytes.length}.`);
+    const { crv } = _PARAMS[algorithm];
+    const params = algorithm === "Ed25519" ? { name: crv } : { name: "ECDSA", namedCurve: crv };
+    if (usage === "sign") {
+      const der = rawPrivateKeyDER(crv, bytes);
+      return {
+        key: await crypto.subtle.importKey("pkcs8", der, params, false, [usage]),
+        algorithm,
+      };
+    }
+    const expected = _PARAMS[algorithm].pointLength ?? 32;
+    if (bytes.length !== expected) {
+      throw new RangeError(`${crv} public keys are ${expected} bytes, got ${bytes.length}.`);
+    }
+    return { key: await crypto.subtle.importKey("raw", bytes, params, true, [usage]), algorithm };
+  }
+
+  if (typeof key !== "object" || key === null) {
+    throw new TypeError("Signature keys must be a CryptoKey, a JWK or raw bytes.");
+  }
+  const algorithm = _keyAlgorithm(key);
+  if (!algorithm) throw new TypeError("Signature keys must be Ed25519 or ECDSA keys.");
+  if (requested !== undefined && requested !== algorithm) {
+    throw new TypeError(`Algorithm ${requested} does not fit this ${algorithm} key.`);
+  }
+
+  if (isCryptoKey(key)) {
+    if (key.type !== half) throw new TypeError(`Expected a ${half} key, got a ${key.type} key.`);
+    return { key, algorithm };
+  }
+  if (usage === "sign" && key.d === undefined) {
+    throw new TypeError("Expected a private JWK.");
+  }
+  let jwk: JsonWebKey = key;
+  if (usage === "verify") {
+    jwk = { ...key };
+    for (const member of PRIVATE_JWK_MEMBERS) delete jwk[member];
+    delete jwk.key_ops;
+  }
+  return { key: await importKey(jwk, { usages: [usage] }), algorithm };
+}
+
+function _signParams(algorithm: SignatureAlgorithm): Algorithm | EcdsaParams {
+  const { hash } = _PARAMS[algorithm];
+  return hash ? { name: "ECDSA", hash } : { name: "Ed25519" };
+}
+
+/** Decode a signature in the format {@link sign} produced it in; `undefined` if malformed. */
+function _decodeSignature(
+  signature: string | BufferSource,
+  returnAs: DigestReturnAs | undefined,
+): Uint8Array<ArrayBuffer> | undefined {
+  if (typeof signature !== "string") return toBytes(signature);
+  try {
+    switch (returnAs) {
+      case "b64":
+      case "base64": {
+        return Base64.parse(signature, { returnAs: "bytes" });
+      }
+      case "b64url":
+      case "base64url": {
+        return Base64.parse(signature, { alphabet: "base64url", returnAs: "bytes" });
+      }
+      default: {
+        return Hex.parse(signature, { returnAs: "bytes" });
+      }
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+// #endregion
+
+/**
+ * Sign data with an Ed25519 or ECDSA private key.
+ *
+ * When `returnAs` is not specified, the return type mirrors the `data` input:
+ * - `string` data returns a hex `string`
+ * - `BufferSource` data returns a `Uint8Array<ArrayBuffer>`
+ *
+ * Use the `returnAs` option to explicitly override the output format.
+ *
+ * The algorithm is read from the key: a `CryptoKey`'s algorithm and curve, or
+ * a JWK's `kty` and `crv`. Raw private keys are Ed25519 seeds (32 bytes) or EC
+ * scalars (48 bytes for P-384, 66 for P-521; 32-byte P-256 scalars need
+ * `algorithm: "ES256"`). ECDSA signatures are the fixed-size R || S form Web
+ * Crypto and JOSE use, not DER, and differ on every call; Ed25519 signatures
+ * are deterministic.
+ *
+ * @param privateKey The private key: a `CryptoKey`, a private JWK, or raw bytes.
+ * @param data The data to sign. Can be a string or any BufferSource.
+ * @param options Configuration options (algorithm, returnAs).
+ * @returns A Promise that resolves to the signature.
+ * @throws {TypeError} If the key is not an Ed25519 or ECDSA private key, or does not fit `algorithm`.
+ * @throws {RangeError} If raw key bytes have the wrong length.
+ *
+ * @example
+ * const { privateKey, publicKey } = await generateKeyPair("Ed25519");
+ * const signature = await sign(privateKey, "hello world"); // 128 hex characters
+ * const valid = await verify(publicKey, "hello world", signature); // true
+ *
+ * @example
+ * // Raw Ed25519 seed, base64url output
+ * const signature = await sign(seed, message, { returnAs: "base64url" });
+ */
+export async function sign<T extends DigestReturnAs>(
+  privateKey: SignatureKey,
+  data: string | BufferSource,
+  options: SignOptions & { returnAs: T },
+): Promise<T extends "uint8array" | "bytes" ? Uint8Array<ArrayBuffer> : string>;
+export async function sign(
+  privateKey: SignatureKey,
+  data: string,
+  options?: Omit<SignOptions, "returnAs">,
+): Promise<string>;
+export async function sign(
+  privateKey: SignatureKey,
+  data: BufferSource,
+  options?: Omit<SignOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer>>;
+export async function sign(
+  privateKey: SignatureKey,
+  data: string | BufferSource,
+  options?: Omit<SignOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer> | string>;
+export async function sign(
+  privateKey: SignatureKey,
+  data: string | BufferSource,
+  options: SignOptions = {},
+): Promise<Uint8Array<ArrayBuffer> | string> {
+  const { returnAs } = options;
+  const isBufferInput = typeof data !== "string";
+  const effectiveReturnAs = returnAs ?? (isBufferInput ? "uint8array" : "hex");
+
+  const { key, algorithm } = await _importKey(privateKey, "sign", options.algorithm);
+  const dataBuffer = typeof data === "string" ? textEncoder.encode(data) : data;
+  const signature = await crypto.subtle.sign(_signParams(algorithm), key, dataBuffer);
+  return encodeBytes(new Uint8Array(signature), effectiveReturnAs, "sign");
+}
+
+/**
+ * Verify an Ed25519 or ECDSA signature.
+ *
+ * String signatures are decoded with the encoding named by `returnAs` (hex by
+ * default), matching what {@link sign} produced with the same options; byte
+ * signatures are used as they are. A malformed signature verifies as `false`.
+ *
+ * @param publicKey The public key: a `CryptoKey`, a JWK (private members are ignored), or raw bytes.
+ * @param data The data that was signed.
+ * @param signature The signature to verify.
+ * @param options Configuration options (algorithm, returnAs). Must match those used to produce the signature.
+ * @returns A Promise that resolves to `true` if the signature is valid.
+ * @throws {TypeError} If the key is not an Ed25519 or ECDSA public key, or does not fit `algorithm`.
+ * @throws {RangeError} If raw key bytes have the wrong length.
+ *
+ * @example
+ * const valid = await verify(publicKeyJwk, body, request.headers.get("x-signature")!);
+ *
+ * @example
+ * // Raw uncompressed P-256 point, base64 signature
+ * const valid = await verify(point, message, signature, { returnAs: "base64" });
+ */
+export async function verify(
+  publicKey: SignatureKey,
+  data: string | BufferSource,
+  signature: string | BufferSource,
+  options: SignOptions = {},
+): Promise<boolean> {
+  const { key, algorithm } = await _importKey(publicKey, "verify", options.algorithm);
+  const signatureBytes = _decodeSignature(signature, options.returnAs);
+  if (!signatureBytes) return false;
+  const dataBuffer = typeof data === "string" ? textEncoder.encode(data) : data;
+  return crypto.subtle.verify(_signParams(algorithm), key, signatureBytes, dataBuffer);
+}
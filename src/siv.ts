@@ -0,0 +1,303 @@
+import {
+  assertEnvelopeReturnAs,
+  assertPlaintextReturnAs,
+  DECRYPTION_FAILED,
+  parseEnvelope,
+} from "./_internal/envelope.ts";
+import { encodeBytes, toBytes } from "./_internal/encoding.ts";
+import { isCryptoKey } from "./_internal/keys.ts";
+import type { DecryptOptions, EnvelopeReturnAs } from "./encrypt.ts";
+import { type DecodeReturnAs, textDecoder } from "./utils/index.ts";
+
+/**
+ * Raw AES-SIV key bytes: 32, 48 or 64 bytes (AES-SIV-CMAC-256 / -384 / -512).
+ * The first half keys S2V (AES-CMAC), the second half AES-CTR.
+ */
+export type SIVKey = BufferSource;
+
+/**
+ * Associated data for AES-SIV: one value, or a list of components that are
+ * authenticated separately (RFC 5297's vector of strings). Put a nonce last
+ * to get randomized, nonce-based SIV.
+ */
+export type SIVAssociatedData = string | BufferSource | readonly (string | BufferSource)[];
+
+export interface SIVEncryptOptions {
+  /** Associated data, bound to the ciphertext and required again by {@link sivDecrypt}. */
+  aad?: SIVAssociatedData;
+  /**
+   * Envelope encoding.
+   *
+   * When not specified, mirrors the plaintext type:
+   * - `string` plaintext defaults to `'base64url'`
+   * - `BufferSource` plaintext defaults to `'uint8array'`
+   */
+  returnAs?: EnvelopeReturnAs;
+}
+
+export interface SIVDecryptOptions extends Omit<DecryptOptions, "aad"> {
+  /** Associated data given to {@link sivEncrypt}, with the same components. */
+  aad?: SIVAssociatedData;
+}
+
+// #region Internals
+
+/** Envelope version; continues after `encrypt()`, `chachaEncrypt()` and the stream header. */
+const _VERSION = 0x06;
+const _BLOCK = 16;
+/** S2V takes at most 127 components, one of which is the plaintext. */
+const _MAX_AAD_COMPONENTS = 126;
+
+interface _SIVKeys {
+  /** S2V key, as AES-CBC: CMAC is the last block of a zero-IV CBC pass. */
+  mac: CryptoKey;
+  ctr: CryptoKey;
+  /** CMAC subkeys K1 and K2 (RFC 4493, section 2.3). */
+  k1: Uint8Array;
+  k2: Uint8Array;
+}
+
+async function _importKeys(key: SIVKey): Promise<_SIVKeys> {
+  if (typeof key === "string") {
+    throw new TypeError(
+      "Encryption keys must be bytes. Derive a key from a password with deriveKeyFromPassword().",
+    );
+  }
+  if (isCryptoKey(key)) {
+    throw new TypeError("AES-SIV keys must be raw bytes: they split into a CMAC and a CTR key.");
+  }
+  const bytes = toBytes(key);
+  if (bytes.length !== 32 && bytes.length !== 48 && bytes.length !== 64) {
+    throw new RangeError(`AES-SIV keys must be 32, 48 or 64 bytes, got ${bytes.length}.`);
+  }
+  const half = bytes.length / 2;
+  const mac = await crypto.subtle.importKey("raw", bytes.subarray(0, half), "AES-CBC", false, [
+    "encrypt",
+  ]);
+  const ctr = await crypto.subtle.importKey("raw", bytes.subarray(half), "AES-CTR", false, [
+    "encrypt",
+  ]);
+  const k1 = _dbl(await _cbcMac(mac, new Uint8Array(_BLOCK)));
+  return { mac, ctr, k1, k2: _dbl(k1) };
+}
+
+/** Doubling in GF(2^128): shift left one bit, reduce with 0x87. */
+function _dbl(block: Uint8Array): Uint8Array {
+  const out = new Uint8Array(_BLOCK);
+  for (let i = 0; i < _BLOCK; i++) {
+    out[i] = ((block[i]! << 1) | ((block[i + 1] ?? 0) >>> 7)) & 0xff;
+  }
+  if (block[0]! & 0x80) out[_BLOCK - 1]! ^= 0x87;
+  return out;
+}
+
+function _xor(a: Uint8Array, b: Uint8Array): Uint8Array {
+  return a.map((byte, i) => byte ^ b[i]!);
+}
+
+/** CBC-MAC of whole blocks: the last block of AES-CBC under a zero IV, before Web Crypto's padding block. */
+async function _cbcMac(key: CryptoKey, blocks: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-CBC", iv: new Uint8Array(_BLOCK) },
+    key,
+    blocks,
+  );
+  return new Uint8Array(encrypted, blocks.length - _BLOCK, _BLOCK);
+}
+
+/** AES-CMAC (RFC 4493). */
+function _cmac(keys: _SIVKeys, message: Uint8Array): Promise<Uint8Array> {
+  const complete = message.length > 0 && message.length % _BLOCK === 0;
+  const padded = new Uint8Array(
+    complete ? message.length : (Math.floor(message.length / _BLOCK) + 1) * _BLOCK,
+  );
+  padded.set(message);
+  if (!complete) padded[message.length] = 0x80;
+  const last = padded.length - _BLOCK;
+  padded.set(_xor(padded.subarray(last), complete ? keys.k1 : keys.k2), last);
+  return _cbcMac(keys.mac, padded);
+}
+
+/** S2V (RFC 5297, section 2.4): the synthetic IV over the associated data and plaintext. */
+async function _s2v(keys: _SIVKeys, aad: Uint8Array[], plaintext: Uint8Array): Promise<Uint8Array> {
+  let d = await _cmac(keys, new Uint8Array(_BLOCK));
+  for (const component of aad) d = _xor(_dbl(d), await _cmac(keys, component));
+
+  if (plaintext.length >= _BLOCK) {
+    const t = plaintext.slice();
+    const end = t.length - _BLOCK;
+    t.set(_xor(t.subarray(end), d), end);
+    return _cmac(keys, t);
+  }
+  const padded = new Uint8Array(_BLOCK);
+  padded.set(plaintext);
+  padded[plaintext.length] = 0x80;
+  return _cmac(keys, _xor(_dbl(d), padded));
+}
+
+/** AES-CTR from the synthetic IV with bits 63 and 31 cleared (RFC 5297, section 2.5). */
+async function _ctr(
+  keys: _SIVKeys,
+  iv: Uint8Array,
+  data: Uint8Array<ArrayBuffer>,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const counter = iv.slice();
+  counter[8]! &= 0x7f;
+  counter[12]! &= 0x7f;
+  const out = await crypto.subtle.encrypt({ name: "AES-CTR", counter, length: 64 }, keys.ctr, data);
+  return new Uint8Array(out);
+}
+
+function _aadComponents(aad: SIVAssociatedData | undefined): Uint8Array[] {
+  if (aad === undefined) return [];
+  const components = Array.isArray(aad) ? aad : [aad as string | BufferSource];
+  if (components.length > _MAX_AAD_COMPONENTS) {
+    throw new RangeError(
+      `AES-SIV takes at most ${_MAX_AAD_COMPONENTS} associated data components.`,
+    );
+  }
+  return components.map((component) => toBytes(component));
+}
+
+// #endregion
+
+/**
+ * Encrypt data deterministically with AES-SIV (RFC 5297).
+ *
+ * The same key, associated data and plaintext always give the same envelope,
+ * so ciphertexts can be compared for equality (e.g. an indexed, encrypted
+ * email column) without decrypting. That is also what it leaks: anyone who
+ * sees two envelopes learns whether the plaintexts are equal. Use
+ * `encrypt()` when that is not wanted, or add a nonce as the last `aad`
+ * component. Reusing a nonce by mistake only reveals equality, never the
+ * plaintext or the key.
+ *
+ * Envelope layout:
+ *
+ * ```
+ * version (1 byte, 0x06) | synthetic IV (16 bytes) | ciphertext
+ * ```
+ *
+ * After the version byte this is exactly the RFC 5297 output `V || C`.
+ *
+ * When `returnAs` is not specified, the return type mirrors the plaintext:
+ * - `string` plaintext returns a base64url `string`
+ * - `BufferSource` plaintext returns a `Uint8Array<ArrayBuffer>`
+ *
+ * @param key 32, 48 or 64 raw key bytes.
+ * @param plaintext The data to encrypt. Strings are UTF-8 encoded.
+ * @param options Associated data (one value or a list of components) and envelope encoding.
+ * @returns A Promise that resolves to the envelope.
+ * @throws {TypeError} If `key` is a string or a `CryptoKey`.
+ * @throws {RangeError} If `key` is not 32, 48 or 64 bytes, or `aad` has more than 126 components.
+ *
+ * @example
+ * const key = secureRandomBytes(64);
+ * const lookup = await sivEncrypt(key, email.toLowerCase(), { aad: "users.email" });
+ * await db.query("SELECT * FROM users WHERE email_enc = ?", [lookup]);
+ */
+export async function sivEncrypt<T extends EnvelopeReturnAs>(
+  key: SIVKey,
+  plaintext: string | BufferSource,
+  options: SIVEncryptOptions & { returnAs: T },
+): Promise<T extends "uint8array" | "bytes" ? Uint8Array<ArrayBuffer> : string>;
+export async function sivEncrypt(
+  key: SIVKey,
+  plaintext: string,
+  options?: Omit<SIVEncryptOptions, "returnAs">,
+): Promise<string>;
+export async function sivEncrypt(
+  key: SIVKey,
+  plaintext: BufferSource,
+  options?: Omit<SIVEncryptOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer>>;
+export async function sivEncrypt(
+  key: SIVKey,
+  plaintext: string | BufferSource,
+  options?: Omit<SIVEncryptOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer> | string>;
+export async function sivEncrypt(
+  key: SIVKey,
+  plaintext: string | BufferSource,
+  options: SIVEncryptOptions = {},
+): Promise<Uint8Array<ArrayBuffer> | string> {
+  const returnAs = options.returnAs ?? (typeof plaintext === "string" ? "base64url" : "uint8array");
+  assertEnvelopeReturnAs(returnAs, "sivEncrypt");
+  const aad = _aadComponents(options.aad);
+  const keys = await _importKeys(key);
+
+  const data = toBytes(plaintext);
+  const iv = await _s2v(keys, aad, data);
+  const ciphertext = await _ctr(keys, iv, data);
+
+  const envelope = new Uint8Array(1 + _BLOCK + ciphertext.length);
+  envelope[0] = _VERSION;
+  envelope.set(iv, 1);
+  envelope.set(ciphertext, 1 + _BLOCK);
+  return encodeBytes(envelope, returnAs, "sivEncrypt");
+}
+
+/**
+ * Decrypt an envelope produced by {@link sivEncrypt}.
+ *
+ * String envelopes may be base64url or hex. Every envelope problem —
+ * malformed encoding, truncation, unknown version, wrong key, different
+ * associated data or a tampered synthetic IV — fails with the same
+ * `Error("Decryption failed.")`.
+ *
+ * When `returnAs` is not specified, the plaintext type mirrors the envelope:
+ * - `string` envelope returns the plaintext as a UTF-8 `string`
+ * - `BufferSource` envelope returns a `Uint8Array<ArrayBuffer>`
+ *
+ * @param key The key the envelope was encrypted with.
+ * @param envelope The envelope, as bytes or a base64url / hex string.
+ * @param options Associated data and plaintext shape.
+ * @returns A Promise that resolves to the plaintext.
+ * @throws {Error} `"Decryption failed."` if the envelope cannot be authenticated.
+ * @throws {TypeError} If `key` is a string or a `CryptoKey`.
+ * @throws {RangeError} If `key` is not 32, 48 or 64 bytes, or `aad` has more than 126 components.
+ *
+ * @example
+ * const email = await sivDecrypt(key, row.email_enc, { aad: "users.email" });
+ */
+export async function sivDecrypt<T extends DecodeReturnAs>(
+  key: SIVKey,
+  envelope: string | BufferSource,
+  options: SIVDecryptOptions & { returnAs: T },
+): Promise<T extends "string" ? string : Uint8Array<ArrayBuffer>>;
+export async function sivDecrypt(
+  key: SIVKey,
+  envelope: string,
+  options?: Omit<SIVDecryptOptions, "returnAs">,
+): Promise<string>;
+export async function sivDecrypt(
+  key: SIVKey,
+  envelope: BufferSource,
+  options?: Omit<SIVDecryptOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer>>;
+export async function sivDecrypt(
+  key: SIVKey,
+  envelope: string | BufferSource,
+  options?: Omit<SIVDecryptOptions, "returnAs">,
+): Promise<Uint8Array<ArrayBuffer> | string>;
+export async function sivDecrypt(
+  key: SIVKey,
+  envelope: string | BufferSource,
+  options: SIVDecryptOptions = {},
+): Promise<Uint8Array<ArrayBuffer> | string> {
+  const returnAs = options.returnAs ?? (typeof envelope === "string" ? "string" : "uint8array");
+  assertPlaintextReturnAs(returnAs, "sivDecrypt");
+  const aad = _aadComponents(options.aad);
+  const keys = await _importKeys(key);
+
+  const bytes = parseEnvelope(envelope);
+  if (bytes[0] !== _VERSION || bytes.length < 1 + _BLOCK) throw new Error(DECRYPTION_FAILED);
+  const iv = bytes.subarray(1, 1 + _BLOCK);
+  const plaintext = await _ctr(keys, iv, bytes.subarray(1 + _BLOCK));
+
+  const expected = await _s2v(keys, aad, plaintext);
+  let diff = 0;
+  for (let i = 0; i < _BLOCK; i++) diff |= expected[i]! ^ iv[i]!;
+  if (diff !== 0) throw new Error(DECRYPTION_FAILED);
+  return returnAs === "string" ? textDecoder.decode(plaintext) : plaintext;
+}
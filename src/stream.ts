@@ -0,0 +1,288 @@
+import { DECRYPTION_FAILED } from "./_internal/envelope.ts";
+import { toBytes } from "./_internal/encoding.ts";
+import { isCryptoKey } from "./_internal/keys.ts";
+import { hkdf } from "./hkdf.ts";
+import { secureRandomBytes } from "./random.ts";
+
+/**
+ * Raw key bytes (16, 24 or 32 bytes). The segment key is derived from it per
+ * stream, so it is never used for encryption directly.
+ */
+export type StreamKey = BufferSource;
+
+export interface EncryptStreamOptions {
+  /**
+   * Plaintext bytes per segment. Each segment adds a 16-byte tag, and the
+   * decryptor buffers one whole segment before releasing its plaintext.
+   *
+   * @default 65536 (64 KiB)
+   */
+  chunkSize?: number;
+  /**
+   * Additional authenticated data bound to every segment; the same value must
+   * be passed to {@link createDecryptStream}.
+   */
+  aad?: string | BufferSource;
+}
+
+export interface DecryptStreamOptions {
+  /** Additional authenticated data given to {@link createEncryptStream}. */
+  aad?: string | BufferSource;
+}
+
+// #region Internals
+
+/** Header version; continues the envelope versions of `encrypt()` and `chachaEncrypt()`. */
+const _VERSION = 0x05;
+const _NONCE_LENGTH = 32;
+/** version (1) | chunk size (4) | header nonce (32) */
+const _HEADER_LENGTH = 1 + 4 + _NONCE_LENGTH;
+const _PREFIX_LENGTH = 7;
+const _TAG_LENGTH = 16;
+const _DEFAULT_CHUNK_SIZE = 65_536;
+const _MAX_CHUNK_SIZE = 16_777_216;
+const _MAX_SEGMENTS = 0x1_0000_0000;
+const _INFO = "unsecure/stream/v1";
+
+interface _StreamKeys {
+  key: CryptoKey;
+  prefix: Uint8Array;
+  aad: Uint8Array<ArrayBuffer>;
+}
+
+function _keyBytes(key: StreamKey): Uint8Array<ArrayBuffer> {
+  if (typeof key === "string") {
+    throw new TypeError(
+      "Encryption keys must be bytes. Derive a key from a password with deriveKeyFromPassword().",
+    );
+  }
+  if (isCryptoKey(key)) {
+    throw new TypeError("Stream keys must be raw bytes: the segment key is derived from them.");
+  }
+  const bytes = toBytes(key);
+  if (bytes.length !== 16 && bytes.length !== 24 && bytes.length !== 32) {
+    throw new RangeError(`Stream keys must be 16, 24 or 32 bytes, got ${bytes.length}.`);
+  }
+  return bytes;
+}
+
+function _validChunkSize(chunkSize: number): boolean {
+  return Number.isInteger(chunkSize) && chunkSize >= 1 && chunkSize <= _MAX_CHUNK_SIZE;
+}
+
+/** Segment key and nonce prefix from HKDF-SHA-256 over the key, salted with the header nonce. */
+async function _streamKeys(
+  key: Uint8Array<ArrayBuffer>,
+  header: Uint8Array<ArrayBuffer>,
+  aad: string | BufferSource | undefined,
+): Promise<_StreamKeys> {
+  const okm = await hkdf(key, {
+    salt: header.subarray(5),
+    info: _INFO,
+    length: 32 + _PREFIX_LENGTH,
+  });
+  const extra = aad === undefined ? new Uint8Array(0) : toBytes(aad);
+  const segmentAad = new Uint8Array(_HEADER_LENGTH + extra.length);
+  segmentAad.set(header);
+  segmentAad.set(extra, _HEADER_LENGTH);
+  return {
+    key: await crypto.subtle.importKey("raw", okm.subarray(0, 32), "AES-GCM", false, [
+      "encrypt",
+      "decrypt",
+    ]),
+    prefix: okm.subarray(32),
+    aad: segmentAad,
+  };
+}
+
+/** prefix (7) | segment counter (4, big-endian) | last-segment flag (1) */
+function _segmentParams(keys: _StreamKeys, counter: number, last: boolean): AesGcmParams {
+  const nonce = new Uint8Array(12);
+  nonce.set(keys.prefix);
+  new DataView(nonce.buffer).setUint32(_PREFIX_LENGTH, counter);
+  nonce[11] = last ? 1 : 0;
+  return { name: "AES-GCM", iv: nonce, additionalData: keys.aad };
+}
+
+/**
+ * Fixed-size segment buffer. A full segment is only released once more
+ * input arrives, so the final segment is always the one left at flush.
+ */
+function _segmenter(
+  size: number,
+  onSegment: (segment: Uint8Array<ArrayBuffer>) => Promise<void>,
+): { push: (bytes: Uint8Array) => Promise<void>; rest: () => Uint8Array<ArrayBuffer> } {
+  const segment = new Uint8Array(size);
+  let filled = 0;
+  return {
+    async push(bytes) {
+      let offset = 0;
+      while (offset < bytes.length) {
+        if (filled === size) {
+          await onSegment(segment.slice());
+          filled = 0;
+        }
+        const take = Math.min(size - filled, bytes.length - offset);
+        segment.set(bytes.subarray(offset, offset + take), filled);
+        filled += take;
+        offset += take;
+      }
+    },
+    rest: () => segment.slice(0, filled),
+  };
+}
+
+// #endregion
+
+/**
+ * Create a `TransformStream` that encrypts a byte stream of any length with
+ * AES-256-GCM in fixed-size segments (the STREAM construction).
+ *
+ * A random header nonce is drawn for every stream, and {@link hkdf} derives
+ * the segment key and a nonce prefix from the key and that nonce. Each
+ * segment's nonce carries its position and a last-segment flag, so
+ * decryption detects reordered, dropped, truncated or appended segments.
+ * Memory use is bounded by one segment.
+ *
+ * Output layout:
+ *
+ * ```
+ * header:  version (1 byte, 0x05) | chunk size (4 bytes, big-endian) | header nonce (32 bytes)
+ * segment: ciphertext (chunk size bytes; the last one 0..chunk size) | tag (16 bytes)
+ * ```
+ *
+ * Key derivation and per-segment parameters:
+ *
+ * ```
+ * okm    = HKDF-SHA-256(ikm = key, salt = header nonce, info = "unsecure/stream/v1", L = 39)
+ * key    = okm[0..32]   (AES-256-GCM)
+ * prefix = okm[32..39]
+ * nonce  = prefix | segment index (4 bytes, big-endian) | 0x01 for the last segment, else 0x00
+ * aad    = header | aad option
+ * ```
+ *
+ * @param key 16, 24 or 32 raw key bytes.
+ * @param options Segment size and additional authenticated data.
+ * @returns A `TransformStream` from plaintext chunks (strings are UTF-8 encoded) to ciphertext bytes.
+ * @throws {TypeError} If `key` is a string or a `CryptoKey`.
+ * @throws {RangeError} If `key` is not 16, 24 or 32 bytes, or `chunkSize` is not between 1 and 16 MiB.
+ *
+ * @example
+ * const key = secureRandomBytes(32);
+ * await file.stream().pipeThrough(createEncryptStream(key)).pipeTo(destination);
+ */
+export function createEncryptStream(
+  key: StreamKey,
+  options: EncryptStreamOptions = {},
+): TransformStream<string | BufferSource, Uint8Array<ArrayBuffer>> {
+  const { chunkSize = _DEFAULT_CHUNK_SIZE, aad } = options;
+  const keyBytes = _keyBytes(key);
+  if (!_validChunkSize(chunkSize)) {
+    throw new RangeError(`chunkSize must be an integer between 1 and ${_MAX_CHUNK_SIZE}.`);
+  }
+
+  const header = new Uint8Array(_HEADER_LENGTH);
+  header[0] = _VERSION;
+  new DataView(header.buffer).setUint32(1, chunkSize);
+  header.set(secureRandomBytes(_NONCE_LENGTH), 5);
+
+  let keys: _StreamKeys;
+  let counter = 0;
+  let emit: (segment: Uint8Array<ArrayBuffer>) => void;
+  const seal = async (plaintext: Uint8Array<ArrayBuffer>, last: boolean) => {
+    if (counter >= _MAX_SEGMENTS) throw new RangeError("Stream exceeds 2^32 segments.");
+    const params = _segmentParams(keys, counter++, last);
+    emit(new Uint8Array(await crypto.subtle.encrypt(params, keys.key, plaintext)));
+  };
+  const segments = _segmenter(chunkSize, (segment) => seal(segment, false));
+
+  return new TransformStream({
+    async start(controller) {
+      emit = (segment) => controller.enqueue(segment);
+      keys = await _streamKeys(keyBytes, header, aad);
+      controller.enqueue(header.slice());
+    },
+    transform(chunk) {
+      return segments.push(toBytes(chunk));
+    },
+    flush() {
+      return seal(segments.rest(), true);
+    },
+  });
+}
+
+/**
+ * Create a `TransformStream` that decrypts the output of
+ * {@link createEncryptStream}.
+ *
+ * Plaintext is released one authenticated segment at a time, so a consumer
+ * may see the beginning of a stream before a later segment fails. Treat the
+ * output as untrusted until the stream closes without error. Every problem —
+ * a malformed header, a wrong key or `aad`, tampered, reordered or missing
+ * segments, truncation, or trailing data — errors the stream with the same
+ * `Error("Decryption failed.")`.
+ *
+ * @param key The key the stream was encrypted with.
+ * @param options Additional authenticated data.
+ * @returns A `TransformStream` from ciphertext bytes to plaintext bytes.
+ * @throws {TypeError} If `key` is a string or a `CryptoKey`.
+ * @throws {RangeError} If `key` is not 16, 24 or 32 bytes.
+ *
+ * @example
+ * const plaintext = encrypted.pipeThrough(createDecryptStream(key));
+ * const text = await new Response(plaintext).text();
+ */
+export function createDecryptStream(
+  key: StreamKey,
+  options: DecryptStreamOptions = {},
+): TransformStream<BufferSource, Uint8Array<ArrayBuffer>> {
+  const { aad } = options;
+  const keyBytes = _keyBytes(key);
+
+  const header = new Uint8Array(_HEADER_LENGTH);
+  let headerFilled = 0;
+  let keys: _StreamKeys;
+  let segments: ReturnType<typeof _segmenter> | undefined;
+  let counter = 0;
+  let emit: (plaintext: Uint8Array<ArrayBuffer>) => void;
+
+  const open = async (segment: Uint8Array<ArrayBuffer>, last: boolean) => {
+    if (counter >= _MAX_SEGMENTS || segment.length < _TAG_LENGTH) {
+      throw new Error(DECRYPTION_FAILED);
+    }
+    try {
+      const params = _segmentParams(keys, counter++, last);
+      emit(new Uint8Array(await crypto.subtle.decrypt(params, keys.key, segment)));
+    } catch {
+      throw new Error(DECRYPTION_FAILED);
+    }
+  };
+
+  return new TransformStream({
+    start(controller) {
+      emit = (plaintext) => controller.enqueue(plaintext);
+    },
+    async transform(chunk) {
+      let bytes = toBytes(chunk);
+      if (!segments) {
+        const take = Math.min(_HEADER_LENGTH - headerFilled, bytes.length);
+        header.set(bytes.subarray(0, take), headerFilled);
+        headerFilled += take;
+        bytes = bytes.subarray(take);
+        if (headerFilled < _HEADER_LENGTH) return;
+
+        const chunkSize = new DataView(header.buffer).getUint32(1);
+        if (header[0] !== _VERSION || !_validChunkSize(chunkSize)) {
+          throw new Error(DECRYPTION_FAILED);
+        }
+        keys = await _streamKeys(keyBytes, header, aad);
+        segments = _segmenter(chunkSize + _TAG_LENGTH, (segment) => open(segment, false));
+      }
+      await segments.push(bytes);
+    },
+    flush() {
+      if (!segments) throw new Error(DECRYPTION_FAILED);
+      return open(segments.rest(), true);
+    },
+  });
+}
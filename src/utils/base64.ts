@@ -22,17 +22,20 @@ interface _FromBase64 {
 const _nativeToBase64 = typeof (Uint8Array.prototype as Partial<_ToBase64>).toBase64 === "function";
 const _nativeFromBase64 = typeof (Uint8Array as Partial<_FromBase64>).fromBase64 === "function";
 
-/** Standard (`+/`) or URL-safe (`-_`) alphabet. */
-export type Base64Alphabet = "base64" | "base64url";
+/**
+ * Standard (`+/`), URL-safe (`-_`), or bcrypt's (`./` first, then `A–Z`,
+ * `a–z`, `0–9`) alphabet.
+ */
+export type Base64Alphabet = "base64" | "base64url" | "bcrypt";
 
 export interface Base64StringifyOptions {
   /**
-   * Alphabet: `"base64"` (`+/`) or `"base64url"` (`-_`).
+   * Alphabet: `"base64"` (`+/`), `"base64url"` (`-_`) or `"bcrypt"`.
    * @default "base64"
    */
   alphabet?: Base64Alphabet;
   /**
-   * Emit `=` padding. `base64url` defaults to unpadded.
+   * Emit `=` padding. `base64url` and `bcrypt` default to unpadded.
    * @default true
    */
   padding?: boolean;
@@ -48,12 +51,15 @@ export interface Base64ParseOptions extends DecodeOptions {
 
 const _B64_STD_RE = /^[A-Za-z0-9+/]*={0,2}$/;
 const _B64_URL_RE = /^[A-Za-z0-9\-_]*={0,2}$/;
+const _B64_BCRYPT_RE = /^[./A-Za-z0-9]*={0,2}$/;
+
+const _B64_STD = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const _B64_BCRYPT = "./ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
 
 // charCode → 6-bit value; accepts both alphabets (single table serves `+/` and `-_`).
 const _B64_TABLE: Int16Array = /* @__PURE__ */ (() => {
   const t = new Int16Array(128).fill(-1);
-  const std = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
-  for (let i = 0; i < 64; i++) t[std.charCodeAt(i)] = i;
+  for (let i = 0; i < 64; i++) t[_B64_STD.charCodeAt(i)] = i;
   t[45] = 62;
   t[95] = 63;
   return t;
@@ -70,7 +76,18 @@ function _padTo4(s: string): string {
   return rem === 0 ? s : s + "=".repeat(4 - rem);
 }
 
+// Maps every character of `s` (all drawn from `from`) to the same position in `to`.
+function _swapAlphabet(s: string, from: string, to: string): string {
+  let out = "";
+  for (let i = 0; i < s.length; i++) out += to[from.indexOf(s[i]!)];
+  return out;
+}
+
 function _encodeBase64(bytes: Uint8Array, alphabet: Base64Alphabet, padding: boolean): string {
+  if (alphabet === "bcrypt") {
+    const s = _swapAlphabet(_encodeBase64(bytes, "base64", false), _B64_STD, _B64_BCRYPT);
+    return padding ? _padTo4(s) : s;
+  }
   const url = alphabet === "base64url";
   if (_hasBuffer) {
     // Node emits padded "base64" and unpadded "base64url".
@@ -119,6 +136,15 @@ function _decodeBase64(
   loose: boolean,
   label: string,
 ): Uint8Array<ArrayBuffer> {
+  if (alphabet === "bcrypt") {
+    // Same bit layout as standard base64 over a rotated alphabet: validate (or,
+    // when loose, filter) here, then decode the standard equivalent.
+    let clean = text.replace(/[\t\n\f\r ]+/g, "");
+    if (loose) clean = clean.replace(/[^./A-Za-z0-9]+/g, "");
+    else if (!_B64_BCRYPT_RE.test(clean)) throw _malformed(label, "invalid base64 input.");
+    const std = _swapAlphabet(_unpad(clean), _B64_BCRYPT, _B64_STD);
+    return _decodeBase64(loose ? std : _padTo4(std), "base64", loose, label);
+  }
   if (loose) {
     if (_hasBuffer) {
       return new Uint8Array(_Buffer!.from(text.replace(/-/g, "+").replace(/_/g, "/"), "base64"));
@@ -190,7 +216,7 @@ export interface Base64Codec {
 function base64Stringify(data: Uint8Array | string, options?: Base64StringifyOptions): string {
   _assertData(data, "Base64.stringify");
   const alphabet = options?.alphabet ?? "base64";
-  const padding = options?.padding ?? alphabet !== "base64url";
+  const padding = options?.padding ?? alphabet === "base64";
   return _encodeBase64(_toBytes(data), alphabet, padding);
 }
 
@@ -214,7 +240,8 @@ function base64Parse(
 
 /**
  * Base64 codec: `Base64.stringify(bytes)` / `Base64.parse(text)`. Strict decode
- * by default. Pass `{ alphabet: "base64url" }` for URL-safe (unpadded by default).
+ * by default. Pass `{ alphabet: "base64url" }` for URL-safe, or `{ alphabet: "bcrypt" }`
+ * for the alphabet of `$2b$` hashes (both unpadded by default).
  */
 export const Base64: Base64Codec = { stringify: base64Stringify, parse: base64Parse };
 
@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import { argon2id, argon2idHash, argon2idVerify } from "../src/argon2.ts";
+
+// Cross-checked with @noble/hashes argon2id, password "password", salt "saltsaltsaltsalt".
+const VECTORS: [m: number, t: number, p: number, length: number, hex: string][] = [
+  [64, 1, 1, 32, "59bf4338b29483094be5f8da77db5f08f534481028d0f118fdebc9461c2d511d"],
+  [256, 2, 2, 32, "35ac769e899692d7adebd04baf4e0d11152e8cdafd34ea097bd681f2a6e6a2cd"],
+  [
+    100,
+    1,
+    3,
+    64,
+    "cdbca8e3398e7c9a61213cfbeb3f99c57469ed9f483be521c840e0e5209d969f21cd4cf0869d9794774b4006d880c82b53440c2f8622212e27aa579e936bfbc8",
+  ],
+  [
+    4096,
+    3,
+    4,
+    100,
+    "6c6a40f8cf22cda11f40fcb8367f14a4c6119fbf3f5aea67dd2a1ee050e8fba99dc111396d66556e26bd462c5c18711686bdf0318e0b28113857f06039a66e139d52191b90365f3651d7d56b1566404b80dc4d14695310c6a618d71b0248f81e40415913",
+  ],
+];
+
+const PHC =
+  "$argon2id$v=19$m=256,t=2,p=1$c2FsdHNhbHRzYWx0c2FsdA$d/gNnNMfanumao7kr+lHuY6GS9VLUn8B49/LwXA+/SQ";
+
+describe("argon2id", () => {
+  it("matches the RFC 9106 test vector", async () => {
+    const tag = await argon2id(new Uint8Array(32).fill(0x01), {
+      salt: new Uint8Array(16).fill(0x02),
+      secret: new Uint8Array(8).fill(0x03),
+      associatedData: new Uint8Array(12).fill(0x04),
+      memoryCost: 32,
+      timeCost: 3,
+      parallelism: 4,
+      length: 32,
+      returnAs: "hex",
+    });
+    expect(tag).toBe("0d640df58d78766c08c037a34a8b53c9d01ef0452d75b65eb52520e96b01e659");
+  });
+
+  describe.concurrent("reference vectors", () => {
+    for (const [m, t, p, length, hex] of VECTORS) {
+      it(`m=${m}, t=${t}, p=${p}, length=${length}`, async () => {
+        const tag = await argon2id("password", {
+          salt: "saltsaltsaltsalt",
+          memoryCost: m,
+          timeCost: t,
+          parallelism: p,
+          length,
+        });
+        expect(tag).toBe(hex);
+      });
+    }
+  });
+
+  it("mirrors the password type and honours returnAs", async () => {
+    const options = { salt: "saltsaltsaltsalt", memoryCost: 64, timeCost: 1 };
+    const bytes = await argon2id(new TextEncoder().encode("password"), options);
+    expect(bytes).toBeInstanceOf(Uint8Array);
+    expect(bytes[0]).toBe(0x59);
+    expect(await argon2id("password", { ...options, returnAs: "bytes" })).toStrictEqual(bytes);
+  });
+
+  it("rejects out-of-range parameters", async () => {
+    const salt = "saltsaltsaltsalt";
+    await expect(argon2id("pw", { salt: "short" })).rejects.toThrow(RangeError);
+    await expect(argon2id("pw", { salt, length: 3 })).rejects.toThrow(RangeError);
+    await expect(argon2id("pw", { salt, timeCost: 0 })).rejects.toThrow(RangeError);
+    await expect(argon2id("pw", { salt, parallelism: 0 })).rejects.toThrow(RangeError);
+    await expect(argon2id("pw", { salt, memoryCost: 31, parallelism: 4 })).rejects.toThrow(
+      RangeError,
+    );
+  });
+
+  it("guards the memory and time limits before any work", async () => {
+    await expect(argon2id("pw", { salt: "saltsaltsaltsalt", memoryCost: 2 ** 20 })).rejects.toThrow(
+      "argon2 parameters need 1073741824 bytes of memory, above the maxmem limit of 268435456.",
+    );
+    await expect(
+      argon2id("pw", { salt: "saltsaltsaltsalt", timeCost: 3, maxTimeCost: 2 }),
+    ).rejects.toThrow("argon2 timeCost 3 is above the maxTimeCost limit of 2.");
+  });
+});
+
+describe("argon2idHash / argon2idVerify", () => {
+  const policy = { memoryCost: 256, timeCost: 2 };
+
+  it("produces an $argon2id$ PHC string", async () => {
+    const phc = await argon2idHash("hunter2", policy);
+    expect(phc).toMatch(/^\$argon2id\$v=19\$m=256,t=2,p=1\$[A-Za-z0-9+/]{22}\$[A-Za-z0-9+/]{43}$/);
+    expect(await argon2idVerify("hunter2", phc, policy)).toStrictEqual({
+      valid: true,
+      needsRehash: false,
+      algorithm: "argon2id",
+    });
+    expect(await argon2idVerify("hunter3", phc, policy)).toStrictEqual({
+      valid: false,
+      needsRehash: false,
+      algorithm: "argon2id",
+    });
+  });
+
+  it("verifies a known hash", async () => {
+    expect(await argon2idVerify("password", PHC, policy)).toStrictEqual({
+      valid: true,
+      needsRehash: false,
+      algorithm: "argon2id",
+    });
+  });
+
+  it("reports needsRehash when the stored parameters are below policy", async () => {
+    const rehash = { valid: true, needsRehash: true, algorithm: "argon2id" };
+    expect(await argon2idVerify("password", PHC)).toStrictEqual(rehash);
+    expect(await argon2idVerify("password", PHC, { ...policy, memoryCost: 512 })).toStrictEqual(
+      rehash,
+    );
+    expect(await argon2idVerify("password", PHC, { ...policy, timeCost: 3 })).toStrictEqual(rehash);
+    expect(await argon2idVerify("password", PHC, { ...policy, parallelism: 2 })).toStrictEqual(
+      rehash,
+    );
+    expect(await argon2idVerify("password", PHC, { ...policy, saltLength: 32 })).toStrictEqual(
+      rehash,
+    );
+    expect(await argon2idVerify("password", PHC, { ...policy, hashLength: 64 })).toStrictEqual(
+      rehash,
+    );
+  });
+
+  it("applies the memory and time limits to stored parameters", async () => {
+    const hostile =
+      "$argon2id$v=19$m=4194304,t=1,p=1$c2FsdHNhbHRzYWx0c2FsdA$aGFzaGhhc2hoYXNoaGFzaA";
+    await expect(argon2idVerify("pw", hostile)).rejects.toThrow(RangeError);
+    const slow =
+      "$argon2id$v=19$m=256,t=4294967295,p=1$c2FsdHNhbHRzYWx0c2FsdA$aGFzaGhhc2hoYXNoaGFzaA";
+    await expect(argon2idVerify("pw", slow)).rejects.toThrow(
+      "argon2 timeCost 4294967295 is above the maxTimeCost limit of 10.",
+    );
+  });
+
+  it("rejects other versions and malformed PHC strings", async () => {
+    await expect(
+      argon2idVerify("pw", "$argon2id$v=16$m=256,t=2,p=1$c2FsdHNhbHRzYWx0c2FsdA$aGFzaA"),
+    ).rejects.toThrow(TypeError);
+
+    const malformed = [
+      "$argon2i$v=19$m=256,t=2,p=1$c2FsdHNhbHRzYWx0c2FsdA$aGFzaA",
+      "$argon2id$v=19$m=256,t=2$c2FsdHNhbHRzYWx0c2FsdA$aGFzaA",
+      "$argon2id$v=19$m=256,t=2,p=1,x=1$c2FsdHNhbHRzYWx0c2FsdA$aGFzaA",
+      "$argon2id$v=19$m=256,t=2,p=1$c2FsdA$aGFzaA",
+      "$argon2id$v=19$m=256,t=2,p=1$c2FsdHNhbHRzYWx0c2FsdA",
+    ];
+    for (const phc of malformed) {
+      await expect(argon2idVerify("pw", phc, policy)).rejects.toThrow("Malformed PHC string.");
+    }
+  });
+});
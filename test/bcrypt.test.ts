@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { bcryptHash, bcryptVerify } from "../src/bcrypt.ts";
+
+// Cross-checked with libxcrypt's crypt(3).
+const VECTORS: [password: string, hash: string][] = [
+  ["U*U", "$2a$05$CCCCCCCCCCCCCCCCCCCCC.E5YPO9kmyuRGyh0XouQYb4YMJKvyOeW"],
+  ["", "$2b$06$DCq7YPn5Rq63x1Lad4cll.TV4S6ytwfsfvkgY8jIucDrjc8deX1s."],
+  ["hunter2", "$2b$04$abcdefghijklmnopqrstuuV3duMsC0HpUex6N9qapiuOHHWkwRXVm"],
+  ["pässwörd", "$2y$05$0123456789abcdefghijkeiJYDFugQBJJ0lPaBWXcxtfdMHnLhFEK"],
+  ["a".repeat(72), "$2b$04$XXXXXXXXXXXXXXXXXXXXXOu.a4WEAQL1C3w3iCHysWr5sKcMLkBUK"],
+];
+
+// 116 bytes: base64(HMAC-SHA-256(salt, password)) run through crypt(3).
+const LONG_PASSWORD = "correct horse battery staple ".repeat(4);
+const PREHASHED = "$2b$04$abcdefghijklmnopqrstuunkuEqxmbvN7/X43VzLBTFdcZoh61JFS";
+
+describe("bcryptVerify", () => {
+  describe.concurrent("reference hashes", () => {
+    for (const [password, hash] of VECTORS) {
+      it(`${hash.slice(0, 7)} (${password.length} characters)`, async () => {
+        expect(await bcryptVerify(password, hash, { cost: 4 })).toStrictEqual({
+          valid: true,
+          needsRehash: false,
+          algorithm: "bcrypt",
+        });
+        expect((await bcryptVerify(`${password.slice(1)}!`, hash, { cost: 4 })).valid).toBe(false);
+      });
+    }
+  });
+
+  it("ignores the unused low bits of the last salt character", async () => {
+    const hash = "$2y$05$0123456789abcdefghijkliJYDFugQBJJ0lPaBWXcxtfdMHnLhFEK";
+    expect((await bcryptVerify("pässwörd", hash, { cost: 4 })).valid).toBe(true);
+  });
+
+  it("accepts raw bytes", async () => {
+    const bytes = new TextEncoder().encode("hunter2");
+    expect((await bcryptVerify(bytes, VECTORS[2]![1], { cost: 4 })).valid).toBe(true);
+  });
+
+  it("reports needsRehash when the stored cost is below policy", async () => {
+    expect(await bcryptVerify("hunter2", VECTORS[2]![1])).toStrictEqual({
+      valid: true,
+      needsRehash: true,
+      algorithm: "bcrypt",
+    });
+    expect((await bcryptVerify("hunter3", VECTORS[2]![1])).needsRehash).toBe(false);
+  });
+
+  it("checks passwords over 72 bytes by their first 72, as legacy hashes were made", async () => {
+    const [password, hash] = VECTORS[4]!;
+    // The ignored tail is surfaced through needsRehash, never as a plain match
+    expect(await bcryptVerify(`${password}b`, hash, { cost: 4 })).toStrictEqual({
+      valid: true,
+      needsRehash: true,
+      algorithm: "bcrypt",
+    });
+    expect((await bcryptVerify(`b${password}`, hash, { cost: 4 })).valid).toBe(false);
+    expect((await bcryptVerify(LONG_PASSWORD, PREHASHED, { cost: 4 })).valid).toBe(false);
+  });
+
+  it("refuses NUL bytes", async () => {
+    await expect(
+      bcryptVerify(new Uint8Array([0x61, 0x00, 0x62]), VECTORS[2]![1], { cost: 4 }),
+    ).rejects.toThrow(TypeError);
+  });
+
+  it("pre-hashes long passwords on request", async () => {
+    const policy = { cost: 4, prehash: true };
+    expect((await bcryptVerify(LONG_PASSWORD, PREHASHED, policy)).valid).toBe(true);
+    expect((await bcryptVerify(`${LONG_PASSWORD}!`, PREHASHED, policy)).valid).toBe(false);
+  });
+
+  it("rejects malformed hashes and out-of-range costs", async () => {
+    const malformed = [
+      "$2x$05$CCCCCCCCCCCCCCCCCCCCC.E5YPO9kmyuRGyh0XouQYb4YMJKvyOeW",
+      "$2a$5$CCCCCCCCCCCCCCCCCCCCC.E5YPO9kmyuRGyh0XouQYb4YMJKvyOeW",
+      "$2a$05$CCCCCCCCCCCCCCCCCCCCC.E5YPO9kmyuRGyh0XouQYb4YMJKvyOe",
+      "$2a$05$CCCCCCCCCCCCCCCCCCCCC+E5YPO9kmyuRGyh0XouQYb4YMJKvyOeW",
+      "$pbkdf2-sha256$i=1000$c2FsdA$aGFzaA",
+    ];
+    for (const hash of malformed) {
+      await expect(bcryptVerify("U*U", hash)).rejects.toThrow("Malformed bcrypt hash.");
+    }
+    await expect(
+      bcryptVerify("U*U", "$2a$03$CCCCCCCCCCCCCCCCCCCCC.E5YPO9kmyuRGyh0XouQYb4YMJKvyOeW"),
+    ).rejects.toThrow(RangeError);
+    await expect(bcryptVerify("U*U", VECTORS[0]![1], { cost: 32 })).rejects.toThrow(RangeError);
+  });
+});
+
+describe("bcryptHash", () => {
+  it("produces a $2b$ hash that verifies", async () => {
+    const hash = await bcryptHash("hunter2", { cost: 4 });
+    expect(hash).toMatch(/^\$2b\$04\$[./A-Za-z0-9]{53}$/);
+    expect((await bcryptVerify("hunter2", hash, { cost: 4 })).valid).toBe(true);
+    expect((await bcryptVerify("hunter3", hash, { cost: 4 })).valid).toBe(false);
+    expect(await bcryptHash("hunter2", { cost: 4 })).not.toBe(hash);
+  });
+
+  it("honours version and prehash", async () => {
+    const policy = { cost: 4, prehash: true };
+    const hash = await bcryptHash(LONG_PASSWORD, { ...policy, version: "2y" });
+    expect(hash).toMatch(/^\$2y\$04\$/);
+    expect((await bcryptVerify(LONG_PASSWORD, hash, policy)).valid).toBe(true);
+  });
+
+  it("yields to the event loop while running", async () => {
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 1);
+    await bcryptHash("hunter2", { cost: 9 });
+    clearInterval(timer);
+    expect(ticks).toBeGreaterThan(2);
+  });
+
+  it("rejects invalid options and oversized passwords", async () => {
+    await expect(bcryptHash("pw", { cost: 3 })).rejects.toThrow(RangeError);
+    await expect(bcryptHash("pw", { cost: 4.5 })).rejects.toThrow(RangeError);
+    await expect(bcryptHash("pw", { cost: 4, version: "2x" as "2b" })).rejects.toThrow(TypeError);
+    await expect(bcryptHash("é".repeat(37), { cost: 4 })).rejects.toThrow(
+      "bcrypt passwords are limited to 72 bytes; use `prehash` for longer ones.",
+    );
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect } from "vitest";
+import { blake2b, blake2s, blake3 } from "../src/blake.ts";
+import { hexEncode, base64Encode, base64UrlEncode } from "../src/utils/index.ts";
+
+/** Input pattern used by the official BLAKE3 test vectors: byte `i` is `i % 251`. */
+function input(length: number): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from({ length }, (_, i) => i % 251);
+}
+
+describe("blake2b", () => {
+  const abc =
+    "ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d17d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923";
+
+  it("matches the RFC 7693 Appendix A example", () => {
+    expect(blake2b("abc")).toBe(abc);
+  });
+
+  it("mirrors the input type and honours returnAs", () => {
+    const bytes = blake2b(new TextEncoder().encode("abc"));
+    expect(bytes).toBeInstanceOf(Uint8Array);
+    expect(hexEncode(bytes)).toBe(abc);
+    expect(blake2b("abc", { returnAs: "base64" })).toBe(base64Encode(bytes));
+    expect(blake2b("abc", { returnAs: "base64url" })).toBe(base64UrlEncode(bytes));
+    expect(blake2b("abc", { returnAs: "bytes" })).toStrictEqual(bytes);
+  });
+
+  it("matches the reference keyed KAT (key 00..3f)", () => {
+    const key = Uint8Array.from({ length: 64 }, (_, i) => i);
+    expect(blake2b(new Uint8Array(0), { key, returnAs: "hex" })).toBe(
+      "10ebb67700b1868efb4417987acf4690ae9d972fb7a590c2f02871799aaa4786b5e996e8f0f4eb981fc214b005f42d2ff4233499391653df7aefcbc13fc51568",
+    );
+    const message = Uint8Array.from({ length: 255 }, (_, i) => i);
+    expect(blake2b(message, { key, returnAs: "hex" })).toBe(
+      "142709d62e28fcccd0af97fad0f8465b971e82201dc51070faa0372aa43e92484be1c1e73ba10906d5d1853db6a4106e0a7bf9800d373d6dee2d46d62ef2a461",
+    );
+  });
+
+  it("binds the output length into the digest", () => {
+    const short = blake2b("abc", { length: 32 });
+    expect(short).toHaveLength(64);
+    expect(abc.startsWith(short)).toBe(false);
+  });
+
+  it("supports salt and personalization", () => {
+    expect(blake2b("abc", { salt: "saltsaltsaltsalt", personalization: "personalization!" })).toBe(
+      "c5f9394f35843fd5d710b1461c18918b048f59f7e193aaeabc860905654322cfe7db69d2f58d6e1abf0a581566c7169c5883a5383be61233dc33304500b81b7d",
+    );
+    // Shorter values are zero-padded
+    expect(blake2b("abc", { personalization: "app" })).toBe(
+      blake2b("abc", { personalization: new Uint8Array([0x61, 0x70, 0x70, 0, 0, 0]) }),
+    );
+  });
+
+  it("rejects out-of-range parameters", () => {
+    expect(() => blake2b("abc", { length: 0 })).toThrow(RangeError);
+    expect(() => blake2b("abc", { length: 65 })).toThrow(RangeError);
+    expect(() => blake2b("abc", { key: new Uint8Array(65) })).toThrow(RangeError);
+    expect(() => blake2b("abc", { salt: new Uint8Array(17) })).toThrow(RangeError);
+    expect(() => blake2b("abc", { personalization: new Uint8Array(17) })).toThrow(RangeError);
+  });
+
+  it("throws on unsupported returnAs", () => {
+    // @ts-expect-error testing invalid returnAs
+    expect(() => blake2b("abc", { returnAs: "nope" })).toThrow(
+      'Unsupported blake2b "returnAs" option: nope',
+    );
+  });
+});
+
+describe("blake2s", () => {
+  it("matches the RFC 7693 Appendix B example", () => {
+    expect(blake2s("abc")).toBe("508c5e8c327c14e2e1a72ba34eeb452f37458b209ed63a294d999b4c86675982");
+  });
+
+  it("matches the reference keyed KAT (key 00..1f)", () => {
+    const key = Uint8Array.from({ length: 32 }, (_, i) => i);
+    expect(blake2s(new Uint8Array(0), { key, returnAs: "hex" })).toBe(
+      "48a8997da407876b3d79c0d92325ad3b89cbb754d86ab71aee047ad345fd2c49",
+    );
+    const message = Uint8Array.from({ length: 255 }, (_, i) => i);
+    expect(blake2s(message, { key, returnAs: "hex" })).toBe(
+      "3fb735061abc519dfe979e54c1ee5bfad0a9d858b3315bad34bde999efd724dd",
+    );
+  });
+
+  it("supports salt and personalization", () => {
+    expect(blake2s("abc", { salt: "saltsalt", personalization: "personal" })).toBe(
+      "c53092d1e407e687ca47e8a6662ec0b00fa2c1179476bac8f0f147740ef20278",
+    );
+  });
+
+  it("rejects out-of-range parameters", () => {
+    expect(() => blake2s("abc", { length: 33 })).toThrow(RangeError);
+    expect(() => blake2s("abc", { key: new Uint8Array(33) })).toThrow(RangeError);
+    expect(() => blake2s("abc", { salt: new Uint8Array(9) })).toThrow(RangeError);
+    expect(() => blake2s("abc", { personalization: new Uint8Array(9) })).toThrow(RangeError);
+  });
+});
+
+// Official BLAKE3 test vectors (first 32 bytes of output) for hash and
+// derive-key modes. Lengths straddle the 64-byte block and 1 KiB chunk
+// boundaries so every tree shape up to 31 chunks is covered.
+const BLAKE3_VECTORS: [length: number, hash: string, deriveKey: string][] = [
+  [
+    0,
+    "af1349b9f5f9a1a6a0404dea36dcc9499bcb25c9adc112b7cc9a93cae41f3262",
+    "2cc39783c223154fea8dfb7c1b1660f2ac2dcbd1c1de8277b0b0dd39b7e50d7d",
+  ],
+  [
+    1,
+    "2d3adedff11b61f14c886e35afa036736dcd87a74d27b5c1510225d0f592e213",
+    "b3e2e340a117a499c6cf2398a19ee0d29cca2bb7404c73063382693bf66cb06c",
+  ],
+  [
+    1023,
+    "10108970eeda3eb932baac1428c7a2163b0e924c9a9e25b35bba72b28f70bd11",
+    "74a16c1c3d44368a86e1ca6df64be6a2f64cce8f09220787450722d85725dea5",
+  ],
+  [
+    1024,
+    "42214739f095a406f3fc83deb889744ac00df831c10daa55189b5d121c855af7",
+    "7356cd7720d5b66b6d0697eb3177d9f8d73a4a5c5e968896eb6a689684302706",
+  ],
+  [
+    1025,
+    "d00278ae47eb27b34faecf67b4fe263f82d5412916c1ffd97c8cb7fb814b8444",
+    "effaa245f065fbf82ac186839a249707c3bddf6d3fdda22d1b95a3c970379bcb",
+  ],
+  [
+    2048,
+    "e776b6028c7cd22a4d0ba182a8bf62205d2ef576467e838ed6f2529b85fba24a",
+    "7b2945cb4fef70885cc5d78a87bf6f6207dd901ff239201351ffac04e1088a23",
+  ],
+  [
+    3073,
+    "7124b49501012f81cc7f11ca069ec9226cecb8a2c850cfe644e327d22d3e1cd3",
+    "72613c9ec9ff7e40f8f5c173784c532ad852e827dba2bf85b2ab4b76f7079081",
+  ],
+  [
+    4096,
+    "015094013f57a5277b59d8475c0501042c0b642e531b0a1c8f58d2163229e969",
+    "1e0d7f3db8c414c97c6307cbda6cd27ac3b030949da8e23be1a1a924ad2f25b9",
+  ],
+  [
+    5120,
+    "9cadc15fed8b5d854562b26a9536d9707cadeda9b143978f319ab34230535833",
+    "7a7acac8a02adcf3038d74cdd1d34527de8a0fcc0ee3399d1262397ce5817f60",
+  ],
+  [
+    31744,
+    "62b6960e1a44bcc1eb1a611a8d6235b6b4b78f32e7abc4fb4c6cdcce94895c47",
+    "39772aef80e0ebe60596361e45b061e8f417429d529171b6764468c22928e28e",
+  ],
+];
+
+const BLAKE3_CONTEXT = "BLAKE3 2019-12-27 16:29:52 test vectors context";
+
+describe.concurrent("blake3 official vectors", () => {
+  for (const [length, expectedHash, expectedDerived] of BLAKE3_VECTORS) {
+    it(`hash, ${length} bytes`, () => {
+      expect(blake3(input(length), { returnAs: "hex" })).toBe(expectedHash);
+    });
+
+    it(`derive_key, ${length} bytes`, () => {
+      expect(blake3(input(length), { context: BLAKE3_CONTEXT, returnAs: "hex" })).toBe(
+        expectedDerived,
+      );
+    });
+  }
+});
+
+describe("blake3", () => {
+  it("hashes strings to hex by default", () => {
+    expect(blake3("abc")).toBe("6437b3ac38465133ffb63b75273a8db548c558465d79db03fd359c6cd5bd9d85");
+  });
+
+  it("returns bytes for BufferSource input", () => {
+    const result = blake3(input(1));
+    expect(result).toBeInstanceOf(Uint8Array);
+    expect(hexEncode(result)).toBe(BLAKE3_VECTORS[1]![1]);
+  });
+
+  it("extends output past a single block", () => {
+    expect(blake3(input(0), { length: 131, returnAs: "hex" })).toBe(
+      "af1349b9f5f9a1a6a0404dea36dcc9499bcb25c9adc112b7cc9a93cae41f3262e00f03e7b69af26b7faaf09fcd333050338ddfe085b8cc869ca98b206c08243a26f5487789e8f660afe6c99ef9e0c52b92e7393024a80459cf91f476f9ffdbda7001c22e159b402631f277ca96f2defdf1078282314e763699a31c5363165421cce14d",
+    );
+    // Shorter outputs are prefixes of longer ones
+    expect(blake3("abc", { length: 16 })).toBe(blake3("abc").slice(0, 32));
+  });
+
+  it("supports keyed hashing", () => {
+    const key = "whats the Elephant of in the wee";
+    expect(blake3(input(0), { key, returnAs: "hex" })).toBe(
+      "7caa290c81999779f68ba30cdf540c06b16ec4633ed48492959b55c7c30f1d26",
+    );
+    expect(blake3(input(2049), { key, returnAs: "hex" })).toBe(
+      "759d1f348ff59fd1db82309eab1c670de750f3455ce28239a47b4d2bb7fc5e97",
+    );
+  });
+
+  it("rejects invalid options", () => {
+    expect(() => blake3("abc", { length: 0 })).toThrow(RangeError);
+    expect(() => blake3("abc", { key: new Uint8Array(31) })).toThrow(RangeError);
+    expect(() => blake3("abc", { key: new Uint8Array(32), context: "ctx" })).toThrow(TypeError);
+  });
+});
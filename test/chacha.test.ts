@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { chachaDecrypt, chachaEncrypt } from "../src/chacha.ts";
+import { encrypt } from "../src/encrypt.ts";
+import { secureRandomBytes } from "../src/random.ts";
+import { Base64, Hex } from "../src/utils/index.ts";
+
+const hex = (value: string) => Hex.parse(value, { returnAs: "bytes" });
+
+// RFC 8439, section 2.8.2 and draft-irtf-cfrg-xchacha-03, appendix A.3.1 share
+// key, plaintext and AAD.
+const KEY = hex("808182838485868788898a8b8c8d8e8f909192939495969798999a9b9c9d9e9f");
+const AAD = hex("50515253c0c1c2c3c4c5c6c7");
+const PLAINTEXT =
+  "Ladies and Gentlemen of the class of '99: If I could offer you only one tip for the future, sunscreen would be it.";
+
+// Packed as a version 0x04 envelope: nonce | ciphertext | tag
+const CHACHA_ENVELOPE =
+  "04" +
+  "070000004041424344454647" +
+  "d31a8d34648e60db7b86afbc53ef7ec2a4aded51296e08fea9e2b5a736ee62d63dbea45e8ca9671282fafb69da9272" +
+  "8b1a71de0a9e060b2905d6a5b67ecd3b3692ddbd7f2d778b8c9803aee328091b58fab324e4fad675945585808b4831" +
+  "d7bc3ff4def08e4b7a9de576d26586cec64b6116" +
+  "1ae10b594f09e26a7e902ecbd0600691";
+
+// Packed as a version 0x03 envelope
+const XCHACHA_ENVELOPE =
+  "03" +
+  "404142434445464748494a4b4c4d4e4f5051525354555657" +
+  "bd6d179d3e83d43b9576579493c0e939572a1700252bfaccbed2902c21396cbb731c7f1b0b4aa6440bf3a82f4eda7e" +
+  "39ae64c6708c54c216cb96b72e1213b4522f8c9ba40db5d945b11b69b982c1bb9e3f3fac2bc369488f76b2383565d3" +
+  "fff921f9664c97637da9768812f615c68b13b52e" +
+  "c0875924c1c7987947deafd8780acf49";
+
+describe("chachaEncrypt / chachaDecrypt", () => {
+  const key = secureRandomBytes(32);
+
+  it("decrypts the RFC 8439 and draft-xchacha vectors", async () => {
+    await expect(chachaDecrypt(KEY, CHACHA_ENVELOPE, { aad: AAD })).resolves.toBe(PLAINTEXT);
+    await expect(chachaDecrypt(KEY, XCHACHA_ENVELOPE, { aad: AAD })).resolves.toBe(PLAINTEXT);
+    const b64url = Base64.stringify(hex(XCHACHA_ENVELOPE), { alphabet: "base64url" });
+    await expect(chachaDecrypt(KEY, b64url, { aad: AAD })).resolves.toBe(PLAINTEXT);
+    await expect(chachaDecrypt(KEY, hex(CHACHA_ENVELOPE), { aad: AAD })).resolves.toStrictEqual(
+      new TextEncoder().encode(PLAINTEXT),
+    );
+  });
+
+  it("round-trips a string through an XChaCha20-Poly1305 envelope by default", async () => {
+    const envelope = await chachaEncrypt(key, "hello world");
+    expect(envelope).toMatch(/^A[\w-]+$/);
+    expect(await chachaDecrypt(key, envelope)).toBe("hello world");
+  });
+
+  it("packs version, nonce, ciphertext and tag for both algorithms", async () => {
+    const xchacha = await chachaEncrypt(key, new Uint8Array(5));
+    expect([xchacha[0], xchacha.length]).toStrictEqual([0x03, 1 + 24 + 5 + 16]);
+    const chacha = await chachaEncrypt(key, new Uint8Array(5), { algorithm: "ChaCha20-Poly1305" });
+    expect([chacha[0], chacha.length]).toStrictEqual([0x04, 1 + 12 + 5 + 16]);
+    expect(await chachaDecrypt(key, chacha)).toStrictEqual(new Uint8Array(5));
+  });
+
+  describe.concurrent("round-trips empty and multi-block plaintexts", () => {
+    for (const length of [0, 1, 63, 64, 65, 1000]) {
+      it(`${length} bytes`, async () => {
+        const plaintext = secureRandomBytes(length);
+        const envelope = await chachaEncrypt(key, plaintext, { aad: "ctx" });
+        expect(await chachaDecrypt(key, envelope, { aad: "ctx" })).toStrictEqual(plaintext);
+      });
+    }
+  });
+
+  it("honours returnAs on both sides", async () => {
+    const hexEnvelope = await chachaEncrypt(key, "hello", { returnAs: "hex" });
+    expect(hexEnvelope).toMatch(/^03[0-9a-f]+$/);
+    expect(await chachaDecrypt(key, hexEnvelope)).toBe("hello");
+    const bytes = await chachaEncrypt(key, "hello", { returnAs: "bytes" });
+    expect(await chachaDecrypt(key, bytes, { returnAs: "string" })).toBe("hello");
+  });
+
+  it("fails with one uniform error for every envelope problem", async () => {
+    const envelope = await chachaEncrypt(key, new Uint8Array([1, 2, 3]), { aad: "a" });
+    const tampered = envelope.slice();
+    tampered[tampered.length - 1]! ^= 1;
+    const flippedCiphertext = envelope.slice();
+    flippedCiphertext[25]! ^= 1;
+    const asChaCha = envelope.slice();
+    asChaCha[0] = 0x04;
+    const aesEnvelope = await encrypt(key, new Uint8Array([1, 2, 3]));
+
+    const failed = "Decryption failed.";
+    await expect(chachaDecrypt(key, tampered, { aad: "a" })).rejects.toThrow(failed);
+    await expect(chachaDecrypt(key, flippedCiphertext, { aad: "a" })).rejects.toThrow(failed);
+    await expect(chachaDecrypt(key, envelope, { aad: "b" })).rejects.toThrow(failed);
+    await expect(chachaDecrypt(key, envelope)).rejects.toThrow(failed);
+    await expect(chachaDecrypt(secureRandomBytes(32), envelope, { aad: "a" })).rejects.toThrow(
+      failed,
+    );
+    await expect(chachaDecrypt(key, asChaCha, { aad: "a" })).rejects.toThrow(failed);
+    await expect(chachaDecrypt(key, aesEnvelope)).rejects.toThrow(failed);
+    await expect(chachaDecrypt(key, envelope.subarray(0, 40), { aad: "a" })).rejects.toThrow(
+      failed,
+    );
+    await expect(chachaDecrypt(key, new Uint8Array(0))).rejects.toThrow(failed);
+    await expect(chachaDecrypt(key, "03zz")).rejects.toThrow(failed); // malformed hex
+    await expect(chachaDecrypt(key, "A***")).rejects.toThrow(failed); // malformed base64url
+  });
+
+  it("rejects invalid keys and options", async () => {
+    const aesKey = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+      "encrypt",
+    ]);
+    await expect(chachaEncrypt("password" as never, "data")).rejects.toThrow(
+      "Encryption keys must be bytes. Derive a key from a password with deriveKeyFromPassword().",
+    );
+    await expect(chachaEncrypt(aesKey as never, "data")).rejects.toThrow(
+      "Web Crypto has no ChaCha20; pass the raw key bytes.",
+    );
+    const short = "ChaCha20 keys must be 32 bytes, got 16.";
+    await expect(chachaEncrypt(new Uint8Array(16), "data")).rejects.toThrow(short);
+    await expect(chachaDecrypt(new Uint8Array(16), "AAAA")).rejects.toThrow(short);
+    await expect(chachaEncrypt(key, "data", { algorithm: "Salsa20" as never })).rejects.toThrow(
+      "Unsupported ChaCha algorithm: Salsa20",
+    );
+    // @ts-expect-error testing invalid returnAs
+    await expect(chachaEncrypt(key, "data", { returnAs: "base64" })).rejects.toThrow(
+      'Unsupported chachaEncrypt "returnAs" option: base64',
+    );
+  });
+});
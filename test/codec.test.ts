@@ -83,6 +83,17 @@ describe.concurrent("Unified codec API", () => {
       expect(Base64.parse("Zm9vYg", { alphabet: "base64url" })).toBe("foob");
       expect(() => Base64.parse("Zm9v+A", { alphabet: "base64url" })).toThrow(SyntaxError);
     });
+
+    it("bcrypt alphabet (unpadded, ./ first)", () => {
+      expect(Base64.stringify(enc.encode("foob"), { alphabet: "bcrypt" })).toBe("Xk7tWe");
+      expect(Base64.parse("Xk7tWe", { alphabet: "bcrypt" })).toBe("foob");
+      const bcrypt = Base64.stringify(allBytes, { alphabet: "bcrypt" });
+      expect(bcrypt).toMatch(/^[./A-Za-z0-9]+$/);
+      expect(Base64.parse(bcrypt, { alphabet: "bcrypt", returnAs: "bytes" })).toEqual(allBytes);
+      expect(() => Base64.parse("Zm9v+A", { alphabet: "bcrypt" })).toThrow(SyntaxError);
+      expect(() => Base64.parse("Xk7tW", { alphabet: "bcrypt" })).toThrow(SyntaxError);
+      expect(Base64.parse("Xk7t+We", { alphabet: "bcrypt", loose: true })).toBe("foob");
+    });
   });
 
   describe("Base32", () => {
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import { deriveSharedKey, deriveSharedSecret } from "../src/ecdh.ts";
+import { exportKey, generateKeyPair } from "../src/keys.ts";
+import { Hex } from "../src/utils/index.ts";
+
+const hex = (value: string) => Hex.parse(value, { returnAs: "bytes" });
+
+// RFC 7748, section 6.1
+const X25519 = {
+  alicePrivate: "77076d0a7318a57d3c16c17251b26645df4c2f87ebc0992ab177fba51db92c2a",
+  alicePublic: "8520f0098930a754748b7ddcb43ef75a0dbf3a0d26381af4eba4a98eaa9b4e6a",
+  bobPrivate: "5dab087e624a8a4b79e17f8b83800ee66f3bb1292618b6fd1c2f8b27ff88e0eb",
+  bobPublic: "de9edb7d7b7dc1b4d35b61c2ece435373f8343c85b78674dadfc7e146f882b4f",
+  shared: "4a5d9d5ba4ce2de1728e3bf480350f25e07e21c947d19e3376f09b3c1e161742",
+};
+
+// RFC 5903, section 8.1
+const P256 = {
+  i: "c88f01f510d9ac3f70a292daa2316de544e9aab8afe84049c62a9c57862d1433",
+  gr: "04d12dfb5289c8d4f81208b70270398c342296970a0bccb74c736fc7554494bf6356fbf3ca366cc23e8157854c13c58d6aac23f046ada30f8353e74f33039872ab",
+  shared: "d6840f6b42f6edafd13116e0e12565202fef8e9ece7dce03812464d04b9442de",
+};
+
+describe("deriveSharedSecret", () => {
+  it("matches the RFC 7748 X25519 vector from both sides", async () => {
+    const alice = await deriveSharedSecret(hex(X25519.alicePrivate), hex(X25519.bobPublic), {
+      returnAs: "hex",
+    });
+    const bob = await deriveSharedSecret(hex(X25519.bobPrivate), hex(X25519.alicePublic));
+    expect(alice).toBe(X25519.shared);
+    expect(bob).toStrictEqual(hex(X25519.shared));
+  });
+
+  it("matches the RFC 5903 P-256 vector, reading the curve from the peer key", async () => {
+    const shared = await deriveSharedSecret(hex(P256.i), hex(P256.gr), { returnAs: "hex" });
+    expect(shared).toBe(P256.shared);
+    await expect(
+      deriveSharedSecret(hex(P256.i), hex(P256.gr), { curve: "P-256", returnAs: "hex" }),
+    ).resolves.toBe(P256.shared);
+  });
+
+  describe.concurrent("agrees on every curve with CryptoKeys and JWKs", () => {
+    const cases = [
+      ["X25519", undefined, 32],
+      ["P-256", "ECDH", 32],
+      ["P-384", "ECDH", 48],
+      ["P-521", "ECDH", 66],
+    ] as const;
+    for (const [type, name, length] of cases) {
+      it(`${type} pairs`, async () => {
+        const alice = await generateKeyPair(type, { name });
+        const bob = await generateKeyPair(type, { name });
+        const fromAlice = await deriveSharedSecret(alice.privateKey, bob.publicKey);
+        const fromBob = await deriveSharedSecret(
+          await exportKey(bob.privateKey, "jwk"),
+          await exportKey(alice.publicKey, "jwk"),
+        );
+        expect(fromAlice.length).toBe(length);
+        expect(fromBob).toStrictEqual(fromAlice);
+        // A private JWK can stand in for its public half
+        const viaPrivateJwk = await deriveSharedSecret(
+          bob.privateKey,
+          await exportKey(alice.privateKey, "jwk"),
+        );
+        expect(viaPrivateJwk).toStrictEqual(fromAlice);
+      });
+    }
+  });
+
+  it("rejects keys that do not fit", async () => {
+    const x25519 = await generateKeyPair("X25519");
+    const ecdsa = await generateKeyPair("P-256");
+    const ecdh = await generateKeyPair("P-256", { name: "ECDH" });
+    const unsupported =
+      'Key agreement keys must be X25519 or ECDH keys; generate EC pairs with { name: "ECDH" }.';
+    await expect(deriveSharedSecret(ecdsa.privateKey, ecdh.publicKey)).rejects.toThrow(unsupported);
+    await expect(
+      deriveSharedSecret({ kty: "OKP", crv: "Ed25519", d: "AA", x: "AA" }, x25519.publicKey),
+    ).rejects.toThrow(unsupported);
+    await expect(deriveSharedSecret(x25519.publicKey, x25519.publicKey)).rejects.toThrow(
+      "Expected a private key, got a public key.",
+    );
+    await expect(deriveSharedSecret(x25519.privateKey, x25519.privateKey)).rejects.toThrow(
+      "Expected a public key, got a private key.",
+    );
+    await expect(deriveSharedSecret(ecdh.privateKey, x25519.publicKey)).rejects.toThrow(
+      "Curve X25519 does not fit this P-256 key.",
+    );
+    await expect(
+      deriveSharedSecret(x25519.privateKey, x25519.publicKey, { curve: "P-256" }),
+    ).rejects.toThrow("Curve P-256 does not fit this X25519 key.");
+    await expect(deriveSharedSecret("secret" as never, x25519.publicKey)).rejects.toThrow(
+      "Key agreement keys must be a CryptoKey, a JWK or raw bytes.",
+    );
+    await expect(deriveSharedSecret(hex(P256.i).subarray(1), hex(P256.gr))).rejects.toThrow(
+      "P-256 private keys are 32 bytes, got 31.",
+    );
+    await expect(deriveSharedSecret(hex(P256.i), hex(P256.gr).subarray(0, 33))).rejects.toThrow(
+      "Unexpected raw public key length: 33.",
+    );
+  });
+});
+
+describe("deriveSharedKey", () => {
+  it("chains the shared secret into hkdf()", async () => {
+    // hkdf(sha256, RFC 7748 shared secret, "salt", "session v1", 32), cross-checked with node:crypto
+    const key = await deriveSharedKey(hex(X25519.alicePrivate), hex(X25519.bobPublic), {
+      salt: "salt",
+      info: "session v1",
+      returnAs: "hex",
+    });
+    expect(key).toBe("257e44e4de8461caa5832b2785fad47894ee69d07704738cf2ffa013b95725f5");
+  });
+
+  it("separates keys by info and honors length and algorithm", async () => {
+    const alice = await generateKeyPair("X25519");
+    const bob = await generateKeyPair("X25519");
+    const options = { salt: "handshake", algorithm: "SHA-512", length: 64 } as const;
+    const encryption = await deriveSharedKey(alice.privateKey, bob.publicKey, {
+      ...options,
+      info: "enc",
+    });
+    const mac = await deriveSharedKey(alice.privateKey, bob.publicKey, { ...options, info: "mac" });
+    expect(encryption).toHaveLength(64);
+    expect(mac).not.toStrictEqual(encryption);
+    expect(
+      await deriveSharedKey(bob.privateKey, alice.publicKey, { ...options, info: "enc" }),
+    ).toStrictEqual(encryption);
+    await expect(deriveSharedKey(alice.privateKey, bob.publicKey, { length: 0 })).rejects.toThrow(
+      RangeError,
+    );
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect } from "vitest";
+import { decrypt, deriveKeyFromPassword, encrypt } from "../src/encrypt.ts";
+import { createKeyring } from "../src/keyring.ts";
+import { secureRandomBytes } from "../src/random.ts";
+import { Base64, Hex, hexEncode } from "../src/utils/index.ts";
+
+// McGrew & Viega GCM spec, Test Case 3 (AES-128, 96-bit IV, no AAD), packed
+// as a version 0x01 envelope.
+const GCM_KEY = Hex.parse("feffe9928665731c6d6a8f9467308308", { returnAs: "bytes" });
+const GCM_ENVELOPE =
+  "01" +
+  "cafebabefacedbaddecaf888" +
+  "42831ec2217774244b7221b784d0d49ce3aa212f2c02a4e035c17e2329aca12e" +
+  "21d514b25466931c7d8f6a5aac84aa051ba30b396a0aac973d58e091473f5985" +
+  "4d5c2af327cd64a62cf35abd2ba6fab4";
+const GCM_PLAINTEXT =
+  "d9313225f88406e5a55909c5aff5269a86a7a9531534f7da2e4c303d8a318a72" +
+  "1c3c0c95956809532fcf0e2449a6b525b16aedf5aa0de657ba637b391aafd255";
+
+describe("encrypt / decrypt", () => {
+  const key = secureRandomBytes(32);
+
+  it("round-trips a string through a base64url envelope by default", async () => {
+    const envelope = await encrypt(key, "hello world");
+    expect(typeof envelope).toBe("string");
+    expect(envelope).toMatch(/^A[\w-]+$/);
+    expect(await decrypt(key, envelope)).toBe("hello world");
+  });
+
+  it("round-trips bytes through a bytes envelope by default", async () => {
+    const plaintext = secureRandomBytes(100);
+    const envelope = await encrypt(key, plaintext);
+    expect(envelope).toBeInstanceOf(Uint8Array);
+    expect(await decrypt(key, envelope)).toStrictEqual(plaintext);
+  });
+
+  it("packs version, nonce, ciphertext and tag", async () => {
+    const envelope = await encrypt(key, new Uint8Array(5));
+    expect(envelope.length).toBe(1 + 12 + 5 + 16);
+    expect(envelope[0]).toBe(0x01);
+  });
+
+  it("uses a fresh nonce for every call", async () => {
+    const a = await encrypt(key, "same");
+    const b = await encrypt(key, "same");
+    expect(a).not.toBe(b);
+  });
+
+  it("honours returnAs on both sides", async () => {
+    const hex = await encrypt(key, "hello", { returnAs: "hex" });
+    expect(hex).toMatch(/^01[0-9a-f]+$/);
+    expect(await decrypt(key, hex)).toBe("hello");
+    expect(await decrypt(key, hex, { returnAs: "bytes" })).toStrictEqual(
+      new TextEncoder().encode("hello"),
+    );
+
+    const bytes = await encrypt(key, "hello", { returnAs: "bytes" });
+    expect(await decrypt(key, bytes, { returnAs: "string" })).toBe("hello");
+  });
+
+  it("decrypts a known-answer GCM envelope", async () => {
+    const plaintext = await decrypt(GCM_KEY, Hex.parse(GCM_ENVELOPE, { returnAs: "bytes" }));
+    expect(hexEncode(plaintext)).toBe(GCM_PLAINTEXT);
+    // Same envelope as hex and base64url text
+    expect(await decrypt(GCM_KEY, GCM_ENVELOPE, { returnAs: "bytes" })).toStrictEqual(plaintext);
+    const b64url = Base64.stringify(Hex.parse(GCM_ENVELOPE, { returnAs: "bytes" }), {
+      alphabet: "base64url",
+    });
+    expect(await decrypt(GCM_KEY, b64url, { returnAs: "bytes" })).toStrictEqual(plaintext);
+  });
+
+  it("binds additional authenticated data", async () => {
+    const envelope = await encrypt(key, "payload", { aad: "user:1" });
+    expect(await decrypt(key, envelope, { aad: "user:1" })).toBe("payload");
+    await expect(decrypt(key, envelope, { aad: "user:2" })).rejects.toThrow("Decryption failed.");
+    await expect(decrypt(key, envelope)).rejects.toThrow("Decryption failed.");
+  });
+
+  it("accepts an AES-GCM CryptoKey", async () => {
+    const cryptoKey = await crypto.subtle.generateKey({ name: "AES-GCM", length: 128 }, false, [
+      "encrypt",
+      "decrypt",
+    ]);
+    const envelope = await encrypt(cryptoKey, "hello");
+    expect(await decrypt(cryptoKey, envelope)).toBe("hello");
+  });
+
+  it("accepts keys and envelopes over a SharedArrayBuffer", async () => {
+    // Typed as BufferSource, which excludes SharedArrayBuffer views
+    const share = (bytes: Uint8Array): Uint8Array<ArrayBuffer> => {
+      const view = new Uint8Array(new SharedArrayBuffer(bytes.length));
+      view.set(bytes);
+      return view as unknown as Uint8Array<ArrayBuffer>;
+    };
+    const sharedKey = share(GCM_KEY);
+    const envelope = await encrypt(sharedKey, "hello");
+    expect(await decrypt(GCM_KEY, envelope)).toBe("hello");
+    const bytes = Hex.parse(GCM_ENVELOPE, { returnAs: "bytes" });
+    expect(hexEncode(await decrypt(sharedKey, share(bytes)))).toBe(GCM_PLAINTEXT);
+  });
+
+  it("fails with one uniform error for every envelope problem", async () => {
+    const envelope = await encrypt(key, new Uint8Array([1, 2, 3]));
+
+    const tampered = envelope.slice();
+    tampered[tampered.length - 1] ^= 1;
+    const wrongVersion = envelope.slice();
+    wrongVersion[0] = 0x02;
+
+    await expect(decrypt(key, tampered)).rejects.toThrow("Decryption failed.");
+    await expect(decrypt(key, wrongVersion)).rejects.toThrow("Decryption failed.");
+    await expect(decrypt(key, envelope.subarray(0, 28))).rejects.toThrow("Decryption failed.");
+    await expect(decrypt(key, new Uint8Array(0))).rejects.toThrow("Decryption failed.");
+    await expect(decrypt(secureRandomBytes(32), envelope)).rejects.toThrow("Decryption failed.");
+    await expect(decrypt(key, "01zz")).rejects.toThrow("Decryption failed."); // malformed hex
+    await expect(decrypt(key, "A***")).rejects.toThrow("Decryption failed."); // malformed base64url
+    await expect(decrypt(key, "")).rejects.toThrow("Decryption failed.");
+  });
+
+  it("rejects invalid keys", async () => {
+    // @ts-expect-error testing string key
+    await expect(encrypt("password", "data")).rejects.toThrow(
+      "Encryption keys must be bytes or a CryptoKey.",
+    );
+    await expect(encrypt(new Uint8Array(20), "data")).rejects.toThrow(
+      "AES keys must be 16, 24 or 32 bytes, got 20.",
+    );
+    const hmacKey = await crypto.subtle.generateKey({ name: "HMAC", hash: "SHA-256" }, false, [
+      "sign",
+    ]);
+    await expect(encrypt(hmacKey, "data")).rejects.toThrow(
+      "Expected an AES-GCM CryptoKey, got HMAC.",
+    );
+  });
+
+  it("throws on unsupported returnAs", async () => {
+    // @ts-expect-error testing invalid returnAs
+    await expect(encrypt(key, "data", { returnAs: "base64" })).rejects.toThrow(
+      'Unsupported encrypt "returnAs" option: base64',
+    );
+  });
+});
+
+describe("encrypt / decrypt with a keyring", () => {
+  const oldKey = secureRandomBytes(32);
+  const newKey = secureRandomBytes(32);
+  const keyring = createKeyring({ keys: { old: oldKey, new: newKey }, activeKeyId: "new" });
+  const previous = createKeyring({ keys: { old: oldKey }, activeKeyId: "old" });
+
+  it("embeds the active key id in a version 0x02 envelope", async () => {
+    const envelope = await encrypt(keyring, new Uint8Array(5));
+    expect(envelope[0]).toBe(0x02);
+    expect(envelope[1]).toBe(3);
+    expect(new TextDecoder().decode(envelope.subarray(2, 5))).toBe("new");
+    expect(envelope.length).toBe(1 + 1 + 3 + 12 + 5 + 16);
+  });
+
+  it("decrypts with the named key and reports rotation", async () => {
+    const current = await encrypt(keyring, "fresh");
+    expect(await decrypt(keyring, current)).toStrictEqual({
+      plaintext: "fresh",
+      keyId: "new",
+      needsRotation: false,
+    });
+
+    const stale = await encrypt(previous, "stale", { returnAs: "hex" });
+    expect(stale.startsWith("02")).toBe(true);
+    expect(await decrypt(keyring, stale)).toStrictEqual({
+      plaintext: "stale",
+      keyId: "old",
+      needsRotation: true,
+    });
+  });
+
+  it("honours returnAs and aad", async () => {
+    const envelope = await encrypt(keyring, "data", { aad: "ctx" });
+    const result = await decrypt(keyring, envelope, { aad: "ctx", returnAs: "bytes" });
+    expect(result.plaintext).toStrictEqual(new TextEncoder().encode("data"));
+    await expect(decrypt(keyring, envelope)).rejects.toThrow("Decryption failed.");
+  });
+
+  it("fails uniformly for unknown ids and mismatched envelope versions", async () => {
+    const other = createKeyring({ keys: { other: newKey }, activeKeyId: "other" });
+    const envelope = await encrypt(other, "data");
+    await expect(decrypt(keyring, envelope)).rejects.toThrow("Decryption failed.");
+
+    // A single-key envelope has no id to look up, and vice versa
+    await expect(decrypt(keyring, await encrypt(newKey, "data"))).rejects.toThrow(
+      "Decryption failed.",
+    );
+    await expect(decrypt(newKey, await encrypt(keyring, "data"))).rejects.toThrow(
+      "Decryption failed.",
+    );
+  });
+});
+
+describe("deriveKeyFromPassword", () => {
+  it("derives a PBKDF2-SHA-256 key", async () => {
+    const key = await deriveKeyFromPassword("correct horse battery staple", {
+      salt: "0123456789abcdef",
+      iterations: 1000,
+    });
+    expect(hexEncode(key)).toBe("caa4aad92ca0635b01e04707f5fd851b42533044bec2a2ec393e589a2441a652");
+  });
+
+  it("feeds encrypt / decrypt", async () => {
+    const salt = secureRandomBytes(16);
+    const key = await deriveKeyFromPassword("hunter2", { salt, iterations: 1000 });
+    const envelope = await encrypt(key, "notes");
+    const again = await deriveKeyFromPassword("hunter2", { salt, iterations: 1000 });
+    expect(await decrypt(again, envelope)).toBe("notes");
+  });
+
+  it("rejects short salts and bad iteration counts", async () => {
+    await expect(deriveKeyFromPassword("pw", { salt: "short" })).rejects.toThrow(RangeError);
+    await expect(
+      deriveKeyFromPassword("pw", { salt: secureRandomBytes(16), iterations: 0 }),
+    ).rejects.toThrow(RangeError);
+  });
+});
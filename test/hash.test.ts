@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { hash } from "../src/hash.ts";
+import { createHash, hash, hashStream } from "../src/hash.ts";
 import { hexEncode, base64Encode, base64UrlEncode } from "../src/utils/index.ts";
 
 describe("hash utility", () => {
@@ -149,3 +149,243 @@ describe("hash utility", () => {
     expect(result.buffer).toBeInstanceOf(ArrayBuffer);
   });
 });
+
+// FIPS 202 / NIST CSRC example vectors.
+const SHA3_VECTORS = {
+  "": {
+    "SHA3-256": "a7ffc6f8bf1ed76651c14756a061d662f580ff4de43b49fa82d80a4b80f8434a",
+    "SHA3-384":
+      "0c63a75b845e4f7d01107d852e4c2485c51a50aaaa94fc61995e71bbee983a2ac3713831264adb47fb6bd1e058d5f004",
+    "SHA3-512":
+      "a69f73cca23a9ac5c8b567dc185a756e97c982164fe25859e0d1dcc1475c80a615b2123af1f5f94c11e3e9402c3ac558f500199d95b6d3e301758586281dcd26",
+  },
+  "abc": {
+    "SHA3-256": "3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532",
+    "SHA3-384":
+      "ec01498288516fc926459f58e2c6ad8df9b473cb0fc08c2596da7cf0e49be4b298d88cea927ac7f539f1edf228376d25",
+    "SHA3-512":
+      "b751850b1a57168a5693cd924b6b096e08f621827444f70d884f5d0240d2712e10e116e9192af3c91a7ec57647e3934057340b4cf408d5a56592f8274eec53f0",
+  },
+  "abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq": {
+    "SHA3-256": "41c0dba2a9d6240849100376a8235e2c82e1b9998a999e21db32dd97496d3376",
+    "SHA3-384":
+      "991c665755eb3a4b6bbdfb75c78a492e8c56a22c5c4d7e429bfdbc32b9d4ad5aa04a1f076e62fea19eef51acd0657c22",
+    "SHA3-512":
+      "04a371e84ecfb5b8b77cb48610fca8182dd457ce6f326a0fd3d7ec2f1e91636dee691fbe0c985302ba1b0d8dc78c086346b533b49c030d99a27daf1139d6e75e",
+  },
+} as const;
+
+describe("hash SHA-3 / SHAKE (FIPS 202)", () => {
+  // 1600-bit message of repeated 0xa3 bytes, spanning more than one sponge block.
+  const a3 = new Uint8Array(200).fill(0xa3);
+
+  for (const [message, digests] of Object.entries(SHA3_VECTORS)) {
+    for (const [algorithm, expected] of Object.entries(digests)) {
+      it(`should match ${algorithm}(${JSON.stringify(message.slice(0, 8))})`, async () => {
+        const result = await hash(message, { algorithm: algorithm as keyof typeof digests });
+        expect(result).toBe(expected);
+      });
+    }
+  }
+
+  it("should match SHA3-256 / SHA3-512 for the 1600-bit 0xa3 message", async () => {
+    expect(await hash(a3, { algorithm: "SHA3-256", returnAs: "hex" })).toBe(
+      "79f38adec5c20307a98ef76e8324afbfd46cfd81b22e3973c65fa1bd9de31787",
+    );
+    expect(await hash(a3, { algorithm: "SHA3-512", returnAs: "hex" })).toBe(
+      "e76dfad22084a8b1467fcf2ffa58361bec7628edf5f3fdc0e4805dc48caeeca81b7c13c30adf52a3659584739a2df46be589c51ca1a4a8416df6545a1ce8ba00",
+    );
+  });
+
+  it("should default SHAKE128 to 32 bytes and SHAKE256 to 64 bytes", async () => {
+    expect(await hash("", { algorithm: "SHAKE128" })).toBe(
+      "7f9c2ba4e88f827d616045507605853ed73b8093f6efbc88eb1a6eacfa66ef26",
+    );
+    expect(await hash("", { algorithm: "SHAKE256" })).toBe(
+      "46b9dd2b0ba88d13233b3feb743eeb243fcd52ea62b81b82b50c27646ed5762fd75dc4ddd8c0f200cb05019d67b592f6fc821c49479ab48640292eacb3b7c4be",
+    );
+    expect(await hash("abc", { algorithm: "SHAKE128" })).toBe(
+      "5881092dd818bf5cf8a3ddb793fbcba74097d5c526a6d35f97b83351940f2cc8",
+    );
+    expect(await hash("abc", { algorithm: "SHAKE256" })).toBe(
+      "483366601360a8771c6863080cc4114d8db44530f8f1e1ee4f94ea37e78b5739d5a15bef186a5386c75744c0527e1faa9f8726e462a12a4feb06bd8801e751e4",
+    );
+  });
+
+  it("should squeeze a caller-chosen length across several blocks", async () => {
+    // Last 32 bytes of the 4096-bit SHAKE outputs for the 0xa3 message.
+    const shake128 = await hash(a3, { algorithm: "SHAKE128", length: 512, returnAs: "hex" });
+    expect(shake128.length).toBe(1024);
+    expect(shake128.slice(-64)).toBe(
+      "44c9fb359fd56ac0a9a75a743cff6862f17d7259ab075216c0699511643b6439",
+    );
+    const shake256 = await hash(a3, { algorithm: "SHAKE256", length: 512, returnAs: "hex" });
+    expect(shake256.slice(-64)).toBe(
+      "6a1a9d7846436e4dca5728b6f760eef0ca92bf0be5615e96959d767197a0beeb",
+    );
+  });
+
+  it("should produce prefixes of the same stream for different SHAKE lengths", async () => {
+    const short = await hash("abc", { algorithm: "SHAKE256", length: 16, returnAs: "hex" });
+    const long = await hash("abc", { algorithm: "SHAKE256", returnAs: "hex" });
+    expect(long.startsWith(short)).toBe(true);
+  });
+
+  it("should honor returnAs for SHA-3", async () => {
+    const bytes = await hash("abc", { algorithm: "SHA3-256", returnAs: "bytes" });
+    expect(bytes).toBeInstanceOf(Uint8Array);
+    expect(await hash("abc", { algorithm: "SHA3-256", returnAs: "base64url" })).toBe(
+      base64UrlEncode(bytes),
+    );
+    expect(await hash(new TextEncoder().encode("abc"), { algorithm: "SHA3-256" })).toStrictEqual(
+      bytes,
+    );
+  });
+
+  it("should reject length for fixed-output algorithms", async () => {
+    await expect(hash("abc", { algorithm: "SHA3-256", length: 16 })).rejects.toThrow(TypeError);
+    await expect(hash("abc", { length: 16 })).rejects.toThrow(
+      "length is only supported by SHAKE128 and SHAKE256, not SHA-256.",
+    );
+  });
+
+  it("should reject non-positive or non-integer SHAKE lengths", async () => {
+    await expect(hash("abc", { algorithm: "SHAKE128", length: 0 })).rejects.toThrow(RangeError);
+    await expect(hash("abc", { algorithm: "SHAKE128", length: 1.5 })).rejects.toThrow(RangeError);
+  });
+});
+
+describe("createHash", () => {
+  const algorithms = ["SHA-1", "SHA-256", "SHA-384", "SHA-512"] as const;
+  // Lengths straddling the 64/128-byte block and padding boundaries.
+  const lengths = [0, 1, 55, 56, 63, 64, 65, 111, 112, 127, 128, 129, 1000];
+
+  for (const algorithm of algorithms) {
+    it(`should match hash() for ${algorithm} across block boundaries`, async () => {
+      for (const length of lengths) {
+        const data = new Uint8Array(length).map((_, i) => (i * 31 + 7) & 0xff);
+        const expected = await hash(data, { algorithm });
+
+        const oneShot = createHash(algorithm).update(data).digest();
+        expect(oneShot).toStrictEqual(expected);
+
+        const chunked = createHash(algorithm);
+        for (let offset = 0; offset < length; offset += 13) {
+          chunked.update(data.subarray(offset, offset + 13));
+        }
+        expect(chunked.digest()).toStrictEqual(expected);
+      }
+    });
+  }
+
+  it("should default to SHA-256 and return bytes", async () => {
+    const result = createHash().update("hello world").digest();
+    expect(result).toBeInstanceOf(Uint8Array);
+    expect(result.buffer).toBeInstanceOf(ArrayBuffer);
+    expect(result).toStrictEqual(await hash(new TextEncoder().encode("hello world")));
+  });
+
+  it("should honor returnAs using the same encodings as hash()", async () => {
+    const input = "hello world";
+    for (const returnAs of ["hex", "base64", "base64url", "b64", "b64url", "bytes"] as const) {
+      const result = createHash("SHA-512").update(input).digest({ returnAs });
+      expect(result).toStrictEqual(await hash(input, { algorithm: "SHA-512", returnAs }));
+    }
+  });
+
+  it("should accept mixed string, ArrayBuffer and typed-array chunks", async () => {
+    const bytes = new TextEncoder().encode("world");
+    const result = createHash()
+      .update("hello")
+      .update(new TextEncoder().encode(" ").buffer)
+      .update(new DataView(bytes.buffer))
+      .digest({ returnAs: "hex" });
+    expect(result).toBe(await hash("hello world"));
+  });
+
+  it("should hash only the viewed region of a subarray", async () => {
+    const backing = new Uint8Array([0xff, 1, 2, 3, 0xff]);
+    const result = createHash().update(backing.subarray(1, 4)).digest();
+    expect(result).toStrictEqual(await hash(new Uint8Array([1, 2, 3])));
+  });
+
+  it("should match hash() for SHA-3 and SHAKE when fed in chunks", async () => {
+    const data = new Uint8Array(500).map((_, i) => i & 0xff);
+    for (const algorithm of ["SHA3-256", "SHA3-384", "SHA3-512", "SHAKE128"] as const) {
+      const hasher = createHash(algorithm);
+      for (let offset = 0; offset < data.length; offset += 37) {
+        hasher.update(data.subarray(offset, offset + 37));
+      }
+      expect(hasher.digest()).toStrictEqual(await hash(data, { algorithm }));
+    }
+    const shake = createHash("SHAKE256", { length: 100 }).update(data).digest();
+    expect(shake).toStrictEqual(await hash(data, { algorithm: "SHAKE256", length: 100 }));
+  });
+
+  it("should reject length for fixed-output algorithms", () => {
+    expect(() => createHash("SHA-256", { length: 16 })).toThrow(TypeError);
+  });
+
+  it("should expose the algorithm", () => {
+    expect(createHash("SHA-384").algorithm).toBe("SHA-384");
+  });
+
+  it("should throw when used after digest()", () => {
+    const hasher = createHash();
+    hasher.digest();
+    expect(() => hasher.update("x")).toThrow("Hasher already finalized.");
+    expect(() => hasher.digest()).toThrow("Hasher already finalized.");
+  });
+
+  it("should throw for unsupported algorithms", () => {
+    expect(() => createHash("MD5" as any)).toThrow("Unsupported digest algorithm: MD5");
+  });
+});
+
+describe("hashStream", () => {
+  const chunks = ["Hello, ", "streaming ", "world! 👋"].map((s) => new TextEncoder().encode(s));
+  const joined = new TextEncoder().encode("Hello, streaming world! 👋");
+
+  it("should hash a ReadableStream like hash() over the whole input", async () => {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(chunk);
+        controller.close();
+      },
+    });
+    const result = await hashStream(stream);
+    expect(result).toBeInstanceOf(Uint8Array);
+    expect(result).toStrictEqual(await hash(joined));
+  });
+
+  it("should hash an async iterable", async () => {
+    async function* source() {
+      for (const chunk of chunks) yield chunk;
+    }
+    const result = await hashStream(source(), { algorithm: "SHA-384", returnAs: "base64url" });
+    expect(result).toBe(await hash(joined, { algorithm: "SHA-384", returnAs: "base64url" }));
+  });
+
+  it("should hash a sync iterable of strings", async () => {
+    const result = await hashStream(["a", "b", "c"], { returnAs: "hex" });
+    expect(result).toBe(await hash("abc"));
+  });
+
+  it("should hash an empty stream", async () => {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.close();
+      },
+    });
+    expect(await hashStream(stream, { returnAs: "hex" })).toBe(await hash(""));
+  });
+
+  it("should propagate stream errors", async () => {
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.error(new Error("boom"));
+      },
+    });
+    await expect(hashStream(stream)).rejects.toThrow("boom");
+  });
+});
@@ -87,6 +87,52 @@ describe.concurrent("hkdf (RFC 5869 vectors)", () => {
   }
 });
 
+// HKDF over HMAC-SHA3, using the A.1 / A.3 inputs. Expected OKM cross-checked
+// against OpenSSL's HKDF with sha3-256 / sha3-512.
+describe.concurrent("hkdf (SHA-3)", () => {
+  const ikm = hexDecode(VECTORS.a1.ikm, { returnAs: "uint8array" });
+  const salt = hexDecode(VECTORS.a1.salt, { returnAs: "uint8array" });
+  const info = hexDecode(VECTORS.a1.info, { returnAs: "uint8array" });
+
+  it("derives with SHA3-256", async () => {
+    const out = await hkdf(ikm, { algorithm: "SHA3-256", length: 42, salt, info });
+    expect(hexEncode(out)).toBe(
+      "0c5160501d65021deaf2c14f5abce04c5bd2635abceeba61c2edb6e8ed72674900557728f2c9f2c4c179",
+    );
+  });
+
+  it("derives with SHA3-512", async () => {
+    const out = await hkdf(ikm, { algorithm: "SHA3-512", length: 42, salt, info });
+    expect(hexEncode(out)).toBe(
+      "40e9f17e9bf2ef99425c2b23ccdf20a018ea5513f9ae68e1ea8c626deb57dfa4d56c27ccf2a2a24488a5",
+    );
+  });
+
+  it("treats omitted salt and info as empty", async () => {
+    const out = await hkdf(ikm, { algorithm: "SHA3-256", length: 42 });
+    expect(hexEncode(out)).toBe(
+      "bc1342cdd75c05e8b0c3ae609ce4410684d197232875073499b30cdfe2de2853c1c1bed63d725e885e78",
+    );
+  });
+
+  it("mirrors string ikm -> hex output", async () => {
+    const out = await hkdf("my-secret", { algorithm: "SHA3-384", info: "ctx" });
+    expect(out).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("enforces 255 * HashLen for SHA-3", async () => {
+    await expect(hkdf(ikm, { algorithm: "SHA3-256", length: 8161 })).rejects.toThrow(
+      /at most 8160/,
+    );
+  });
+
+  it("rejects SHAKE", async () => {
+    await expect(hkdf(ikm, { algorithm: "SHAKE128" as any })).rejects.toThrow(
+      "HKDF is not defined for SHAKE128.",
+    );
+  });
+});
+
 describe("hkdf API", () => {
   const ikm = hexDecode(VECTORS.a1.ikm, { returnAs: "uint8array" });
   const salt = hexDecode(VECTORS.a1.salt, { returnAs: "uint8array" });
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { hmac, hmacVerify } from "../src/hmac.ts";
+import { createKeyring } from "../src/keyring.ts";
 
 describe("hmac", () => {
   const secret = "my-secret-key";
@@ -96,6 +97,44 @@ describe("hmac", () => {
       expect(result.length).toBe(128);
     });
 
+    it("should support SHA-3 (NIST HMAC-SHA3 example)", async () => {
+      const key = new Uint8Array(32).map((_, i) => i);
+      const result = await hmac(key, "Sample message for keylen<blocklen", {
+        algorithm: "SHA3-256",
+      });
+      expect(result).toBe("4fe8e202c4f058e8dddc23d8c34e467343e23555e24fc2f025d598f558f67205");
+    });
+
+    it("should hash SHA-3 keys longer than the block size", async () => {
+      // SHA3-256 block size (rate) is 136 bytes.
+      const key = new Uint8Array(168).map((_, i) => i);
+      const result = await hmac(key, "Sample message for keylen>blocklen", {
+        algorithm: "SHA3-256",
+      });
+      expect(result).toBe("9bcf2c238e235c3ce88404e813bd2f3a97185ac6f238c63d6229a00b07974258");
+    });
+
+    it("should support SHA3-384 and SHA3-512", async () => {
+      expect(await hmac(secret, message, { algorithm: "SHA3-384" })).toBe(
+        "734b0d8b05d955c62aa8e1cdde959a89b041fbe7d20b56992e7f1507b7c22cdf07133fc821961caa7093d780c5b7b59f",
+      );
+      expect(await hmac(secret, message, { algorithm: "SHA3-512" })).toBe(
+        "4d81991c1c1dd26859376af14e524237a4d27b444ac2e8e41b969a0606bc1bfad4d7193e0de1b6fb275f9ef91e8044acdc1f8455b97872b8499b1b7ee739ab10",
+      );
+    });
+
+    it("should mirror the input type for SHA-3", async () => {
+      const result = await hmac(secret, messageBytes, { algorithm: "SHA3-256" });
+      expect(result).toBeInstanceOf(Uint8Array);
+      expect(result.length).toBe(32);
+    });
+
+    it("should reject SHAKE algorithms", async () => {
+      await expect(hmac(secret, message, { algorithm: "SHAKE256" as any })).rejects.toThrow(
+        "HMAC is not defined for the extendable-output function SHAKE256.",
+      );
+    });
+
     it("should produce different signatures for different messages", async () => {
       const sig1 = await hmac(secret, "message 1");
       const sig2 = await hmac(secret, "message 2");
@@ -180,6 +219,13 @@ describe("hmac", () => {
       expect(valid).toBe(true);
     });
 
+    it("should verify SHA-3 signatures", async () => {
+      const sig = await hmac(secret, message, { algorithm: "SHA3-512", returnAs: "base64" });
+      const opts = { algorithm: "SHA3-512", returnAs: "base64" } as const;
+      expect(await hmacVerify(secret, message, sig, opts)).toBe(true);
+      expect(await hmacVerify(secret, "tampered", sig, opts)).toBe(false);
+    });
+
     it("should fail when algorithm does not match", async () => {
       const sig256 = await hmac(secret, message, { algorithm: "SHA-256" });
       const valid = await hmacVerify(secret, message, sig256, { algorithm: "SHA-512" });
@@ -209,4 +255,91 @@ describe("hmac", () => {
       expect(sig.buffer).toBeInstanceOf(ArrayBuffer);
     });
   });
+
+  describe("keyring", () => {
+    const oldSecret = "old-secret";
+    const newSecret = "new-secret";
+    const keyring = createKeyring({
+      keys: { v1: oldSecret, v2: newSecret },
+      activeKeyId: "v2",
+    });
+    const previous = createKeyring({ keys: { v1: oldSecret }, activeKeyId: "v1" });
+
+    it("should sign with the active key and embed its id", async () => {
+      const sig = await hmac(keyring, message);
+      expect(sig).toBe(`v2.${await hmac(newSecret, message)}`);
+      expect(await hmac(keyring, message, { returnAs: "base64url" })).toBe(
+        `v2.${await hmac(newSecret, message, { returnAs: "base64url" })}`,
+      );
+    });
+
+    it("should frame the key id in byte signatures", async () => {
+      const sig = await hmac(keyring, messageBytes);
+      const raw = await hmac(newSecret, messageBytes);
+      expect(sig[0]).toBe(2);
+      expect(new TextDecoder().decode(sig.subarray(1, 3))).toBe("v2");
+      expect(sig.subarray(3)).toStrictEqual(raw);
+    });
+
+    it("should verify active-key signatures without rotation", async () => {
+      const sig = await hmac(keyring, message);
+      expect(await hmacVerify(keyring, message, sig)).toStrictEqual({
+        valid: true,
+        keyId: "v2",
+        needsRotation: false,
+      });
+      const bytesSig = await hmac(keyring, messageBytes);
+      expect(await hmacVerify(keyring, messageBytes, bytesSig)).toStrictEqual({
+        valid: true,
+        keyId: "v2",
+        needsRotation: false,
+      });
+    });
+
+    it("should flag signatures made with an older key", async () => {
+      const sig = await hmac(previous, message);
+      expect(await hmacVerify(keyring, message, sig)).toStrictEqual({
+        valid: true,
+        keyId: "v1",
+        needsRotation: true,
+      });
+    });
+
+    it("should try only the key named in the signature", async () => {
+      // A v2 signature relabelled as v1 must not verify under v2
+      const sig = await hmac(keyring, message);
+      const relabelled = sig.replace(/^v2\./, "v1.");
+      expect(await hmacVerify(keyring, message, relabelled)).toStrictEqual({
+        valid: false,
+        keyId: "v1",
+        needsRotation: false,
+      });
+    });
+
+    it("should reject unknown key ids and unlabelled signatures", async () => {
+      const sig = await hmac(newSecret, message);
+      expect(await hmacVerify(keyring, message, `v9.${sig}`)).toStrictEqual({
+        valid: false,
+        keyId: "v9",
+        needsRotation: false,
+      });
+      expect(await hmacVerify(keyring, message, sig)).toStrictEqual({
+        valid: false,
+        keyId: undefined,
+        needsRotation: false,
+      });
+      expect(await hmacVerify(keyring, messageBytes, new Uint8Array(0))).toStrictEqual({
+        valid: false,
+        keyId: undefined,
+        needsRotation: false,
+      });
+    });
+
+    it("should not flag rotation for invalid signatures", async () => {
+      const sig = await hmac(previous, "original");
+      const result = await hmacVerify(keyring, "tampered", sig);
+      expect(result.valid).toBe(false);
+      expect(result.needsRotation).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,193 @@
+import { describe, it, expect } from "vitest";
+import { createHPKERecipient, createHPKESender, hpkeOpen, hpkeSeal } from "../src/hpke.ts";
+import { exportKey, generateKeyPair } from "../src/keys.ts";
+import { Hex } from "../src/utils/index.ts";
+
+const hex = (value: string) => Hex.parse(value, { returnAs: "bytes" });
+
+// RFC 9180, appendix A.1.1: DHKEM(X25519, HKDF-SHA256), HKDF-SHA256, AES-128-GCM, base mode
+const A11 = {
+  skRm: "4612c550263fc8ad58375df3f557aac531d26850903e55a9f23f21d8534e8ac8",
+  pkRm: "3948cfe0ad1ddb695d780e59077195da6c56506b027329794ab02bca80815c4d",
+  enc: "37fda3567bdbd628e88668c3c8d7e97d1d1253b6d4ea6d44c150f741f1bf4431",
+  info: hex("4f6465206f6e2061204772656369616e2055726e"),
+  pt: "Beauty is truth, truth beauty",
+  ct0: "f938558b5d72f1a23810b4be2ab4f84331acc02fc97babc53a52ae8218a355a96d8770ac83d07bea87e13c512a",
+  ct1: "af2d7e9ac9ae7e270f46ba1f975be53c09f8d875bdc8535458c2494e8a6eab251c03d0c22a56b8ca42c2063b84",
+  exports: [
+    ["", "3853fe2b4035195a573ffc53856e77058e15d9ea064de3e59f4961d0095250ee"],
+    ["00", "2e8f0b54673c7029649d4eb9d5e33bf1872cf76d623ff164ac185da9e88c21a5"],
+    ["54657374436f6e74657874", "e9e43065102c3836401bed8c3c3c75ae46be1639869391d62c61f1ec7af54931"],
+  ],
+};
+
+// RFC 9180, appendix A.2.1: DHKEM(X25519, HKDF-SHA256), HKDF-SHA256, ChaCha20Poly1305, base mode
+const A21 = {
+  skRm: "8057991eef8f1f1af18f4a9491d16a1ce333f695d4db8e38da75975c4478e0fb",
+  enc: "1afa08d3dec047a643885163f1180476fa7ddb54c6a8029ea33f95796bf2ac4a",
+  info: A11.info,
+  pt: A11.pt,
+  ct0: "1c5250d8034ec2b784ba2cfd69dbdb8af406cfe3ff938e131f0def8c8b60b4db21993c62ce81883d2dd1b51a28",
+  ct1: "6b53c051e4199c518de79594e1c4ab18b96f081549d45ce015be002090bb119e85285337cc95ba5f59992dc98c",
+  exports: [
+    ["", "4bbd6243b8bb54cec311fac9df81841b6fd61f56538a775e7c80a9f40160606e"],
+    ["00", "8c1df14732580e5501b00f82b10a1647b40713191b7c1240ac80e2b68808ba69"],
+    ["54657374436f6e74657874", "5acb09211139c43b3090489a9da433e8a30ee7188ba8b0a9a1ccf0c229283e53"],
+  ],
+};
+
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe("createHPKERecipient", () => {
+  it("matches the RFC 9180 A.1.1 vectors", async () => {
+    const recipient = await createHPKERecipient(hex(A11.skRm), hex(A11.enc), { info: A11.info });
+    expect(decode(await recipient.open(hex(A11.ct0), "Count-0"))).toBe(A11.pt);
+    expect(decode(await recipient.open(hex(A11.ct1), "Count-1"))).toBe(A11.pt);
+    for (const [context, expected] of A11.exports) {
+      expect(Hex.stringify(await recipient.export(hex(context!), 32))).toBe(expected);
+    }
+  });
+
+  it("matches the RFC 9180 A.2.1 vectors", async () => {
+    const recipient = await createHPKERecipient(hex(A21.skRm), hex(A21.enc), {
+      aead: "ChaCha20-Poly1305",
+      info: A21.info,
+    });
+    expect(decode(await recipient.open(hex(A21.ct0), "Count-0"))).toBe(A21.pt);
+    expect(decode(await recipient.open(hex(A21.ct1), "Count-1"))).toBe(A21.pt);
+    for (const [context, expected] of A21.exports) {
+      expect(Hex.stringify(await recipient.export(hex(context!), 32))).toBe(expected);
+    }
+  });
+
+  it("does not advance the sequence on a failed open", async () => {
+    const recipient = await createHPKERecipient(hex(A11.skRm), hex(A11.enc), { info: A11.info });
+    await expect(recipient.open(hex(A11.ct1), "Count-1")).rejects.toThrow("Decryption failed.");
+    await expect(recipient.open(hex(A11.ct0), "Count-1")).rejects.toThrow("Decryption failed.");
+    expect(decode(await recipient.open(hex(A11.ct0), "Count-0"))).toBe(A11.pt);
+    expect(decode(await recipient.open(hex(A11.ct1), "Count-1"))).toBe(A11.pt);
+  });
+});
+
+describe("createHPKESender", () => {
+  it("seals a sequence the recipient opens in order, and exports the same secrets", async () => {
+    for (const aead of ["AES-128-GCM", "AES-256-GCM", "ChaCha20-Poly1305"] as const) {
+      const pair = await generateKeyPair("X25519");
+      const sender = await createHPKESender(pair.publicKey, { aead, info: "app/v1" });
+      const first = await sender.seal("first", "header");
+      const second = await sender.seal(new Uint8Array([1, 2, 3]));
+      expect(sender.enc).toHaveLength(32);
+      expect(first).toHaveLength(5 + 16);
+
+      const recipient = await createHPKERecipient(pair, sender.enc, { aead, info: "app/v1" });
+      expect(decode(await recipient.open(first, "header"))).toBe("first");
+      expect(await recipient.open(second)).toStrictEqual(new Uint8Array([1, 2, 3]));
+      expect(await recipient.export("ctx", 48)).toStrictEqual(await sender.export("ctx", 48));
+    }
+  });
+
+  it("uses a fresh ephemeral key for every context", async () => {
+    const { publicKey } = await generateKeyPair("X25519");
+    const a = await createHPKESender(publicKey);
+    const b = await createHPKESender(publicKey);
+    expect(a.enc).not.toStrictEqual(b.enc);
+  });
+
+  it("rejects export lengths out of range", async () => {
+    const sender = await createHPKESender(hex(A11.pkRm));
+    await expect(sender.export("", 0)).rejects.toThrow(RangeError);
+    await expect(sender.export("", 255 * 32 + 1)).rejects.toThrow(RangeError);
+    await expect(sender.export("", 255 * 32)).resolves.toHaveLength(255 * 32);
+  });
+});
+
+describe("hpkeSeal / hpkeOpen", () => {
+  it("opens single-shot RFC 9180 A.1.1 and A.2.1 envelopes", async () => {
+    for (const [vector, aead] of [
+      [A11, "AES-128-GCM"],
+      [A21, "ChaCha20-Poly1305"],
+    ] as const) {
+      const envelope = new Uint8Array([...hex(vector.enc), ...hex(vector.ct0)]);
+      const plaintext = await hpkeOpen(hex(vector.skRm), envelope, {
+        aead,
+        info: vector.info,
+        aad: "Count-0",
+        returnAs: "string",
+      });
+      expect(plaintext).toBe(vector.pt);
+    }
+  });
+
+  it("round-trips a string through a base64url envelope by default", async () => {
+    const pair = await generateKeyPair("X25519");
+    const sealed = await hpkeSeal(pair.publicKey, "secret", { info: "webhooks/v1" });
+    expect(sealed).toMatch(/^[\w-]+$/);
+    await expect(hpkeOpen(pair, sealed, { info: "webhooks/v1" })).resolves.toBe("secret");
+  });
+
+  it("round-trips bytes with JWK and raw keys", async () => {
+    const pair = await generateKeyPair("X25519");
+    const privateJwk = await exportKey(pair.privateKey, "jwk");
+    const publicJwk = await exportKey(pair.publicKey, "jwk");
+    const data = new Uint8Array([0, 1, 2, 255]);
+    const sealed = await hpkeSeal(publicJwk, data, { aead: "AES-256-GCM", aad: "id:7" });
+    expect(sealed).toBeInstanceOf(Uint8Array);
+    expect(sealed).toHaveLength(32 + data.length + 16);
+    const options = { aead: "AES-256-GCM", aad: "id:7" } as const;
+    await expect(hpkeOpen(privateJwk, sealed, options)).resolves.toStrictEqual(data);
+    // An extractable private CryptoKey carries its public half
+    await expect(hpkeOpen(pair.privateKey, sealed, options)).resolves.toStrictEqual(data);
+  });
+
+  it("fails with one uniform error for every envelope problem", async () => {
+    const pair = await generateKeyPair("X25519");
+    const other = await generateKeyPair("X25519");
+    const sealed = await hpkeSeal(pair.publicKey, new Uint8Array(8), { info: "a", aad: "b" });
+    const tampered = sealed.slice();
+    tampered[40]! ^= 1;
+    const failed = "Decryption failed.";
+    await expect(hpkeOpen(other, sealed, { info: "a", aad: "b" })).rejects.toThrow(failed);
+    await expect(hpkeOpen(pair, sealed, { info: "x", aad: "b" })).rejects.toThrow(failed);
+    await expect(hpkeOpen(pair, sealed, { info: "a" })).rejects.toThrow(failed);
+    await expect(
+      hpkeOpen(pair, sealed, { info: "a", aad: "b", aead: "AES-256-GCM" }),
+    ).rejects.toThrow(failed);
+    await expect(hpkeOpen(pair, tampered, { info: "a", aad: "b" })).rejects.toThrow(failed);
+    await expect(hpkeOpen(pair, sealed.subarray(0, 20))).rejects.toThrow(failed);
+    await expect(hpkeOpen(pair, "not base64url!")).rejects.toThrow(failed);
+  });
+
+  it("rejects keys and options that do not fit", async () => {
+    const x25519 = await generateKeyPair("X25519");
+    const ed25519 = await generateKeyPair("Ed25519");
+    const hidden = await generateKeyPair("X25519", { extractable: false });
+    const sealed = await hpkeSeal(x25519.publicKey, new Uint8Array(1));
+    await expect(hpkeSeal(ed25519.publicKey, "x")).rejects.toThrow(
+      "HPKE keys must be X25519 keys.",
+    );
+    await expect(hpkeSeal(x25519.privateKey, "x")).rejects.toThrow(
+      "Expected a public key, got a private key.",
+    );
+    await expect(hpkeOpen(x25519.publicKey, sealed)).rejects.toThrow(
+      "Expected a private key, got a public key.",
+    );
+    await expect(hpkeOpen(hidden.privateKey, sealed)).rejects.toThrow(
+      "Pass the CryptoKeyPair: a non-extractable private key hides its public half.",
+    );
+    await expect(hpkeOpen({ kty: "OKP", crv: "X25519", x: "AA" }, sealed)).rejects.toThrow(
+      "Expected a private JWK.",
+    );
+    await expect(hpkeSeal("key" as never, "x")).rejects.toThrow(
+      "HPKE keys must be a CryptoKey, a JWK or raw bytes.",
+    );
+    await expect(hpkeSeal(new Uint8Array(31), "x")).rejects.toThrow(
+      "X25519 public keys are 32 bytes, got 31.",
+    );
+    await expect(hpkeSeal(x25519.publicKey, "x", { aead: "AES-192-GCM" as never })).rejects.toThrow(
+      "Unsupported HPKE AEAD: AES-192-GCM",
+    );
+    await expect(hpkeSeal(x25519.publicKey, "x", { returnAs: "hex" as never })).rejects.toThrow(
+      'Unsupported hpkeSeal "returnAs" option: hex',
+    );
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect } from "vitest";
+import { type JWK, type JWKS, createKeySet } from "../src/jwks.ts";
+import { signJWT, verifyJWT } from "../src/jwt.ts";
+import { generateKeyPair, exportKey } from "../src/keys.ts";
+
+// RFC 8037, appendix A.1
+const ED_PRIVATE: JWK = {
+  kty: "OKP",
+  crv: "Ed25519",
+  d: "nWGxne_9WmC6hEr0kuwsxERJxWl7MmkZcDusAxyuf2A",
+  x: "11qYAYKxCrfVS_7TyWQHOg7hcvPapiMlrwIaaPcHURo",
+  kid: "ed-1",
+};
+const { d: _, ...ED_PUBLIC } = ED_PRIVATE;
+
+// RFC 7515, appendix A.3
+const EC_PUBLIC: JWK = {
+  kty: "EC",
+  crv: "P-256",
+  x: "f83OJ3D2xF1Bg8vub9tLe1gHMzV76e8Tus9uPHvRVEU",
+  y: "x_FEzRu9m36HLN_tue659LNpXW6pCyStikYjKIWI5a0",
+  kid: "ec-1",
+  alg: "ES256",
+  use: "sig",
+};
+
+const T = 1_700_000_000;
+
+function clock(start = T): { now: () => number; advance: (seconds: number) => void } {
+  let time = start;
+  return { now: () => time, advance: (seconds) => (time += seconds) };
+}
+
+describe("createKeySet", () => {
+  it("indexes keys by kid, alg and use", () => {
+    const encryption: JWK = { ...EC_PUBLIC, kid: "ec-enc", alg: "ECDH-ES", use: "enc" };
+    const keySet = createKeySet({ keys: [ED_PUBLIC, EC_PUBLIC, encryption] }, clock());
+    expect(keySet.keys.map((entry) => entry.kid)).toStrictEqual(["ed-1", "ec-1", "ec-enc"]);
+    expect(keySet.get("ec-1")).toMatchObject({ kid: "ec-1", alg: "ES256", use: "sig", addedAt: T });
+    expect(keySet.get("missing")).toBeUndefined();
+    expect(keySet.find({ use: "sig" }).map((entry) => entry.kid)).toStrictEqual(["ed-1", "ec-1"]);
+    expect(keySet.find({ alg: "ES256", kty: "EC" }).map((entry) => entry.kid)).toStrictEqual([
+      "ec-1",
+    ]);
+    expect(Object.isFrozen(keySet.keys)).toBe(true);
+    expect(Object.isFrozen(keySet.get("ed-1")!.jwk)).toBe(true);
+  });
+
+  it("adds and removes keys with timestamps", () => {
+    const time = clock();
+    const keySet = createKeySet({ keys: [EC_PUBLIC] }, time);
+    time.advance(60);
+    const entry = keySet.add(ED_PUBLIC);
+    expect([entry.addedAt, keySet.updatedAt]).toStrictEqual([T + 60, T + 60]);
+    expect(() => keySet.add(ED_PUBLIC)).toThrow(TypeError);
+
+    time.advance(60);
+    expect(keySet.remove("ec-1")).toBe(true);
+    expect(keySet.remove("ec-1")).toBe(false);
+    expect(keySet.updatedAt).toBe(T + 120);
+    expect(keySet.keys.map((key) => key.kid)).toStrictEqual(["ed-1"]);
+  });
+
+  it("validates every JWK", () => {
+    expect(() => createKeySet({ keys: "none" } as never)).toThrow(
+      'Invalid JWK Set: expected a "keys" array.',
+    );
+    expect(() => createKeySet({ keys: ["key"] } as never)).toThrow(
+      "Invalid JWK: expected an object.",
+    );
+    expect(() => createKeySet({ keys: [{ kty: "DSA" }] } as never)).toThrow(
+      "Invalid JWK: unsupported kty DSA.",
+    );
+    expect(() => createKeySet({ keys: [{ ...EC_PUBLIC, y: undefined }] } as never)).toThrow(
+      'Invalid JWK "ec-1": missing "y".',
+    );
+    expect(() => createKeySet({ keys: [{ kty: "oct", k: "" }] } as never)).toThrow(
+      'Invalid JWK: missing "k".',
+    );
+    expect(() => createKeySet({ keys: [{ ...ED_PUBLIC, crv: "Ed448" }] } as never)).toThrow(
+      'Invalid JWK "ed-1": unsupported crv Ed448.',
+    );
+    expect(() => createKeySet({ keys: [{ ...ED_PUBLIC, kid: 1 }] } as never)).toThrow(
+      'Invalid JWK: "kid" must be a string.',
+    );
+    expect(() => createKeySet({ keys: [{ ...ED_PUBLIC, use: "auth" }] } as never)).toThrow(
+      'Invalid JWK "ed-1": unsupported use auth.',
+    );
+    expect(() => createKeySet({ keys: [{ ...ED_PUBLIC, key_ops: "verify" }] } as never)).toThrow(
+      'Invalid JWK "ed-1": "key_ops" must be an array.',
+    );
+    expect(() =>
+      createKeySet({ keys: [ED_PUBLIC, { ...EC_PUBLIC, kid: "ed-1" }] } as never),
+    ).toThrow('Invalid JWK "ed-1": duplicate kid.');
+    expect(() => createKeySet(undefined, { cooldown: -1 })).toThrow(
+      "cooldown must be a non-negative number of seconds.",
+    );
+  });
+
+  it("publishes only public members of asymmetric keys", () => {
+    const keySet = createKeySet({ keys: [ED_PRIVATE, { kty: "oct", k: "c2VjcmV0", kid: "hmac" }] });
+    expect(keySet.toJSON()).toStrictEqual({ keys: [ED_PUBLIC] });
+    expect(JSON.parse(JSON.stringify(keySet))).toStrictEqual({ keys: [ED_PUBLIC] });
+  });
+});
+
+describe("KeySet.resolve", () => {
+  it("picks by kid, or the only fitting signing key without one", async () => {
+    const keySet = createKeySet({
+      keys: [ED_PUBLIC, EC_PUBLIC, { ...EC_PUBLIC, kid: "ec-enc", alg: undefined, use: "enc" }],
+    });
+    expect(await keySet.resolve({ alg: "EdDSA", kid: "ed-1" })).toStrictEqual(ED_PUBLIC);
+    expect(await keySet.resolve({ alg: "ES256", kid: "ec-enc" })).toBeUndefined();
+    expect(await keySet.resolve({ alg: "ES256", kid: "unknown" })).toBeUndefined();
+    expect(await keySet.resolve({ alg: "ES256" })).toStrictEqual(EC_PUBLIC);
+    expect(await keySet.resolve({ alg: "EdDSA" })).toStrictEqual(ED_PUBLIC);
+
+    keySet.add({ ...ED_PUBLIC, kid: "ed-2" });
+    expect(await keySet.resolve({ alg: "EdDSA" })).toBeUndefined();
+  });
+
+  it("verifies JWTs by kid", async () => {
+    const keySet = createKeySet({ keys: [EC_PUBLIC, ED_PUBLIC] });
+    const token = await signJWT({ sub: "user-1" }, ED_PRIVATE, { time: T });
+    const { header, payload } = await verifyJWT(token, keySet.resolve, { time: T });
+    expect(header).toStrictEqual({ alg: "EdDSA", typ: "JWT", kid: "ed-1" });
+    expect(payload.sub).toBe("user-1");
+
+    keySet.remove("ed-1");
+    const error = await verifyJWT(token, keySet.resolve).catch((error: unknown) => error);
+    expect(error).toMatchObject({ code: "ERR_JWT_INVALID_SIGNATURE" });
+  });
+
+  it("reloads once for an unknown kid, then waits for the cooldown", async () => {
+    const { publicKey, privateKey } = await generateKeyPair("P-256");
+    const rotated: JWK = { ...(await exportKey(publicKey, "jwk")), kid: "ec-2" };
+    const documents: JWKS[] = [{ keys: [EC_PUBLIC] }, { keys: [EC_PUBLIC, rotated] }];
+    let loads = 0;
+    const time = clock();
+    const keySet = createKeySet(undefined, {
+      ...time,
+      cooldown: 30,
+      loader: async () => documents[Math.min(loads++, 1)]!,
+    });
+
+    await keySet.reload();
+    expect(keySet.keys.map((entry) => entry.kid)).toStrictEqual(["ec-1"]);
+
+    // The issuer rotates: the first token with the new kid triggers a reload
+    const signingKey: JWK = { ...(await exportKey(privateKey, "jwk")), kid: "ec-2" };
+    const token = await signJWT({}, signingKey);
+    expect(await keySet.resolve({ alg: "ES256", kid: "ec-2" })).toBeUndefined();
+    expect(loads).toBe(1);
+    time.advance(30);
+    const [first, second] = await Promise.all([
+      verifyJWT(token, keySet.resolve),
+      verifyJWT(token, keySet.resolve),
+    ]);
+    expect([first.header.kid, second.header.kid, loads]).toStrictEqual(["ec-2", "ec-2", 2]);
+    expect(keySet.get("ec-1")!.addedAt).toBe(T);
+    expect(keySet.get("ec-2")!.addedAt).toBe(T + 30);
+
+    await keySet.resolve({ alg: "ES256", kid: "forged" });
+    await keySet.resolve({ alg: "ES256", kid: "forged" });
+    expect(loads).toBe(2);
+  });
+
+  it("propagates loader failures", async () => {
+    const failing = createKeySet(undefined, {
+      loader: () => Promise.reject("network down"),
+    });
+    await expect(failing.resolve({ alg: "ES256", kid: "x" })).rejects.toThrow("network down");
+    const invalid = createKeySet(undefined, { loader: () => ({ keys: [{ kty: "DSA" }] }) });
+    await expect(invalid.reload()).rejects.toThrow(TypeError);
+    await expect(createKeySet().reload()).rejects.toThrow(TypeError);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { createKeyring, isKeyring } from "../src/keyring.ts";
+
+describe("createKeyring", () => {
+  it("exposes the active key id, key ids and lookup", () => {
+    const keyring = createKeyring({ keys: { a: "one", b: "two" }, activeKeyId: "b" });
+    expect(keyring.activeKeyId).toBe("b");
+    expect(keyring.keyIds).toStrictEqual(["a", "b"]);
+    expect(keyring.get("a")).toBe("one");
+    expect(keyring.get("missing")).toBeUndefined();
+  });
+
+  it("is frozen and detached from the input object", () => {
+    const keys: Record<string, string> = { a: "one" };
+    const keyring = createKeyring({ keys, activeKeyId: "a" });
+    keys.b = "two";
+    expect(keyring.get("b")).toBeUndefined();
+    expect(Object.isFrozen(keyring)).toBe(true);
+    expect(Object.isFrozen(keyring.keyIds)).toBe(true);
+  });
+
+  it("rejects an active key id that is not in the keyring", () => {
+    expect(() => createKeyring({ keys: { a: "one" }, activeKeyId: "b" })).toThrow(TypeError);
+  });
+
+  it("rejects malformed key ids", () => {
+    for (const keyId of ["", "has.dot", "has space", "x".repeat(65), "ünïcode"]) {
+      expect(() => createKeyring({ keys: { [keyId]: "secret" }, activeKeyId: keyId })).toThrow(
+        TypeError,
+      );
+    }
+  });
+});
+
+describe("isKeyring", () => {
+  it("recognises keyrings only", () => {
+    expect(isKeyring(createKeyring({ keys: { a: "one" }, activeKeyId: "a" }))).toBe(true);
+    expect(isKeyring({ activeKeyId: "a", keyIds: ["a"], get: () => "one" })).toBe(false);
+    expect(isKeyring("secret")).toBe(false);
+    expect(isKeyring(new Uint8Array(32))).toBe(false);
+    expect(isKeyring(null)).toBe(false);
+  });
+});
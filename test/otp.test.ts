@@ -1,5 +1,16 @@
 import { describe, it, expect, vi } from "vitest";
-import { hotp, hotpVerify, totp, totpVerify, generateOTPSecret, otpauthURI } from "../src/otp.ts";
+import {
+  hotp,
+  hotpResync,
+  hotpVerify,
+  totp,
+  totpVerify,
+  generateOTPSecret,
+  otpauthMigrationURIs,
+  otpauthURI,
+  parseOTPAuthMigrationURI,
+  parseOTPAuthURI,
+} from "../src/otp.ts";
 import { base32Encode, base32Decode } from "../src/utils/index.ts";
 
 // RFC 4226 test secret: ASCII "12345678901234567890" (20 bytes)
@@ -58,7 +69,7 @@ describe("HOTP (RFC 4226)", () => {
   describe("hotpVerify()", () => {
     it("should return valid for correct OTP", async () => {
       const result = await hotpVerify(RFC4226_SECRET, "755224", 0);
-      expect(result).toEqual({ valid: true, delta: 0 });
+      expect(result).toEqual({ valid: true, delta: 0, nextCounter: 1 });
     });
 
     it("should return invalid for wrong OTP", async () => {
@@ -69,7 +80,7 @@ describe("HOTP (RFC 4226)", () => {
     it("should find OTP within window", async () => {
       // OTP for counter=3 is "969429"
       const result = await hotpVerify(RFC4226_SECRET, "969429", 0, { window: 5 });
-      expect(result).toEqual({ valid: true, delta: 3 });
+      expect(result).toEqual({ valid: true, delta: 3, nextCounter: 4 });
     });
 
     it("should fail when OTP is outside window", async () => {
@@ -78,6 +89,33 @@ describe("HOTP (RFC 4226)", () => {
       expect(result).toEqual({ valid: false, delta: 0 });
     });
   });
+
+  describe("hotpResync()", () => {
+    it("should find two consecutive codes ahead of the counter", async () => {
+      // Counters 3 and 4
+      const result = await hotpResync(RFC4226_SECRET, "969429", "338314", 0);
+      expect(result).toEqual({ valid: true, delta: 3, nextCounter: 5 });
+    });
+
+    it("should reject codes that are not consecutive", async () => {
+      // Counters 3 and 5
+      const result = await hotpResync(RFC4226_SECRET, "969429", "254676", 0);
+      expect(result).toEqual({ valid: false, delta: 0 });
+    });
+
+    it("should reject codes in the wrong order", async () => {
+      const result = await hotpResync(RFC4226_SECRET, "338314", "969429", 0);
+      expect(result).toEqual({ valid: false, delta: 0 });
+    });
+
+    it("should respect lookAhead", async () => {
+      // Counters 8 and 9
+      const outside = await hotpResync(RFC4226_SECRET, "399871", "520489", 0, { lookAhead: 7 });
+      expect(outside).toEqual({ valid: false, delta: 0 });
+      const inside = await hotpResync(RFC4226_SECRET, "399871", "520489", 0, { lookAhead: 8 });
+      expect(inside).toEqual({ valid: true, delta: 8, nextCounter: 10 });
+    });
+  });
 });
 
 describe("TOTP (RFC 6238)", () => {
@@ -171,7 +209,7 @@ describe("TOTP (RFC 6238)", () => {
         time: 59,
         digits: 8,
       });
-      expect(result).toEqual({ valid: true, delta: 0 });
+      expect(result).toEqual({ valid: true, delta: 0, step: 1 });
     });
 
     it("should verify within window (previous step)", async () => {
@@ -182,7 +220,7 @@ describe("TOTP (RFC 6238)", () => {
         digits: 8,
         window: 1,
       });
-      expect(result).toEqual({ valid: true, delta: -1 });
+      expect(result).toEqual({ valid: true, delta: -1, step: 0 });
     });
 
     it("should verify within window (next step)", async () => {
@@ -193,7 +231,7 @@ describe("TOTP (RFC 6238)", () => {
         digits: 8,
         window: 1,
       });
-      expect(result).toEqual({ valid: true, delta: 1 });
+      expect(result).toEqual({ valid: true, delta: 1, step: 1 });
     });
 
     it("should fail outside window", async () => {
@@ -221,7 +259,40 @@ describe("TOTP (RFC 6238)", () => {
       const code = await totp(RFC6238_SHA1_SECRET, { digits: 8 });
       const result = await totpVerify(RFC6238_SHA1_SECRET, code, { digits: 8 });
       vi.restoreAllMocks();
-      expect(result).toEqual({ valid: true, delta: 0 });
+      expect(result).toEqual({ valid: true, delta: 0, step: 1 });
+    });
+
+    it("should reject a replayed code at or before lastStep", async () => {
+      const code = await totp(RFC6238_SHA1_SECRET, { time: 59, digits: 8 });
+      const first = await totpVerify(RFC6238_SHA1_SECRET, code, { time: 59, digits: 8 });
+      expect(first).toEqual({ valid: true, delta: 0, step: 1 });
+
+      // Same code again, still inside the window
+      const replay = await totpVerify(RFC6238_SHA1_SECRET, code, {
+        time: 75,
+        digits: 8,
+        lastStep: first.step,
+      });
+      expect(replay).toEqual({ valid: false, delta: 0 });
+
+      // An older code from the window is rejected too
+      const older = await totp(RFC6238_SHA1_SECRET, { time: 29, digits: 8 });
+      const stale = await totpVerify(RFC6238_SHA1_SECRET, older, {
+        time: 59,
+        digits: 8,
+        lastStep: first.step,
+      });
+      expect(stale).toEqual({ valid: false, delta: 0 });
+    });
+
+    it("should accept a later step after lastStep", async () => {
+      const code = await totp(RFC6238_SHA1_SECRET, { time: 89, digits: 8 });
+      const result = await totpVerify(RFC6238_SHA1_SECRET, code, {
+        time: 59,
+        digits: 8,
+        lastStep: 1,
+      });
+      expect(result).toEqual({ valid: true, delta: 1, step: 2 });
     });
   });
 });
@@ -352,3 +423,296 @@ describe("otpauthURI()", () => {
     expect(uri).not.toContain("issuer=");
   });
 });
+
+describe("parseOTPAuthURI()", () => {
+  const secretB32 = base32Encode(new TextEncoder().encode("12345678901234567890")).replace(
+    /=+$/,
+    "",
+  );
+
+  it("should round-trip otpauthURI() output", () => {
+    const totpOptions = {
+      type: "totp" as const,
+      secret: secretB32,
+      account: "user@example.com",
+      issuer: "My App",
+      algorithm: "SHA-256" as const,
+      digits: 8,
+      period: 60,
+    };
+    expect(parseOTPAuthURI(otpauthURI(totpOptions))).toEqual(totpOptions);
+
+    const hotpOptions = {
+      type: "hotp" as const,
+      secret: secretB32,
+      account: "alice",
+      algorithm: "SHA-1" as const,
+      digits: 6,
+      counter: 42,
+    };
+    expect(parseOTPAuthURI(otpauthURI(hotpOptions))).toEqual(hotpOptions);
+  });
+
+  it("should round-trip colons in the issuer and account", () => {
+    const base = { type: "totp" as const, secret: secretB32, algorithm: "SHA-1" as const };
+    for (const options of [
+      { ...base, issuer: "A:B", account: "x" },
+      { ...base, account: "a:b" },
+      { ...base, issuer: "a", account: "a:b" },
+    ]) {
+      expect(parseOTPAuthURI(otpauthURI(options))).toEqual({ ...options, digits: 6, period: 30 });
+    }
+  });
+
+  it("should fill in defaults", () => {
+    expect(parseOTPAuthURI(`otpauth://totp/alice?secret=${secretB32}`)).toEqual({
+      type: "totp",
+      secret: secretB32,
+      account: "alice",
+      algorithm: "SHA-1",
+      digits: 6,
+      period: 30,
+    });
+  });
+
+  it("should parse the Key URI Format example", () => {
+    const result = parseOTPAuthURI(
+      "otpauth://totp/ACME%20Co:john.doe@email.com?secret=HXDMVJECJJWSRB3HWIZR4IFUGFTMXBOZ&issuer=ACME%20Co&algorithm=SHA1&digits=6&period=30",
+    );
+    expect(result).toEqual({
+      type: "totp",
+      secret: "HXDMVJECJJWSRB3HWIZR4IFUGFTMXBOZ",
+      account: "john.doe@email.com",
+      issuer: "ACME Co",
+      algorithm: "SHA-1",
+      digits: 6,
+      period: 30,
+    });
+  });
+
+  it("should take the issuer from the label prefix or the parameter", () => {
+    const fromLabel = parseOTPAuthURI(`otpauth://totp/Example:%20alice?secret=${secretB32}`);
+    expect([fromLabel.issuer, fromLabel.account]).toEqual(["Example", "alice"]);
+    const fromParam = parseOTPAuthURI(`otpauth://totp/alice?secret=${secretB32}&issuer=Example`);
+    expect([fromParam.issuer, fromParam.account]).toEqual(["Example", "alice"]);
+    const encoded = parseOTPAuthURI(
+      `otpauth://totp/Example%3Aalice?secret=${secretB32}&issuer=Example`,
+    );
+    expect([encoded.issuer, encoded.account]).toEqual(["Example", "alice"]);
+  });
+
+  it("should normalize the secret and algorithm name", () => {
+    const result = parseOTPAuthURI(
+      `otpauth://TOTP/alice?secret=${secretB32.toLowerCase()}===&algorithm=sha512`,
+    );
+    expect([result.type, result.secret, result.algorithm]).toEqual(["totp", secretB32, "SHA-512"]);
+  });
+
+  it("should reject malformed URIs with descriptive errors", () => {
+    const base = `secret=${secretB32}`;
+    expect(() => parseOTPAuthURI("not a uri")).toThrow("Invalid otpauth URI: not a URI.");
+    expect(() => parseOTPAuthURI(`https://totp/alice?${base}`)).toThrow(
+      "Invalid otpauth URI: expected the otpauth: scheme, got https:",
+    );
+    expect(() => parseOTPAuthURI(`otpauth://motp/alice?${base}`)).toThrow(
+      'Invalid otpauth URI: unsupported type "motp".',
+    );
+    expect(() => parseOTPAuthURI(`otpauth://totp/?${base}`)).toThrow(
+      "Invalid otpauth URI: the label has no account name.",
+    );
+    expect(() => parseOTPAuthURI(`otpauth://totp/Example:?${base}`)).toThrow(
+      "Invalid otpauth URI: the label has no account name.",
+    );
+    expect(() => parseOTPAuthURI(`otpauth://totp/%E0%A4%A?${base}`)).toThrow(
+      "Invalid otpauth URI: label is not valid percent-encoding.",
+    );
+    expect(() => parseOTPAuthURI("otpauth://totp/alice")).toThrow(
+      "Invalid otpauth URI: secret is required.",
+    );
+    expect(() => parseOTPAuthURI("otpauth://totp/alice?secret=NOT-BASE32!")).toThrow(
+      "Invalid otpauth URI: secret is not valid base32.",
+    );
+    expect(() => parseOTPAuthURI(`otpauth://totp/A:alice?${base}&issuer=B`)).toThrow(
+      'Invalid otpauth URI: label issuer "A" does not match issuer parameter "B".',
+    );
+    expect(() => parseOTPAuthURI(`otpauth://hotp/alice?${base}`)).toThrow(
+      "Invalid otpauth URI: counter is required for HOTP URIs.",
+    );
+    expect(() => parseOTPAuthURI(`otpauth://totp/alice?${base}&algorithm=MD5`)).toThrow(
+      "Unsupported otpauth algorithm: MD5",
+    );
+    expect(() => parseOTPAuthURI(`otpauth://totp/alice?${base}&digits=0`)).toThrow(
+      "Invalid otpauth URI: digits must be an integer from 1 to 10.",
+    );
+    expect(() => parseOTPAuthURI(`otpauth://totp/alice?${base}&digits=six`)).toThrow(
+      "Invalid otpauth URI: digits must be an integer from 1 to 10.",
+    );
+    expect(() => parseOTPAuthURI(`otpauth://totp/alice?${base}&period=-30`)).toThrow(
+      "Invalid otpauth URI: period must be an integer from 1 to 86400.",
+    );
+    expect(() => parseOTPAuthURI(`otpauth://hotp/alice?${base}&counter=1.5`)).toThrow(
+      "Invalid otpauth URI: counter must be an integer from 0 to 9007199254740991.",
+    );
+  });
+});
+
+describe("otpauth-migration", () => {
+  // Two accounts (a TOTP one named "Example:alice@google.com" with issuer
+  // "Example", and an 8-digit SHA-256 HOTP one at counter 300), batch id 12345.
+  // Assembled byte by byte from the MigrationPayload schema in a node script.
+  const MIGRATION_URI =
+    "otpauth-migration://offline?data=CjUKCkhlbGxvId6tvu8SGEV4YW1wbGU6YWxpY2VAZ29vZ2xlLmNvbRoHRXhhbXBsZSABKAEwAgoaCgpIZWxsbyHerb7vEgNib2IgAigCMAE4rAIQARgBIAAouWA%3D";
+
+  const alice = {
+    type: "totp" as const,
+    secret: "JBSWY3DPEHPK3PXP",
+    account: "alice@google.com",
+    issuer: "Example",
+    algorithm: "SHA-1" as const,
+    digits: 6,
+    period: 30,
+  };
+  const bob = {
+    type: "hotp" as const,
+    secret: "JBSWY3DPEHPK3PXP",
+    account: "bob",
+    algorithm: "SHA-256" as const,
+    digits: 8,
+    counter: 300,
+  };
+
+  describe("parseOTPAuthMigrationURI()", () => {
+    it("should decode accounts and batch metadata", () => {
+      expect(parseOTPAuthMigrationURI(MIGRATION_URI)).toEqual({
+        accounts: [alice, bob],
+        version: 1,
+        batchSize: 1,
+        batchIndex: 0,
+        batchId: 12345,
+      });
+    });
+
+    it("should yield options usable with hotp() and otpauthURI()", async () => {
+      const [, hotpAccount] = parseOTPAuthMigrationURI(MIGRATION_URI).accounts;
+      const { secret, counter, ...options } = hotpAccount!;
+      expect(await hotp(secret, counter!, options)).toBe(
+        await hotp("JBSWY3DPEHPK3PXP", 300, { algorithm: "SHA-256", digits: 8 }),
+      );
+      expect(parseOTPAuthURI(otpauthURI(hotpAccount!))).toEqual(hotpAccount);
+    });
+
+    it("should accept an unencoded data parameter", () => {
+      const raw = MIGRATION_URI.replace("%3D", "=");
+      expect(parseOTPAuthMigrationURI(raw).accounts).toHaveLength(2);
+    });
+
+    it("should decode a negative batch id", () => {
+      // One TOTP account "alice"; batch_id -5 as a ten-byte int32 varint
+      const uri =
+        "otpauth-migration://offline?data=ChkKCkhlbGxvId6tvu8SBWFsaWNlIAEoATACEAEYASAAKPv%2F%2F%2F%2F%2F%2F%2F%2F%2F%2FwE%3D";
+      expect(parseOTPAuthMigrationURI(uri)).toEqual({
+        accounts: [{ ...alice, account: "alice", issuer: undefined }],
+        version: 1,
+        batchSize: 1,
+        batchIndex: 0,
+        batchId: -5,
+      });
+    });
+
+    it("should reject malformed URIs and payloads", () => {
+      const invalid = "Invalid otpauth-migration URI: data is not a valid base64 protobuf payload.";
+      expect(() => parseOTPAuthMigrationURI("not a uri")).toThrow(
+        "Invalid otpauth-migration URI: not a URI.",
+      );
+      expect(() => parseOTPAuthMigrationURI("otpauth://totp/alice?secret=JBSWY3DP")).toThrow(
+        "Invalid otpauth-migration URI: expected otpauth-migration://offline.",
+      );
+      expect(() => parseOTPAuthMigrationURI("otpauth-migration://offline")).toThrow(
+        "Invalid otpauth-migration URI: data is required.",
+      );
+      expect(() => parseOTPAuthMigrationURI("otpauth-migration://offline?data=***")).toThrow(
+        invalid,
+      );
+      // Field 1, length 10, but only 2 bytes follow
+      expect(() => parseOTPAuthMigrationURI("otpauth-migration://offline?data=CgoAAA")).toThrow(
+        invalid,
+      );
+      // Field 1 with a length of -11, which must not move the parser backwards
+      expect(() =>
+        parseOTPAuthMigrationURI(
+          "otpauth-migration://offline?data=CvX%2F%2F%2F%2F%2F%2F%2F%2F%2FwE%3D",
+        ),
+      ).toThrow(invalid);
+      // Account: secret, name, type 0 (unspecified)
+      expect(() =>
+        parseOTPAuthMigrationURI("otpauth-migration://offline?data=CggKAUgSAWEwAA"),
+      ).toThrow("Invalid otpauth-migration URI: unsupported OTP type 0.");
+      // Account: secret, name, algorithm 4 (MD5), type TOTP
+      expect(() =>
+        parseOTPAuthMigrationURI("otpauth-migration://offline?data=CgoKAUgSAWEgBDAC"),
+      ).toThrow("Unsupported otpauth-migration algorithm: 4");
+      // Account: name and type TOTP, no secret
+      expect(() => parseOTPAuthMigrationURI("otpauth-migration://offline?data=CgUSAWEwAg")).toThrow(
+        "Invalid otpauth-migration URI: an account has no secret.",
+      );
+    });
+  });
+
+  describe("otpauthMigrationURIs()", () => {
+    it("should round-trip through parseOTPAuthMigrationURI()", () => {
+      const [uri] = otpauthMigrationURIs([alice, bob], { batchId: 12345 });
+      expect(parseOTPAuthMigrationURI(uri!)).toEqual({
+        accounts: [alice, bob],
+        version: 1,
+        batchSize: 1,
+        batchIndex: 0,
+        batchId: 12345,
+      });
+      const [negative] = otpauthMigrationURIs([alice], { batchId: -5 });
+      expect(parseOTPAuthMigrationURI(negative!).batchId).toBe(-5);
+    });
+
+    it("should split accounts into batches sharing one id", () => {
+      const accounts = Array.from({ length: 5 }, (_, i) => ({ ...alice, account: `user${i}` }));
+      const uris = otpauthMigrationURIs(accounts, { accountsPerBatch: 2 });
+      const batches = uris.map((uri) => parseOTPAuthMigrationURI(uri));
+      expect(batches.map((batch) => batch.accounts.length)).toEqual([2, 2, 1]);
+      expect(batches.map((batch) => [batch.batchIndex, batch.batchSize])).toEqual([
+        [0, 3],
+        [1, 3],
+        [2, 3],
+      ]);
+      expect(new Set(batches.map((batch) => batch.batchId)).size).toBe(1);
+      expect(batches.flatMap((batch) => batch.accounts)).toEqual(accounts);
+    });
+
+    it("should encode byte secrets and return one empty batch for no accounts", () => {
+      const secret = new TextEncoder().encode("12345678901234567890");
+      const [uri] = otpauthMigrationURIs([{ type: "totp", secret, account: "x" }]);
+      expect(parseOTPAuthMigrationURI(uri!).accounts[0]!.secret).toBe(
+        base32Encode(secret).replace(/=+$/, ""),
+      );
+      const empty = otpauthMigrationURIs([]);
+      expect(empty).toHaveLength(1);
+      expect(parseOTPAuthMigrationURI(empty[0]!).accounts).toEqual([]);
+    });
+
+    it("should reject accounts the format cannot express", () => {
+      expect(() => otpauthMigrationURIs([{ ...alice, algorithm: "SHA-384" }])).toThrow(
+        "otpauth-migration does not support the SHA-384 algorithm.",
+      );
+      expect(() => otpauthMigrationURIs([{ ...alice, digits: 7 }])).toThrow(
+        "otpauth-migration only supports 6 or 8 digits.",
+      );
+      expect(() => otpauthMigrationURIs([{ ...alice, period: 60 }])).toThrow(
+        "otpauth-migration only supports a 30-second TOTP period.",
+      );
+      expect(() => otpauthMigrationURIs([{ ...bob, counter: undefined }])).toThrow(
+        "counter is required for HOTP URIs.",
+      );
+      expect(() => otpauthMigrationURIs([alice], { accountsPerBatch: 0 })).toThrow(
+        "accountsPerBatch must be a positive integer.",
+      );
+    });
+  });
+});
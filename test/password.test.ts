@@ -0,0 +1,199 @@
+import { describe, it, expect } from "vitest";
+import { type PasswordPolicy, hashPassword, verifyPassword } from "../src/password.ts";
+
+// PBKDF2 outputs cross-checked with node:crypto pbkdf2Sync, salt "saltsaltsaltsalt".
+const SHA256_PHC =
+  "$pbkdf2-sha256$i=1000$c2FsdHNhbHRzYWx0c2FsdA$8nX7hwFEzIB8aPajJTYK8weHQc5Ngz0pFVAKvSu4jQA";
+const SHA512_PHC =
+  "$pbkdf2-sha512$i=1000$c2FsdHNhbHRzYWx0c2FsdA$715rqIr5dXOVPpBhqqsugl037zT5bWJTWYmZtIcK8hBnisKpwfY7kokvwjDrNHqHhF50Pb7MD6HvkJwiDQw4ww";
+
+// From test/scrypt.test.ts, test/argon2.test.ts and test/bcrypt.test.ts
+const SCRYPT_PHC =
+  "$scrypt$ln=10,r=8,p=1$c2FsdHNhbHRzYWx0c2FsdA$BVMRKqdiVYikKAaPR1wucsKUKvw4TuPLkdEYtoSHas4";
+const ARGON2ID_PHC =
+  "$argon2id$v=19$m=256,t=2,p=1$c2FsdHNhbHRzYWx0c2FsdA$d/gNnNMfanumao7kr+lHuY6GS9VLUn8B49/LwXA+/SQ";
+const BCRYPT_HASH = "$2y$05$0123456789abcdefghijkeiJYDFugQBJJ0lPaBWXcxtfdMHnLhFEK";
+
+describe("hashPassword", () => {
+  it("produces a PHC string with the default policy", async () => {
+    const phc = await hashPassword("hunter2");
+    expect(phc).toMatch(/^\$pbkdf2-sha256\$i=600000\$[A-Za-z0-9+/]{22}\$[A-Za-z0-9+/]{43}$/);
+  });
+
+  it("honours algorithm, iterations and lengths", async () => {
+    const phc = await hashPassword("hunter2", {
+      algorithm: "SHA-512",
+      iterations: 1000,
+      saltLength: 32,
+      hashLength: 48,
+    });
+    expect(phc).toMatch(/^\$pbkdf2-sha512\$i=1000\$[A-Za-z0-9+/]{43}\$[A-Za-z0-9+/]{64}$/);
+    expect(await verifyPassword("hunter2", phc)).toStrictEqual({
+      valid: true,
+      needsRehash: true,
+      algorithm: "pbkdf2-sha512",
+    });
+  });
+
+  it("uses a fresh salt for every call", async () => {
+    const a = await hashPassword("same", { iterations: 1000 });
+    const b = await hashPassword("same", { iterations: 1000 });
+    expect(a).not.toBe(b);
+  });
+
+  it("rejects out-of-range parameters", async () => {
+    await expect(hashPassword("pw", { iterations: 0 })).rejects.toThrow(RangeError);
+    await expect(hashPassword("pw", { saltLength: 8 })).rejects.toThrow(RangeError);
+    await expect(hashPassword("pw", { hashLength: 8 })).rejects.toThrow(RangeError);
+    await expect(hashPassword("pw", { iterations: 2000, maxIterations: 1000 })).rejects.toThrow(
+      "PBKDF2 iteration count 2000 is above the maxIterations limit of 1000.",
+    );
+    // @ts-expect-error testing unsupported algorithm
+    await expect(hashPassword("pw", { algorithm: "SHA-1" })).rejects.toThrow(TypeError);
+  });
+});
+
+describe("verifyPassword", () => {
+  const policy: PasswordPolicy = { pbkdf2: { iterations: 1000 } };
+
+  it("verifies known PBKDF2 hashes", async () => {
+    expect(await verifyPassword("password", SHA256_PHC, policy)).toStrictEqual({
+      valid: true,
+      needsRehash: false,
+      algorithm: "pbkdf2-sha256",
+    });
+    expect(
+      await verifyPassword("password", SHA512_PHC, { ...policy, algorithm: "pbkdf2-sha512" }),
+    ).toStrictEqual({ valid: true, needsRehash: false, algorithm: "pbkdf2-sha512" });
+    expect(
+      await verifyPassword(new TextEncoder().encode("password"), SHA256_PHC, policy),
+    ).toStrictEqual({ valid: true, needsRehash: false, algorithm: "pbkdf2-sha256" });
+  });
+
+  it("rejects wrong passwords", async () => {
+    expect(await verifyPassword("Password", SHA256_PHC, policy)).toStrictEqual({
+      valid: false,
+      needsRehash: false,
+      algorithm: "pbkdf2-sha256",
+    });
+  });
+
+  it("round-trips hashPassword", async () => {
+    const phc = await hashPassword("correct horse", { iterations: 1000 });
+    expect((await verifyPassword("correct horse", phc, policy)).valid).toBe(true);
+    expect((await verifyPassword("correct horsf", phc, policy)).valid).toBe(false);
+  });
+
+  it("reports needsRehash when the stored parameters are below policy", async () => {
+    const needsRehash = async (options: PasswordPolicy) =>
+      (await verifyPassword("password", SHA256_PHC, options)).needsRehash;
+    expect(await needsRehash({ pbkdf2: { iterations: 2000 } })).toBe(true);
+    expect(await needsRehash({ ...policy, algorithm: "pbkdf2-sha512" })).toBe(true);
+    expect(await needsRehash({ pbkdf2: { iterations: 1000, saltLength: 32 } })).toBe(true);
+    expect(await needsRehash({ pbkdf2: { iterations: 1000, hashLength: 64 } })).toBe(true);
+    // Stronger than policy is fine
+    expect(await needsRehash({ pbkdf2: { iterations: 500 } })).toBe(false);
+  });
+
+  it("dispatches on the PHC identifier", async () => {
+    const upgrade: PasswordPolicy = {
+      algorithm: "argon2id",
+      pbkdf2: { iterations: 1000 },
+      scrypt: { N: 1024 },
+      argon2id: { memoryCost: 256 },
+      bcrypt: { cost: 5 },
+    };
+    const cases: [stored: string, password: string, algorithm: string, needsRehash: boolean][] = [
+      [SHA256_PHC, "password", "pbkdf2-sha256", true],
+      [SHA512_PHC, "password", "pbkdf2-sha512", true],
+      [SCRYPT_PHC, "password", "scrypt", true],
+      [ARGON2ID_PHC, "password", "argon2id", false],
+      [BCRYPT_HASH, "pässwörd", "bcrypt", true],
+    ];
+    for (const [stored, password, algorithm, needsRehash] of cases) {
+      expect(await verifyPassword(password, stored, upgrade)).toStrictEqual({
+        valid: true,
+        needsRehash,
+        algorithm,
+      });
+      expect(await verifyPassword("wrong", stored, upgrade)).toStrictEqual({
+        valid: false,
+        needsRehash: false,
+        algorithm,
+      });
+    }
+  });
+
+  it("applies the per-algorithm policy to scrypt, argon2id and bcrypt hashes", async () => {
+    const result = await verifyPassword("password", ARGON2ID_PHC, {
+      algorithm: "argon2id",
+      argon2id: { memoryCost: 512 },
+    });
+    expect(result).toStrictEqual({ valid: true, needsRehash: true, algorithm: "argon2id" });
+    await expect(
+      verifyPassword("password", SCRYPT_PHC, { scrypt: { N: 1024, maxmem: 1024 } }),
+    ).rejects.toThrow(RangeError);
+    expect(
+      await verifyPassword("pässwörd", BCRYPT_HASH, { algorithm: "bcrypt", bcrypt: { cost: 6 } }),
+    ).toStrictEqual({ valid: true, needsRehash: true, algorithm: "bcrypt" });
+    expect(await verifyPassword("x".repeat(100), BCRYPT_HASH)).toStrictEqual({
+      valid: false,
+      needsRehash: false,
+      algorithm: "bcrypt",
+    });
+  });
+
+  it("rejects malformed PHC strings", async () => {
+    const malformed = [
+      "",
+      "password",
+      "pbkdf2-sha256$i=1000$c2FsdA$aGFzaA",
+      "$pbkdf2-sha256$i=1000$c2FsdA",
+      "$pbkdf2-sha256$i=0$c2FsdA$aGFzaA",
+      "$pbkdf2-sha256$i=1000,i=1000$c2FsdA$aGFzaA",
+      "$pbkdf2-sha256$i=1000,x=1$c2FsdA$aGFzaA",
+      "$pbkdf2-sha256$v=1$i=1000$c2FsdA$aGFzaA",
+      "$pbkdf2-sha256$i=1000$c2FsdA==$aGFzaA",
+      "$pbkdf2-sha256$i=1000$c2Fs*A$aGFzaA",
+      "$pbkdf2-sha256$i=1000$c2FsdA$aGFzaA$extra",
+    ];
+    for (const phc of malformed) {
+      await expect(verifyPassword("pw", phc)).rejects.toThrow("Malformed PHC string.");
+    }
+    for (const phc of ["$pbkdf2-sha256$c2FsdA$aGFzaA", "$pbkdf2-sha256$i=abc$c2FsdA$aGFzaA"]) {
+      await expect(verifyPassword("pw", phc)).rejects.toThrow(
+        'Malformed PHC string: missing or invalid "i" parameter.',
+      );
+    }
+    await expect(verifyPassword("pw", "$2b$05$0123456789abcdefghijke")).rejects.toThrow(
+      "Malformed bcrypt hash.",
+    );
+  });
+
+  it("applies the iteration limit to stored hashes", async () => {
+    const hostile = "$pbkdf2-sha256$i=4294967295$c2FsdHNhbHRzYWx0c2FsdA$aGFzaGhhc2hoYXNoaGFzaA";
+    await expect(verifyPassword("pw", hostile)).rejects.toThrow(
+      "PBKDF2 iteration count 4294967295 is above the maxIterations limit of 5000000.",
+    );
+    const policy = { pbkdf2: { iterations: 500, maxIterations: 999 } };
+    await expect(verifyPassword("pw", SHA256_PHC, policy)).rejects.toThrow(
+      "PBKDF2 iteration count 1000 is above the maxIterations limit of 999.",
+    );
+  });
+
+  it("rejects unsupported algorithms", async () => {
+    await expect(verifyPassword("pw", "$pbkdf2-sha1$i=1000$c2FsdA$aGFzaA")).rejects.toThrow(
+      "Unsupported password hash algorithm: pbkdf2-sha1",
+    );
+    await expect(verifyPassword("pw", "$argon2i$v=19$m=256,t=2,p=1$c2FsdA$aGFzaA")).rejects.toThrow(
+      TypeError,
+    );
+    await expect(
+      verifyPassword("pw", "$2x$05$0123456789abcdefghijkeiJYDFugQBJJ0lPaBWXcxtfdMHnLhFEK"),
+    ).rejects.toThrow(TypeError);
+    await expect(
+      // @ts-expect-error testing unsupported policy algorithm
+      verifyPassword("password", SHA256_PHC, { algorithm: "md5" }),
+    ).rejects.toThrow(TypeError);
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, it, expect } from "vitest";
+import { qrCode } from "../src/qr.ts";
+import { otpauthURI } from "../src/otp.ts";
+import { Base64 } from "../src/utils/index.ts";
+
+// "unsecure" at level M: version 1, mask 1. Rendered at the same version and
+// mask by an independent encoder (Kazuhiko Arase's QRCode, as vendored by
+// qrcode-terminal).
+const FIXTURE = [
+  "#######.#.#.#.#######",
+  "#.....#....#..#.....#",
+  "#.###.#.##.#..#.###.#",
+  "#.###.#..##.#.#.###.#",
+  "#.###.#...#.#.#.###.#",
+  "#.....#.#.....#.....#",
+  "#######.#.#.#.#######",
+  ".........#.#.........",
+  "#.#...##.#.##..#..#.#",
+  "#..###.##....#..###.#",
+  "###...#####...#.##..#",
+  "#..#...##...#...##.#.",
+  "..#...###....####...#",
+  "........####.####..##",
+  "#######.##.###..#...#",
+  "#.....#...##.###.#...",
+  "#.###.#..#.####.##.#.",
+  "#.###.#...#....###...",
+  "#.###.#.#.#...#.#.###",
+  "#.....#.....#..###...",
+  "#######.#.#...####..#",
+];
+
+// #region Reference decoder
+//
+// A minimal decoder, written from ISO/IEC 18004 independently of src/qr.ts: it
+// reads the format information, removes the mask, walks the codeword zigzag,
+// de-interleaves the blocks, checks every block's Reed-Solomon syndromes and
+// parses the byte-mode segment. Block layouts (table 9) and alignment pattern
+// centres (table E.1) cover the versions used below.
+
+const BLOCKS: Record<string, [blocks: number, ecc: number]> = {
+  "1L": [1, 7],
+  "1M": [1, 10],
+  "1Q": [1, 13],
+  "2L": [1, 10],
+  "2M": [1, 16],
+  "2Q": [1, 22],
+  "2H": [1, 28],
+  "3H": [2, 22],
+  "6L": [2, 18],
+  "8M": [4, 22],
+  "9Q": [8, 20],
+  "10L": [4, 18],
+  "11H": [11, 24],
+  "22L": [9, 28],
+};
+
+const ALIGNMENT: Record<number, number[]> = {
+  2: [6, 18],
+  3: [6, 22],
+  6: [6, 34],
+  8: [6, 24, 42],
+  9: [6, 26, 46],
+  10: [6, 28, 50],
+  11: [6, 30, 54],
+  22: [6, 26, 50, 74, 98],
+};
+
+// Data masks by row i and column j (table 10).
+const MASKS: ((i: number, j: number) => boolean)[] = [
+  (i, j) => (i + j) % 2 === 0,
+  (i) => i % 2 === 0,
+  (_, j) => j % 3 === 0,
+  (i, j) => (i + j) % 3 === 0,
+  (i, j) => (Math.floor(i / 2) + Math.floor(j / 3)) % 2 === 0,
+  (i, j) => ((i * j) % 2) + ((i * j) % 3) === 0,
+  (i, j) => (((i * j) % 2) + ((i * j) % 3)) % 2 === 0,
+  (i, j) => (((i * j) % 3) + ((i + j) % 2)) % 2 === 0,
+];
+
+const EXP = new Uint8Array(255);
+const LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = x;
+  LOG[x] = i;
+  x = x & 0x80 ? ((x << 1) ^ 0x11d) & 0xff : x << 1;
+}
+const gfMul = (a: number, b: number) => (a && b ? EXP[(LOG[a]! + LOG[b]!) % 255]! : 0);
+
+function decodeQR(matrix: boolean[][]): { version: number; level: string; data: Uint8Array } {
+  const size = matrix.length;
+  const version = (size - 17) / 4;
+  const bit = (x: number, y: number) => (matrix[y]![x] ? 1 : 0);
+
+  // Format information, both copies
+  let first = 0;
+  let second = 0;
+  for (let i = 0; i <= 5; i++) first |= bit(8, i) << i;
+  first |= (bit(8, 7) << 6) | (bit(8, 8) << 7) | (bit(7, 8) << 8);
+  for (let i = 9; i < 15; i++) first |= bit(14 - i, 8) << i;
+  for (let i = 0; i < 8; i++) second |= bit(size - 1 - i, 8) << i;
+  for (let i = 8; i < 15; i++) second |= bit(8, size - 15 + i) << i;
+  expect(second).toBe(first);
+  const format = first ^ 0x5412;
+  let remainder = format;
+  for (let i = 14; i >= 10; i--) if ((remainder >>> i) & 1) remainder ^= 0x537 << (i - 10);
+  expect(remainder).toBe(0);
+  const level = ["M", "L", "H", "Q"][format >>> 13]!;
+  const mask = MASKS[(format >>> 10) & 7]!;
+
+  // Function patterns: finders with separators and format areas, alignment
+  // patterns not overlapping a finder, timing patterns, version information.
+  const reserved = matrix.map((row) => row.map(() => false));
+  const reserve = (x0: number, y0: number, width: number, height: number) => {
+    for (let y = y0; y < y0 + height; y++) {
+      for (let x = x0; x < x0 + width; x++) reserved[y]![x] = true;
+    }
+  };
+  reserve(0, 0, 9, 9);
+  reserve(size - 8, 0, 8, 9);
+  reserve(0, size - 8, 9, 8);
+  const centres = ALIGNMENT[version] ?? [];
+  for (const cx of centres) {
+    for (const cy of centres) if (!reserved[cy]![cx]) reserve(cx - 2, cy - 2, 5, 5);
+  }
+  reserve(6, 0, 1, size);
+  reserve(0, 6, size, 1);
+  if (version >= 7) {
+    reserve(size - 11, 0, 3, 6);
+    reserve(0, size - 11, 6, 3);
+  }
+
+  // Codeword bits, two columns at a time from the right, alternating direction
+  const bits: number[] = [];
+  let upward = true;
+  for (let right = size - 1; right > 0; right -= 2) {
+    if (right === 6) right = 5;
+    for (let n = 0; n < size; n++) {
+      const y = upward ? size - 1 - n : n;
+      for (const x of [right, right - 1]) {
+        if (!reserved[y]![x]) bits.push(bit(x, y) ^ (mask(y, x) ? 1 : 0));
+      }
+    }
+    upward = !upward;
+  }
+  const codewords = Array.from({ length: Math.floor(bits.length / 8) }, (_, i) =>
+    bits.slice(i * 8, i * 8 + 8).reduce((byte, b) => (byte << 1) | b, 0),
+  );
+
+  // De-interleave, then check each block's syndromes at α^0 .. α^(ecc-1)
+  const [blockCount, ecc] = BLOCKS[`${version}${level}`]!;
+  const longBlocks = codewords.length % blockCount;
+  const shortData = Math.floor(codewords.length / blockCount) - ecc;
+  const dataLengths = Array.from(
+    { length: blockCount },
+    (_, j) => shortData + (j >= blockCount - longBlocks ? 1 : 0),
+  );
+  const blocks: number[][] = dataLengths.map(() => []);
+  let k = 0;
+  for (let i = 0; i <= shortData; i++) {
+    for (let j = 0; j < blockCount; j++) if (i < dataLengths[j]!) blocks[j]!.push(codewords[k++]!);
+  }
+  for (let i = 0; i < ecc; i++) {
+    for (let j = 0; j < blockCount; j++) blocks[j]!.push(codewords[k++]!);
+  }
+  for (const block of blocks) {
+    for (let i = 0; i < ecc; i++) {
+      expect(block.reduce((s, c) => gfMul(s, EXP[i]!) ^ c, 0)).toBe(0);
+    }
+  }
+
+  // Byte-mode segment
+  const dataBits = blocks
+    .flatMap((block, j) => block.slice(0, dataLengths[j]))
+    .flatMap((byte) => Array.from({ length: 8 }, (_, i) => (byte >>> (7 - i)) & 1));
+  let offset = 0;
+  const read = (length: number) => {
+    let value = 0;
+    for (let i = 0; i < length; i++) value = (value << 1) | dataBits[offset++]!;
+    return value;
+  };
+  expect(read(4)).toBe(0b0100);
+  const length = read(version <= 9 ? 8 : 16);
+  return { version, level, data: Uint8Array.from({ length }, () => read(8)) };
+}
+
+// #endregion
+
+describe("qrCode", () => {
+  const uri = otpauthURI({
+    type: "totp",
+    secret: "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP",
+    account: "user@example.com",
+    issuer: "Example",
+  });
+
+  it("matches an independent encoder's symbol", () => {
+    const matrix = qrCode("unsecure", { returnAs: "matrix" });
+    expect(matrix.map((row) => row.map((dark) => (dark ? "#" : ".")).join(""))).toStrictEqual(
+      FIXTURE,
+    );
+  });
+
+  describe.concurrent("decodes back to the input at every level, picking the smallest version", () => {
+    const cases: [
+      data: string | Uint8Array<ArrayBuffer>,
+      level: "L" | "M" | "Q" | "H",
+      version: number,
+    ][] = [
+      ["unsecure", "L", 1],
+      ["unsecure", "M", 1],
+      ["unsecure", "Q", 1],
+      ["unsecure", "H", 2],
+      ["héllo wörld 🔐", "L", 2],
+      ["héllo wörld 🔐", "M", 2],
+      ["héllo wörld 🔐", "Q", 2],
+      ["héllo wörld 🔐", "H", 3],
+      [uri, "L", 6],
+      [uri, "M", 8],
+      [uri, "Q", 9],
+      [uri, "H", 11],
+      [Uint8Array.from({ length: 256 }, (_, i) => i), "L", 10],
+      ["x".repeat(1000), "L", 22],
+    ];
+    for (const [data, level, version] of cases) {
+      it(`version ${version} at level ${level}`, () => {
+        const decoded = decodeQR(qrCode(data, { errorCorrection: level, returnAs: "matrix" }));
+        const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+        expect(decoded).toStrictEqual({ version, level, data: bytes });
+      });
+    }
+  });
+
+  it("fills version 40 and rejects data beyond it", () => {
+    expect(qrCode("a".repeat(2953), { errorCorrection: "L", returnAs: "matrix" })).toHaveLength(
+      177,
+    );
+    expect(() => qrCode("a".repeat(2954), { errorCorrection: "L" })).toThrow(RangeError);
+    expect(qrCode("a".repeat(1273), { errorCorrection: "H", returnAs: "matrix" })).toHaveLength(
+      177,
+    );
+    expect(() => qrCode("a".repeat(1274), { errorCorrection: "H" })).toThrow(RangeError);
+  });
+
+  it("renders an SVG with a quiet zone", () => {
+    const svg = qrCode("unsecure");
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" viewBox="0 0 29 29"/);
+    // Top row of the top-left finder pattern, offset by the 4-module margin
+    expect(svg).toContain('d="M4 4h7v1H4z');
+    const tight = qrCode("unsecure", { margin: 0 });
+    expect(tight).toContain('viewBox="0 0 21 21"');
+    expect(tight).toContain('d="M0 0h7v1H0z');
+  });
+
+  it("renders the SVG as a data URL", () => {
+    const url = qrCode(uri, { returnAs: "dataurl" });
+    const prefix = "data:image/svg+xml;base64,";
+    expect(url.startsWith(prefix)).toBe(true);
+    expect(Base64.parse(url.slice(prefix.length), { returnAs: "string" })).toBe(qrCode(uri));
+  });
+
+  it("rejects invalid options", () => {
+    expect(() => qrCode("x", { errorCorrection: "X" as never })).toThrow(TypeError);
+    expect(() => qrCode("x", { margin: -1 })).toThrow(RangeError);
+    expect(() => qrCode("x", { margin: 1.5 })).toThrow(RangeError);
+    // @ts-expect-error testing invalid returnAs
+    expect(() => qrCode("x", { returnAs: "png" })).toThrow(
+      'Unsupported qrCode "returnAs" option: png',
+    );
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import { scrypt, scryptHash, scryptVerify } from "../src/scrypt.ts";
+
+// RFC 7914, section 12 (the N = 2^20 vector is skipped for speed)
+const RFC_VECTORS: [
+  password: string,
+  salt: string,
+  N: number,
+  r: number,
+  p: number,
+  hex: string,
+][] = [
+  [
+    "",
+    "",
+    16,
+    1,
+    1,
+    "77d6576238657b203b19ca42c18a0497f16b4844e3074ae8dfdffa3fede21442fcd0069ded0948f8326a753a0fc81f17e8d3e0fb2e0d3628cf35e20c38d18906",
+  ],
+  [
+    "password",
+    "NaCl",
+    1024,
+    8,
+    16,
+    "fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b3731622eaf30d92e22a3886ff109279d9830dac727afb94a83ee6d8360cbdfa2cc0640",
+  ],
+  [
+    "pleaseletmein",
+    "SodiumChloride",
+    16_384,
+    8,
+    1,
+    "7023bdcb3afd7348461c06cd81fd38ebfda8fbba904f8e3ea9b543f6545da1f2d5432955613f0fcf62d49705242a9af9e61e85dc0d651e40dfcf017b45575887",
+  ],
+];
+
+// Cross-checked with node:crypto scryptSync, salt "saltsaltsaltsalt".
+const PHC =
+  "$scrypt$ln=10,r=8,p=1$c2FsdHNhbHRzYWx0c2FsdA$BVMRKqdiVYikKAaPR1wucsKUKvw4TuPLkdEYtoSHas4";
+
+describe("scrypt", () => {
+  describe.concurrent("RFC 7914 test vectors", () => {
+    for (const [password, salt, N, r, p, hex] of RFC_VECTORS) {
+      it(`N=${N}, r=${r}, p=${p}`, async () => {
+        expect(await scrypt(password, salt, { N, r, p, dkLen: 64 })).toBe(hex);
+      });
+    }
+  });
+
+  it("mirrors the password type and honours returnAs", async () => {
+    const options = { N: 16, r: 1, p: 1, dkLen: 64 };
+    const bytes = await scrypt(new Uint8Array(0), new Uint8Array(0), options);
+    expect(bytes).toBeInstanceOf(Uint8Array);
+    expect(bytes.length).toBe(64);
+    expect(await scrypt("", "", { ...options, returnAs: "bytes" })).toStrictEqual(bytes);
+    expect(await scrypt("", "", { ...options, dkLen: 3, returnAs: "base64url" })).toBe("d9ZX");
+  });
+
+  it("yields to the event loop while running", async () => {
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 1);
+    await scrypt("password", "salt", { N: 16_384, r: 8, p: 1 });
+    clearInterval(timer);
+    expect(ticks).toBeGreaterThan(2);
+  });
+
+  it("rejects invalid parameters", async () => {
+    await expect(scrypt("pw", "salt", { N: 1000 })).rejects.toThrow(RangeError);
+    await expect(scrypt("pw", "salt", { N: 1 })).rejects.toThrow(RangeError);
+    await expect(scrypt("pw", "salt", { r: 0 })).rejects.toThrow(RangeError);
+    await expect(scrypt("pw", "salt", { p: 1.5 })).rejects.toThrow(RangeError);
+    await expect(scrypt("pw", "salt", { dkLen: 0 })).rejects.toThrow(RangeError);
+    await expect(scrypt("pw", "salt", { N: 2 ** 16, r: 1 })).rejects.toThrow(RangeError);
+  });
+
+  it("guards the memory limit before allocating", async () => {
+    await expect(scrypt("pw", "salt", { N: 2 ** 20, r: 8 })).rejects.toThrow(
+      "scrypt parameters need 1073742848 bytes of memory, above the maxmem limit of 268435456.",
+    );
+    await expect(scrypt("pw", "salt", { N: 1024, r: 8, maxmem: 1024 * 1024 })).rejects.toThrow(
+      RangeError,
+    );
+  });
+});
+
+describe("scryptHash / scryptVerify", () => {
+  const policy = { N: 1024 };
+
+  it("produces a $scrypt$ PHC string", async () => {
+    const phc = await scryptHash("hunter2", policy);
+    expect(phc).toMatch(/^\$scrypt\$ln=10,r=8,p=1\$[A-Za-z0-9+/]{22}\$[A-Za-z0-9+/]{43}$/);
+    expect(await scryptVerify("hunter2", phc, policy)).toStrictEqual({
+      valid: true,
+      needsRehash: false,
+      algorithm: "scrypt",
+    });
+    expect(await scryptVerify("hunter3", phc, policy)).toStrictEqual({
+      valid: false,
+      needsRehash: false,
+      algorithm: "scrypt",
+    });
+  });
+
+  it("verifies a known hash", async () => {
+    expect(await scryptVerify("password", PHC, policy)).toStrictEqual({
+      valid: true,
+      needsRehash: false,
+      algorithm: "scrypt",
+    });
+  });
+
+  it("reports needsRehash when the stored parameters are below policy", async () => {
+    const rehash = { valid: true, needsRehash: true, algorithm: "scrypt" };
+    expect(await scryptVerify("password", PHC)).toStrictEqual(rehash);
+    expect(await scryptVerify("password", PHC, { N: 2048 })).toStrictEqual(rehash);
+    expect(await scryptVerify("password", PHC, { ...policy, r: 16 })).toStrictEqual(rehash);
+    expect(await scryptVerify("password", PHC, { ...policy, p: 2 })).toStrictEqual(rehash);
+    expect(await scryptVerify("password", PHC, { ...policy, saltLength: 32 })).toStrictEqual(
+      rehash,
+    );
+    expect(await scryptVerify("password", PHC, { ...policy, hashLength: 64 })).toStrictEqual(
+      rehash,
+    );
+  });
+
+  it("applies the memory limit to stored parameters", async () => {
+    const hostile = "$scrypt$ln=30,r=8,p=1$c2FsdHNhbHRzYWx0c2FsdA$aGFzaGhhc2hoYXNoaGFzaA";
+    await expect(scryptVerify("pw", hostile)).rejects.toThrow(RangeError);
+    await expect(scryptVerify("password", PHC, { ...policy, maxmem: 1024 })).rejects.toThrow(
+      RangeError,
+    );
+  });
+
+  it("rejects malformed PHC strings", async () => {
+    const malformed = [
+      "$scrypt$ln=10,r=8$c2FsdA$aGFzaA",
+      "$scrypt$ln=10,r=8,p=1,x=1$c2FsdA$aGFzaA",
+      "$scrypt$v=1$ln=10,r=8,p=1$c2FsdA$aGFzaA",
+      "$pbkdf2-sha256$i=1000$c2FsdA$aGFzaA",
+      "$scrypt$ln=10,r=8,p=1$c2FsdA",
+    ];
+    for (const phc of malformed) {
+      await expect(scryptVerify("pw", phc)).rejects.toThrow("Malformed PHC string.");
+    }
+    await expect(scryptVerify("pw", "$scrypt$ln=x,r=8,p=1$c2FsdA$aGFzaA")).rejects.toThrow(
+      'Malformed PHC string: missing or invalid "ln" parameter.',
+    );
+  });
+
+  it("rejects out-of-range hashing options", async () => {
+    await expect(scryptHash("pw", { ...policy, saltLength: 8 })).rejects.toThrow(RangeError);
+    await expect(scryptHash("pw", { ...policy, hashLength: 8 })).rejects.toThrow(RangeError);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import { sign, verify } from "../src/sign.ts";
+import { exportKey, generateKeyPair } from "../src/keys.ts";
+import { Hex } from "../src/utils/index.ts";
+
+const hex = (value: string) => Hex.parse(value, { returnAs: "bytes" });
+
+// RFC 8032, section 7.1, tests 1 and 2
+const ED25519_VECTORS = [
+  {
+    secret: "9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60",
+    publicKey: "d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a",
+    message: "",
+    signature:
+      "e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b",
+  },
+  {
+    secret: "4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb",
+    publicKey: "3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c",
+    message: "72",
+    signature:
+      "92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00",
+  },
+];
+
+// RFC 6979, appendix A.2.5: P-256 key, "sample" signed with SHA-256
+const P256 = {
+  d: "c9afa9d845ba75166b5c215767b1d6934e50c3db36e89b127b8a622b120f6721",
+  point:
+    "0460fed4ba255a9d31c961eb74c6356d68c049b8923b61fa6ce669622e60f29fb67903fe1008b8bc99a41ae9e95628bc64f2f1b20c2d7e9f5177a3c294d4462299",
+  signature:
+    "efd48b2aacb6a8fd1140dd9cd45e81d69d2c877b56aaf991c34d0ea84eaf3716f7cb1c942d657c41d436c7a1b6e29f65f3e900dbb9aff4064dc4ab2f843acda8",
+};
+const P256_JWK: JsonWebKey = {
+  kty: "EC",
+  crv: "P-256",
+  x: "YP7UuiVanTHJYet0xjVtaMBJuJI7Yfps5mliLmDyn7Y",
+  y: "eQP-EAi4vJmkGunpVii8ZPLxsgwtfp9Rd6PClNRGIpk",
+};
+
+describe("sign / verify", () => {
+  it("matches the RFC 8032 Ed25519 vectors with raw keys", async () => {
+    for (const vector of ED25519_VECTORS) {
+      const message = hex(vector.message);
+      const signature = await sign(hex(vector.secret), message, { returnAs: "hex" });
+      expect(signature).toBe(vector.signature);
+      expect(await verify(hex(vector.publicKey), message, signature)).toBe(true);
+      expect(await verify(hex(vector.publicKey), message, hex(vector.signature))).toBe(true);
+    }
+  });
+
+  it("verifies the RFC 6979 ECDSA vector with raw, JWK and CryptoKey public keys", async () => {
+    const publicKey = await crypto.subtle.importKey(
+      "jwk",
+      P256_JWK,
+      { name: "ECDSA", namedCurve: "P-256" },
+      true,
+      ["verify"],
+    );
+    for (const key of [hex(P256.point), P256_JWK, publicKey]) {
+      expect(await verify(key, "sample", P256.signature)).toBe(true);
+      expect(await verify(key, "Sample", P256.signature)).toBe(false);
+    }
+    expect(await verify(P256_JWK, "sample", P256.signature.slice(0, -2))).toBe(false);
+  });
+
+  it("signs with a raw P-256 scalar when the algorithm is given", async () => {
+    const signature = await sign(hex(P256.d), "sample", { algorithm: "ES256" });
+    expect(signature).toHaveLength(128);
+    expect(await verify(hex(P256.point), "sample", signature)).toBe(true);
+    // Without it, 32 raw bytes are an Ed25519 seed
+    expect(await verify(hex(P256.point), "sample", await sign(hex(P256.d), "sample"))).toBe(false);
+  });
+
+  describe.concurrent("round-trips every algorithm with CryptoKeys and JWKs", () => {
+    const cases = [
+      ["Ed25519", 64],
+      ["P-256", 64],
+      ["P-384", 96],
+      ["P-521", 132],
+    ] as const;
+    for (const [type, length] of cases) {
+      it(`${type} pairs`, async () => {
+        const { privateKey, publicKey } = await generateKeyPair(type);
+        const privateJwk = await exportKey(privateKey, "jwk");
+        for (const key of [privateKey, privateJwk]) {
+          const signature = await sign(key, new Uint8Array([1, 2, 3]));
+          expect(signature.length).toBe(length);
+          expect(await verify(publicKey, new Uint8Array([1, 2, 3]), signature)).toBe(true);
+          // A private JWK verifies through its public members
+          expect(await verify(privateJwk, new Uint8Array([1, 2, 3]), signature)).toBe(true);
+        }
+      });
+    }
+  });
+
+  it("mirrors the data type and honors returnAs", async () => {
+    const seed = hex(ED25519_VECTORS[0]!.secret);
+    const publicKey = hex(ED25519_VECTORS[0]!.publicKey);
+    expect(await sign(seed, "")).toBe(ED25519_VECTORS[0]!.signature);
+    expect(await sign(seed, new Uint8Array(0))).toStrictEqual(hex(ED25519_VECTORS[0]!.signature));
+
+    for (const returnAs of ["base64", "b64", "base64url", "b64url"] as const) {
+      const signature = await sign(seed, "message", { returnAs });
+      expect(await verify(publicKey, "message", signature, { returnAs })).toBe(true);
+    }
+    const base64url = await sign(seed, "message", { returnAs: "base64url" });
+    expect(await verify(publicKey, "message", base64url)).toBe(false);
+  });
+
+  it("rejects keys that do not fit", async () => {
+    const { privateKey, publicKey } = await generateKeyPair("Ed25519");
+    const x25519 = await generateKeyPair("X25519");
+    const rsa = await generateKeyPair("RSA");
+    const seed = hex(ED25519_VECTORS[0]!.secret);
+    await expect(sign(publicKey, "data")).rejects.toThrow(
+      "Expected a private key, got a public key.",
+    );
+    await expect(verify(privateKey, "data", "00")).rejects.toThrow(
+      "Expected a public key, got a private key.",
+    );
+    await expect(sign(P256_JWK, "data")).rejects.toThrow("Expected a private JWK.");
+    const unsupported = "Signature keys must be Ed25519 or ECDSA keys.";
+    await expect(sign(x25519.privateKey, "data")).rejects.toThrow(unsupported);
+    await expect(sign(rsa.privateKey, "data")).rejects.toThrow(unsupported);
+    await expect(sign({ kty: "oct", k: "c2VjcmV0" }, "data")).rejects.toThrow(unsupported);
+    await expect(sign("secret" as never, "data")).rejects.toThrow(
+      "Signature keys must be a CryptoKey, a JWK or raw bytes.",
+    );
+    await expect(sign(privateKey, "data", { algorithm: "ES256" })).rejects.toThrow(
+      "Algorithm ES256 does not fit this Ed25519 key.",
+    );
+    await expect(sign(seed, "data", { algorithm: "RS256" as never })).rejects.toThrow(
+      "Unsupported signature algorithm: RS256",
+    );
+    await expect(sign(seed.subarray(1), "data")).rejects.toThrow(
+      "Unexpected raw private key length: 31.",
+    );
+    await expect(sign(seed, "data", { algorithm: "ES384" })).rejects.toThrow(
+      "P-384 private keys are 48 bytes, got 32.",
+    );
+    await expect(verify(hex(P256.point).subarray(0, 33), "data", "00")).rejects.toThrow(
+      "Unexpected raw public key length: 33.",
+    );
+  });
+});
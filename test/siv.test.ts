@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import { sivDecrypt, sivEncrypt } from "../src/siv.ts";
+import { chachaEncrypt } from "../src/chacha.ts";
+import { secureRandomBytes } from "../src/random.ts";
+import { Base64, Hex } from "../src/utils/index.ts";
+
+const hex = (value: string) => Hex.parse(value, { returnAs: "bytes" });
+
+// RFC 5297, appendix A.1: deterministic authenticated encryption
+const A1 = {
+  key: hex("fffefdfcfbfaf9f8f7f6f5f4f3f2f1f0f0f1f2f3f4f5f6f7f8f9fafbfcfdfeff"),
+  ad: hex("101112131415161718191a1b1c1d1e1f2021222324252627"),
+  plaintext: hex("112233445566778899aabbccddee"),
+  output: "85632d07c6e8f37f950acd320a2ecc93" + "40c02b9690c4dc04daef7f6afe5c",
+};
+
+// RFC 5297, appendix A.2: nonce-based authenticated encryption, the nonce as
+// the last associated data component
+const A2 = {
+  key: hex("7f7e7d7c7b7a79787776757473727170404142434445464748494a4b4c4d4e4f"),
+  ad: [
+    hex("00112233445566778899aabbccddeeffdeaddadadeaddadaffeeddccbbaa99887766554433221100"),
+    hex("102030405060708090a0"),
+    hex("09f911029d74e35bd84156c5635688c0"),
+  ],
+  plaintext: hex(
+    "7468697320697320736f6d6520706c61696e7465787420746f20656e6372797074207573696e67205349562d414553",
+  ),
+  output:
+    "7bdb6e3b432667eb06f4d14bff2fbd0f" +
+    "cb900f2fddbe404326601965c889bf17dba77ceb094fa663b7a3f748ba8af829ea64ad544a272e9c485b62a3fd5c0d",
+};
+
+describe("sivEncrypt / sivDecrypt", () => {
+  const key = secureRandomBytes(64);
+
+  it("matches the RFC 5297 vectors", async () => {
+    for (const vector of [A1, A2]) {
+      const envelope = await sivEncrypt(vector.key, vector.plaintext, {
+        aad: vector.ad,
+        returnAs: "hex",
+      });
+      expect(envelope).toBe("06" + vector.output);
+      await expect(
+        sivDecrypt(vector.key, envelope, { aad: vector.ad, returnAs: "bytes" }),
+      ).resolves.toStrictEqual(vector.plaintext);
+    }
+  });
+
+  it("is deterministic for the same key, aad and plaintext", async () => {
+    const a = await sivEncrypt(key, "ada@example.com", { aad: "users.email" });
+    expect(a).toMatch(/^B[\w-]+$/);
+    expect(await sivEncrypt(key, "ada@example.com", { aad: "users.email" })).toBe(a);
+    expect(await sivEncrypt(key, "ada@example.com", { aad: "users.name" })).not.toBe(a);
+    expect(await sivEncrypt(key, "bob@example.com", { aad: "users.email" })).not.toBe(a);
+    expect(await sivDecrypt(key, a, { aad: "users.email" })).toBe("ada@example.com");
+  });
+
+  it("authenticates aad components separately", async () => {
+    const envelope = await sivEncrypt(key, "data", { aad: ["a", "bc"] });
+    await expect(sivDecrypt(key, envelope, { aad: ["a", "bc"] })).resolves.toBe("data");
+    await expect(sivDecrypt(key, envelope, { aad: ["ab", "c"] })).rejects.toThrow(
+      "Decryption failed.",
+    );
+    await expect(sivDecrypt(key, envelope, { aad: "abc" })).rejects.toThrow("Decryption failed.");
+  });
+
+  describe.concurrent("round-trips every key size and plaintext length", () => {
+    for (const size of [32, 48, 64]) {
+      for (const length of [0, 1, 15, 16, 17, 32, 1000]) {
+        it(`${size}-byte key, ${length} bytes`, async () => {
+          const sizedKey = secureRandomBytes(size);
+          const plaintext = secureRandomBytes(length);
+          const envelope = await sivEncrypt(sizedKey, plaintext);
+          expect(envelope.length).toBe(1 + 16 + length);
+          expect(await sivDecrypt(sizedKey, envelope)).toStrictEqual(plaintext);
+        });
+      }
+    }
+  });
+
+  it("honours returnAs on both sides", async () => {
+    const hexEnvelope = await sivEncrypt(key, "hello", { returnAs: "hex" });
+    expect(hexEnvelope).toMatch(/^06[0-9a-f]+$/);
+    expect(await sivDecrypt(key, hexEnvelope)).toBe("hello");
+    const bytes = await sivEncrypt(key, "hello", { returnAs: "bytes" });
+    expect(await sivDecrypt(key, bytes, { returnAs: "string" })).toBe("hello");
+    const b64url = Base64.stringify(bytes, { alphabet: "base64url" });
+    expect(await sivDecrypt(key, b64url)).toBe("hello");
+  });
+
+  it("fails with one uniform error for every envelope problem", async () => {
+    const envelope = await sivEncrypt(key, new Uint8Array([1, 2, 3]), { aad: "a" });
+    const tamperedIv = envelope.slice();
+    tamperedIv[1]! ^= 1;
+    const tamperedCiphertext = envelope.slice();
+    tamperedCiphertext[envelope.length - 1]! ^= 1;
+    const wrongVersion = envelope.slice();
+    wrongVersion[0] = 0x01;
+    const chachaEnvelope = await chachaEncrypt(secureRandomBytes(32), new Uint8Array([1, 2, 3]));
+
+    const failed = "Decryption failed.";
+    await expect(sivDecrypt(key, tamperedIv, { aad: "a" })).rejects.toThrow(failed);
+    await expect(sivDecrypt(key, tamperedCiphertext, { aad: "a" })).rejects.toThrow(failed);
+    await expect(sivDecrypt(key, envelope, { aad: "b" })).rejects.toThrow(failed);
+    await expect(sivDecrypt(key, envelope)).rejects.toThrow(failed);
+    await expect(sivDecrypt(secureRandomBytes(64), envelope, { aad: "a" })).rejects.toThrow(failed);
+    await expect(sivDecrypt(key, wrongVersion, { aad: "a" })).rejects.toThrow(failed);
+    await expect(sivDecrypt(key, chachaEnvelope)).rejects.toThrow(failed);
+    await expect(sivDecrypt(key, envelope.subarray(0, 16), { aad: "a" })).rejects.toThrow(failed);
+    await expect(sivDecrypt(key, new Uint8Array(0))).rejects.toThrow(failed);
+    await expect(sivDecrypt(key, "06zz")).rejects.toThrow(failed); // malformed hex
+    await expect(sivDecrypt(key, "B***")).rejects.toThrow(failed); // malformed base64url
+  });
+
+  it("rejects invalid keys and options", async () => {
+    const aesKey = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+      "encrypt",
+    ]);
+    await expect(sivEncrypt("password" as never, "data")).rejects.toThrow(
+      "Encryption keys must be bytes. Derive a key from a password with deriveKeyFromPassword().",
+    );
+    await expect(sivEncrypt(aesKey as never, "data")).rejects.toThrow(
+      "AES-SIV keys must be raw bytes: they split into a CMAC and a CTR key.",
+    );
+    await expect(sivEncrypt(new Uint8Array(16), "data")).rejects.toThrow(
+      "AES-SIV keys must be 32, 48 or 64 bytes, got 16.",
+    );
+    await expect(sivDecrypt(new Uint8Array(31), "BAAA")).rejects.toThrow(
+      "AES-SIV keys must be 32, 48 or 64 bytes, got 31.",
+    );
+    await expect(
+      sivEncrypt(key, "data", { aad: Array.from({ length: 127 }, () => "x") }),
+    ).rejects.toThrow("AES-SIV takes at most 126 associated data components.");
+    // @ts-expect-error testing invalid returnAs
+    await expect(sivEncrypt(key, "data", { returnAs: "base64" })).rejects.toThrow(
+      'Unsupported sivEncrypt "returnAs" option: base64',
+    );
+  });
+});
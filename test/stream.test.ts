@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { createDecryptStream, createEncryptStream } from "../src/stream.ts";
+import { secureRandomBytes } from "../src/random.ts";
+import { Hex } from "../src/utils/index.ts";
+
+// Key 0x00..0x1f, header nonce 32 x 0xa5, 16-byte segments, no aad, plaintext
+// "streaming is fun, really!!" (one full segment and a 10-byte last one).
+// Built from the documented format with node:crypto's hkdfSync and aes-256-gcm.
+const VECTOR_KEY = Uint8Array.from({ length: 32 }, (_, i) => i);
+const VECTOR =
+  "0500000010" +
+  "a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5" +
+  "47fd9fac5a64e4953d9d11f8ff2ff503" +
+  "e1840d11dca3bd6e9477317e401f2e5a" +
+  "454cffdd85e554460e15" +
+  "be13aba2917a6bf9321b6c0613e57c2b";
+
+/** Feed `chunks` through `transform` and concatenate the output. */
+async function pipe(
+  transform: TransformStream<string | BufferSource, Uint8Array>,
+  chunks: (string | BufferSource)[],
+): Promise<Uint8Array<ArrayBuffer>> {
+  const source = new ReadableStream<string | BufferSource>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+      controller.close();
+    },
+  });
+  return new Uint8Array(await new Response(source.pipeThrough(transform)).arrayBuffer());
+}
+
+/** Split bytes into pieces of varying sizes, to cross segment boundaries. */
+function split(bytes: Uint8Array<ArrayBuffer>, sizes: number[]): Uint8Array<ArrayBuffer>[] {
+  const pieces: Uint8Array<ArrayBuffer>[] = [];
+  for (let offset = 0, i = 0; offset < bytes.length; i++) {
+    const size = sizes[i % sizes.length]!;
+    pieces.push(bytes.subarray(offset, offset + size));
+    offset += size;
+  }
+  return pieces;
+}
+
+describe("createEncryptStream / createDecryptStream", () => {
+  const key = secureRandomBytes(32);
+
+  it("decrypts a known-answer stream", async () => {
+    const plaintext = await pipe(createDecryptStream(VECTOR_KEY), [
+      Hex.parse(VECTOR, { returnAs: "bytes" }),
+    ]);
+    expect(new TextDecoder().decode(plaintext)).toBe("streaming is fun, really!!");
+  });
+
+  describe.concurrent("round-trips across arbitrary chunk boundaries", () => {
+    for (const length of [0, 1, 63, 64, 65, 128, 1000]) {
+      it(`${length} bytes`, async () => {
+        const plaintext = secureRandomBytes(length);
+        const encrypted = await pipe(
+          createEncryptStream(key, { chunkSize: 64 }),
+          split(plaintext, [1, 7, 100, 64]),
+        );
+        const segments = Math.max(1, Math.ceil(length / 64));
+        expect(encrypted.length).toBe(37 + length + segments * 16);
+        const decrypted = await pipe(createDecryptStream(key), split(encrypted, [3, 50, 81]));
+        expect(decrypted).toStrictEqual(plaintext);
+      });
+    }
+  });
+
+  it("writes the documented header", async () => {
+    const encrypted = await pipe(createEncryptStream(key, { chunkSize: 1000 }), ["abc"]);
+    expect(Hex.stringify(encrypted.subarray(0, 5))).toBe("05000003e8");
+    const again = await pipe(createEncryptStream(key, { chunkSize: 1000 }), ["abc"]);
+    // Fresh header nonce per stream
+    expect(again.subarray(5, 37)).not.toStrictEqual(encrypted.subarray(5, 37));
+  });
+
+  it("encodes string chunks as UTF-8 and binds aad", async () => {
+    const encrypted = await pipe(createEncryptStream(key, { aad: "backup:1" }), [
+      "héllo ",
+      "wörld",
+    ]);
+    const decrypted = await pipe(createDecryptStream(key, { aad: "backup:1" }), [encrypted]);
+    expect(new TextDecoder().decode(decrypted)).toBe("héllo wörld");
+    await expect(pipe(createDecryptStream(key, { aad: "backup:2" }), [encrypted])).rejects.toThrow(
+      "Decryption failed.",
+    );
+  });
+
+  it("detects truncation, reordering, tampering and trailing data", async () => {
+    const encrypted = await pipe(createEncryptStream(key, { chunkSize: 16 }), [
+      secureRandomBytes(40),
+    ]);
+    // header (37) | segment 0 (32) | segment 1 (32) | last segment (8 + 16)
+    const header = encrypted.subarray(0, 37);
+    const [s0, s1, s2] = [
+      encrypted.subarray(37, 69),
+      encrypted.subarray(69, 101),
+      encrypted.subarray(101),
+    ];
+    const concat = (...parts: Uint8Array[]): Uint8Array<ArrayBuffer> =>
+      new Uint8Array(parts.flatMap((part) => [...part]));
+    const tampered = encrypted.slice();
+    tampered[50]! ^= 1;
+    const badHeader = encrypted.slice();
+    badHeader[4] = 17;
+
+    const open = (stream: BufferSource, openKey: BufferSource = key): Promise<Uint8Array> =>
+      pipe(createDecryptStream(openKey), [stream]);
+    const failed = "Decryption failed.";
+    await expect(open(concat(header, s0, s1))).rejects.toThrow(failed); // dropped last segment
+    await expect(open(concat(header, s0, s2))).rejects.toThrow(failed); // dropped middle segment
+    await expect(open(concat(header, s1, s0, s2))).rejects.toThrow(failed); // reordered
+    await expect(open(concat(encrypted, new Uint8Array(1)))).rejects.toThrow(failed);
+    await expect(open(concat(encrypted, s2))).rejects.toThrow(failed); // appended segment
+    await expect(open(tampered)).rejects.toThrow(failed);
+    await expect(open(badHeader)).rejects.toThrow(failed);
+    await expect(open(header)).rejects.toThrow(failed);
+    await expect(open(encrypted.subarray(0, 20))).rejects.toThrow(failed);
+    await expect(open(new Uint8Array(0))).rejects.toThrow(failed);
+    await expect(open(encrypted, secureRandomBytes(32))).rejects.toThrow(failed);
+  });
+
+  it("rejects invalid keys and chunk sizes", () => {
+    // @ts-expect-error testing string key
+    expect(() => createEncryptStream("password")).toThrow("Encryption keys must be bytes.");
+    expect(() => createDecryptStream(new Uint8Array(20))).toThrow(
+      "Stream keys must be 16, 24 or 32 bytes, got 20.",
+    );
+    for (const chunkSize of [0, 1.5, 16_777_217]) {
+      expect(() => createEncryptStream(key, { chunkSize })).toThrow(
+        "chunkSize must be an integer between 1 and 16777216.",
+      );
+    }
+  });
+});